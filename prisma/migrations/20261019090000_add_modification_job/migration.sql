@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "ModificationJob" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "adminId" TEXT,
+    "message" TEXT NOT NULL,
+    "input" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "currentStep" TEXT,
+    "steps" TEXT NOT NULL,
+    "result" TEXT,
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "completedAt" DATETIME
+);
+
+-- CreateIndex
+CREATE INDEX "ModificationJob_status_idx" ON "ModificationJob"("status");
+
+-- CreateIndex
+CREATE INDEX "ModificationJob_adminId_idx" ON "ModificationJob"("adminId");
@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "WorktreeLock" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "jobId" TEXT NOT NULL,
+    "adminId" TEXT,
+    "acquiredAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "leaseExpiresAt" DATETIME NOT NULL
+);
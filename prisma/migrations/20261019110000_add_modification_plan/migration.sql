@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "ModificationPlan" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "adminId" TEXT,
+    "message" TEXT NOT NULL,
+    "plan" TEXT NOT NULL,
+    "agentSessionId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PROPOSED',
+    "jobId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "ModificationPlan_adminId_idx" ON "ModificationPlan"("adminId");
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "AgentUsage" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "jobId" TEXT,
+    "adminId" TEXT,
+    "provider" TEXT NOT NULL,
+    "model" TEXT,
+    "operation" TEXT NOT NULL,
+    "inputTokens" INTEGER NOT NULL DEFAULT 0,
+    "outputTokens" INTEGER NOT NULL DEFAULT 0,
+    "costUsd" REAL NOT NULL DEFAULT 0,
+    "durationMs" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "AgentUsage_jobId_idx" ON "AgentUsage"("jobId");
+
+-- CreateIndex
+CREATE INDEX "AgentUsage_adminId_idx" ON "AgentUsage"("adminId");
+
+-- CreateIndex
+CREATE INDEX "AgentUsage_createdAt_idx" ON "AgentUsage"("createdAt");
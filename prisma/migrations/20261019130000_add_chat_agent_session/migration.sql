@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Chat" ADD COLUMN "title" TEXT;
+ALTER TABLE "Chat" ADD COLUMN "agentSessionId" TEXT;
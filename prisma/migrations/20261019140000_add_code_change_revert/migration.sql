@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "CodeChange" ADD COLUMN "revertedBy" TEXT;
+ALTER TABLE "CodeChange" ADD COLUMN "revertedAt" DATETIME;
+ALTER TABLE "CodeChange" ADD COLUMN "revertCommitHash" TEXT;
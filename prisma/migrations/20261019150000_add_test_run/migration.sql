@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "TestRun" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "jobId" TEXT,
+    "commitHash" TEXT,
+    "trigger" TEXT NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "passed" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "skipped" INTEGER NOT NULL DEFAULT 0,
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "duration" INTEGER NOT NULL DEFAULT 0,
+    "tests" TEXT NOT NULL,
+    "stages" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "TestRun_jobId_idx" ON "TestRun"("jobId");
+
+-- CreateIndex
+CREATE INDEX "TestRun_createdAt_idx" ON "TestRun"("createdAt");
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "TestOutcome" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "testRunId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "file" TEXT NOT NULL DEFAULT '',
+    "fullName" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "TestQuarantine" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "file" TEXT NOT NULL DEFAULT '',
+    "fullName" TEXT NOT NULL,
+    "reason" TEXT,
+    "quarantinedBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "TestOutcome_file_fullName_idx" ON "TestOutcome"("file", "fullName");
+
+-- CreateIndex
+CREATE INDEX "TestOutcome_createdAt_idx" ON "TestOutcome"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TestQuarantine_file_fullName_key" ON "TestQuarantine"("file", "fullName");
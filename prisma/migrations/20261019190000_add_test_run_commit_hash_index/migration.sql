@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "TestRun_commitHash_idx" ON "TestRun"("commitHash");
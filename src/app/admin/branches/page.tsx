@@ -0,0 +1,167 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import AdminHeader from '@/components/admin/AdminHeader';
+
+/**
+ * AI branch information
+ */
+interface AiBranch {
+  name: string;
+  jobId: string;
+  commit?: string;
+  current: boolean;
+  job: {
+    message: string;
+    status: string;
+    error: string | null;
+    createdAt: string;
+  } | null;
+}
+
+/**
+ * Admin AI Branches Page
+ *
+ * Each modification runs on its own ai/<job-id> branch. Branches of
+ * successful jobs are merged into staging and deleted; branches of failed
+ * jobs stay here for inspection until an admin deletes them.
+ */
+export default function AdminBranchesPage() {
+  const [branches, setBranches] = useState<AiBranch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadBranches();
+  }, []);
+
+  /**
+   * Load AI branches from API
+   */
+  const loadBranches = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/code/branches');
+
+      if (!response.ok) {
+        throw new Error('Failed to load branches');
+      }
+
+      const data = await response.json();
+      setBranches(data.branches || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Delete a branch after confirmation
+   */
+  const handleDelete = async (branch: AiBranch) => {
+    if (!confirm(`Delete branch ${branch.name}?\n\nIts commits will be lost.`)) {
+      return;
+    }
+
+    try {
+      setDeleting(branch.jobId);
+      const response = await fetch(`/api/code/branches/${branch.jobId}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to delete branch');
+      }
+
+      setBranches((prev) => prev.filter((b) => b.name !== branch.name));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete branch');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminHeader />
+      <div className="p-8">
+        <div className="max-w-7xl mx-auto">
+        {/* Page Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">AI Branches</h1>
+          <p className="mt-2 text-gray-600">
+            Branches of modifications that were not merged into staging, kept for inspection.
+          </p>
+        </div>
+
+        {/* Loading state */}
+        {isLoading && (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-4 text-gray-600">Loading branches...</p>
+          </div>
+        )}
+
+        {/* Error state */}
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-red-800">Error: {error}</p>
+          </div>
+        )}
+
+        {!isLoading && !error && branches.length === 0 && (
+          <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
+            <p className="text-gray-600">No AI branches.</p>
+            <p className="mt-2 text-sm text-gray-500">
+              Branches of failed modifications will appear here.
+            </p>
+          </div>
+        )}
+
+        {!isLoading && !error && branches.length > 0 && (
+          <div className="space-y-4">
+            {branches.map((branch) => (
+              <div
+                key={branch.name}
+                className="bg-white rounded-lg border border-gray-200 p-6"
+              >
+                <div className="flex items-start justify-between">
+                  <div className="flex-1">
+                    <h3 className="font-medium text-gray-900">
+                      {branch.job?.message || 'Unknown job'}
+                    </h3>
+                    <div className="mt-2 flex items-center space-x-4 text-sm text-gray-600">
+                      <span className="font-mono text-xs bg-gray-100 px-2 py-1 rounded">
+                        {branch.name}
+                      </span>
+                      {branch.commit && <span className="font-mono text-xs">{branch.commit}</span>}
+                      {branch.job && <span>{new Date(branch.job.createdAt).toLocaleString()}</span>}
+                      {branch.job && <span>{branch.job.status}</span>}
+                    </div>
+                    {branch.job?.error && (
+                      <p className="mt-2 text-sm text-red-700">{branch.job.error}</p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleDelete(branch)}
+                    disabled={
+                      branch.current ||
+                      deleting === branch.jobId ||
+                      branch.job?.status === 'PENDING' ||
+                      branch.job?.status === 'RUNNING'
+                    }
+                    className="text-sm text-red-600 hover:text-red-800 disabled:text-gray-400"
+                  >
+                    {deleting === branch.jobId ? 'Deleting...' : 'Delete'}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -57,6 +57,9 @@ export default function AdminCodePage() {
                   <li>
                     <strong>Promote to production:</strong> When ready, promote tested changes
                   </li>
+                  <li>
+                    <strong>Saved conversations:</strong> Reopen a past conversation from the sidebar to continue it
+                  </li>
                 </ul>
               </div>
             </div>
@@ -2,41 +2,102 @@
 
 import { useEffect, useState } from 'react';
 import AdminHeader from '@/components/admin/AdminHeader';
+import CommitDiffViewer from '@/components/admin/CommitDiffViewer';
 
 /**
- * Git commit information
+ * Recorded code change (one AI commit)
  */
 interface GitCommit {
   hash: string;
   shortHash: string;
   message: string;
   author: string;
+  adminId: string;
   date: string;
   files: string[];
+  changes: FileChange[] | null; // From git; null when the commit is no longer there
+  additions: number | null;
+  deletions: number | null;
+  testsPassed: boolean;
+  deployedToStaging: boolean;
+  deployedToProduction: boolean;
+  revertedBy: string | null;
+  revertedAt: string | null;
+  revertCommitHash: string | null;
 }
 
+/**
+ * One file changed by a commit
+ */
+interface FileChange {
+  path: string;
+  oldPath?: string;
+  status: 'added' | 'modified' | 'deleted' | 'renamed' | 'copied' | 'type-changed' | 'unknown';
+  additions: number | null; // null for binary files
+  deletions: number | null;
+}
+
+/**
+ * Admin that has made changes (filter option)
+ */
+interface HistoryAdmin {
+  id: string;
+  name: string;
+  email: string;
+}
+
+/**
+ * History filters (empty string = all)
+ */
+interface HistoryFilters {
+  adminId: string;
+  tests: '' | 'passed' | 'failed';
+  deployment: '' | 'production' | 'staging' | 'local';
+  path: string;
+}
+
+/**
+ * Reverts run as background modification jobs; the page polls their status
+ */
+const JOB_POLL_INTERVAL_MS = 2000;
+
 /**
  * Admin Change History Page
  *
- * Displays all past code modifications made by the AI agent.
- * Shows git commit history with details.
+ * Displays all past code modifications made by the AI agent,
+ * as recorded in the CodeChange table, with test and deployment status.
+ * Each change can be inspected as a side-by-side diff and reverted.
  */
 export default function AdminHistoryPage() {
   const [commits, setCommits] = useState<GitCommit[]>([]);
+  const [admins, setAdmins] = useState<HistoryAdmin[]>([]);
+  const [filters, setFilters] = useState<HistoryFilters>({ adminId: '', tests: '', deployment: '', path: '' });
+  const [pathInput, setPathInput] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [diffHash, setDiffHash] = useState<string | null>(null);
+  const [revertingHash, setRevertingHash] = useState<string | null>(null);
+  const [revertNotice, setRevertNotice] = useState<{ success: boolean; message: string } | null>(null);
 
   useEffect(() => {
-    loadCommitHistory();
-  }, []);
+    loadCommitHistory(filters);
+  }, [filters]);
 
   /**
-   * Load commit history from API
+   * Load change history from API
    */
-  const loadCommitHistory = async () => {
+  const loadCommitHistory = async (currentFilters: HistoryFilters) => {
     try {
       setIsLoading(true);
-      const response = await fetch('/api/code/history');
+      setError(null);
+
+      const params = new URLSearchParams();
+      if (currentFilters.adminId) params.set('adminId', currentFilters.adminId);
+      if (currentFilters.tests) params.set('tests', currentFilters.tests);
+      if (currentFilters.deployment) params.set('deployment', currentFilters.deployment);
+      if (currentFilters.path) params.set('path', currentFilters.path);
+
+      const response = await fetch(`/api/code/history?${params.toString()}`);
 
       if (!response.ok) {
         throw new Error('Failed to load commit history');
@@ -44,6 +105,7 @@ export default function AdminHistoryPage() {
 
       const data = await response.json();
       setCommits(data.commits || []);
+      setAdmins(data.admins || []);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
     } finally {
@@ -51,6 +113,70 @@ export default function AdminHistoryPage() {
     }
   };
 
+  /**
+   * Poll a revert job until it reaches a terminal state
+   */
+  const waitForJob = async (jobId: string) => {
+    while (true) {
+      const response = await fetch(`/api/code/jobs/${jobId}`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load revert status');
+      }
+
+      if (data.job.status === 'COMPLETED' || data.job.status === 'FAILED' || data.job.status === 'CANCELLED') {
+        return data.job;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    }
+  };
+
+  /**
+   * Revert a commit on staging (tests run before it is merged and pushed)
+   */
+  const handleRevert = async (commit: GitCommit) => {
+    if (
+      !confirm(
+        `Are you sure you want to revert this commit?\n\nCommit: ${commit.shortHash}\n${commit.message}\n\n` +
+          'A revert commit is created, tested and then merged into staging and pushed.'
+      )
+    ) {
+      return;
+    }
+
+    setRevertingHash(commit.hash);
+    setRevertNotice(null);
+
+    try {
+      const response = await fetch(`/api/code/commits/${commit.hash}/revert`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to revert commit');
+      }
+
+      const job = await waitForJob(data.jobId);
+      if (job.status !== 'COMPLETED') {
+        throw new Error(job.error || 'Revert was cancelled');
+      }
+
+      const tests = job.result?.tests;
+      setRevertNotice({
+        success: true,
+        message: `Reverted ${commit.shortHash} with ${job.result?.commit?.hash?.substring(0, 7)}${
+          tests && !tests.skipped ? ` (tests ${tests.passed}/${tests.total} passed)` : ''
+        }`,
+      });
+      await loadCommitHistory(filters);
+    } catch (err) {
+      setRevertNotice({ success: false, message: err instanceof Error ? err.message : 'Unknown error' });
+    } finally {
+      setRevertingHash(null);
+    }
+  };
+
   /**
    * Format date for display
    */
@@ -59,6 +185,36 @@ export default function AdminHistoryPage() {
     return date.toLocaleString();
   };
 
+  /**
+   * Deployment badge for a change
+   */
+  const deploymentBadge = (commit: GitCommit) => {
+    if (commit.deployedToProduction) {
+      return <span className="text-xs px-2 py-1 rounded bg-green-100 text-green-800">Production</span>;
+    }
+    if (commit.deployedToStaging) {
+      return <span className="text-xs px-2 py-1 rounded bg-blue-100 text-blue-800">Staging</span>;
+    }
+    return <span className="text-xs px-2 py-1 rounded bg-gray-100 text-gray-700">Not pushed</span>;
+  };
+
+  /**
+   * Badge colours for a file change status
+   */
+  const statusBadgeClass = (status: FileChange['status']) => {
+    switch (status) {
+      case 'added':
+        return 'bg-green-100 text-green-800';
+      case 'deleted':
+        return 'bg-red-100 text-red-800';
+      case 'renamed':
+      case 'copied':
+        return 'bg-purple-100 text-purple-800';
+      default:
+        return 'bg-yellow-100 text-yellow-800';
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-50">
       <AdminHeader />
@@ -95,6 +251,80 @@ export default function AdminHistoryPage() {
           </a>
         </div>
 
+        {/* Filters */}
+        <div className="mb-6 bg-white rounded-lg border border-gray-200 p-4 flex flex-wrap gap-4">
+          <label className="text-sm text-gray-700">
+            Admin
+            <select
+              value={filters.adminId}
+              onChange={(e) => setFilters({ ...filters, adminId: e.target.value })}
+              className="ml-2 border border-gray-300 rounded px-2 py-1"
+            >
+              <option value="">All</option>
+              {admins.map((admin) => (
+                <option key={admin.id} value={admin.id}>
+                  {admin.name || admin.email}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            Tests
+            <select
+              value={filters.tests}
+              onChange={(e) => setFilters({ ...filters, tests: e.target.value as HistoryFilters['tests'] })}
+              className="ml-2 border border-gray-300 rounded px-2 py-1"
+            >
+              <option value="">All</option>
+              <option value="passed">Passed</option>
+              <option value="failed">Failed / not run</option>
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            Deployment
+            <select
+              value={filters.deployment}
+              onChange={(e) => setFilters({ ...filters, deployment: e.target.value as HistoryFilters['deployment'] })}
+              className="ml-2 border border-gray-300 rounded px-2 py-1"
+            >
+              <option value="">All</option>
+              <option value="production">Production</option>
+              <option value="staging">Staging only</option>
+              <option value="local">Not pushed</option>
+            </select>
+          </label>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setFilters({ ...filters, path: pathInput.trim() });
+            }}
+            className="text-sm text-gray-700"
+          >
+            <label>
+              Path
+              <input
+                type="text"
+                value={pathInput}
+                onChange={(e) => setPathInput(e.target.value)}
+                onBlur={() => setFilters({ ...filters, path: pathInput.trim() })}
+                placeholder="e.g. src/app/admin"
+                className="ml-2 border border-gray-300 rounded px-2 py-1 font-mono"
+              />
+            </label>
+          </form>
+        </div>
+
+        {/* Revert outcome */}
+        {revertNotice && (
+          <div
+            className={`mb-6 rounded-lg p-4 border ${
+              revertNotice.success ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-800'
+            }`}
+          >
+            {revertNotice.message}
+          </div>
+        )}
+
         {/* Loading state */}
         {isLoading && (
           <div className="text-center py-12">
@@ -107,9 +337,6 @@ export default function AdminHistoryPage() {
         {error && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-4">
             <p className="text-red-800">Error: {error}</p>
-            <p className="mt-2 text-sm text-red-600">
-              Note: The history API endpoint is not yet implemented. This will show git commits once the API is ready.
-            </p>
           </div>
         )}
 
@@ -142,10 +369,54 @@ export default function AdminHistoryPage() {
                       <span>{formatDate(commit.date)}</span>
                     </div>
                   </div>
+                  <div className="flex items-center space-x-2">
+                    <span
+                      className={`text-xs px-2 py-1 rounded ${
+                        commit.testsPassed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                      }`}
+                    >
+                      {commit.testsPassed ? 'Tests passed' : 'Tests failed / not run'}
+                    </span>
+                    {deploymentBadge(commit)}
+                    {commit.revertedAt && (
+                      <span
+                        className="text-xs px-2 py-1 rounded bg-gray-800 text-white"
+                        title={`${commit.revertedBy} on ${formatDate(commit.revertedAt)}`}
+                      >
+                        Reverted{commit.revertCommitHash ? ` in ${commit.revertCommitHash.substring(0, 7)}` : ''}
+                      </span>
+                    )}
+                  </div>
                 </div>
 
-                {/* Files changed */}
-                {commit.files && commit.files.length > 0 && (
+                {/* Files changed (from git when available, else as recorded) */}
+                {commit.changes && commit.changes.length > 0 ? (
+                  <div className="mt-4 pt-4 border-t border-gray-200">
+                    <p className="text-sm font-medium text-gray-700 mb-2">
+                      Files changed ({commit.changes.length}):{' '}
+                      <span className="text-green-700">+{commit.additions}</span>{' '}
+                      <span className="text-red-700">-{commit.deletions}</span>
+                    </p>
+                    <ul className="text-sm text-gray-600 space-y-1">
+                      {commit.changes.map((file) => (
+                        <li key={file.path} className="font-mono flex items-center space-x-2">
+                          <span className={`text-xs px-1 rounded ${statusBadgeClass(file.status)}`}>
+                            {file.status}
+                          </span>
+                          <span>{file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}</span>
+                          {file.additions === null ? (
+                            <span className="text-xs text-gray-400">binary</span>
+                          ) : (
+                            <span className="text-xs">
+                              <span className="text-green-700">+{file.additions}</span>{' '}
+                              <span className="text-red-700">-{file.deletions}</span>
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : commit.files && commit.files.length > 0 && (
                   <div className="mt-4 pt-4 border-t border-gray-200">
                     <p className="text-sm font-medium text-gray-700 mb-2">
                       Files changed ({commit.files.length}):
@@ -163,29 +434,21 @@ export default function AdminHistoryPage() {
                 {/* Actions */}
                 <div className="mt-4 pt-4 border-t border-gray-200 flex space-x-3">
                   <button
-                    onClick={() => {
-                      // TODO: Implement view diff
-                      alert('View diff functionality coming soon');
-                    }}
-                    className="text-sm text-blue-600 hover:text-blue-800"
+                    onClick={() => setDiffHash(commit.hash)}
+                    disabled={commit.changes === null}
+                    className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
                   >
                     View Diff
                   </button>
-                  <button
-                    onClick={() => {
-                      // TODO: Implement revert
-                      if (
-                        confirm(
-                          `Are you sure you want to revert this commit?\n\nCommit: ${commit.shortHash}\n${commit.message}`
-                        )
-                      ) {
-                        alert('Revert functionality coming soon');
-                      }
-                    }}
-                    className="text-sm text-red-600 hover:text-red-800"
-                  >
-                    Revert
-                  </button>
+                  {!commit.revertedAt && (
+                    <button
+                      onClick={() => handleRevert(commit)}
+                      disabled={commit.changes === null || revertingHash !== null}
+                      className="text-sm text-red-600 hover:text-red-800 disabled:text-gray-400"
+                    >
+                      {revertingHash === commit.hash ? 'Reverting...' : 'Revert'}
+                    </button>
+                  )}
                 </div>
               </div>
             ))}
@@ -193,6 +456,9 @@ export default function AdminHistoryPage() {
         )}
         </div>
       </div>
+
+      {/* Diff viewer */}
+      {diffHash && <CommitDiffViewer hash={diffHash} onClose={() => setDiffHash(null)} />}
     </div>
   );
 }
@@ -0,0 +1,539 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import AdminHeader from '@/components/admin/AdminHeader';
+
+/**
+ * Test run as listed by GET /api/code/tests
+ */
+interface TestRunSummary {
+  id: string;
+  jobId: string | null;
+  commitHash: string | null;
+  trigger: 'job' | 'repair' | 'revert';
+  scope: 'impacted' | 'full';
+  success: boolean;
+  passed: number;
+  failed: number;
+  skipped: number;
+  total: number;
+  duration: number;
+  createdAt: string;
+}
+
+/**
+ * Result of one test
+ */
+interface TestCase {
+  type: 'unit' | 'integration' | 'e2e';
+  file: string | null;
+  suite: string;
+  name: string;
+  fullName: string;
+  status: 'passed' | 'failed' | 'flaky' | 'skipped';
+  duration: number | null;
+  attempts?: number;
+  quarantined?: boolean;
+  failureMessage?: string;
+  stack?: string;
+}
+
+/**
+ * Test run as returned by GET /api/code/tests/:id
+ */
+interface TestRunDetails extends TestRunSummary {
+  tests: TestCase[];
+  stages: Array<{ name: string; policy: string; status: string; summary: string; coverage?: ChangedCoverage }>;
+}
+
+/**
+ * Coverage of the lines a change touched (the coverage stage)
+ */
+interface ChangedCoverage {
+  minimum: number;
+  baseline?: boolean; // Not stored with older runs
+  files: Array<{
+    file: string;
+    changed: number;
+    covered: number;
+    uncoveredLines: number[];
+    before: number | null;
+    after: number | null;
+    gated: boolean;
+  }>;
+}
+
+/**
+ * Quarantined test as listed by GET /api/code/tests/flaky
+ */
+interface QuarantinedTest {
+  id: string;
+  file: string | null;
+  fullName: string;
+  reason: string | null;
+  quarantinedBy: string | null;
+  createdAt: string;
+}
+
+/**
+ * Recent failures of a test as listed by GET /api/code/tests/flaky
+ */
+interface TestFlakiness {
+  type: TestCase['type'];
+  file: string | null;
+  fullName: string;
+  runs: number;
+  passed: number;
+  failed: number;
+  flaky: number;
+  score: number;
+  lastFailedAt: string | null;
+  quarantine: QuarantinedTest | null;
+}
+
+const TRIGGER_LABELS: Record<TestRunSummary['trigger'], string> = {
+  job: 'Modification',
+  repair: 'Repair attempt',
+  revert: 'Revert',
+};
+
+/**
+ * Fetch one run with its tests
+ */
+async function fetchRun(id: string): Promise<TestRunDetails> {
+  const response = await fetch(`/api/code/tests/${id}`);
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || 'Failed to load test run');
+  }
+
+  return data.run;
+}
+
+/**
+ * Fetch the flakiest tests and the quarantined ones
+ */
+async function fetchFlakiness(): Promise<{ tests: TestFlakiness[]; quarantined: QuarantinedTest[] }> {
+  const response = await fetch('/api/code/tests/flaky');
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || 'Failed to load flaky tests');
+  }
+
+  return { tests: data.tests, quarantined: data.quarantined };
+}
+
+/**
+ * Identity of a test across runs (as the test runner keys it)
+ */
+function testKey(test: { file: string | null; fullName: string }): string {
+  return `${test.file || ''} › ${test.fullName}`;
+}
+
+/**
+ * Admin Tests Page
+ *
+ * Test runs of modification jobs, repair attempts and reverts, with every
+ * test's result. Failed tests come first with their message and stack, so
+ * it is clear which test broke an AI change. `?jobId=` shows only the runs
+ * of one job and `?run=` opens a run.
+ *
+ * Tests that failed or were flaky recently are listed with their flakiness
+ * score; quarantining one keeps it running but stops it blocking AI commits.
+ */
+export default function AdminTestsPage() {
+  const [runs, setRuns] = useState<TestRunSummary[]>([]);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<TestRunDetails | null>(null);
+  const [flakyTests, setFlakyTests] = useState<TestFlakiness[]>([]);
+  const [quarantined, setQuarantined] = useState<QuarantinedTest[]>([]);
+  const [updatingTest, setUpdatingTest] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadRuns();
+  }, []);
+
+  /**
+   * Load the recent runs (of the job in ?jobId=) and open one: the run in
+   * ?run=, else the newest
+   */
+  const loadRuns = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams(window.location.search);
+      const filterJobId = params.get('jobId');
+      const runId = params.get('run');
+      setJobId(filterJobId);
+
+      const response = await fetch(`/api/code/tests${filterJobId ? `?jobId=${encodeURIComponent(filterJobId)}` : ''}`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load test runs');
+      }
+
+      setRuns(data.runs);
+      const flakiness = await fetchFlakiness();
+      setFlakyTests(flakiness.tests);
+      setQuarantined(flakiness.quarantined);
+      const initialRun = runId || data.runs[0]?.id;
+      if (initialRun) {
+        setSelected(await fetchRun(initialRun));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Load one run with its tests
+   */
+  const loadRun = async (id: string) => {
+    try {
+      setSelected(await fetchRun(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  /**
+   * Quarantine a test (asking why) or lift its quarantine
+   */
+  const toggleQuarantine = async (test: { file: string | null; fullName: string }, quarantine: boolean) => {
+    const reason = quarantine
+      ? prompt(`Quarantine "${test.fullName}"?\n\nIt keeps running, but its failures no longer block AI changes. Reason (optional):`)
+      : null;
+    if (quarantine && reason === null) {
+      return;
+    }
+
+    setUpdatingTest(testKey(test));
+    try {
+      const response = await fetch('/api/code/tests/quarantine', {
+        method: quarantine ? 'POST' : 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ file: test.file, fullName: test.fullName, ...(reason && { reason }) }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to update the quarantine');
+      }
+
+      const flakiness = await fetchFlakiness();
+      setFlakyTests(flakiness.tests);
+      setQuarantined(flakiness.quarantined);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setUpdatingTest(null);
+    }
+  };
+
+  const quarantinedKeys = new Set(quarantined.map(testKey));
+
+  /**
+   * Button quarantining a test or lifting its quarantine
+   */
+  const quarantineButton = (test: { file: string | null; fullName: string }) => {
+    const isQuarantined = quarantinedKeys.has(testKey(test));
+    return (
+      <button
+        onClick={() => toggleQuarantine(test, !isQuarantined)}
+        disabled={updatingTest === testKey(test)}
+        className="text-xs text-gray-600 hover:text-gray-900 px-2 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 whitespace-nowrap"
+      >
+        {isQuarantined ? 'Lift quarantine' : 'Quarantine'}
+      </button>
+    );
+  };
+
+  // Quarantined tests that have not failed recently are listed too, so they can be lifted
+  const flakyRows: TestFlakiness[] = [
+    ...flakyTests,
+    ...quarantined
+      .filter((test) => !flakyTests.some((flaky) => testKey(flaky) === testKey(test)))
+      .map((test) => ({ type: 'unit' as const, file: test.file, fullName: test.fullName, runs: 0, passed: 0, failed: 0, flaky: 0, score: 0, lastFailedAt: null, quarantine: test })),
+  ];
+
+  const formatDuration = (ms: number | null) => (ms === null ? '' : ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+  const failedTests = selected?.tests.filter((test) => test.status === 'failed') || [];
+  const otherTests = selected?.tests.filter((test) => test.status !== 'failed') || [];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminHeader />
+      <div className="p-8">
+        <div className="max-w-7xl mx-auto">
+        {/* Page Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Tests</h1>
+          <p className="mt-2 text-gray-600">
+            Test runs of AI changes, repair attempts and reverts, test by test.
+          </p>
+          {jobId && (
+            <p className="mt-2 text-sm text-gray-700">
+              Runs of job <span className="font-mono">{jobId}</span> •{' '}
+              <a href="/admin/tests" className="text-blue-600 hover:underline">
+                Show all runs
+              </a>
+            </p>
+          )}
+        </div>
+
+        {/* Loading state */}
+        {isLoading && (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-4 text-gray-600">Loading test runs...</p>
+          </div>
+        )}
+
+        {/* Error state */}
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-800">Error: {error}</p>
+          </div>
+        )}
+
+        {/* Flaky and quarantined tests */}
+        {!isLoading && flakyRows.length > 0 && (
+          <details className="bg-white rounded-lg border border-amber-200 mb-6" open={flakyTests.some((test) => test.flaky > 0)}>
+            <summary className="px-4 py-3 cursor-pointer font-medium text-amber-800 select-none">
+              Flaky and failing tests, last 30 days ({flakyTests.length}) • {quarantined.length} quarantined
+            </summary>
+            <table className="w-full text-sm">
+              <thead className="text-xs text-gray-500 text-left">
+                <tr className="border-t border-gray-100">
+                  <th className="px-4 py-2 font-normal">Test</th>
+                  <th className="py-2 font-normal">Flaky</th>
+                  <th className="py-2 font-normal">Failed</th>
+                  <th className="py-2 font-normal">Last failure</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {flakyRows.map((test) => (
+                  <tr key={testKey(test)} className="border-t border-gray-100 align-top">
+                    <td className="px-4 py-2 text-gray-900">
+                      {test.fullName}
+                      <span className="ml-2 text-xs text-gray-400">{test.file}</span>
+                      {test.quarantine && (
+                        <p className="text-xs text-amber-700">
+                          Quarantined {new Date(test.quarantine.createdAt).toLocaleDateString()}
+                          {test.quarantine.reason && `: ${test.quarantine.reason}`}
+                        </p>
+                      )}
+                    </td>
+                    <td className="py-2 text-gray-700 whitespace-nowrap">
+                      {test.runs > 0 ? `${Math.round(test.score * 100)}% (${test.flaky}/${test.runs} runs)` : '—'}
+                    </td>
+                    <td className="py-2 text-gray-700">{test.runs > 0 ? test.failed : '—'}</td>
+                    <td className="py-2 text-xs text-gray-500 whitespace-nowrap">
+                      {test.lastFailedAt ? new Date(test.lastFailedAt).toLocaleString() : '—'}
+                    </td>
+                    <td className="px-4 py-2 text-right">{quarantineButton(test)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </details>
+        )}
+
+        {!isLoading && runs.length === 0 && !error && (
+          <div className="bg-white rounded-lg border border-gray-200 p-6 text-gray-500">
+            No test runs recorded yet.
+          </div>
+        )}
+
+        {!isLoading && runs.length > 0 && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Runs */}
+            <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100 self-start">
+              {runs.map((run) => (
+                <button
+                  key={run.id}
+                  onClick={() => loadRun(run.id)}
+                  className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${selected?.id === run.id ? 'bg-blue-50' : ''}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className={`text-sm font-medium ${run.success ? 'text-green-700' : 'text-red-700'}`}>
+                      {run.success ? '✓' : '✗'} {run.passed}/{run.total} passed
+                      {run.failed > 0 && `, ${run.failed} failed`}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {TRIGGER_LABELS[run.trigger]}
+                      {run.scope === 'impacted' && ' • impacted tests'}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {new Date(run.createdAt).toLocaleString()}
+                    {run.commitHash && <span className="ml-2 font-mono">{run.commitHash.substring(0, 7)}</span>}
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            {/* Selected run */}
+            {selected && (
+              <div className="lg:col-span-2 space-y-6">
+                <div className="bg-white rounded-lg border border-gray-200 p-4">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <h2 className="font-medium text-gray-900">
+                        {TRIGGER_LABELS[selected.trigger]}
+                        {selected.scope === 'impacted' && ' (impacted tests only)'} •{' '}
+                        {new Date(selected.createdAt).toLocaleString()}
+                      </h2>
+                      <p className="mt-1 text-sm text-gray-600">
+                        <span className="text-green-700">{selected.passed} passed</span> •{' '}
+                        <span className="text-red-700">{selected.failed} failed</span> • {selected.skipped} skipped •{' '}
+                        {formatDuration(selected.duration)}
+                      </p>
+                      <p className="mt-1 text-xs text-gray-500">
+                        {selected.jobId && (
+                          <>
+                            Job{' '}
+                            <a href={`/admin/tests?jobId=${selected.jobId}`} className="font-mono text-blue-600 hover:underline">
+                              {selected.jobId}
+                            </a>{' '}
+                          </>
+                        )}
+                        {selected.commitHash && <span className="font-mono">{selected.commitHash.substring(0, 7)}</span>}
+                      </p>
+                    </div>
+                    <a
+                      href={`/api/code/tests/${selected.id}/junit`}
+                      className="text-sm text-gray-600 hover:text-gray-900 px-3 py-1 border border-gray-300 rounded hover:bg-gray-50"
+                    >
+                      JUnit XML
+                    </a>
+                  </div>
+
+                  {selected.stages.length > 0 && (
+                    <ul className="mt-3 text-sm space-y-1">
+                      {selected.stages.map((stage) => (
+                        <li key={stage.name} className={stage.status === 'failed' ? 'text-red-700' : 'text-gray-700'}>
+                          {stage.name} {stage.status}
+                          {stage.status === 'failed' && stage.policy === 'warn' && ' (warning only)'}: {stage.summary}
+                          {stage.coverage && stage.coverage.files.length > 0 && (
+                            <ul className="mt-1 ml-4 text-xs text-gray-600 space-y-0.5">
+                              {stage.coverage.files.map((file) => (
+                                <li key={file.file}>
+                                  <span className="font-mono">{file.file}</span>: {file.covered}/{file.changed} changed lines
+                                  covered • file{' '}
+                                  {file.before !== null ? `${file.before}%` : stage.coverage?.baseline === false ? 'no baseline' : 'new'} → {file.after ?? '?'}%
+                                  {!file.gated && ' (not gated)'}
+                                  {file.uncoveredLines.length > 0 && (
+                                    <span className="text-red-700"> • uncovered: {file.uncoveredLines.join(', ')}</span>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                {/* Failed tests */}
+                {failedTests.length > 0 && (
+                  <div className="bg-white rounded-lg border border-red-200">
+                    <h2 className="px-4 py-3 border-b border-red-200 font-medium text-red-800">
+                      Failed tests ({failedTests.length})
+                    </h2>
+                    <div className="divide-y divide-gray-100">
+                      {failedTests.map((test, idx) => (
+                        <div key={`${test.file}:${test.fullName}:${idx}`} className="px-4 py-3">
+                          <div className="flex items-start justify-between gap-4">
+                            <div>
+                              <p className="text-sm font-medium text-gray-900">
+                                {test.suite && <span className="text-gray-500">{test.suite} › </span>}
+                                {test.name}
+                              </p>
+                              <p className="text-xs text-gray-500">
+                                {test.type} • {test.file || 'unknown file'} {test.duration !== null && `• ${formatDuration(test.duration)}`}
+                                {test.attempts && test.attempts > 1 && ` • failed ${test.attempts} times`}
+                                {test.quarantined && <span className="text-amber-700"> • quarantined (did not fail the run)</span>}
+                              </p>
+                            </div>
+                            {quarantineButton(test)}
+                          </div>
+                          {test.failureMessage && (
+                            <pre className="mt-2 text-xs bg-red-50 text-red-900 rounded p-2 whitespace-pre-wrap break-all">
+                              {test.failureMessage}
+                            </pre>
+                          )}
+                          {test.stack && (
+                            <details className="mt-2 text-xs">
+                              <summary className="cursor-pointer text-gray-600 select-none">Stack trace</summary>
+                              <pre className="mt-1 bg-gray-50 text-gray-700 rounded p-2 whitespace-pre-wrap break-all">
+                                {test.stack}
+                              </pre>
+                            </details>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Passed and skipped tests */}
+                {otherTests.length > 0 && (
+                  <details className="bg-white rounded-lg border border-gray-200" open={failedTests.length === 0}>
+                    <summary className="px-4 py-3 cursor-pointer font-medium text-gray-900 select-none">
+                      Other tests ({otherTests.length})
+                    </summary>
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {otherTests.map((test, idx) => (
+                          <tr key={`${test.file}:${test.fullName}:${idx}`} className="border-t border-gray-100">
+                            <td
+                              className={`px-4 py-2 w-6 ${
+                                test.status === 'passed' ? 'text-green-600' : test.status === 'flaky' ? 'text-amber-600' : 'text-gray-400'
+                              }`}
+                            >
+                              {test.status === 'passed' ? '✓' : test.status === 'flaky' ? '⚠' : '○'}
+                            </td>
+                            <td className="py-2 text-gray-900">
+                              {test.suite && <span className="text-gray-500">{test.suite} › </span>}
+                              {test.name}
+                              <span className="ml-2 text-xs text-gray-400">{test.file}</span>
+                              {test.status === 'flaky' && (
+                                <span className="ml-2 text-xs text-amber-700">
+                                  flaky - passed on attempt {test.attempts || 2}
+                                </span>
+                              )}
+                            </td>
+                            <td className="px-4 py-2 text-right text-xs text-gray-500">{formatDuration(test.duration)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </details>
+                )}
+
+                {selected.tests.length === 0 && (
+                  <div className="bg-white rounded-lg border border-gray-200 p-4 text-sm text-gray-500">
+                    The test reporter gave no per-test results for this run.
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+        </div>
+      </div>
+    </div>
+  );
+}
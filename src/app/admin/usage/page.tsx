@@ -0,0 +1,239 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import AdminHeader from '@/components/admin/AdminHeader';
+
+/**
+ * Summed usage over a period
+ */
+interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Response of GET /api/code/usage
+ */
+interface UsageReport {
+  month: string;
+  totals: UsageTotals;
+  daily: Array<UsageTotals & { date: string }>;
+  monthly: Array<UsageTotals & { month: string }>;
+  byAdmin: Array<UsageTotals & { adminId: string | null; name: string | null; email: string | null }>;
+  budgets: { monthlyUsd: number | null; adminMonthlyUsd: number | null };
+  spentThisMonthUsd: number;
+}
+
+/**
+ * Admin Usage Page
+ *
+ * Token usage and estimated cost of the AI agent per day, month and admin,
+ * and how much of the monthly budget has been spent.
+ */
+export default function AdminUsagePage() {
+  const [month, setMonth] = useState(() => new Date().toISOString().substring(0, 7));
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadUsage(month);
+  }, [month]);
+
+  /**
+   * Load the usage report for a month
+   */
+  const loadUsage = async (selectedMonth: string) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/code/usage?month=${selectedMonth}`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load usage');
+      }
+
+      setReport(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatCost = (usd: number) => `$${usd.toFixed(2)}`;
+  const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+  const budgetPercent = report?.budgets.monthlyUsd
+    ? Math.min(100, (report.spentThisMonthUsd / report.budgets.monthlyUsd) * 100)
+    : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminHeader />
+      <div className="p-8">
+        <div className="max-w-7xl mx-auto">
+        {/* Page Header */}
+        <div className="mb-8 flex items-end justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Usage</h1>
+            <p className="mt-2 text-gray-600">
+              Tokens and estimated cost of the AI agent, per day, month and admin.
+            </p>
+          </div>
+          <label className="text-sm text-gray-700">
+            Month
+            <input
+              type="month"
+              value={month}
+              onChange={(e) => e.target.value && setMonth(e.target.value)}
+              className="ml-2 border border-gray-300 rounded px-2 py-1"
+            />
+          </label>
+        </div>
+
+        {/* Loading state */}
+        {isLoading && (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-4 text-gray-600">Loading usage...</p>
+          </div>
+        )}
+
+        {/* Error state */}
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-red-800">Error: {error}</p>
+          </div>
+        )}
+
+        {!isLoading && !error && report && (
+          <div className="space-y-6">
+            {/* Totals and budget */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="bg-white rounded-lg border border-gray-200 p-4">
+                <p className="text-sm text-gray-600">Cost ({report.month})</p>
+                <p className="mt-1 text-2xl font-bold text-gray-900">{formatCost(report.totals.costUsd)}</p>
+              </div>
+              <div className="bg-white rounded-lg border border-gray-200 p-4">
+                <p className="text-sm text-gray-600">Agent calls</p>
+                <p className="mt-1 text-2xl font-bold text-gray-900">{report.totals.calls}</p>
+              </div>
+              <div className="bg-white rounded-lg border border-gray-200 p-4">
+                <p className="text-sm text-gray-600">Input / output tokens</p>
+                <p className="mt-1 text-lg font-bold text-gray-900">
+                  {formatTokens(report.totals.inputTokens)} / {formatTokens(report.totals.outputTokens)}
+                </p>
+              </div>
+              <div className="bg-white rounded-lg border border-gray-200 p-4">
+                <p className="text-sm text-gray-600">Monthly budget (this month)</p>
+                {report.budgets.monthlyUsd !== null && budgetPercent !== null ? (
+                  <>
+                    <p className="mt-1 text-lg font-bold text-gray-900">
+                      {formatCost(report.spentThisMonthUsd)} of {formatCost(report.budgets.monthlyUsd)}
+                    </p>
+                    <div className="mt-2 h-2 bg-gray-200 rounded">
+                      <div
+                        className={`h-2 rounded ${budgetPercent >= 100 ? 'bg-red-600' : budgetPercent >= 80 ? 'bg-yellow-500' : 'bg-green-600'}`}
+                        style={{ width: `${budgetPercent}%` }}
+                      ></div>
+                    </div>
+                  </>
+                ) : (
+                  <p className="mt-1 text-lg font-bold text-gray-900">No limit</p>
+                )}
+                {report.budgets.adminMonthlyUsd !== null && (
+                  <p className="mt-2 text-xs text-gray-500">
+                    Per admin: {formatCost(report.budgets.adminMonthlyUsd)}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {/* Daily totals */}
+            <UsageTable
+              title="Daily"
+              label="Date"
+              rows={report.daily.map((day) => ({ key: day.date, label: day.date, ...day }))}
+              emptyMessage="No agent calls this month."
+            />
+
+            {/* Monthly totals */}
+            <UsageTable
+              title="Monthly"
+              label="Month"
+              rows={report.monthly.map((entry) => ({ key: entry.month, label: entry.month, ...entry }))}
+              emptyMessage="No agent calls in the last 12 months."
+            />
+
+            {/* Per-admin totals */}
+            <UsageTable
+              title="By admin"
+              label="Admin"
+              rows={report.byAdmin.map((admin) => ({
+                key: admin.adminId || 'unknown',
+                label: admin.name || admin.email || admin.adminId || 'Unknown',
+                ...admin,
+              }))}
+              emptyMessage="No agent calls this month."
+            />
+          </div>
+        )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Table of usage totals, one row per day / month / admin
+ */
+function UsageTable({
+  title,
+  label,
+  rows,
+  emptyMessage,
+}: {
+  title: string;
+  label: string;
+  rows: Array<UsageTotals & { key: string; label: string }>;
+  emptyMessage: string;
+}) {
+  const visibleRows = rows.filter((row) => row.calls > 0);
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200">
+      <h2 className="px-4 py-3 border-b border-gray-200 font-medium text-gray-900">{title}</h2>
+      {visibleRows.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-gray-500">{emptyMessage}</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead className="text-left text-gray-600">
+            <tr>
+              <th className="px-4 py-2 font-medium">{label}</th>
+              <th className="px-4 py-2 font-medium text-right">Calls</th>
+              <th className="px-4 py-2 font-medium text-right">Input tokens</th>
+              <th className="px-4 py-2 font-medium text-right">Output tokens</th>
+              <th className="px-4 py-2 font-medium text-right">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map((row) => (
+              <tr key={row.key} className="border-t border-gray-100">
+                <td className="px-4 py-2 text-gray-900">{row.label}</td>
+                <td className="px-4 py-2 text-right">{row.calls}</td>
+                <td className="px-4 py-2 text-right">{row.inputTokens.toLocaleString()}</td>
+                <td className="px-4 py-2 text-right">{row.outputTokens.toLocaleString()}</td>
+                <td className="px-4 py-2 text-right">${row.costUsd.toFixed(2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createGitManager } from '@/lib/code-modification/git-manager';
+import { createJobStore } from '@/lib/jobs/job-store';
+import { jobBranchName } from '@/lib/jobs/modification-runner';
+
+/**
+ * DELETE /api/code/branches/:jobId
+ *
+ * Deletes the ai/<job-id> branch of a finished job.
+ * Branches of jobs that are still queued or running cannot be deleted.
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "message": "Successfully deleted branch: ai/clx..."
+ * }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+    const branch = jobBranchName(jobId);
+
+    const job = await createJobStore().getJob(jobId);
+    if (job && (job.status === 'PENDING' || job.status === 'RUNNING')) {
+      return NextResponse.json(
+        { success: false, error: 'Job is still in progress' },
+        { status: 409 }
+      );
+    }
+
+    const gitManager = createGitManager(process.cwd());
+    if ((await gitManager.getCurrentBranch()) === branch) {
+      return NextResponse.json(
+        { success: false, error: 'Branch is currently checked out' },
+        { status: 409 }
+      );
+    }
+
+    // Force: failed branches were never merged
+    const result = await gitManager.deleteBranch(branch, true);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to delete branch', details: result.error },
+        { status: 400 }
+      );
+    }
+
+    console.log(`✓ Deleted branch ${branch}`);
+
+    return NextResponse.json({ success: true, message: result.message });
+  } catch (error) {
+    console.error('Error deleting AI branch:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
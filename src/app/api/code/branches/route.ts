@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { createGitManager } from '@/lib/code-modification/git-manager';
+import { createJobStore } from '@/lib/jobs/job-store';
+import { jobBranchName } from '@/lib/jobs/modification-runner';
+
+/**
+ * GET /api/code/branches
+ *
+ * Lists the ai/<job-id> branches left in the staging repository.
+ * Successful jobs delete their branch after merging, so these are normally
+ * branches of failed jobs kept for inspection (or of jobs still running).
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "branches": [
+ *     {
+ *       "name": "ai/clx...",
+ *       "jobId": "clx...",
+ *       "commit": "3a231f7",
+ *       "current": false,
+ *       "job": { "message": "...", "status": "FAILED", "error": "Tests failed ...", "createdAt": "..." }
+ *     }
+ *   ]
+ * }
+ */
+export async function GET() {
+  try {
+    const gitManager = createGitManager(process.cwd());
+    const branchResult = await gitManager.listBranches();
+
+    if (!branchResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to list branches', details: branchResult.error },
+        { status: 500 }
+      );
+    }
+
+    const jobStore = createJobStore();
+    const summaries: Record<string, { commit: string; current: boolean }> = branchResult.data.branches;
+    const names = (branchResult.data.all as string[]).filter((name) => name.startsWith(jobBranchName('')));
+
+    const branches = await Promise.all(
+      names.map(async (name) => {
+        const jobId = name.slice(jobBranchName('').length);
+        const job = await jobStore.getJob(jobId);
+
+        return {
+          name,
+          jobId,
+          commit: summaries[name]?.commit,
+          current: summaries[name]?.current || false,
+          job: job
+            ? { message: job.message, status: job.status, error: job.error, createdAt: job.createdAt }
+            : null,
+        };
+      })
+    );
+
+    return NextResponse.json({ success: true, branches });
+  } catch (error) {
+    console.error('Error listing AI branches:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
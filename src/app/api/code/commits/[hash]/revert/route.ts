@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createCodeChangeStore } from '@/lib/code-modification/code-change-store';
+import { createGitManager } from '@/lib/code-modification/git-manager';
+import { createJobStore } from '@/lib/jobs/job-store';
+import { processModificationQueue } from '@/lib/jobs/modification-runner';
+
+/**
+ * POST /api/code/commits/:hash/revert
+ *
+ * Revert a commit on staging. The revert runs as a background modification
+ * job: `git revert` on a job branch, type-check, tests, merge into staging and
+ * push, after which the original commit is recorded as reverted by the admin.
+ * Poll GET /api/code/jobs/:id for progress, like a modification request.
+ *
+ * A revert that conflicts or whose tests fail fails the job; staging is left
+ * untouched.
+ *
+ * Response (202):
+ * {
+ *   "success": true,
+ *   "jobId": "clx...",
+ *   "status": "PENDING",
+ *   "queuePosition": 0
+ * }
+ *
+ * Response when the commit was already reverted or a revert is in progress (409):
+ * {
+ *   "success": false,
+ *   "error": "Commit has already been reverted",
+ *   "revertCommit": "9f8e7d6..."     // or "jobId" of the revert in progress
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ hash: string }> }
+) {
+  try {
+    const { hash } = await params;
+    const session = await getServerSession(authOptions);
+    const adminId = (session?.user as { id?: string } | undefined)?.id ?? null;
+
+    if (!adminId) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!/^[0-9a-f]{7,40}$/i.test(hash)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid commit hash' },
+        { status: 400 }
+      );
+    }
+
+    const details = await createGitManager(process.cwd()).getDetailedLog({ commits: [hash] });
+    if (!details.success || details.data.commits.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Commit not found' },
+        { status: 404 }
+      );
+    }
+
+    const change = await createCodeChangeStore().findByHash(hash);
+    if (change?.revertedAt) {
+      return NextResponse.json(
+        { success: false, error: 'Commit has already been reverted', revertCommit: change.revertCommitHash },
+        { status: 409 }
+      );
+    }
+
+    const target = details.data.commits[0];
+    const jobStore = createJobStore();
+    const pending = (await jobStore.listIncompleteJobs()).find(
+      (job) => job.input.revert?.commitHash === target.hash
+    );
+    if (pending) {
+      return NextResponse.json(
+        { success: false, error: 'Commit is already being reverted', jobId: pending.id },
+        { status: 409 }
+      );
+    }
+
+    const job = await jobStore.createJob({
+      message: `Revert "${target.message}"`,
+      adminId,
+      input: {
+        revert: { commitHash: target.hash, message: target.message },
+        maxRepairAttempts: 0,
+      },
+    });
+    const queuePosition = await jobStore.getQueuePosition(job.id);
+
+    console.log(`[Revert] ${session?.user?.email || adminId} is reverting ${hash} as job ${job.id}`);
+
+    // Run in the background - progress is reported on the job
+    processModificationQueue();
+
+    return NextResponse.json(
+      {
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        queuePosition,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error reverting commit:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
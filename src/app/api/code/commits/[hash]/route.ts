@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CommitDetails, createGitManager } from '@/lib/code-modification/git-manager';
+import { createCodeChangeStore } from '@/lib/code-modification/code-change-store';
+
+/**
+ * Diffs larger than this are cut off (the file stats stay complete)
+ */
+const MAX_DIFF_BYTES = 500 * 1024;
+
+/**
+ * Git's empty tree, the "parent" of a root commit
+ */
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+/**
+ * GET /api/code/commits/:hash
+ *
+ * The changes made by one commit: the unified diff against its (first)
+ * parent, per-file stats, and the change history record when the commit
+ * was made by the AI agent.
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "commit": {
+ *     "hash": "3a231f7...", "shortHash": "3a231f7", "message": "AI: Add a footer...", "body": "",
+ *     "author": "DeboraAI", "email": "...", "date": "...",
+ *     "files": [{ "path": "src/app/page.tsx", "status": "modified", "additions": 12, "deletions": 3 }],
+ *     "additions": 12,
+ *     "deletions": 3
+ *   },
+ *   "diff": "diff --git a/src/app/page.tsx b/src/app/page.tsx\n...",
+ *   "diffTruncated": false,
+ *   "change": {                      // null when the commit is not in the change history
+ *     "testsPassed": true,
+ *     "deployedToStaging": true,
+ *     "deployedToProduction": false,
+ *     "revertedBy": null,
+ *     "revertedAt": null,
+ *     "revertCommitHash": null
+ *   }
+ * }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ hash: string }> }
+) {
+  try {
+    const { hash } = await params;
+
+    if (!/^[0-9a-f]{7,40}$/i.test(hash)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid commit hash' },
+        { status: 400 }
+      );
+    }
+
+    const gitManager = createGitManager(process.cwd());
+    const details = await gitManager.getDetailedLog({ commits: [hash] });
+    if (!details.success) {
+      throw new Error(details.error);
+    }
+
+    const commit: CommitDetails | undefined = details.data.commits[0];
+    if (!commit) {
+      return NextResponse.json(
+        { success: false, error: 'Commit not found' },
+        { status: 404 }
+      );
+    }
+
+    let diffResult = await gitManager.getDiff(`${commit.hash}^`, commit.hash);
+    if (!diffResult.success) {
+      diffResult = await gitManager.getDiff(EMPTY_TREE, commit.hash);
+    }
+    if (!diffResult.success) {
+      throw new Error(diffResult.error);
+    }
+
+    const diff: string = diffResult.data.diff;
+    const diffTruncated = Buffer.byteLength(diff) > MAX_DIFF_BYTES;
+
+    const change = await createCodeChangeStore().findByHash(commit.hash);
+
+    return NextResponse.json({
+      success: true,
+      commit,
+      diff: diffTruncated ? Buffer.from(diff).subarray(0, MAX_DIFF_BYTES).toString('utf-8') : diff,
+      diffTruncated,
+      change: change && {
+        testsPassed: change.testsPassed,
+        deployedToStaging: change.deployedToStaging,
+        deployedToProduction: change.deployedToProduction,
+        revertedBy: change.reverter?.name || change.reverter?.email || change.revertedBy,
+        revertedAt: change.revertedAt,
+        revertCommitHash: change.revertCommitHash,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching commit diff:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
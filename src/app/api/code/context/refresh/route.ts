@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { getContextCache } from '@/lib/agents/context-cache';
+
+/**
+ * POST /api/code/context/refresh
+ *
+ * Force a rebuild of the cached codebase context and the relevant-file index,
+ * e.g. after files were changed in a way the watcher could not see.
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "summary": "# Project Summary ...",
+ *   "cache": { "hits": 12, "misses": 3, "builds": 4, ... }   // See GET /api/code/context
+ * }
+ */
+export async function POST() {
+  try {
+    const cache = getContextCache(process.cwd());
+    const context = await cache.refresh();
+
+    console.log(`✓ Codebase context refreshed (${context.structure.totalFiles} files)`);
+
+    return NextResponse.json({
+      success: true,
+      summary: context.summary,
+      cache: cache.getStats(),
+    });
+  } catch (error) {
+    console.error('Error refreshing codebase context:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
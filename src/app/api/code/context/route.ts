@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { getContextCache } from '@/lib/agents/context-cache';
+
+/**
+ * GET /api/code/context
+ *
+ * Statistics of the codebase context cache for the staging worktree.
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "cache": {
+ *     "projectRoot": "/path/to/staging",
+ *     "watching": true,            // false: the watcher failed and every request rebuilds
+ *     "cached": true,
+ *     "hits": 12,
+ *     "misses": 3,
+ *     "builds": 3,
+ *     "invalidations": 41,         // File change events seen
+ *     "lastBuiltAt": "2026-10-19T12:00:00.000Z",
+ *     "lastBuildMs": 850,
+ *     "lastChange": { "event": "change", "filePath": "src/app/page.tsx", "at": "..." }
+ *   }
+ * }
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({
+      success: true,
+      cache: getContextCache(process.cwd()).getStats(),
+    });
+  } catch (error) {
+    console.error('Error fetching context cache stats:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createConversationStore, conversationLinks } from '@/lib/chat/conversation-store';
+
+/**
+ * The conversation if it belongs to the signed-in admin
+ */
+async function findOwnConversation(id: string) {
+  const session = await getServerSession(authOptions);
+  const adminId = (session?.user as { id?: string } | undefined)?.id ?? null;
+  const conversation = await createConversationStore().getConversation(id);
+
+  return conversation && adminId && conversation.userId === adminId ? conversation : null;
+}
+
+/**
+ * GET /api/code/conversations/:id
+ *
+ * A saved conversation with its messages, used to reopen it in the chat.
+ * Messages about a modification job carry the jobId; the agent's reply also
+ * carries the job status, modified files, commit and test results.
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "conversation": {
+ *     "id": "clx...",
+ *     "title": "Add a dark mode toggle to the header",
+ *     "agentSessionId": "agent_abc123",
+ *     "messages": [
+ *       { "role": "user", "content": "...", "timestamp": "...", "jobId": "clx..." },
+ *       { "role": "assistant", "content": "...", "timestamp": "...", "jobId": "clx...", "status": "COMPLETED",
+ *         "modifications": [...], "commit": { "hash": "a1b2c3d", "message": "..." }, "tests": {...} }
+ *     ],
+ *     "jobIds": ["clx..."],
+ *     "commits": ["a1b2c3d"],
+ *     "createdAt": "...",
+ *     "updatedAt": "..."
+ *   }
+ * }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const conversation = await findOwnConversation(id);
+
+    if (!conversation) {
+      return NextResponse.json(
+        { success: false, error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      conversation: { ...conversation, ...conversationLinks(conversation.messages) },
+    });
+  } catch (error) {
+    console.error('Error fetching conversation:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/code/conversations/:id
+ *
+ * Delete a saved conversation. Its jobs and commits are not affected.
+ *
+ * Response:
+ * {
+ *   "success": true
+ * }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const conversation = await findOwnConversation(id);
+
+    if (!conversation) {
+      return NextResponse.json(
+        { success: false, error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    await createConversationStore().deleteConversation(conversation.id);
+    console.log(`✓ Deleted conversation ${conversation.id}`);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting conversation:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
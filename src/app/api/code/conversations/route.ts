@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createConversationStore } from '@/lib/chat/conversation-store';
+
+/**
+ * Signed-in admin's user id
+ */
+async function getAdminId(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+  return (session?.user as { id?: string } | undefined)?.id ?? null;
+}
+
+/**
+ * GET /api/code/conversations
+ *
+ * The signed-in admin's saved conversations with the coding agent, most
+ * recently active first.
+ *
+ * Query parameters (all optional):
+ * - limit: Maximum conversations to return (default: 50, max: 200)
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "conversations": [{
+ *     "id": "clx...",
+ *     "title": "Add a dark mode toggle to the header",
+ *     "agentSessionId": "agent_abc123",
+ *     "messageCount": 4,
+ *     "jobIds": ["clx..."],
+ *     "commits": ["a1b2c3d"],
+ *     "createdAt": "...",
+ *     "updatedAt": "..."
+ *   }]
+ * }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const adminId = await getAdminId();
+    if (!adminId) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 200);
+
+    const conversations = await createConversationStore().listConversations(adminId, { limit });
+
+    return NextResponse.json({ success: true, conversations });
+  } catch (error) {
+    console.error('Error listing conversations:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/code/conversations
+ *
+ * Start a new saved conversation. Pass its id as conversationId to
+ * POST /api/code/modify to record requests and replies in it.
+ *
+ * Request body:
+ * {
+ *   "title": "Add a dark mode toggle" // Optional - defaults to the first request
+ * }
+ *
+ * Response (201):
+ * {
+ *   "success": true,
+ *   "conversation": { "id": "clx...", "title": "...", "messages": [], "agentSessionId": null, ... }
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const adminId = await getAdminId();
+    if (!adminId) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (body.title !== undefined && typeof body.title !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Title must be a string' },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await createConversationStore().createConversation({
+      userId: adminId,
+      title: body.title,
+    });
+
+    console.log(`✓ Created conversation ${conversation.id}`);
+
+    return NextResponse.json({ success: true, conversation }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating conversation:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,47 +1,140 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createGitManager } from '@/lib/code-modification/git-manager';
+import { createCodeChangeStore, CodeChangeFilters } from '@/lib/code-modification/code-change-store';
+import { CommitDetails, createGitManager } from '@/lib/code-modification/git-manager';
 
 /**
  * GET /api/code/history
  *
- * Returns git commit history for the staging branch.
- * Shows all code modifications made by the AI agent.
+ * Returns the AI modifications recorded in the CodeChange table, newest first,
+ * with the per-file changes (status and line counts) read from git.
+ *
+ * Query parameters (all optional):
+ * - adminId:    Only changes requested by this admin
+ * - tests:      "passed" | "failed"
+ * - deployment: "production" | "staging" (pushed, not yet promoted) | "local" (not pushed)
+ * - path:       Only changes that touched this file or directory (per git history)
+ * - limit:      Maximum number of changes (default 50)
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "commits": [
+ *     {
+ *       "hash": "3a231f7",
+ *       "shortHash": "3a231f7",
+ *       "message": "Add a footer",
+ *       "author": "Admin User",
+ *       "adminId": "clx...",
+ *       "date": "2026-01-01T00:00:00.000Z",
+ *       "files": ["src/app/page.tsx"],
+ *       "changes": [                          // null when the commit is no longer in git
+ *         { "path": "src/app/page.tsx", "status": "modified", "additions": 12, "deletions": 3 }
+ *       ],
+ *       "additions": 12,
+ *       "deletions": 3,
+ *       "testsPassed": true,
+ *       "deployedToStaging": true,
+ *       "deployedToProduction": false,
+ *       "revertedBy": null,                  // Admin name once reverted from the history page
+ *       "revertedAt": null,
+ *       "revertCommitHash": null
+ *     }
+ *   ],
+ *   "admins": [{ "id": "clx...", "name": "Admin User", "email": "admin@example.com" }]
+ * }
  */
 export async function GET(request: NextRequest) {
   try {
-    const projectRoot = process.cwd();
-    const gitManager = createGitManager(projectRoot);
-
-    // Get commit history (last 50 commits)
-    const logResult = await gitManager.getLog(50);
-
-    if (!logResult.success || !logResult.data) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Failed to retrieve commit history',
-        },
-        { status: 500 }
-      );
+    const { searchParams } = new URL(request.url);
+    const filters: CodeChangeFilters = {};
+
+    const adminId = searchParams.get('adminId');
+    if (adminId) {
+      filters.adminId = adminId;
+    }
+
+    const tests = searchParams.get('tests');
+    if (tests === 'passed' || tests === 'failed') {
+      filters.testsPassed = tests === 'passed';
+    }
+
+    switch (searchParams.get('deployment')) {
+      case 'production':
+        filters.deployedToProduction = true;
+        break;
+      case 'staging':
+        filters.deployedToStaging = true;
+        filters.deployedToProduction = false;
+        break;
+      case 'local':
+        filters.deployedToStaging = false;
+        filters.deployedToProduction = false;
+        break;
     }
 
-    // simple-git returns log with .all array containing commits
-    const logData = logResult.data as any;
-    const commits = (logData.all || []).map((commit: any) => ({
-      hash: commit.hash,
-      shortHash: commit.hash.substring(0, 7),
-      message: commit.message,
-      author: commit.author_name,
-      date: commit.date,
-      files: [], // File information not available in simple log
+    const limit = parseInt(searchParams.get('limit') || '', 10);
+    if (limit > 0) {
+      filters.limit = Math.min(limit, 500);
+    }
+
+    const gitManager = createGitManager(process.cwd());
+    const path = searchParams.get('path');
+    const maxChanges = filters.limit || 50;
+
+    // Recorded hashes may be abbreviated, so the path filter is applied
+    // after loading by matching them against the full hashes from git
+    let touchingPath: string[] | null = null;
+    if (path) {
+      const touching = await gitManager.getDetailedLog({ paths: [path], maxCount: 500 });
+      if (!touching.success) {
+        throw new Error(touching.error);
+      }
+      touchingPath = (touching.data.commits as CommitDetails[]).map((commit) => commit.hash);
+      filters.limit = 500;
+    }
+
+    const changeStore = createCodeChangeStore();
+    const [allChanges, admins] = await Promise.all([
+      changeStore.list(filters),
+      changeStore.listAdmins(),
+    ]);
+
+    const changes = touchingPath
+      ? allChanges
+          .filter((change) => touchingPath.some((hash) => hash.startsWith(change.commitHash)))
+          .slice(0, maxChanges)
+      : allChanges;
+
+    const details = await gitManager.getDetailedLog({ commits: changes.map((change) => change.commitHash) });
+    const detailedCommits: CommitDetails[] = details.success ? details.data.commits : [];
+    const findDetails = (hash: string) => detailedCommits.find((commit) => commit.hash.startsWith(hash));
+
+    const commits = changes.map((change) => ({
+      hash: change.commitHash,
+      shortHash: change.commitHash.substring(0, 7),
+      message: change.description,
+      author: change.admin?.name || change.admin?.email || change.adminId,
+      adminId: change.adminId,
+      date: change.createdAt,
+      files: change.filesChanged,
+      changes: findDetails(change.commitHash)?.files || null,
+      additions: findDetails(change.commitHash)?.additions ?? null,
+      deletions: findDetails(change.commitHash)?.deletions ?? null,
+      testsPassed: change.testsPassed,
+      deployedToStaging: change.deployedToStaging,
+      deployedToProduction: change.deployedToProduction,
+      revertedBy: change.revertedBy ? change.reverter?.name || change.reverter?.email || change.revertedBy : null,
+      revertedAt: change.revertedAt,
+      revertCommitHash: change.revertCommitHash,
     }));
 
     return NextResponse.json({
       success: true,
       commits,
+      admins,
     });
   } catch (error) {
-    console.error('Error fetching commit history:', error);
+    console.error('Error fetching change history:', error);
 
     return NextResponse.json(
       {
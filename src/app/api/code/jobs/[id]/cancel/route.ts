@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createJobStore } from '@/lib/jobs/job-store';
+import { cancelActiveJob, isJobActive, isJobCancellable } from '@/lib/jobs/modification-runner';
+import { broadcastCancelled } from '@/lib/sse/broadcast';
+
+/**
+ * POST /api/code/jobs/:id/cancel
+ *
+ * Cancel an in-flight modification job.
+ *
+ * - PENDING jobs are marked CANCELLED immediately.
+ * - RUNNING jobs have their agent/test process tree killed; the runner then
+ *   discards the job's changes, deletes its ai/<job-id> branch, rolls back a
+ *   migration it applied, marks the job CANCELLED and broadcasts a `cancelled`
+ *   SSE event. Poll GET /api/code/jobs/:id (or listen for the event) to see it finish.
+ *
+ * Jobs that already started merging into staging cannot be cancelled.
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "jobId": "clx...",
+ *   "status": "CANCELLED"      // CANCELLING while a running job cleans up
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+    const performedBy = session?.user?.email || 'unknown';
+
+    const jobStore = createJobStore();
+    const job = await jobStore.getJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    if (job.status !== 'PENDING' && job.status !== 'RUNNING') {
+      return NextResponse.json(
+        { success: false, error: `Job is already ${job.status.toLowerCase()}` },
+        { status: 409 }
+      );
+    }
+
+    if (!isJobCancellable(job)) {
+      return NextResponse.json(
+        { success: false, error: 'Job is already merging into staging and can no longer be cancelled' },
+        { status: 409 }
+      );
+    }
+
+    const reason = `Cancelled by ${performedBy}`;
+
+    if (isJobActive(job.id)) {
+      cancelActiveJob(job.id, reason);
+      console.log(`[Job ${job.id}] Cancellation requested by ${performedBy}`);
+
+      return NextResponse.json(
+        { success: true, jobId: job.id, status: 'CANCELLING' },
+        { status: 202 }
+      );
+    }
+
+    if (job.status === 'RUNNING') {
+      // Running in another process, or orphaned by a crash
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Job is not running in this server process - break the worktree lock to recover it',
+        },
+        { status: 409 }
+      );
+    }
+
+    // Still queued: nothing has been done yet, so there is nothing to clean up
+    await jobStore.markCancelled(job.id, reason);
+    console.log(`✓ [Job ${job.id}] Queued job cancelled by ${performedBy}`);
+    broadcastCancelled({ jobId: job.id, step: null, cleanup: [] }, job.input.sessionId);
+
+    return NextResponse.json({ success: true, jobId: job.id, status: 'CANCELLED' });
+  } catch (error) {
+    console.error('Failed to cancel modification job:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
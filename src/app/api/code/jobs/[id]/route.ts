@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createJobStore } from '@/lib/jobs/job-store';
+import { isJobActive } from '@/lib/jobs/modification-runner';
+
+/**
+ * GET /api/code/jobs/:id
+ *
+ * Returns the current state of a modification job, including per-step status.
+ * Clients poll this endpoint after POST /api/code/modify (or a revert) returns a jobId.
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "job": {
+ *     "id": "clx...",
+ *     "status": "RUNNING",        // PENDING | RUNNING | COMPLETED | FAILED | CANCELLED
+ *     "currentStep": "tests",
+ *     "steps": [{ "name": "agent", "status": "completed", ... }, ...],
+ *     "result": { ... },          // Final result when COMPLETED, failure details when FAILED
+ *     "error": null,
+ *     "queuePosition": 0,         // Unfinished jobs ahead of this one
+ *     "active": true              // Whether this server process is executing the job
+ *   }
+ * }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const jobStore = createJobStore();
+    const job = await jobStore.getJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      job: {
+        id: job.id,
+        message: job.message,
+        status: job.status,
+        currentStep: job.currentStep,
+        steps: job.steps,
+        result: job.result,
+        error: job.error,
+        createdAt: job.createdAt,
+        updatedAt: job.updatedAt,
+        completedAt: job.completedAt,
+        queuePosition: await jobStore.getQueuePosition(job.id),
+        active: isJobActive(job.id),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching modification job:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
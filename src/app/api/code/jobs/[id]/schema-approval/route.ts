@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createJobStore, SchemaApproval } from '@/lib/jobs/job-store';
+import { resolveSchemaApproval } from '@/lib/jobs/modification-runner';
+
+/**
+ * POST /api/code/jobs/:id/schema-approval
+ *
+ * Approve or reject the destructive schema changes a running job is waiting
+ * on (the `schemaApproval` of its migration step, announced by a
+ * `schema_approval_required` SSE status). An approved job generates and
+ * applies the migration; a rejected one fails with its changes discarded.
+ *
+ * A job that is not running in this server process picks the decision up
+ * when it is resumed.
+ *
+ * Request body:
+ * {
+ *   "approve": true
+ * }
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "jobId": "clx...",
+ *   "status": "approved",      // approved | rejected
+ *   "delivered": true          // Whether a job in this process was waiting for it
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    if (typeof body.approve !== 'boolean') {
+      return NextResponse.json(
+        { success: false, error: 'approve must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    const session = await getServerSession(authOptions);
+    const decidedBy = session?.user?.email || 'unknown';
+
+    const jobStore = createJobStore();
+    const job = await jobStore.getJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    const pending = job.steps.find((step) => step.name === 'migration')?.data?.schemaApproval;
+    if (job.status !== 'RUNNING' || pending?.status !== 'pending') {
+      return NextResponse.json(
+        { success: false, error: 'Job is not waiting for schema changes to be approved' },
+        { status: 409 }
+      );
+    }
+
+    const approval: SchemaApproval = {
+      ...pending,
+      status: body.approve ? 'approved' : 'rejected',
+      decidedBy,
+      decidedAt: new Date().toISOString(),
+    };
+
+    await jobStore.updateStep(job.id, 'migration', { data: { schemaApproval: approval } });
+    const delivered = resolveSchemaApproval(job.id, approval);
+    console.log(`[Job ${job.id}] Schema changes ${approval.status} by ${decidedBy}`);
+
+    return NextResponse.json({ success: true, jobId: job.id, status: approval.status, delivered });
+  } catch (error) {
+    console.error('Failed to record schema approval:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createJobStore } from '@/lib/jobs/job-store';
+import { createWorktreeLock } from '@/lib/jobs/worktree-lock';
+import {
+  isJobActive,
+  cancelActiveJob,
+  waitForActiveJob,
+  abandonActiveJob,
+  processModificationQueue,
+} from '@/lib/jobs/modification-runner';
+
+/**
+ * How long a job running in this process gets to clean up after being cancelled
+ */
+const CANCEL_WAIT_MS = 20000;
+
+/**
+ * POST /api/code/lock/break
+ *
+ * Forcibly release the staging worktree lock.
+ * Use when a holder is stuck (e.g. a hung agent or a server that died without
+ * its lease expiring yet).
+ *
+ * A holder this server process is executing is cancelled first: when it stops
+ * within 20s its runner has cleaned up and released the lock, and the queue
+ * moves on by itself. Otherwise (hung, or running elsewhere) the lock is
+ * released, the holder's job is marked FAILED and the queue continues with
+ * the next job.
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "released": {
+ *     "jobId": "clx...",
+ *     "adminId": "clx...",
+ *     "acquiredAt": "...",
+ *     "leaseExpiresAt": "..."
+ *   },                          // null if the lock was not held
+ *   "jobCancelled": false,      // The holder stopped after being cancelled
+ *   "jobFailed": true
+ * }
+ */
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+    const performedBy = session?.user?.email || 'unknown';
+    const reason = `Worktree lock was broken by ${performedBy}`;
+
+    const lock = createWorktreeLock();
+    const holder = await lock.getHolder();
+
+    let abandoned = false;
+    if (holder && isJobActive(holder.jobId)) {
+      cancelActiveJob(holder.jobId, reason);
+
+      if (await waitForActiveJob(holder.jobId, CANCEL_WAIT_MS)) {
+        console.log(`✓ [Job ${holder.jobId}] Cancelled by ${performedBy} to break the worktree lock`);
+        return NextResponse.json({ success: true, released: holder, jobCancelled: true, jobFailed: false });
+      }
+
+      // Hung: stop waiting for its runner so the queue can drain again
+      abandoned = abandonActiveJob(holder.jobId, reason);
+    }
+
+    const released = await lock.forceRelease();
+
+    if (!released) {
+      return NextResponse.json({ success: true, released: null, jobCancelled: false, jobFailed: false });
+    }
+
+    console.log('='.repeat(80));
+    console.log('WORKTREE LOCK BROKEN');
+    console.log('='.repeat(80));
+    console.log(`Performed by: ${performedBy}`);
+    console.log(`Holder job: ${released.jobId}${abandoned ? ' (hung - abandoned)' : ''}`);
+    console.log('-'.repeat(80));
+
+    // A job still running here (it may have started since) keeps going;
+    // anything else is orphaned and would otherwise be picked up again by the queue
+    let jobFailed = false;
+    if (!isJobActive(released.jobId)) {
+      const jobStore = createJobStore();
+      const job = await jobStore.getJob(released.jobId);
+
+      if (job && (job.status === 'PENDING' || job.status === 'RUNNING')) {
+        jobFailed = (await jobStore.markFailed(job.id, reason)).status === 'FAILED';
+        console.log(`✓ Marked job ${job.id} as failed`);
+      }
+    }
+
+    processModificationQueue();
+
+    return NextResponse.json({ success: true, released, jobCancelled: false, jobFailed });
+  } catch (error) {
+    console.error('Failed to break worktree lock:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
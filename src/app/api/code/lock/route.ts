@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { createJobStore } from '@/lib/jobs/job-store';
+import { createWorktreeLock } from '@/lib/jobs/worktree-lock';
+import { isJobActive } from '@/lib/jobs/modification-runner';
+
+/**
+ * GET /api/code/lock
+ *
+ * Returns the current holder of the staging worktree lock and the job queue.
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "lock": {
+ *     "jobId": "clx...",
+ *     "adminId": "clx...",
+ *     "acquiredAt": "2026-01-01T00:00:00.000Z",
+ *     "leaseExpiresAt": "2026-01-01T00:10:00.000Z",
+ *     "expired": false,
+ *     "active": true           // Whether this server process is executing the job
+ *   },                         // null when unlocked
+ *   "queue": [
+ *     { "id": "clx...", "message": "...", "status": "PENDING", "createdAt": "..." }
+ *   ]
+ * }
+ */
+export async function GET() {
+  try {
+    const lock = createWorktreeLock();
+    const jobStore = createJobStore();
+
+    const [holder, jobs] = await Promise.all([
+      lock.getHolder(),
+      jobStore.listIncompleteJobs(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      lock: holder
+        ? {
+            jobId: holder.jobId,
+            adminId: holder.adminId,
+            acquiredAt: holder.acquiredAt,
+            leaseExpiresAt: holder.leaseExpiresAt,
+            expired: holder.leaseExpiresAt.getTime() < Date.now(),
+            active: isJobActive(holder.jobId),
+          }
+        : null,
+      queue: jobs.map((job) => ({
+        id: job.id,
+        message: job.message,
+        status: job.status,
+        adminId: job.adminId,
+        createdAt: job.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching worktree lock:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
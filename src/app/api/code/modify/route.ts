@@ -1,54 +1,158 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClaudeCLIAgent } from '@/lib/agents/claude-cli-agent';
-import { createGitManager } from '@/lib/code-modification/git-manager';
-import { createMigrationManager } from '@/lib/code-modification/migration-manager';
-import { runTests } from '@/lib/code-modification/test-runner';
-import {
-  broadcastProgress,
-  broadcastStatus,
-  broadcastFileChange,
-  broadcastTestResult,
-  broadcastError,
-  broadcastComplete,
-} from '@/lib/sse/broadcast';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createJobStore, ModificationJobRecord } from '@/lib/jobs/job-store';
+import { createPlanStore } from '@/lib/jobs/plan-store';
+import { createLLMProvider } from '@/lib/agents/provider-registry';
+import { CodePlanResponse } from '@/lib/agents/llm-provider';
+import { processModificationQueue } from '@/lib/jobs/modification-runner';
+import { createWorktreeLock } from '@/lib/jobs/worktree-lock';
+import { createUsageStore } from '@/lib/usage/usage-store';
+import { createConversationStore } from '@/lib/chat/conversation-store';
+import { broadcastProgress, broadcastError, broadcastAgentTool, broadcastAgentText } from '@/lib/sse/broadcast';
+
+/**
+ * Upper bound for maxRepairAttempts (each attempt is a full agent run plus a test run)
+ */
+const MAX_REPAIR_ATTEMPTS_LIMIT = 5;
 
 /**
  * POST /api/code/modify
  *
- * Main orchestrator endpoint for code modifications using Claude CLI.
+ * Main entry point for code modifications. The model is reached through the
+ * LLM provider selected by LLM_PROVIDER (default: claude-cli; "scripted"
+ * replays fixtures for offline runs).
+ *
+ * The request is persisted as a ModificationJob and executed in the background,
+ * so a dropped browser connection or a server restart does not lose the run.
+ * Each step is recorded on the job, and an interrupted job resumes from the
+ * last completed step when the server starts again.
+ *
+ * Job steps:
+ * 1. branch    - Create the ai/<job-id> branch from staging
+ * 2. agent     - The LLM provider modifies files on the branch
+ * 3. typecheck - Type-check the changed TypeScript files and their dependents
+ * 4. migration - Database migration if schema changed
+ * 5. commit    - Create git commit
+ * 6. tests     - Run automated tests (with optional self-repair)
+ * 7. merge     - Merge the branch into staging if tests passed
+ * 8. push      - Push to origin/staging
+ *
+ * A job whose changes do not type-check fails before committing; its result
+ * lists the errors as `typeErrors` ({ file, line, column, code, message }).
+ *
+ * Jobs run one at a time while holding the staging worktree lock; queuePosition
+ * is the number of unfinished jobs ahead of this one.
  *
- * Flow:
- * 1. Receive user request
- * 2. Call Claude CLI directly - Claude modifies files in staging
- * 3. Check git status for modified files
- * 4. Handle database migrations if schema changed
- * 5. Create git commit and push to remote
- * 6. Run automated tests
- * 7. Return results
+ * Poll GET /api/code/jobs/:id for the result, or listen for SSE events.
  *
- * Uses Claude CLI instead of Agent SDK to avoid nested session errors.
- * Environment variable CLAUDECODE is removed before spawning subprocess.
+ * Every agent call records its tokens and cost (see GET /api/code/usage). Once
+ * the monthly budget (USAGE_MONTHLY_BUDGET_USD) or the admin's own budget
+ * (USAGE_ADMIN_MONTHLY_BUDGET_USD) is spent, new requests are refused with 402.
+ *
+ * With a conversationId (see /api/code/conversations) the request is appended
+ * to that saved conversation and the runner appends the agent's reply when the
+ * job ends. The conversation's agent session is used unless agentSessionId is
+ * given, so a reopened conversation continues where it left off.
+ *
+ * Modes:
+ * - "apply" (default): queue a modification job as described above
+ * - "plan": ask the agent what it would change, with read-only tools. The
+ *   agent reads the staging tree, so planning holds the staging worktree lock
+ *   (refused with 409 while a job has staging checked out on its branch) but
+ *   changes nothing. The plan is stored and returned with an id; a later
+ *   "apply" request with that planId implements the approved plan.
  *
  * Request body:
  * {
+ *   "mode": "plan" | "apply", // Optional - defaults to "apply"
+ *   "planId": "clx...", // Optional - apply an approved plan (message not required)
  *   "message": "User request in natural language",
  *   "conversationHistory": [...], // Optional
  *   "skipTests": false // Optional - for testing only
+ *   "maxRepairAttempts": 2 // Optional - let the agent fix failing tests up to N times
  *   "sessionId": "session_abc123" // Optional - for SSE filtering
  *   "agentSessionId": "agent_abc123" // Optional - for conversation continuity
+ *   "conversationId": "clx..." // Optional - saved conversation to append to (apply mode)
+ * }
+ *
+ * Response (202):
+ * {
+ *   "success": true,
+ *   "jobId": "clx...",
+ *   "status": "PENDING",
+ *   "queuePosition": 0
+ * }
+ *
+ * Response in plan mode (200):
+ * {
+ *   "success": true,
+ *   "mode": "plan",
+ *   "planId": "clx...",
+ *   "plan": {
+ *     "summary": "...",
+ *     "files": [{ "path": "src/app/page.tsx", "action": "modify", "rationale": "..." }],
+ *     "riskFlags": ["..."],
+ *     "warnings": [{ "type": "schema_change", "filePath": "prisma/schema.prisma", "message": "..." }]
+ *   },
+ *   "agentSessionId": "agent_abc123"
+ * }
+ *
+ * Response in plan mode while a job holds the staging worktree (409):
+ * {
+ *   "success": false,
+ *   "error": "Staging is busy with clx... - try planning again when it finishes"
+ * }
+ *
+ * Response when a budget is exceeded (402):
+ * {
+ *   "success": false,
+ *   "error": "Monthly AI budget exceeded ($51.20 of $50.00)",
+ *   "budget": { "spentUsd": 51.2, "adminSpentUsd": 12.5, "budgets": { "monthlyUsd": 50, "adminMonthlyUsd": null } }
  * }
  */
 export async function POST(request: NextRequest) {
-  const startTime = Date.now();
   let sessionId: string | undefined;
-  let agentSessionId: string | undefined;
 
   try {
     // Parse request
     const body = await request.json();
-    const { message, conversationHistory, skipTests = false } = body;
+    const { conversationHistory, skipTests = false, mode = 'apply', planId } = body;
+    let { message } = body;
     sessionId = body.sessionId; // Client sessionId for SSE filtering
-    agentSessionId = body.agentSessionId; // Agent SDK sessionId for conversation continuity
+
+    if (mode !== 'plan' && mode !== 'apply') {
+      return NextResponse.json(
+        { error: 'Mode must be "plan" or "apply"' },
+        { status: 400 }
+      );
+    }
+
+    const session = await getServerSession(authOptions);
+    const adminId = (session?.user as { id?: string } | undefined)?.id ?? null;
+
+    // Load the approved plan when applying one
+    const planStore = createPlanStore();
+    const approvedPlan = mode === 'apply' && planId ? await planStore.getPlan(planId) : null;
+
+    if (mode === 'apply' && planId) {
+      if (!approvedPlan) {
+        return NextResponse.json({ error: 'Plan not found' }, { status: 404 });
+      }
+      if (approvedPlan.status !== 'PROPOSED') {
+        return NextResponse.json(
+          { error: 'Plan has already been applied', jobId: approvedPlan.jobId },
+          { status: 409 }
+        );
+      }
+      if (approvedPlan.plan.warnings.some((warning) => warning.type === 'protected')) {
+        return NextResponse.json(
+          { error: 'Plan touches protected files and cannot be applied' },
+          { status: 400 }
+        );
+      }
+      message = message || approvedPlan.message;
+    }
 
     if (!message || typeof message !== 'string') {
       return NextResponse.json(
@@ -57,278 +161,208 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log('='.repeat(80));
-    console.log('CODE MODIFICATION REQUEST (Agent SDK)');
-    console.log('='.repeat(80));
-    console.log('User request:', message);
-    if (sessionId) {
-      console.log('Session ID:', sessionId);
+    const { maxRepairAttempts } = body;
+    if (
+      maxRepairAttempts !== undefined &&
+      (!Number.isInteger(maxRepairAttempts) || maxRepairAttempts < 0 || maxRepairAttempts > MAX_REPAIR_ATTEMPTS_LIMIT)
+    ) {
+      return NextResponse.json(
+        { error: `maxRepairAttempts must be an integer between 0 and ${MAX_REPAIR_ATTEMPTS_LIMIT}` },
+        { status: 400 }
+      );
     }
-    console.log('-'.repeat(80));
 
-    // Step 1: Initialize services
-    console.log('\n[Step 1/5] Initializing services...');
-    broadcastProgress('Initializing services...', sessionId);
-    const projectRoot = process.cwd();
-    const claudeAgent = createClaudeCLIAgent(projectRoot);
-    const gitManager = createGitManager(projectRoot);
-    const migrationManager = createMigrationManager(projectRoot);
-    console.log('✓ Services initialized');
-    broadcastStatus('initialized', { step: '1/5' }, sessionId);
-
-    // Get initial git status to track changes
-    const initialStatus = await gitManager.getStatus();
-    const initialFiles = new Set([
-      ...initialStatus.data.modified,
-      ...initialStatus.data.created,
-    ]);
-
-    // Step 2: Claude Agent SDK modifies files directly
-    console.log('\n[Step 2/5] Claude Agent modifying files...');
-    broadcastProgress('Claude Agent is analyzing and modifying files...', sessionId);
-    const modificationResult = await claudeAgent.modifyCode({
-      userRequest: message,
-      conversationHistory,
-      sessionId: agentSessionId, // Use agent sessionId for resuming, not client sessionId
-    });
-
-    if (!modificationResult.success) {
-      broadcastError(modificationResult.error || 'Code modification failed', sessionId);
+    // Refuse new work once the monthly budget is spent
+    const usageStore = createUsageStore();
+    const budget = await usageStore.checkBudget(adminId);
+    if (!budget.allowed) {
+      console.warn(`⚠ ${budget.error}`);
       return NextResponse.json(
         {
           success: false,
-          error: modificationResult.error || 'Code modification failed',
+          error: budget.error,
+          budget: { spentUsd: budget.spentUsd, adminSpentUsd: budget.adminSpentUsd, budgets: budget.budgets },
         },
-        { status: 500 }
+        { status: 402 }
       );
     }
 
-    console.log('✓ Claude Agent completed');
-    console.log('Result:', modificationResult.result);
-    broadcastStatus('agent_completed', { step: '2/5' }, sessionId);
-
-    // Get final git status to see what changed
-    const finalStatus = await gitManager.getStatus();
-    const modifiedFiles = [
-      ...finalStatus.data.modified.filter((f) => !initialFiles.has(f)),
-      ...finalStatus.data.created.filter((f) => !initialFiles.has(f)),
-      ...(modificationResult.filesModified || []),
-    ];
-
-    // Remove duplicates
-    const uniqueModifiedFiles = Array.from(new Set(modifiedFiles));
-
-    if (uniqueModifiedFiles.length === 0) {
-      console.log('⚠ No files were modified');
-    } else {
-      console.log('Files modified:');
-      uniqueModifiedFiles.forEach((file) => {
-        console.log(`  - ${file}`);
-        const action = finalStatus.data.created.includes(file) ? 'created' : 'modified';
-        broadcastFileChange(file, action, sessionId);
-      });
-    }
+    if (mode === 'plan') {
+      console.log('='.repeat(80));
+      console.log('CODE MODIFICATION PLAN REQUEST');
+      console.log('='.repeat(80));
+      console.log('User request:', message);
+      console.log('-'.repeat(80));
+
+      // A running job has the worktree on its branch with half-applied edits:
+      // plan only from a clean staging checkout
+      const lock = createWorktreeLock();
+      const lockId = `plan_${Date.now()}`;
+      const { acquired, holder } = await lock.acquire(lockId, adminId);
+      if (!acquired) {
+        return NextResponse.json(
+          { success: false, error: `Staging is busy with ${holder?.jobId || 'another operation'} - try planning again when it finishes` },
+          { status: 409 }
+        );
+      }
 
-    // Step 3: Handle database migrations if schema changed
-    const schemaModified = uniqueModifiedFiles.some((f) =>
-      f.includes('schema.prisma')
-    );
+      broadcastProgress('Claude Agent is planning changes (read-only)...', sessionId);
 
-    if (schemaModified) {
-      console.log('\n[Step 3/5] Database schema modified - generating migration...');
-      broadcastProgress('Generating database migration...', sessionId);
-      const migrationResult = await migrationManager.handleSchemaChange(
-        `ai_generated_${Date.now()}`
-      );
+      const provider = createLLMProvider(process.cwd());
+      console.log('Provider:', provider.name);
+      const startedAt = Date.now();
+      const heartbeat = setInterval(() => {
+        lock.renew(lockId).catch((error) => console.error('Failed to renew worktree lock while planning:', error));
+      }, lock.getLeaseMs() / 3);
 
-      if (!migrationResult.success) {
-        console.error('✗ Migration failed:', migrationResult.error);
+      let planResult: CodePlanResponse;
+      try {
+        planResult = await provider.planChanges({
+          userRequest: message,
+          conversationHistory,
+          sessionId: body.agentSessionId,
+          onActivity: (activity) => activity.type === 'tool'
+            ? broadcastAgentTool({ tool: activity.tool, summary: activity.summary }, sessionId)
+            : broadcastAgentText(activity.text, undefined, sessionId),
+        });
+      } finally {
+        clearInterval(heartbeat);
+        await lock.release(lockId);
+        // Jobs queued while planning can run now
+        processModificationQueue();
+      }
 
-        // Rollback file changes
-        console.log('Rolling back file changes...');
-        broadcastError('Database migration failed - rolling back', sessionId);
-        await gitManager.discardChanges();
+      try {
+        await usageStore.record({
+          adminId,
+          provider: provider.name,
+          operation: 'plan',
+          usage: planResult.usage,
+          durationMs: Date.now() - startedAt,
+        });
+      } catch (error) {
+        console.error('⚠ Failed to record token usage:', error);
+      }
 
+      if (!planResult.success || !planResult.plan) {
+        broadcastError(planResult.error || 'Planning failed', sessionId);
         return NextResponse.json(
           {
             success: false,
-            error: 'Database migration failed',
-            details: migrationResult.error,
+            error: 'Planning failed',
+            details: planResult.error,
           },
           { status: 500 }
         );
       }
 
-      console.log('✓ Database migration successful');
-      broadcastStatus('migration_complete', { step: '3/5' }, sessionId);
-    } else {
-      console.log('\n[Step 3/5] No database schema changes');
-      broadcastStatus('no_migration_needed', { step: '3/5' }, sessionId);
-    }
+      const record = await planStore.createPlan({
+        message,
+        plan: planResult.plan,
+        adminId,
+        agentSessionId: planResult.sessionId,
+      });
 
-    // Step 4: Create git commit
-    console.log('\n[Step 4/5] Creating git commit...');
-    broadcastProgress('Creating git commit...', sessionId);
-
-    // Check if there are actually changes to commit
-    const statusBeforeCommit = await gitManager.getStatus();
-    const hasChanges =
-      statusBeforeCommit.data.modified.length > 0 ||
-      statusBeforeCommit.data.created.length > 0 ||
-      statusBeforeCommit.data.deleted.length > 0;
-
-    let commitResult;
-    if (hasChanges) {
-      const commitMessage = `AI: ${message.substring(0, 100)}${message.length > 100 ? '...' : ''}\n\n${modificationResult.result}\n\nCo-Authored-By: Claude Agent SDK <noreply@anthropic.com>`;
-
-      commitResult = await gitManager.commit({
-        message: commitMessage,
-        files: uniqueModifiedFiles.length > 0 ? uniqueModifiedFiles : undefined,
-        author: {
-          name: 'DeboraAI Agent',
-          email: 'agent@deboraai.local',
-        },
+      console.log(`✓ Created plan ${record.id} (${record.plan.files.length} file(s))`);
+
+      return NextResponse.json({
+        success: true,
+        mode: 'plan',
+        planId: record.id,
+        plan: record.plan,
+        agentSessionId: record.agentSessionId,
       });
+    }
 
-      if (!commitResult.success) {
-        console.error('✗ Git commit failed:', commitResult.error);
-        broadcastError('Failed to commit changes', sessionId);
-        return NextResponse.json(
-          {
-            success: false,
-            error: 'Failed to commit changes',
-            details: commitResult.error,
-          },
-          { status: 500 }
-        );
-      }
+    console.log('='.repeat(80));
+    console.log('CODE MODIFICATION REQUEST');
+    console.log('='.repeat(80));
+    console.log('User request:', message);
+    if (sessionId) {
+      console.log('Session ID:', sessionId);
+    }
+    console.log('-'.repeat(80));
 
-      console.log(`✓ Committed as: ${commitResult.data?.commit}`);
-      broadcastStatus('commit_created', { step: '4/5', commit: commitResult.data?.commit }, sessionId);
+    // Saved conversation the request belongs to (only the admin's own)
+    const conversationStore = createConversationStore();
+    const conversation = body.conversationId
+      ? await conversationStore.getConversation(body.conversationId)
+      : null;
 
-      // Push to remote staging branch
-      console.log('Pushing to origin/staging...');
-      broadcastProgress('Pushing to GitHub...', sessionId);
+    if (body.conversationId && (!conversation || conversation.userId !== adminId)) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
 
-      try {
-        await gitManager.push({ remote: 'origin', branch: 'staging' });
-        console.log('✓ Pushed to origin/staging');
-        broadcastStatus('pushed_to_remote', { step: '4/5' }, sessionId);
-      } catch (pushError) {
-        console.error('✗ Failed to push to remote:', pushError);
-        // Don't fail the entire operation if push fails - admin can push manually
-        console.warn('⚠ Continuing despite push failure - changes are committed locally');
-      }
-    } else {
-      console.log('⚠ No changes to commit');
-      broadcastStatus('no_changes_to_commit', { step: '4/5' }, sessionId);
-      commitResult = { success: true, data: { commit: null } };
+    // Claimed in a single conditional write, so concurrent apply requests for
+    // the same plan cannot both enqueue a job
+    if (approvedPlan && !(await planStore.claim(approvedPlan.id))) {
+      const appliedPlan = await planStore.getPlan(approvedPlan.id);
+      return NextResponse.json(
+        { error: 'Plan has already been applied', jobId: appliedPlan?.jobId ?? null },
+        { status: 409 }
+      );
     }
 
-    // Step 5: Run automated tests (unless skipped)
-    let testResults = null;
-    if (!skipTests) {
-      console.log('\n[Step 5/5] Running automated tests...');
-      broadcastProgress('Running automated tests...', sessionId);
+    // Persist the request as a job
+    const jobStore = createJobStore();
+    let job: ModificationJobRecord;
+    try {
+      job = await jobStore.createJob({
+        message,
+        adminId,
+        input: {
+          conversationHistory,
+          skipTests,
+          maxRepairAttempts,
+          sessionId,
+          // Agent sessionId for conversation continuity (without one the
+          // runner resumes the conversation's latest session)
+          agentSessionId: body.agentSessionId ?? approvedPlan?.agentSessionId ?? undefined,
+          ...(approvedPlan && { planId: approvedPlan.id, plan: approvedPlan.plan }),
+          ...(conversation && { conversationId: conversation.id }),
+        },
+      });
+    } catch (error) {
+      if (approvedPlan) {
+        await planStore.release(approvedPlan.id);
+      }
+      throw error;
+    }
 
-      try {
-        testResults = await runTests({
-          runUnit: true,
-          runIntegration: true,
-          runE2E: false, // Skip E2E for faster feedback
-          collectCoverage: false, // Skip coverage for speed
-        });
+    if (approvedPlan) {
+      await planStore.markApplied(approvedPlan.id, job.id);
+    }
 
-        if (!testResults.success) {
-          console.error('✗ Tests failed!');
-          console.error(`Failed: ${testResults.testsFailed}/${testResults.totalTests}`);
-
-          broadcastTestResult({
-            passed: testResults.testsPassed,
-            failed: testResults.testsFailed,
-            total: testResults.totalTests,
-          }, sessionId);
-
-          // Rollback changes if we made a commit
-          if (commitResult.data.commit) {
-            console.log('Rolling back commit...');
-            broadcastError('Tests failed - rolling back changes', sessionId);
-            await gitManager.revertCommit(commitResult.data.commit);
-          }
-
-          return NextResponse.json(
-            {
-              success: false,
-              error: 'Tests failed - changes have been rolled back',
-              testResults: {
-                passed: testResults.testsPassed,
-                failed: testResults.testsFailed,
-                total: testResults.totalTests,
-                errors: testResults.errors,
-              },
-            },
-            { status: 400 }
-          );
-        }
-
-        console.log(`✓ All tests passed (${testResults.testsPassed}/${testResults.totalTests})`);
-        broadcastTestResult({
-          passed: testResults.testsPassed,
-          failed: testResults.testsFailed,
-          total: testResults.totalTests,
-        }, sessionId);
-      } catch (error) {
-        console.error('✗ Test execution failed:', error);
-        broadcastError('Test execution failed', sessionId);
-        // Continue anyway - tests might have issues
-      }
-    } else {
-      console.log('\n[Step 5/5] Skipping tests (skipTests=true)');
-      broadcastStatus('tests_skipped', { step: '5/5' }, sessionId);
+    if (conversation) {
+      await conversationStore.appendMessages(conversation.id, [
+        { role: 'user', content: message, timestamp: job.createdAt.toISOString(), jobId: job.id },
+      ]);
     }
 
-    // Success!
-    const duration = Date.now() - startTime;
-    console.log('\n✓ Code modification complete!');
-    console.log(`Total time: ${(duration / 1000).toFixed(2)}s`);
-    console.log('='.repeat(80));
+    const queuePosition = await jobStore.getQueuePosition(job.id);
 
-    // Broadcast completion
-    broadcastComplete({
-      success: true,
-      modifications: uniqueModifiedFiles.length,
-      duration,
-    }, sessionId);
-
-    return NextResponse.json({
-      success: true,
-      message: 'Code modifications applied successfully',
-      data: {
-        result: modificationResult.result,
-        agentSessionId: modificationResult.sessionId, // Agent SDK session for continuity
-        modifications: uniqueModifiedFiles.map((file) => ({
-          filePath: file,
-          created: finalStatus.data.created.includes(file),
-        })),
-        commit: {
-          hash: commitResult.data?.commit,
-          message: commitResult.data?.commit
-            ? `AI: ${message.substring(0, 100)}...`
-            : null,
-        },
-        tests: testResults
-          ? {
-              passed: testResults.testsPassed,
-              failed: testResults.testsFailed,
-              total: testResults.totalTests,
-              duration: testResults.duration,
-            }
-          : { skipped: true },
-        duration,
+    console.log(`✓ Created modification job ${job.id} (queue position ${queuePosition})`);
+    broadcastProgress(
+      queuePosition > 0
+        ? `Modification job queued behind ${queuePosition} other request(s)...`
+        : 'Modification job queued...',
+      sessionId
+    );
+
+    // Run in the background - progress is reported over SSE and on the job
+    processModificationQueue();
+
+    return NextResponse.json(
+      {
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        queuePosition,
       },
-    });
+      { status: 202 }
+    );
   } catch (error) {
-    console.error('✗ Code modification failed:', error);
+    console.error('✗ Failed to create modification job:', error);
 
     broadcastError(
       error instanceof Error ? error.message : 'Internal server error',
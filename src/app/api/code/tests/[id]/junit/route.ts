@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createTestRunStore } from '@/lib/code-modification/test-run-store';
+import { toJUnitXml } from '@/lib/code-modification/test-runner';
+
+/**
+ * GET /api/code/tests/:id/junit
+ *
+ * The tests of one run as a JUnit XML download (test-run-<id>.xml), one
+ * <testsuite> per test file.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const run = await createTestRunStore().getRun(id);
+
+    if (!run) {
+      return NextResponse.json(
+        { success: false, error: 'Test run not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(toJUnitXml(run), {
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Content-Disposition': `attachment; filename="test-run-${run.id}.xml"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting test run:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createTestRunStore } from '@/lib/code-modification/test-run-store';
+
+/**
+ * GET /api/code/tests/:id
+ *
+ * One test run with every test's result and the lint and build stages.
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "run": {
+ *     "id": "clx...", "jobId": "clx...", "commitHash": "3a231f7...", "trigger": "job", "scope": "full",
+ *     "success": false, "passed": 41, "failed": 1, "skipped": 2, "total": 42, "duration": 18234,
+ *     "createdAt": "...",
+ *     "tests": [{
+ *       "type": "unit",              // unit | integration | e2e
+ *       "file": "tests/unit/page.test.ts",
+ *       "suite": "Page › header",
+ *       "name": "renders the title",
+ *       "fullName": "Page header renders the title",
+ *       "status": "failed",          // passed | failed | flaky (passed when re-run) | skipped
+ *       "duration": 12,
+ *       "attempts": 3,               // Runs including retries, for tests that failed
+ *       "quarantined": false,        // Failure did not fail the run
+ *       "failureMessage": "Expected: 1\nReceived: 2",
+ *       "stack": "at Object.<anonymous> (tests/unit/page.test.ts:10:5)"
+ *     }],
+ *     "stages": [{ "name": "lint", "policy": "block", "status": "passed", "summary": "...", "duration": 830 }]
+ *   }
+ * }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const run = await createTestRunStore().getRun(id);
+
+    if (!run) {
+      return NextResponse.json(
+        { success: false, error: 'Test run not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, run });
+  } catch (error) {
+    console.error('Error fetching test run:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createTestRunStore } from '@/lib/code-modification/test-run-store';
+
+/**
+ * GET /api/code/tests/flaky
+ *
+ * Tests that failed or were flaky (failed, then passed when re-run) in recent
+ * test runs, most flaky first, and the quarantined tests.
+ *
+ * Query parameters (all optional):
+ * - days: Runs of the last N days to score (default 30, at most 365)
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "tests": [{
+ *     "type": "unit", "file": "tests/unit/page.test.ts", "fullName": "Page renders the title",
+ *     "runs": 20, "passed": 16, "failed": 1, "flaky": 3,
+ *     "score": 0.15,               // Share of runs in which the test was flaky
+ *     "lastFailedAt": "...",
+ *     "quarantine": null           // Or the quarantine, as below
+ *   }],
+ *   "quarantined": [{
+ *     "id": "clx...", "file": "tests/unit/page.test.ts", "fullName": "Page renders the title",
+ *     "reason": "Times out on CI", "quarantinedBy": "clx...", "createdAt": "..."
+ *   }]
+ * }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(parseInt(searchParams.get('days') || '30', 10) || 30, 365);
+
+    const store = createTestRunStore();
+    const [tests, quarantined] = await Promise.all([store.getFlakiness({ days }), store.listQuarantined()]);
+
+    return NextResponse.json({ success: true, tests, quarantined });
+  } catch (error) {
+    console.error('Error computing test flakiness:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createTestRunStore } from '@/lib/code-modification/test-run-store';
+
+/**
+ * Id of the signed-in admin, or null
+ */
+async function getAdminId(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+  return (session?.user as { id?: string } | undefined)?.id ?? null;
+}
+
+/**
+ * Read and check the test a request names
+ */
+async function readTest(
+  request: NextRequest
+): Promise<{ file: string | null; fullName: string; reason?: string } | null> {
+  const body = await request.json().catch(() => ({}));
+
+  if (typeof body.fullName !== 'string' || !body.fullName) {
+    return null;
+  }
+  if (body.file !== undefined && body.file !== null && typeof body.file !== 'string') {
+    return null;
+  }
+  if (body.reason !== undefined && typeof body.reason !== 'string') {
+    return null;
+  }
+
+  return { file: body.file || null, fullName: body.fullName, reason: body.reason };
+}
+
+/**
+ * POST /api/code/tests/quarantine
+ *
+ * Quarantine a test: it still runs and is reported, but its failures no
+ * longer fail the tests of AI changes (so they are committed and can be
+ * promoted) or of reverts. Quarantining it again updates the reason.
+ *
+ * Request body:
+ * {
+ *   "file": "tests/unit/page.test.ts",     // As in the test results (null for none)
+ *   "fullName": "Page renders the title",
+ *   "reason": "Times out on CI"            // Optional
+ * }
+ *
+ * Response (201):
+ * {
+ *   "success": true,
+ *   "quarantine": { "id": "clx...", "file": "...", "fullName": "...", "reason": "...", "quarantinedBy": "clx...", "createdAt": "..." }
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const adminId = await getAdminId();
+    if (!adminId) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const test = await readTest(request);
+    if (!test) {
+      return NextResponse.json(
+        { success: false, error: 'fullName is required; file and reason must be strings' },
+        { status: 400 }
+      );
+    }
+
+    const quarantine = await createTestRunStore().quarantine({ ...test, quarantinedBy: adminId });
+    console.log(`✓ Quarantined test "${test.fullName}" (${test.file || 'no file'})`);
+
+    return NextResponse.json({ success: true, quarantine }, { status: 201 });
+  } catch (error) {
+    console.error('Error quarantining test:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/code/tests/quarantine
+ *
+ * Lift a test's quarantine: its failures fail test runs again.
+ *
+ * Request body:
+ * {
+ *   "file": "tests/unit/page.test.ts",
+ *   "fullName": "Page renders the title"
+ * }
+ *
+ * Response:
+ * {
+ *   "success": true
+ * }
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const test = await readTest(request);
+    if (!test) {
+      return NextResponse.json(
+        { success: false, error: 'fullName is required; file must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await createTestRunStore().unquarantine(test.file, test.fullName))) {
+      return NextResponse.json(
+        { success: false, error: 'Test is not quarantined' },
+        { status: 404 }
+      );
+    }
+
+    console.log(`✓ Lifted quarantine of test "${test.fullName}" (${test.file || 'no file'})`);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error lifting test quarantine:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
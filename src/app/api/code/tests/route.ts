@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createTestRunStore } from '@/lib/code-modification/test-run-store';
+
+/**
+ * GET /api/code/tests
+ *
+ * Recent test runs (modification jobs, their repair attempts and reverts),
+ * newest first, without the per-test results.
+ *
+ * Query parameters (all optional):
+ * - jobId: Only the runs of this modification job
+ * - limit: Maximum number of runs (default 50, at most 200)
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "runs": [{
+ *     "id": "clx...", "jobId": "clx...", "commitHash": "3a231f7...",
+ *     "trigger": "job",            // job | repair | revert
+ *     "scope": "full",             // impacted (tests importing the changed files) | full
+ *     "success": false, "passed": 41, "failed": 1, "skipped": 2, "total": 42,
+ *     "duration": 18234, "createdAt": "..."
+ *   }]
+ * }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const jobId = searchParams.get('jobId') || undefined;
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 200);
+
+    const runs = await createTestRunStore().listRuns({ jobId, limit });
+
+    return NextResponse.json({ success: true, runs });
+  } catch (error) {
+    console.error('Error listing test runs:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
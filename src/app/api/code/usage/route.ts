@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createUsageStore, getUsageBudgets } from '@/lib/usage/usage-store';
+
+/**
+ * GET /api/code/usage
+ *
+ * Token usage and estimated cost of the AI agent: daily totals for a month,
+ * monthly totals for the 12 months up to it, per-admin totals, and the
+ * configured monthly budgets with what has been spent this month.
+ *
+ * Query parameters (all optional):
+ * - month:   YYYY-MM (UTC, default: current month)
+ * - adminId: Only usage requested by this admin
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "month": "2026-10",
+ *   "totals": { "calls": 12, "inputTokens": 480000, "outputTokens": 36000, "costUsd": 1.98 },
+ *   "daily": [{ "date": "2026-10-19", "calls": 3, "inputTokens": 120000, "outputTokens": 9000, "costUsd": 0.5 }],
+ *   "monthly": [{ "month": "2026-10", "calls": 12, ... }],
+ *   "byAdmin": [{ "adminId": "clx...", "name": "Admin User", "email": "admin@example.com", "calls": 12, ... }],
+ *   "budgets": { "monthlyUsd": 50, "adminMonthlyUsd": null },
+ *   "spentThisMonthUsd": 1.98
+ * }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month') || undefined;
+    const adminId = searchParams.get('adminId') || undefined;
+
+    if (month && !/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+      return NextResponse.json(
+        { success: false, error: 'month must be in YYYY-MM format' },
+        { status: 400 }
+      );
+    }
+
+    const usageStore = createUsageStore();
+    const [summary, spentThisMonthUsd] = await Promise.all([
+      usageStore.getSummary({ month, adminId }),
+      usageStore.getMonthlyCost(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+      budgets: getUsageBudgets(),
+      spentThisMonthUsd,
+    });
+  } catch (error) {
+    console.error('Error fetching token usage:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createSnapshotManager } from '@/lib/code-modification/snapshot-manager';
+import { createJobStore } from '@/lib/jobs/job-store';
+import { createWorktreeLock } from '@/lib/jobs/worktree-lock';
+import { isJobActive } from '@/lib/jobs/modification-runner';
+
+/**
+ * POST /api/db/snapshots/:id/restore
+ *
+ * Replace the database with a snapshot. The current database is snapshotted
+ * first (label `pre_restore`), so a restore can itself be undone. The
+ * server's database connections are closed while the file is swapped and
+ * reopened afterwards (see SnapshotManager).
+ *
+ * Only the database is restored - code and migration files on staging are
+ * unchanged. Everything written since the snapshot is gone, job history
+ * included: jobs the snapshot still has as unfinished are marked FAILED
+ * rather than resumed. The staging worktree lock is held throughout, so while
+ * a modification job runs the request is refused with 409.
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "restored": { "id": "20261019T180000123Z_ai_generated_1760896800000", "label": "...", "size": 241664, "createdAt": "..." },
+ *   "backup": { "id": "20261019T183000456Z_pre_restore", ... },   // null when there was no database file
+ *   "failedJobs": ["clx..."]
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+    const adminId = (session?.user as { id?: string } | undefined)?.id ?? null;
+
+    if (!adminId) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const snapshots = createSnapshotManager(process.cwd());
+    if (!(await snapshots.get(id))) {
+      return NextResponse.json(
+        { success: false, error: 'Snapshot not found' },
+        { status: 404 }
+      );
+    }
+
+    const lock = createWorktreeLock();
+    const lockId = `restore_${id}`;
+    const { acquired, holder } = await lock.acquire(lockId, adminId);
+
+    if (!acquired) {
+      return NextResponse.json(
+        { success: false, error: `Staging is busy with ${holder?.jobId || 'another operation'} - try again when it finishes` },
+        { status: 409 }
+      );
+    }
+
+    try {
+      console.log(`[Snapshots] ${session?.user?.email || adminId} is restoring ${id}`);
+      const result = await snapshots.restore(id, { backup: true });
+
+      if (!result) {
+        return NextResponse.json(
+          { success: false, error: 'Database is not a SQLite file' },
+          { status: 409 }
+        );
+      }
+
+      // Jobs that were running when the snapshot was taken must not resume
+      const jobStore = createJobStore();
+      const failedJobs: string[] = [];
+      for (const job of await jobStore.listIncompleteJobs()) {
+        if (!isJobActive(job.id)) {
+          await jobStore.markFailed(job.id, `Interrupted by restoring database snapshot ${id}`);
+          failedJobs.push(job.id);
+        }
+      }
+
+      console.log(`✓ [Snapshots] Restored ${id} (backup: ${result.backup?.id || 'none'})`);
+
+      return NextResponse.json({ success: true, restored: result.restored, backup: result.backup, failedJobs });
+    } finally {
+      // The restored database may hold the lock row of whoever had it when the snapshot was taken
+      await lock.forceRelease();
+    }
+  } catch (error) {
+    console.error('Failed to restore database snapshot:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
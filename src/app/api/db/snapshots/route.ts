@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { createSnapshotManager } from '@/lib/code-modification/snapshot-manager';
+
+/**
+ * GET /api/db/snapshots
+ *
+ * List the database snapshots, newest first. One is taken before every
+ * migration a modification job applies (label: the migration name) and before
+ * every restore (label: `pre_restore`); only the newest
+ * DB_SNAPSHOT_RETENTION (default 10) are kept.
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "database": "/path/to/staging/prisma/staging.db",   // null when DATABASE_URL is not a SQLite file
+ *   "retention": 10,
+ *   "snapshots": [
+ *     {
+ *       "id": "20261019T180000123Z_ai_generated_1760896800000",
+ *       "label": "ai_generated_1760896800000",
+ *       "size": 241664,
+ *       "createdAt": "2026-10-19T18:00:00.123Z"
+ *     }
+ *   ]
+ * }
+ */
+export async function GET() {
+  try {
+    const snapshots = createSnapshotManager(process.cwd());
+
+    return NextResponse.json({
+      success: true,
+      database: await snapshots.getDatabasePath(),
+      retention: snapshots.getRetention(),
+      snapshots: await snapshots.list(),
+    });
+  } catch (error) {
+    console.error('Failed to list database snapshots:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
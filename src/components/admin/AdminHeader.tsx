@@ -46,6 +46,24 @@ export default function AdminHeader() {
             >
               History
             </a>
+            <a
+              href="/admin/tests"
+              className="text-sm text-gray-600 hover:text-gray-900"
+            >
+              Tests
+            </a>
+            <a
+              href="/admin/branches"
+              className="text-sm text-gray-600 hover:text-gray-900"
+            >
+              Branches
+            </a>
+            <a
+              href="/admin/usage"
+              className="text-sm text-gray-600 hover:text-gray-900"
+            >
+              Usage
+            </a>
           </nav>
         </div>
 
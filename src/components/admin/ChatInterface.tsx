@@ -2,6 +2,7 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { useSSE, SSEMessage } from '@/hooks/useSSE';
+import ConversationSidebar from './ConversationSidebar';
 
 /**
  * Message in the conversation
@@ -13,22 +14,77 @@ interface Message {
   timestamp: Date;
   modifications?: Array<{ filePath: string; created: boolean }>;
   commit?: { hash: string | null; message: string | null };
-  tests?: { passed: number; failed: number; total: number; skipped?: boolean };
+  tests?: { passed: number; failed: number; total: number; skipped?: boolean; testRunId?: string };
   duration?: number;
   error?: string;
+  transcript?: TranscriptEntry[];
+  jobId?: string;
 }
 
+/**
+ * Message as saved in a conversation (GET /api/code/conversations/:id)
+ */
+interface SavedMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  timestamp: string;
+  jobId?: string;
+  status?: 'COMPLETED' | 'FAILED' | 'CANCELLED';
+  modifications?: Array<{ filePath: string; created: boolean }>;
+  commit?: { hash: string | null; message: string | null };
+  tests?: { passed: number; failed: number; total: number; skipped?: boolean; testRunId?: string };
+  duration?: number;
+  error?: string;
+}
+
+/**
+ * Tool call or assistant text streamed while the agent works
+ */
+interface TranscriptEntry {
+  id: string;
+  kind: 'tool' | 'text';
+  tool?: string;
+  content: string; // Tool summary (file, command) or assistant text
+}
+
+/**
+ * Destructive schema changes a running job waits on (see POST /api/code/jobs/:id/schema-approval)
+ */
+interface PendingSchemaApproval {
+  jobId: string;
+  changes: Array<{ severity: 'additive' | 'risky' | 'destructive'; description: string }>;
+}
+
+/**
+ * Modification jobs run in the background; the chat polls their status
+ */
+const JOB_POLL_INTERVAL_MS = 2000;
+const ACTIVE_JOB_STORAGE_KEY = 'deboraai.activeJobId';
+
+/**
+ * Conversations are saved server-side; the open one is reopened after a reload
+ */
+const ACTIVE_CONVERSATION_STORAGE_KEY = 'deboraai.conversationId';
+
 /**
  * ChatInterface Component
  *
  * Main UI for admins to interact with the AI coding agent.
  * Allows natural language requests to modify the staging codebase.
+ * Conversations are saved with their agent session and listed in the
+ * sidebar, so any of them can be reopened and continued.
  */
 export default function ChatInterface() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [progressMessage, setProgressMessage] = useState<string | null>(null);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [schemaApproval, setSchemaApproval] = useState<PendingSchemaApproval | null>(null);
+  const [isDeciding, setIsDeciding] = useState(false);
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const transcriptRef = useRef<TranscriptEntry[]>([]); // Read when the job finishes
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Generate a sessionId on mount for SSE connection (client-side only)
@@ -39,6 +95,10 @@ export default function ChatInterface() {
   // Track Agent SDK sessionId separately for conversation continuity
   const [agentSessionId, setAgentSessionId] = useState<string | undefined>();
 
+  // Saved conversation shown in the chat (null until the first request)
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversationsVersion, setConversationsVersion] = useState(0); // Refreshes the sidebar
+
   // SSE connection for real-time updates
   const { messages: sseMessages, isConnected, error: sseError } = useSSE({
     sessionId,
@@ -48,7 +108,7 @@ export default function ChatInterface() {
   // Auto-scroll to bottom when messages change
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, transcript]);
 
   // Track which SSE messages we've already processed
   const processedMessageIds = useRef(new Set<string>());
@@ -59,7 +119,8 @@ export default function ChatInterface() {
 
     // Process only new messages
     sseMessages.forEach((sseMessage) => {
-      const messageId = `${sseMessage.timestamp}_${sseMessage.type}`;
+      // Agent activity arrives in bursts, so include the payload to keep same-millisecond events apart
+      const messageId = `${sseMessage.timestamp}_${sseMessage.type}_${JSON.stringify(sseMessage.data)}`;
 
       if (processedMessageIds.current.has(messageId)) {
         return; // Already processed
@@ -75,6 +136,10 @@ export default function ChatInterface() {
           break;
 
         case 'status':
+          if (sseMessage.data.status === 'schema_approval_required') {
+            setSchemaApproval({ jobId: sseMessage.data.details.jobId, changes: sseMessage.data.details.changes });
+          }
+
           // Show status updates as system messages
           const statusMessage: Message = {
             id: `sse_status_${sseMessage.timestamp}_${Math.random().toString(36).substr(2, 9)}`,
@@ -101,7 +166,7 @@ export default function ChatInterface() {
           const testMessage: Message = {
             id: `sse_test_${sseMessage.timestamp}_${Math.random().toString(36).substr(2, 9)}`,
             role: 'progress',
-            content: `Tests: ${sseMessage.data.passed}/${sseMessage.data.total} passed`,
+            content: `${sseMessage.data.scope === 'impacted' ? 'Impacted tests' : 'Tests'}: ${sseMessage.data.passed}/${sseMessage.data.total} passed${sseMessage.data.flakyTests ? ` (${sseMessage.data.flakyTests.length} flaky)` : ''}${describeStages(sseMessage.data.stages)}`,
             timestamp: new Date(sseMessage.timestamp),
             tests: sseMessage.data,
           };
@@ -124,10 +189,298 @@ export default function ChatInterface() {
           // Clear progress when complete
           setProgressMessage(null);
           break;
+
+        case 'agent_tool':
+        case 'agent_text':
+          // Live transcript of what the agent is reading, editing and running
+          const entry: TranscriptEntry = {
+            id: `sse_agent_${sseMessage.timestamp}_${Math.random().toString(36).substr(2, 9)}`,
+            kind: sseMessage.type === 'agent_tool' ? 'tool' : 'text',
+            tool: sseMessage.data.tool,
+            content: sseMessage.type === 'agent_tool' ? sseMessage.data.summary : sseMessage.data.text,
+          };
+          transcriptRef.current = [...transcriptRef.current, entry];
+          setTranscript(transcriptRef.current);
+          break;
+
+        case 'cancelled':
+          // The job poll renders the final message; just show what was cleaned up
+          setProgressMessage(
+            sseMessage.data.cleanup && sseMessage.data.cleanup.length > 0
+              ? `Cancelled — ${sseMessage.data.cleanup.join(', ')}`
+              : 'Cancelled'
+          );
+          break;
       }
     });
   }, [sseMessages]);
 
+  /**
+   * Poll a modification job until it reaches a terminal state
+   */
+  const waitForJob = async (jobId: string) => {
+    while (true) {
+      const response = await fetch(`/api/code/jobs/${jobId}`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load job status');
+      }
+
+      if (data.job.status === 'COMPLETED' || data.job.status === 'FAILED' || data.job.status === 'CANCELLED') {
+        return data.job;
+      }
+
+      // Also shows the decision buttons again after a reload
+      const approval = data.job.steps.find((step: { name: string }) => step.name === 'migration')?.data?.schemaApproval;
+      setSchemaApproval(approval?.status === 'pending' ? { jobId, changes: approval.changes } : null);
+
+      // Other admins' requests hold the staging worktree - show where we are in line
+      if (data.job.status === 'PENDING' && data.job.queuePosition > 0) {
+        setProgressMessage(
+          `Queued — ${data.job.queuePosition} request${data.job.queuePosition === 1 ? '' : 's'} ahead of yours`
+        );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    }
+  };
+
+  /**
+   * Start a fresh live transcript for the next request
+   */
+  const resetTranscript = () => {
+    transcriptRef.current = [];
+    setTranscript([]);
+  };
+
+  /**
+   * Follow a job to completion and render its result
+   */
+  const followJob = async (jobId: string) => {
+    setIsLoading(true);
+    setActiveJobId(jobId);
+    localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, jobId);
+
+    try {
+      const job = await waitForJob(jobId);
+
+      if (job.status === 'COMPLETED') {
+        const result = job.result || {};
+        const assistantMessage: Message = {
+          id: Date.now().toString(),
+          role: 'assistant',
+          content: result.result || 'Changes applied successfully',
+          timestamp: new Date(),
+          modifications: result.modifications,
+          commit: result.commit,
+          tests: result.tests,
+          duration: result.duration,
+          transcript: transcriptRef.current,
+          jobId,
+        };
+
+        appendJobMessage(assistantMessage);
+
+        // Update agent sessionId for conversation continuity
+        if (result.agentSessionId) {
+          setAgentSessionId(result.agentSessionId);
+        }
+      } else if (job.status === 'CANCELLED') {
+        const cancelledMessage: Message = {
+          id: Date.now().toString(),
+          role: 'progress',
+          content: `Request cancelled${job.error ? ` (${job.error})` : ''} — no changes were kept`,
+          timestamp: new Date(),
+          jobId,
+        };
+
+        appendJobMessage(cancelledMessage);
+      } else {
+        const errorMessage: Message = {
+          id: Date.now().toString(),
+          role: 'system',
+          content: `Error: ${job.error}${job.result?.details ? `\n\n${job.result.details}` : ''}`,
+          timestamp: new Date(),
+          error: job.error,
+          transcript: transcriptRef.current,
+          jobId,
+        };
+
+        appendJobMessage(errorMessage);
+      }
+
+      localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+    } catch (error) {
+      const errorMessage: Message = {
+        id: Date.now().toString(),
+        role: 'system',
+        content: `Failed to get job status: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        timestamp: new Date(),
+        error: String(error),
+      };
+
+      setMessages((prev) => [...prev, errorMessage]);
+    } finally {
+      setIsLoading(false);
+      setActiveJobId(null);
+      setIsCancelling(false);
+      setSchemaApproval(null);
+      setProgressMessage(null);
+      resetTranscript();
+      setConversationsVersion((version) => version + 1);
+    }
+  };
+
+  /**
+   * Add a job's reply unless the reopened conversation already contains it
+   */
+  const appendJobMessage = (message: Message) => {
+    setMessages((prev) =>
+      prev.some((existing) => existing.jobId === message.jobId && existing.role !== 'user')
+        ? prev
+        : [...prev, message]
+    );
+  };
+
+  /**
+   * Load a saved conversation and continue its agent session
+   */
+  const openConversation = async (id: string) => {
+    try {
+      const response = await fetch(`/api/code/conversations/${id}`);
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to load conversation');
+      }
+
+      setMessages(data.conversation.messages.map((message: SavedMessage, index: number) => toMessage(message, `${id}_${index}`)));
+      setAgentSessionId(data.conversation.agentSessionId || undefined);
+      setConversationId(id);
+      localStorage.setItem(ACTIVE_CONVERSATION_STORAGE_KEY, id);
+    } catch (error) {
+      localStorage.removeItem(ACTIVE_CONVERSATION_STORAGE_KEY);
+
+      const errorMessage: Message = {
+        id: Date.now().toString(),
+        role: 'system',
+        content: `Could not open conversation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        timestamp: new Date(),
+        error: String(error),
+      };
+
+      setMessages((prev) => [...prev, errorMessage]);
+    }
+  };
+
+  /**
+   * Save a new conversation for the first request
+   */
+  const createConversation = async (title: string): Promise<string> => {
+    const response = await fetch('/api/code/conversations', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title }),
+    });
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to save conversation');
+    }
+
+    setConversationId(data.conversation.id);
+    localStorage.setItem(ACTIVE_CONVERSATION_STORAGE_KEY, data.conversation.id);
+    setConversationsVersion((version) => version + 1);
+
+    return data.conversation.id;
+  };
+
+  /**
+   * Cancel the running job; followJob picks up the CANCELLED status
+   */
+  const handleStop = async () => {
+    if (!activeJobId || isCancelling) return;
+
+    setIsCancelling(true);
+    setProgressMessage('Cancelling...');
+
+    try {
+      const response = await fetch(`/api/code/jobs/${activeJobId}/cancel`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to cancel');
+      }
+    } catch (error) {
+      const errorMessage: Message = {
+        id: Date.now().toString(),
+        role: 'system',
+        content: `Could not cancel: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        timestamp: new Date(),
+        error: String(error),
+      };
+
+      setMessages((prev) => [...prev, errorMessage]);
+      setIsCancelling(false);
+    }
+  };
+
+  /**
+   * Approve or reject the destructive schema changes the running job waits on
+   */
+  const handleSchemaDecision = async (approve: boolean) => {
+    if (!schemaApproval || isDeciding) return;
+
+    setIsDeciding(true);
+
+    try {
+      const response = await fetch(`/api/code/jobs/${schemaApproval.jobId}/schema-approval`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ approve }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to record decision');
+      }
+
+      setSchemaApproval(null);
+      setProgressMessage(approve ? 'Schema changes approved — generating migration...' : 'Schema changes rejected');
+    } catch (error) {
+      const errorMessage: Message = {
+        id: Date.now().toString(),
+        role: 'system',
+        content: `Could not ${approve ? 'approve' : 'reject'} schema changes: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        timestamp: new Date(),
+        error: String(error),
+      };
+
+      setMessages((prev) => [...prev, errorMessage]);
+    } finally {
+      setIsDeciding(false);
+    }
+  };
+
+  // Reopen the conversation and re-attach to a job that was still running when the page was reloaded
+  useEffect(() => {
+    const restore = async () => {
+      const savedConversationId = localStorage.getItem(ACTIVE_CONVERSATION_STORAGE_KEY);
+      if (savedConversationId) {
+        await openConversation(savedConversationId);
+      }
+
+      const activeJobId = localStorage.getItem(ACTIVE_JOB_STORAGE_KEY);
+      if (activeJobId) {
+        followJob(activeJobId);
+      }
+    };
+
+    restore();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   /**
    * Send message to AI agent
    */
@@ -144,6 +497,7 @@ export default function ChatInterface() {
     setMessages((prev) => [...prev, userMessage]);
     setInput('');
     setIsLoading(true);
+    resetTranscript();
 
     try {
       // Build conversation history for context
@@ -152,7 +506,10 @@ export default function ChatInterface() {
         content: msg.content,
       }));
 
-      // Call the AI agent API
+      // Save the conversation so the request and reply survive a reload
+      const activeConversationId = conversationId || (await createConversation(input));
+
+      // Queue the modification job
       const response = await fetch('/api/code/modify', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -161,6 +518,7 @@ export default function ChatInterface() {
           conversationHistory,
           sessionId, // Client sessionId for SSE filtering
           agentSessionId, // Agent SDK sessionId for conversation continuity
+          conversationId: activeConversationId,
           skipTests: false, // Always run tests for admin requests
         }),
       });
@@ -168,24 +526,7 @@ export default function ChatInterface() {
       const data = await response.json();
 
       if (data.success) {
-        // Success response
-        const assistantMessage: Message = {
-          id: Date.now().toString(),
-          role: 'assistant',
-          content: data.data.result || 'Changes applied successfully',
-          timestamp: new Date(),
-          modifications: data.data.modifications,
-          commit: data.data.commit,
-          tests: data.data.tests,
-          duration: data.data.duration,
-        };
-
-        setMessages((prev) => [...prev, assistantMessage]);
-
-        // Update agent sessionId for conversation continuity
-        if (data.data.agentSessionId) {
-          setAgentSessionId(data.data.agentSessionId);
-        }
+        await followJob(data.jobId);
       } else {
         // Error response
         const errorMessage: Message = {
@@ -197,6 +538,7 @@ export default function ChatInterface() {
         };
 
         setMessages((prev) => [...prev, errorMessage]);
+        setIsLoading(false);
       }
     } catch (error) {
       const errorMessage: Message = {
@@ -208,7 +550,6 @@ export default function ChatInterface() {
       };
 
       setMessages((prev) => [...prev, errorMessage]);
-    } finally {
       setIsLoading(false);
     }
   };
@@ -224,179 +565,330 @@ export default function ChatInterface() {
   };
 
   /**
-   * Clear conversation
+   * Start a new conversation (saved when the first request is sent)
    */
-  const handleClearConversation = () => {
+  const handleNewConversation = () => {
     setMessages([]);
     setAgentSessionId(undefined); // Clear agent session to start fresh conversation
+    setConversationId(null);
+    localStorage.removeItem(ACTIVE_CONVERSATION_STORAGE_KEY);
     // Note: client sessionId stays the same for SSE connection continuity
   };
 
+  /**
+   * Leave a conversation that was deleted from the sidebar
+   */
+  const handleConversationDeleted = (id: string) => {
+    if (id === conversationId) {
+      handleNewConversation();
+    }
+  };
+
   return (
-    <div className="flex flex-col h-full bg-white rounded-lg shadow-lg">
-      {/* Header */}
-      <div className="flex items-center justify-between p-4 border-b border-gray-200">
-        <div>
-          <h2 className="text-xl font-bold text-gray-900">AI Coding Agent</h2>
-          <p className="text-sm text-gray-600">
-            Modifying: <span className="font-mono text-blue-600">staging</span>
-            {' • '}
-            <span className={`inline-flex items-center ${isConnected ? 'text-green-600' : 'text-gray-400'}`}>
-              <span className={`inline-block w-2 h-2 rounded-full mr-1 ${isConnected ? 'bg-green-600' : 'bg-gray-400'}`}></span>
-              {isConnected ? 'Live' : 'Connecting...'}
-            </span>
-          </p>
-        </div>
-        <button
-          onClick={handleClearConversation}
-          className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900 border border-gray-300 rounded hover:bg-gray-50"
-        >
-          Clear
-        </button>
+    <div className="flex h-full space-x-4">
+      {/* Saved conversations */}
+      <div className="w-64 flex-shrink-0">
+        <ConversationSidebar
+          activeId={conversationId}
+          refreshKey={conversationsVersion}
+          disabled={isLoading}
+          onSelect={openConversation}
+          onNew={handleNewConversation}
+          onDeleted={handleConversationDeleted}
+        />
       </div>
 
-      {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.length === 0 && (
-          <div className="text-center text-gray-500 mt-8">
-            <p className="text-lg font-medium">Welcome to DeboraAI</p>
-            <p className="mt-2">
-              Ask me to modify the staging codebase using natural language.
+      <div className="flex flex-col flex-1 min-w-0 h-full bg-white rounded-lg shadow-lg">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">AI Coding Agent</h2>
+            <p className="text-sm text-gray-600">
+              Modifying: <span className="font-mono text-blue-600">staging</span>
+              {' • '}
+              <span className={`inline-flex items-center ${isConnected ? 'text-green-600' : 'text-gray-400'}`}>
+                <span className={`inline-block w-2 h-2 rounded-full mr-1 ${isConnected ? 'bg-green-600' : 'bg-gray-400'}`}></span>
+                {isConnected ? 'Live' : 'Connecting...'}
+              </span>
             </p>
-            <div className="mt-4 text-sm text-left max-w-md mx-auto space-y-2">
-              <p className="font-medium">Example requests:</p>
-              <ul className="list-disc list-inside space-y-1 text-gray-600">
-                <li>"Add a dark mode toggle to the header"</li>
-                <li>"Create a Task management feature with database and UI"</li>
-                <li>"Add error handling to the login form"</li>
-                <li>"Update the homepage with a hero section"</li>
-              </ul>
-            </div>
           </div>
-        )}
-
-        {messages.map((message) => (
-          <div
-            key={message.id}
-            className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
+          <button
+            onClick={handleNewConversation}
+            disabled={isLoading}
+            className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
           >
+            New
+          </button>
+        </div>
+
+        {/* Messages */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {messages.length === 0 && (
+            <div className="text-center text-gray-500 mt-8">
+              <p className="text-lg font-medium">Welcome to DeboraAI</p>
+              <p className="mt-2">
+                Ask me to modify the staging codebase using natural language.
+              </p>
+              <div className="mt-4 text-sm text-left max-w-md mx-auto space-y-2">
+                <p className="font-medium">Example requests:</p>
+                <ul className="list-disc list-inside space-y-1 text-gray-600">
+                  <li>"Add a dark mode toggle to the header"</li>
+                  <li>"Create a Task management feature with database and UI"</li>
+                  <li>"Add error handling to the login form"</li>
+                  <li>"Update the homepage with a hero section"</li>
+                </ul>
+              </div>
+            </div>
+          )}
+
+          {messages.map((message) => (
             <div
-              className={`max-w-3xl rounded-lg p-4 ${
-                message.role === 'user'
-                  ? 'bg-blue-600 text-white'
-                  : message.role === 'system'
-                  ? 'bg-red-50 text-red-900 border border-red-200'
-                  : message.role === 'progress'
-                  ? 'bg-blue-50 text-blue-900 border border-blue-200 text-sm'
-                  : 'bg-gray-100 text-gray-900'
-              }`}
+              key={message.id}
+              className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
             >
-              {/* Message content */}
-              <div className="whitespace-pre-wrap">{message.content}</div>
-
-              {/* File modifications */}
-              {message.modifications && message.modifications.length > 0 && (
-                <div className="mt-3 pt-3 border-t border-gray-300">
-                  <p className="text-sm font-medium mb-2">Files modified:</p>
-                  <ul className="text-sm space-y-1">
-                    {message.modifications.map((mod, idx) => (
-                      <li key={idx} className="font-mono">
-                        <span className={mod.created ? 'text-green-600' : 'text-blue-600'}>
-                          {mod.created ? '+ ' : '• '}
-                        </span>
-                        {mod.filePath}
-                      </li>
-                    ))}
-                  </ul>
-                </div>
-              )}
-
-              {/* Git commit */}
-              {message.commit && message.commit.hash && (
-                <div className="mt-3 pt-3 border-t border-gray-300">
-                  <p className="text-sm">
-                    <span className="font-medium">Commit:</span>{' '}
-                    <span className="font-mono text-xs">{message.commit.hash.substring(0, 7)}</span>
-                  </p>
-                </div>
-              )}
-
-              {/* Test results */}
-              {message.tests && !message.tests.skipped && (
-                <div className="mt-3 pt-3 border-t border-gray-300">
-                  <p className="text-sm">
-                    <span className="font-medium">Tests:</span>{' '}
-                    <span
-                      className={
-                        message.tests.failed === 0 ? 'text-green-600' : 'text-red-600'
-                      }
-                    >
-                      {message.tests.passed}/{message.tests.total} passed
-                    </span>
-                  </p>
-                </div>
-              )}
-
-              {/* Duration */}
-              {message.duration && (
+              <div
+                className={`max-w-3xl rounded-lg p-4 ${
+                  message.role === 'user'
+                    ? 'bg-blue-600 text-white'
+                    : message.role === 'system'
+                    ? 'bg-red-50 text-red-900 border border-red-200'
+                    : message.role === 'progress'
+                    ? 'bg-blue-50 text-blue-900 border border-blue-200 text-sm'
+                    : 'bg-gray-100 text-gray-900'
+                }`}
+              >
+                {/* Message content */}
+                <div className="whitespace-pre-wrap">{message.content}</div>
+
+                {/* File modifications */}
+                {message.modifications && message.modifications.length > 0 && (
+                  <div className="mt-3 pt-3 border-t border-gray-300">
+                    <p className="text-sm font-medium mb-2">Files modified:</p>
+                    <ul className="text-sm space-y-1">
+                      {message.modifications.map((mod, idx) => (
+                        <li key={idx} className="font-mono">
+                          <span className={mod.created ? 'text-green-600' : 'text-blue-600'}>
+                            {mod.created ? '+ ' : '• '}
+                          </span>
+                          {mod.filePath}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {/* Git commit */}
+                {message.commit && message.commit.hash && (
+                  <div className="mt-3 pt-3 border-t border-gray-300">
+                    <p className="text-sm">
+                      <span className="font-medium">Commit:</span>{' '}
+                      <span className="font-mono text-xs">{message.commit.hash.substring(0, 7)}</span>
+                    </p>
+                  </div>
+                )}
+
+                {/* Test results */}
+                {message.tests && !message.tests.skipped && (
+                  <div className="mt-3 pt-3 border-t border-gray-300">
+                    <p className="text-sm">
+                      <span className="font-medium">Tests:</span>{' '}
+                      <span
+                        className={
+                          message.tests.failed === 0 ? 'text-green-600' : 'text-red-600'
+                        }
+                      >
+                        {message.tests.passed}/{message.tests.total} passed
+                      </span>
+                      {message.tests.testRunId && (
+                        <a
+                          href={`/admin/tests?run=${message.tests.testRunId}`}
+                          className="ml-2 text-blue-600 hover:underline"
+                        >
+                          View results
+                        </a>
+                      )}
+                    </p>
+                  </div>
+                )}
+
+                {/* Agent transcript */}
+                {message.transcript && message.transcript.length > 0 && (
+                  <div className="mt-3 pt-3 border-t border-gray-300">
+                    <AgentTranscript entries={message.transcript} />
+                  </div>
+                )}
+
+                {/* Duration */}
+                {message.duration && (
+                  <div className="mt-2 text-xs opacity-70">
+                    {(message.duration / 1000).toFixed(1)}s
+                  </div>
+                )}
+
+                {/* Timestamp */}
                 <div className="mt-2 text-xs opacity-70">
-                  {(message.duration / 1000).toFixed(1)}s
+                  {message.timestamp.toLocaleTimeString()}
                 </div>
-              )}
-
-              {/* Timestamp */}
-              <div className="mt-2 text-xs opacity-70">
-                {message.timestamp.toLocaleTimeString()}
               </div>
             </div>
-          </div>
-        ))}
-
-        {/* Loading indicator with progress */}
-        {isLoading && (
-          <div className="flex justify-start">
-            <div className="bg-gray-100 rounded-lg p-4">
-              <div className="flex items-center space-x-2">
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-900"></div>
-                <span className="text-gray-600">
-                  {progressMessage || 'AI agent is working...'}
-                </span>
+          ))}
+
+          {/* Loading indicator with progress */}
+          {isLoading && (
+            <div className="flex justify-start">
+              <div className="bg-gray-100 rounded-lg p-4">
+                <div className="flex items-center space-x-2">
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-900"></div>
+                  <span className="text-gray-600">
+                    {progressMessage || 'AI agent is working...'}
+                  </span>
+                </div>
+                {transcript.length > 0 && (
+                  <div className="mt-3">
+                    <AgentTranscript entries={transcript} open />
+                  </div>
+                )}
               </div>
             </div>
-          </div>
-        )}
+          )}
+
+          {/* Destructive schema changes waiting for a decision */}
+          {schemaApproval && (
+            <div className="flex justify-start">
+              <div className="max-w-3xl rounded-lg p-4 bg-yellow-50 text-yellow-900 border border-yellow-300">
+                <p className="font-medium">The agent&apos;s schema changes can destroy staging data. Apply them?</p>
+                <ul className="mt-2 text-sm space-y-1">
+                  {schemaApproval.changes.map((change, idx) => (
+                    <li key={idx}>
+                      <span className={change.severity === 'destructive' ? 'font-semibold text-red-700' : 'font-semibold'}>
+                        {change.severity}
+                      </span>{' '}
+                      {change.description}
+                    </li>
+                  ))}
+                </ul>
+                <div className="mt-3 flex space-x-2">
+                  <button
+                    onClick={() => handleSchemaDecision(true)}
+                    disabled={isDeciding}
+                    className="px-4 py-2 rounded-lg text-sm font-medium bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+                  >
+                    Approve and migrate
+                  </button>
+                  <button
+                    onClick={() => handleSchemaDecision(false)}
+                    disabled={isDeciding}
+                    className="px-4 py-2 rounded-lg text-sm font-medium border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Reject
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
 
-        <div ref={messagesEndRef} />
-      </div>
+          <div ref={messagesEndRef} />
+        </div>
 
-      {/* Input area */}
-      <div className="border-t border-gray-200 p-4">
-        <div className="flex space-x-2">
-          <textarea
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyPress={handleKeyPress}
-            placeholder="Describe the changes you want to make..."
-            className="flex-1 p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
-            rows={3}
-            disabled={isLoading}
-          />
-          <button
-            onClick={handleSendMessage}
-            disabled={!input.trim() || isLoading}
-            className={`px-6 py-3 rounded-lg font-medium ${
-              !input.trim() || isLoading
-                ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                : 'bg-blue-600 text-white hover:bg-blue-700'
-            }`}
-          >
-            Send
-          </button>
+        {/* Input area */}
+        <div className="border-t border-gray-200 p-4">
+          <div className="flex space-x-2">
+            <textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyPress={handleKeyPress}
+              placeholder="Describe the changes you want to make..."
+              className="flex-1 p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+              rows={3}
+              disabled={isLoading}
+            />
+            {isLoading && activeJobId ? (
+              <button
+                onClick={handleStop}
+                disabled={isCancelling}
+                className={`px-6 py-3 rounded-lg font-medium ${
+                  isCancelling
+                    ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                    : 'bg-red-600 text-white hover:bg-red-700'
+                }`}
+              >
+                {isCancelling ? 'Stopping...' : 'Stop'}
+              </button>
+            ) : (
+              <button
+                onClick={handleSendMessage}
+                disabled={!input.trim() || isLoading}
+                className={`px-6 py-3 rounded-lg font-medium ${
+                  !input.trim() || isLoading
+                    ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                    : 'bg-blue-600 text-white hover:bg-blue-700'
+                }`}
+              >
+                Send
+              </button>
+            )}
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            Press Enter to send, Shift+Enter for new line
+          </p>
         </div>
-        <p className="mt-2 text-xs text-gray-500">
-          Press Enter to send, Shift+Enter for new line
-        </p>
       </div>
     </div>
   );
 }
+
+/**
+ * Convert a saved message into a chat message (cancellations render like progress)
+ */
+function toMessage(saved: SavedMessage, id: string): Message {
+  return {
+    id,
+    role: saved.status === 'CANCELLED' ? 'progress' : saved.role,
+    content: saved.content,
+    timestamp: new Date(saved.timestamp),
+    modifications: saved.modifications,
+    commit: saved.commit,
+    tests: saved.tests,
+    duration: saved.duration,
+    error: saved.error,
+    jobId: saved.jobId,
+  };
+}
+
+/**
+ * Lint and build gates of a test run, e.g. " • lint passed • build failed (warning only)"
+ */
+function describeStages(stages?: Array<{ name: string; status: string; policy: string }>): string {
+  return (stages || [])
+    .map((stage) => ` • ${stage.name} ${stage.status}${stage.status === 'failed' && stage.policy === 'warn' ? ' (warning only)' : ''}`)
+    .join('');
+}
+
+/**
+ * Collapsible list of the agent's tool calls and text for one request
+ */
+function AgentTranscript({ entries, open = false }: { entries: TranscriptEntry[]; open?: boolean }) {
+  const toolCalls = entries.filter((entry) => entry.kind === 'tool').length;
+
+  return (
+    <details open={open} className="text-sm">
+      <summary className="cursor-pointer font-medium select-none">
+        Agent activity ({toolCalls} tool call{toolCalls === 1 ? '' : 's'})
+      </summary>
+      <ul className="mt-2 space-y-1 max-h-64 overflow-y-auto">
+        {entries.map((entry) => (
+          <li key={entry.id} className={entry.kind === 'tool' ? 'font-mono text-xs text-gray-700' : 'text-gray-600 whitespace-pre-wrap'}>
+            {entry.kind === 'tool' ? (
+              <>
+                <span className="font-semibold text-blue-700">{entry.tool}</span>
+                {entry.content && <span> {entry.content}</span>}
+              </>
+            ) : (
+              entry.content
+            )}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { parseUnifiedDiff, toSideBySide, DiffFile, DiffLine } from '@/lib/code-modification/diff-parser';
+
+/**
+ * Commit as returned by GET /api/code/commits/:hash
+ */
+interface CommitDiff {
+  commit: {
+    hash: string;
+    shortHash: string;
+    message: string;
+    author: string;
+    date: string;
+    additions: number;
+    deletions: number;
+    files: Array<{ path: string; additions: number | null; deletions: number | null }>;
+  };
+  files: DiffFile[];
+  diffTruncated: boolean;
+}
+
+interface CommitDiffViewerProps {
+  hash: string;
+  onClose: () => void;
+}
+
+/**
+ * CommitDiffViewer Component
+ *
+ * Modal with the changes of one commit, file by file, old version on the left
+ * and new version on the right.
+ */
+export default function CommitDiffViewer({ hash, onClose }: CommitDiffViewerProps) {
+  const [data, setData] = useState<CommitDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadDiff = async () => {
+      try {
+        const response = await fetch(`/api/code/commits/${hash}`);
+        const result = await response.json();
+
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to load diff');
+        }
+
+        setData({ commit: result.commit, files: parseUnifiedDiff(result.diff), diffTruncated: result.diffTruncated });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      }
+    };
+
+    loadDiff();
+  }, [hash]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-7xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between p-4 border-b border-gray-200">
+          <div>
+            <h2 className="font-medium text-gray-900">{data?.commit.message || 'Loading diff...'}</h2>
+            {data && (
+              <p className="mt-1 text-sm text-gray-600">
+                <span className="font-mono text-xs bg-gray-100 px-2 py-1 rounded">{data.commit.shortHash}</span>{' '}
+                {data.commit.author} • {new Date(data.commit.date).toLocaleString()} •{' '}
+                {data.commit.files.length} file{data.commit.files.length === 1 ? '' : 's'}{' '}
+                <span className="text-green-700">+{data.commit.additions}</span>{' '}
+                <span className="text-red-700">-{data.commit.deletions}</span>
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-900 text-xl leading-none">
+            ×
+          </button>
+        </div>
+
+        {/* Diff */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {error && <p className="text-red-800">Error: {error}</p>}
+          {!data && !error && (
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          )}
+
+          {data?.diffTruncated && (
+            <p className="text-sm bg-yellow-50 border border-yellow-200 text-yellow-800 rounded p-2">
+              This diff is too large to show in full; the last files are cut off.
+            </p>
+          )}
+
+          {data?.files.map((file) => (
+            <div key={`${file.oldPath}:${file.newPath}`} className="border border-gray-200 rounded">
+              <div className="px-3 py-2 bg-gray-50 border-b border-gray-200 font-mono text-sm">
+                {file.oldPath && file.newPath && file.oldPath !== file.newPath
+                  ? `${file.oldPath} → ${file.newPath}`
+                  : file.path}
+                {!file.oldPath && <span className="ml-2 text-xs text-green-700">added</span>}
+                {!file.newPath && <span className="ml-2 text-xs text-red-700">deleted</span>}
+              </div>
+
+              {file.binary && <p className="px-3 py-2 text-sm text-gray-500">Binary file changed</p>}
+
+              {file.hunks.map((hunk) => (
+                <table key={hunk.header} className="w-full table-fixed font-mono text-xs">
+                  <tbody>
+                    <tr>
+                      <td colSpan={4} className="px-3 py-1 bg-blue-50 text-blue-800">
+                        {hunk.header}
+                      </td>
+                    </tr>
+                    {toSideBySide(hunk).map((row, idx) => (
+                      <tr key={idx}>
+                        <DiffCell line={row.left} side="left" />
+                        <DiffCell line={row.right} side="right" />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Line number and content of one side of a row
+ */
+function DiffCell({ line, side }: { line: DiffLine | null; side: 'left' | 'right' }) {
+  const changed = line && line.type !== 'context';
+  const background = !line
+    ? 'bg-gray-50'
+    : changed
+    ? side === 'left'
+      ? 'bg-red-50'
+      : 'bg-green-50'
+    : '';
+
+  return (
+    <>
+      <td className={`w-12 px-2 text-right text-gray-400 select-none align-top ${background}`}>
+        {line ? (side === 'left' ? line.oldNumber : line.newNumber) : ''}
+      </td>
+      <td className={`px-2 whitespace-pre-wrap break-all align-top ${background} ${side === 'left' ? 'border-r border-gray-200' : ''}`}>
+        {line && (changed ? (side === 'left' ? '-' : '+') : ' ')}
+        {line?.content}
+      </td>
+    </>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+/**
+ * Saved conversation as listed by GET /api/code/conversations
+ */
+interface ConversationSummary {
+  id: string;
+  title: string | null;
+  messageCount: number;
+  jobIds: string[];
+  commits: string[];
+  updatedAt: string;
+}
+
+interface ConversationSidebarProps {
+  activeId: string | null;
+  refreshKey: number; // Bumped by the chat whenever a conversation changes
+  disabled?: boolean; // While a request is running
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onDeleted: (id: string) => void;
+}
+
+/**
+ * ConversationSidebar Component
+ *
+ * Lists the admin's saved conversations with the coding agent so any of them
+ * can be reopened and continued.
+ */
+export default function ConversationSidebar({
+  activeId,
+  refreshKey,
+  disabled = false,
+  onSelect,
+  onNew,
+  onDeleted,
+}: ConversationSidebarProps) {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchConversations = async () => {
+      try {
+        const response = await fetch('/api/code/conversations');
+        const data = await response.json();
+
+        if (!data.success) {
+          throw new Error(data.error || 'Failed to load conversations');
+        }
+
+        setConversations(data.conversations);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchConversations();
+  }, [refreshKey]);
+
+  /**
+   * Delete a conversation after confirmation
+   */
+  const handleDelete = async (conversation: ConversationSummary) => {
+    if (!confirm(`Delete the conversation "${conversation.title || 'Untitled'}"? Its commits are kept.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/code/conversations/${conversation.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete conversation');
+      }
+
+      setConversations((prev) => prev.filter((item) => item.id !== conversation.id));
+      onDeleted(conversation.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white rounded-lg shadow-lg">
+      <div className="p-4 border-b border-gray-200">
+        <button
+          onClick={onNew}
+          disabled={disabled}
+          className={`w-full px-3 py-2 text-sm font-medium rounded-lg ${
+            disabled
+              ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              : 'bg-blue-600 text-white hover:bg-blue-700'
+          }`}
+        >
+          New conversation
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {loading && <p className="p-4 text-sm text-gray-500">Loading...</p>}
+        {error && <p className="p-4 text-sm text-red-600">{error}</p>}
+        {!loading && !error && conversations.length === 0 && (
+          <p className="p-4 text-sm text-gray-500">No saved conversations yet</p>
+        )}
+
+        <ul>
+          {conversations.map((conversation) => (
+            <li
+              key={conversation.id}
+              className={`group border-b border-gray-100 ${
+                conversation.id === activeId ? 'bg-blue-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              <div className="flex items-start">
+                <button
+                  onClick={() => onSelect(conversation.id)}
+                  disabled={disabled || conversation.id === activeId}
+                  className="flex-1 min-w-0 p-3 text-left disabled:cursor-default"
+                >
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {conversation.title || 'Untitled'}
+                  </p>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {new Date(conversation.updatedAt).toLocaleString()}
+                  </p>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {conversation.jobIds.length} request{conversation.jobIds.length === 1 ? '' : 's'}
+                    {conversation.commits.length > 0 &&
+                      ` • ${conversation.commits.length} commit${conversation.commits.length === 1 ? '' : 's'}`}
+                  </p>
+                </button>
+                <button
+                  onClick={() => handleDelete(conversation)}
+                  disabled={disabled}
+                  title="Delete conversation"
+                  className="p-3 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 disabled:hidden"
+                >
+                  ×
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
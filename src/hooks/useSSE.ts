@@ -6,7 +6,7 @@ import { useEffect, useState, useCallback, useRef } from 'react';
  * SSE Message from server
  */
 export interface SSEMessage {
-  type: 'connected' | 'progress' | 'status' | 'file_change' | 'test_result' | 'error' | 'complete' | 'heartbeat';
+  type: 'connected' | 'progress' | 'status' | 'file_change' | 'test_result' | 'error' | 'complete' | 'cancelled' | 'agent_tool' | 'agent_text' | 'heartbeat';
   data: any;
   timestamp: number;
 }
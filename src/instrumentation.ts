@@ -0,0 +1,18 @@
+/**
+ * Next.js instrumentation hook
+ *
+ * Runs once when the server starts. Resumes modification jobs that were
+ * interrupted by a restart (see src/lib/jobs/modification-runner.ts).
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  try {
+    const { resumeIncompleteJobs } = await import('@/lib/jobs/modification-runner');
+    await resumeIncompleteJobs();
+  } catch (error) {
+    console.error('[Jobs] Failed to resume incomplete jobs:', error);
+  }
+}
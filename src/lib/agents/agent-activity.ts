@@ -0,0 +1,145 @@
+import { AgentActivity, TokenUsage } from './llm-provider';
+import { usageFromResultMessage } from '../usage/pricing';
+
+/**
+ * Longest assistant text / tool summary forwarded to clients
+ */
+const MAX_TEXT_LENGTH = 2000;
+const MAX_SUMMARY_LENGTH = 200;
+
+/**
+ * Content block of an assistant message (SDK message or CLI stream-json line)
+ */
+interface ContentBlock {
+  type: string;
+  text?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+}
+
+/**
+ * Extract tool calls and text from an agent message.
+ *
+ * The Agent SDK and `claude --output-format stream-json` emit the same
+ * message shapes; only `assistant` messages carry activity, as `text` and
+ * `tool_use` content blocks. Anything else yields an empty list.
+ */
+export function extractActivity(message: unknown): AgentActivity[] {
+  const msg = message as { type?: string; message?: { content?: unknown } } | null;
+  if (!msg || msg.type !== 'assistant' || !Array.isArray(msg.message?.content)) {
+    return [];
+  }
+
+  const activity: AgentActivity[] = [];
+
+  for (const block of msg.message.content as ContentBlock[]) {
+    if (block.type === 'text' && block.text?.trim()) {
+      activity.push({ type: 'text', text: truncate(block.text.trim(), MAX_TEXT_LENGTH) });
+    } else if (block.type === 'tool_use' && block.name) {
+      activity.push({ type: 'tool', tool: block.name, summary: summarizeToolInput(block.input) });
+    }
+  }
+
+  return activity;
+}
+
+/**
+ * One-line description of a tool call: the file, command or pattern it targets
+ */
+export function summarizeToolInput(input: Record<string, unknown> | undefined): string {
+  if (!input) {
+    return '';
+  }
+
+  const value = input.file_path ?? input.command ?? input.pattern ?? input.path ?? input.url;
+  return typeof value === 'string' ? truncate(value, MAX_SUMMARY_LENGTH) : '';
+}
+
+/**
+ * Build a stdout handler that parses newline-delimited JSON as it streams in
+ * and reports the activity in each message. Lines that are not JSON are ignored.
+ */
+export function createStreamJsonParser(onActivity: (activity: AgentActivity) => void): (chunk: string) => void {
+  let buffer = '';
+
+  return (chunk: string) => {
+    buffer += chunk;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || ''; // Keep the incomplete last line
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      let message: unknown;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        continue;
+      }
+
+      for (const activity of extractActivity(message)) {
+        onActivity(activity);
+      }
+    }
+  };
+}
+
+/**
+ * Final answer from `claude --output-format stream-json` output (the `result` message)
+ */
+export function parseStreamJsonResult(stdout: string): string | null {
+  const message = findStreamJsonMessage(stdout, (msg) => msg.type === 'result');
+  if (!message) {
+    return null;
+  }
+
+  return typeof message.result === 'string' ? message.result : '';
+}
+
+/**
+ * Tokens and cost from `claude --output-format stream-json` output
+ * (the `result` message, with the model from the `init` message)
+ */
+export function parseStreamJsonUsage(stdout: string): TokenUsage | undefined {
+  const init = findStreamJsonMessage(stdout, (msg) => msg.type === 'system' && msg.subtype === 'init');
+  const result = findStreamJsonMessage(stdout, (msg) => msg.type === 'result');
+
+  return usageFromResultMessage(result, typeof init?.model === 'string' ? init.model : undefined);
+}
+
+/**
+ * Agent session id from `claude --output-format stream-json` output (the
+ * `result` message, else the `init` message), to continue with `--resume`
+ */
+export function parseStreamJsonSessionId(stdout: string): string | undefined {
+  const message =
+    findStreamJsonMessage(stdout, (msg) => msg.type === 'result' && typeof msg.session_id === 'string') ||
+    findStreamJsonMessage(stdout, (msg) => msg.type === 'system' && msg.subtype === 'init' && typeof msg.session_id === 'string');
+
+  return message ? (message.session_id as string) : undefined;
+}
+
+/**
+ * Last JSON line matching `predicate`
+ */
+function findStreamJsonMessage(
+  stdout: string,
+  predicate: (message: Record<string, unknown>) => boolean
+): Record<string, unknown> | null {
+  const lines = stdout.split('\n');
+
+  for (let i = lines.length - 1; i >= 0; i--) {
+    try {
+      const message = JSON.parse(lines[i]);
+      if (message && typeof message === 'object' && predicate(message)) {
+        return message;
+      }
+    } catch {}
+  }
+
+  return null;
+}
+
+function truncate(value: string, max: number): string {
+  return value.length > max ? `${value.substring(0, max)}…` : value;
+}
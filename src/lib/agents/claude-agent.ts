@@ -1,25 +1,20 @@
 import { query, ClaudeAgentOptions } from '@anthropic-ai/claude-agent-sdk';
-import { buildCodebaseContext, formatContextForAgent } from './codebase-context';
-
-/**
- * Code modification request
- */
-export interface CodeModificationRequest {
-  userRequest: string;
-  conversationHistory?: Array<{ role: string; content: string }>;
-  sessionId?: string;
-}
-
-/**
- * Code modification response
- */
-export interface CodeModificationResponse {
-  success: boolean;
-  result: string;
-  sessionId?: string;
-  filesModified?: string[];
-  error?: string;
-}
+import { formatContextForAgent } from './codebase-context';
+import { loadCodebaseContext } from './context-cache';
+import { PLAN_MODE_INSTRUCTIONS, parsePlanOutput } from './modification-plan';
+import { extractActivity } from './agent-activity';
+import { createProtectedFileGuard } from './tool-permissions';
+import { usageFromResultMessage } from '../usage/pricing';
+import {
+  LLMProvider,
+  TokenUsage,
+  CodeModificationRequest,
+  CodeModificationResponse,
+  CodePlanResponse,
+} from './llm-provider';
+
+// Request/response types are shared by all providers
+export type { CodeModificationRequest, CodeModificationResponse, CodePlanResponse } from './llm-provider';
 
 /**
  * ClaudeAgent
@@ -30,7 +25,7 @@ export interface CodeModificationResponse {
  * Key features:
  * - Direct file modification (no JSON parsing)
  * - Version control safety (all changes are git-tracked)
- * - Protected files enforcement via system prompt
+ * - Protected files enforcement via system prompt and a permission callback
  * - Session management for conversation context
  *
  * Usage:
@@ -41,7 +36,9 @@ export interface CodeModificationResponse {
  * });
  * ```
  */
-export class ClaudeAgent {
+export class ClaudeAgent implements LLMProvider {
+  readonly name = 'agent-sdk' as const;
+
   private projectRoot: string;
 
   constructor(projectRoot: string) {
@@ -56,7 +53,7 @@ export class ClaudeAgent {
     try {
       // Build codebase context for Claude
       console.log('Building codebase context...');
-      const context = await buildCodebaseContext(this.projectRoot);
+      const context = await loadCodebaseContext(this.projectRoot, { query: request.userRequest });
       const contextStr = formatContextForAgent(context);
 
       // Build system prompt with context and safety rules
@@ -69,29 +66,32 @@ export class ClaudeAgent {
 
       // Track session ID and result
       let sessionId: string | undefined;
+      let model: string | undefined;
+      let usage: TokenUsage | undefined;
       let result = '';
       let hasError = false;
       let errorMessage = '';
 
       // Configure agent options
       const options: ClaudeAgentOptions = {
-        // Allow Claude to read, edit, write files and run commands
+        // Auto-approve reads and git commands; Edit/Write go through canUseTool
         allowedTools: [
           'Read',
-          'Edit',
-          'Write',
           'Glob',
           'Grep',
           'Bash(git *)', // Allow git commands only
         ],
-        // Automatically approve all allowed tools (no interactive prompts)
-        permissionMode: 'bypassPermissions',
+        // Deny writes to protected files before they happen (no interactive prompts)
+        permissionMode: 'default',
+        canUseTool: createProtectedFileGuard(this.projectRoot),
         // Set working directory to staging
         cwd: this.projectRoot,
         // Add system prompt with codebase context
         appendSystemPrompt: systemPrompt,
         // Resume session if provided
         ...(request.sessionId && { resume: request.sessionId }),
+        // Stop the agent when the request is cancelled
+        ...(request.signal && { abortController: toAbortController(request.signal) }),
       };
 
       // Check if we should use AWS Bedrock
@@ -108,6 +108,11 @@ export class ClaudeAgent {
         // Capture session ID from init message
         if (message.type === 'system' && message.subtype === 'init') {
           sessionId = message.session_id;
+          model = message.model;
+        }
+
+        if (message.type === 'result') {
+          usage = usageFromResultMessage(message, model);
         }
 
         // Capture final result
@@ -121,13 +126,17 @@ export class ClaudeAgent {
           errorMessage = (message as any).content || 'Unknown error';
         }
 
-        // Stream messages for debugging (in development)
-        if (process.env.NODE_ENV === 'development') {
-          if (message.type === 'text') {
-            console.log('[Claude]:', (message as any).content?.substring(0, 100));
-          } else if (message.type === 'tool_use') {
-            const toolMsg = message as any;
-            console.log(`[Tool]: ${toolMsg.tool_name}`, toolMsg.tool_input?.file_path || '');
+        // Stream tool calls and assistant text to the caller
+        for (const activity of extractActivity(message)) {
+          request.onActivity?.(activity);
+
+          // Log for debugging (in development)
+          if (process.env.NODE_ENV === 'development') {
+            if (activity.type === 'text') {
+              console.log('[Claude]:', activity.text.substring(0, 100));
+            } else {
+              console.log(`[Tool]: ${activity.tool}`, activity.summary);
+            }
           }
         }
       }
@@ -137,6 +146,7 @@ export class ClaudeAgent {
           success: false,
           result: '',
           sessionId,
+          usage,
           error: errorMessage,
         };
       }
@@ -149,6 +159,7 @@ export class ClaudeAgent {
         result,
         sessionId,
         filesModified,
+        usage,
       };
     } catch (error) {
       console.error('Claude Agent error:', error);
@@ -160,6 +171,77 @@ export class ClaudeAgent {
     }
   }
 
+  /**
+   * Plan a modification without touching any files.
+   * Runs the agent in plan permission mode with read-only tools and
+   * returns a structured plan parsed from its final answer.
+   */
+  async planChanges(request: CodeModificationRequest): Promise<CodePlanResponse> {
+    try {
+      console.log('Building codebase context...');
+      const context = await loadCodebaseContext(this.projectRoot, { query: request.userRequest });
+      const contextStr = formatContextForAgent(context);
+
+      const systemPrompt = this.buildSystemPrompt(contextStr);
+      const userPrompt = this.buildUserPrompt(request, 'plan');
+
+      console.log('Calling Claude Agent SDK (plan mode)...');
+
+      let sessionId: string | undefined;
+      let model: string | undefined;
+      let usage: TokenUsage | undefined;
+      let result = '';
+
+      const options: ClaudeAgentOptions = {
+        // Read-only tools: no Edit, Write or Bash
+        allowedTools: ['Read', 'Glob', 'Grep'],
+        permissionMode: 'plan',
+        cwd: this.projectRoot,
+        appendSystemPrompt: systemPrompt,
+        ...(request.sessionId && { resume: request.sessionId }),
+        // Stop the agent when the request is cancelled
+        ...(request.signal && { abortController: toAbortController(request.signal) }),
+      };
+
+      for await (const message of query({
+        prompt: userPrompt,
+        options,
+      })) {
+        if (message.type === 'system' && message.subtype === 'init') {
+          sessionId = message.session_id;
+          model = message.model;
+        }
+
+        if (message.type === 'result') {
+          usage = usageFromResultMessage(message, model);
+        }
+
+        if ('result' in message) {
+          result = message.result || '';
+        }
+
+        for (const activity of extractActivity(message)) {
+          request.onActivity?.(activity);
+        }
+      }
+
+      return {
+        success: true,
+        plan: parsePlanOutput(result),
+        result,
+        sessionId,
+        usage,
+      };
+    } catch (error) {
+      console.error('Claude Agent plan error:', error);
+      return {
+        success: false,
+        result: '',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
   /**
    * Build system prompt with codebase context and safety rules
    */
@@ -212,7 +294,7 @@ Remember: You're working in staging, all changes are version-controlled, and wil
   /**
    * Build user prompt from request
    */
-  private buildUserPrompt(request: CodeModificationRequest): string {
+  private buildUserPrompt(request: CodeModificationRequest, mode: 'plan' | 'apply' = 'apply'): string {
     const parts: string[] = [];
 
     // Add conversation history if present
@@ -228,7 +310,11 @@ Remember: You're working in staging, all changes are version-controlled, and wil
     parts.push('## REQUEST\n');
     parts.push(request.userRequest);
     parts.push('\n\n');
-    parts.push('Please implement this request by directly modifying the files in the staging directory.');
+    parts.push(
+      mode === 'plan'
+        ? PLAN_MODE_INSTRUCTIONS
+        : 'Please implement this request by directly modifying the files in the staging directory.'
+    );
 
     return parts.join('');
   }
@@ -287,6 +373,19 @@ Remember: You're working in staging, all changes are version-controlled, and wil
   }
 }
 
+/**
+ * The SDK takes an AbortController rather than a signal
+ */
+function toAbortController(signal: AbortSignal): AbortController {
+  const controller = new AbortController();
+  if (signal.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+  }
+  return controller;
+}
+
 /**
  * Convenience function to create a Claude Agent
  */
@@ -2,29 +2,43 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import { writeFileSync, unlinkSync } from 'fs';
 import { join } from 'path';
-import { buildCodebaseContext, formatContextForAgent } from './codebase-context';
+import { formatContextForAgent } from './codebase-context';
+import { loadCodebaseContext } from './context-cache';
+import { PLAN_MODE_INSTRUCTIONS, parsePlanOutput } from './modification-plan';
+import {
+  createStreamJsonParser,
+  parseStreamJsonResult,
+  parseStreamJsonSessionId,
+  parseStreamJsonUsage,
+} from './agent-activity';
+import {
+  LLMProvider,
+  CodeModificationRequest,
+  CodeModificationResponse,
+  CodePlanResponse,
+} from './llm-provider';
+import { execProcessTree } from '../code-modification/process-tree';
 
 const execAsync = promisify(exec);
 
+// Request/response types are shared by all providers
+export type { CodeModificationRequest, CodeModificationResponse, CodePlanResponse } from './llm-provider';
+
 /**
- * Code modification request
+ * Tools allowed in plan mode (read-only)
  */
-export interface CodeModificationRequest {
-  userRequest: string;
-  conversationHistory?: Array<{ role: string; content: string }>;
-  sessionId?: string;
-}
+const PLAN_MODE_TOOLS = ['Read', 'Glob', 'Grep'];
 
 /**
- * Code modification response
+ * Print mode with one JSON message per line, so tool calls can be
+ * reported while the CLI is still running (--verbose is required by stream-json)
  */
-export interface CodeModificationResponse {
-  success: boolean;
-  result: string;
-  sessionId?: string;
-  filesModified?: string[];
-  error?: string;
-}
+const STREAM_FLAGS = '--print --output-format stream-json --verbose';
+
+/**
+ * Session ids the CLI hands out (UUIDs); anything else is not passed to --resume
+ */
+const SESSION_ID = /^[\w-]+$/;
 
 /**
  * ClaudeCLIAgent
@@ -38,6 +52,15 @@ export interface CodeModificationResponse {
  * - Can be used in tests
  * - Works when called from any Node.js process
  *
+ * A request with a `sessionId` (returned by an earlier call) resumes that CLI
+ * session with `--resume`, so repair attempts and reopened conversations
+ * continue with the agent's memory of the earlier turns. A session the CLI no
+ * longer knows is started afresh.
+ *
+ * The CLI runs with --dangerously-skip-permissions, so protected files are only
+ * guarded by the prompt here; the modification runner reverts any protected
+ * file the agent changed and fails the job.
+ *
  * Usage:
  * ```typescript
  * const agent = new ClaudeCLIAgent('/path/to/staging');
@@ -46,7 +69,9 @@ export interface CodeModificationResponse {
  * });
  * ```
  */
-export class ClaudeCLIAgent {
+export class ClaudeCLIAgent implements LLMProvider {
+  readonly name = 'claude-cli' as const;
+
   private projectRoot: string;
   private claudePath: string;
 
@@ -63,7 +88,7 @@ export class ClaudeCLIAgent {
     try {
       // Build codebase context for Claude
       console.log('Building codebase context...');
-      const context = await buildCodebaseContext(this.projectRoot);
+      const context = await loadCodebaseContext(this.projectRoot, { query: request.userRequest });
       const contextStr = formatContextForAgent(context);
 
       // Build system prompt with context and safety rules
@@ -77,43 +102,7 @@ export class ClaudeCLIAgent {
 
       console.log('Calling Claude CLI...');
 
-      // Prepare clean environment (remove CLAUDECODE to avoid nested session error)
-      const env = { ...process.env };
-      delete env.CLAUDECODE;
-
-      // Write prompt to temporary file to avoid command line length limits
-      const tempFile = join(this.projectRoot, `.claude-prompt-${Date.now()}.txt`);
-      writeFileSync(tempFile, fullPrompt, 'utf-8');
-
-      console.log('Executing:', `${this.claudePath} --dangerously-skip-permissions (with prompt from temp file)`);
-
-      let stdout: string;
-      let stderr: string;
-
-      try {
-        // Execute claude CLI with stdin redirected from temp file
-        const command = `${this.claudePath} --dangerously-skip-permissions < "${tempFile}"`;
-
-        const result = await execAsync(command, {
-          cwd: this.projectRoot,
-          env,
-          maxBuffer: 10 * 1024 * 1024, // 10MB buffer for large outputs
-          timeout: 300000, // 5 minute timeout
-          shell: '/bin/bash',
-        });
-
-        stdout = result.stdout;
-        stderr = result.stderr;
-
-        // Clean up temp file
-        unlinkSync(tempFile);
-      } catch (error) {
-        // Clean up temp file even on error
-        try {
-          unlinkSync(tempFile);
-        } catch {}
-        throw error;
-      }
+      const { stdout, stderr } = await this.runCli(fullPrompt, '--dangerously-skip-permissions', request);
 
       console.log('✓ Claude CLI completed');
 
@@ -127,28 +116,147 @@ export class ClaudeCLIAgent {
         success: true,
         result,
         filesModified,
-        sessionId: request.sessionId, // Keep same session ID (CLI doesn't track sessions)
+        sessionId: parseStreamJsonSessionId(stdout) ?? request.sessionId,
+        usage: parseStreamJsonUsage(stdout),
       };
     } catch (error: any) {
       console.error('Claude CLI error:', error);
 
-      // Check if it's the nested session error
-      if (error.stderr?.includes('cannot be launched inside another Claude Code session')) {
-        return {
-          success: false,
-          result: '',
-          error: 'Nested Claude Code session detected. Make sure to run the server in a terminal without CLAUDECODE environment variable.',
-        };
-      }
+      return {
+        success: false,
+        result: '',
+        error: this.describeError(error),
+      };
+    }
+  }
+
+  /**
+   * Plan a modification without touching any files.
+   * Runs the CLI in plan permission mode with read-only tools and
+   * returns a structured plan parsed from the agent's answer.
+   */
+  async planChanges(request: CodeModificationRequest): Promise<CodePlanResponse> {
+    try {
+      console.log('Building codebase context...');
+      const context = await loadCodebaseContext(this.projectRoot, { query: request.userRequest });
+      const contextStr = formatContextForAgent(context);
+
+      const systemPrompt = this.buildSystemPrompt(contextStr);
+      const userPrompt = this.buildUserPrompt(request, 'plan');
+      const fullPrompt = `${systemPrompt}\n\n---\n\n${userPrompt}`;
+
+      console.log('Calling Claude CLI (plan mode)...');
+      const { stdout, stderr } = await this.runCli(
+        fullPrompt,
+        `--permission-mode plan --allowedTools "${PLAN_MODE_TOOLS.join(',')}"`,
+        request
+      );
+
+      console.log('✓ Claude CLI plan completed');
+
+      const result = this.parseOutput(stdout, stderr);
+
+      return {
+        success: true,
+        plan: parsePlanOutput(result),
+        result,
+        sessionId: parseStreamJsonSessionId(stdout) ?? request.sessionId,
+        usage: parseStreamJsonUsage(stdout),
+      };
+    } catch (error) {
+      console.error('Claude CLI plan error:', error);
 
       return {
         success: false,
         result: '',
-        error: error instanceof Error ? error.message : String(error),
+        error: this.describeError(error),
       };
     }
   }
 
+  /**
+   * Run the claude CLI with a prompt and extra flags
+   * Uses a clean environment and passes the prompt through a temp file.
+   * Streams tool calls and assistant text to `request.onActivity` as they happen.
+   * Resumes `request.sessionId`, or starts a new session when the CLI does
+   * not have it anymore.
+   */
+  private async runCli(
+    prompt: string,
+    flags: string,
+    request: Pick<CodeModificationRequest, 'signal' | 'onActivity' | 'sessionId'> = {}
+  ): Promise<{ stdout: string; stderr: string }> {
+    const resume = request.sessionId && SESSION_ID.test(request.sessionId) ? request.sessionId : null;
+    if (!resume) {
+      return this.execCli(prompt, flags, request);
+    }
+
+    try {
+      return await this.execCli(prompt, `${flags} --resume ${resume}`, request);
+    } catch (error) {
+      const output = `${(error as { stdout?: string }).stdout || ''}${(error as { stderr?: string }).stderr || ''}`;
+      if (!output.includes('No conversation found')) {
+        throw error;
+      }
+      console.warn(`⚠ Claude CLI session ${resume} not found - starting a new session`);
+      return this.execCli(prompt, flags, request);
+    }
+  }
+
+  /**
+   * Run the claude CLI once (see runCli)
+   */
+  private async execCli(
+    prompt: string,
+    flags: string,
+    request: Pick<CodeModificationRequest, 'signal' | 'onActivity'>
+  ): Promise<{ stdout: string; stderr: string }> {
+    // Prepare clean environment (remove CLAUDECODE to avoid nested session error)
+    const env = { ...process.env };
+    delete env.CLAUDECODE;
+
+    // Write prompt to temporary file to avoid command line length limits
+    const tempFile = join(this.projectRoot, `.claude-prompt-${Date.now()}.txt`);
+    writeFileSync(tempFile, prompt, 'utf-8');
+
+    console.log('Executing:', `${this.claudePath} ${STREAM_FLAGS} ${flags} (with prompt from temp file)`);
+
+    try {
+      // Execute claude CLI with stdin redirected from temp file
+      const command = `${this.claudePath} ${STREAM_FLAGS} ${flags} < "${tempFile}"`;
+
+      // Own process group, so a timeout or cancellation also kills the CLI's children
+      const result = await execProcessTree(command, {
+        cwd: this.projectRoot,
+        env,
+        maxBuffer: 50 * 1024 * 1024, // 50MB - stream-json output includes tool results
+        timeout: 300000, // 5 minute timeout
+        shell: '/bin/bash',
+        signal: request.signal,
+        onStdout: request.onActivity && createStreamJsonParser(request.onActivity),
+      });
+
+      return { stdout: result.stdout, stderr: result.stderr };
+    } finally {
+      // Clean up temp file
+      try {
+        unlinkSync(tempFile);
+      } catch {}
+    }
+  }
+
+  /**
+   * Turn a CLI failure into a user-facing error message
+   */
+  private describeError(error: unknown): string {
+    // Check if it's the nested session error
+    if ((error as { stderr?: string } | null)?.stderr?.includes('cannot be launched inside another Claude Code session')) {
+      return 'Nested Claude Code session detected. Make sure to run the server in a terminal without CLAUDECODE environment variable.';
+    }
+
+    return error instanceof Error ? error.message : String(error);
+  }
+
   /**
    * Escape prompt for shell command
    */
@@ -165,6 +273,12 @@ export class ClaudeCLIAgent {
    * Parse Claude CLI output
    */
   private parseOutput(stdout: string, stderr: string): string {
+    // stream-json output: the final answer is in the `result` message
+    const streamed = parseStreamJsonResult(stdout);
+    if (streamed !== null) {
+      return streamed;
+    }
+
     // Claude CLI writes its response to stdout
     // Filter out any CLI noise and extract the actual response
     const lines = stdout.split('\n');
@@ -235,7 +349,7 @@ Remember: You're working in staging, all changes are version-controlled, and wil
   /**
    * Build user prompt from request
    */
-  private buildUserPrompt(request: CodeModificationRequest): string {
+  private buildUserPrompt(request: CodeModificationRequest, mode: 'plan' | 'apply' = 'apply'): string {
     const parts: string[] = [];
 
     // Add conversation history if present
@@ -251,7 +365,11 @@ Remember: You're working in staging, all changes are version-controlled, and wil
     parts.push('## REQUEST\n');
     parts.push(request.userRequest);
     parts.push('\n\n');
-    parts.push('Please implement this request by directly modifying the files in the staging directory.');
+    parts.push(
+      mode === 'plan'
+        ? PLAN_MODE_INSTRUCTIONS
+        : 'Please implement this request by directly modifying the files in the staging directory.'
+    );
 
     return parts.join('');
   }
@@ -1,7 +1,8 @@
 import { promises as fs } from 'fs';
 import * as path from 'path';
-import { createGitManager } from '../code-modification/git-manager';
+import { CommitDetails, createGitManager } from '../code-modification/git-manager';
 import { getProtectedPatterns, getSensitivePatterns } from '../code-modification/protected-files';
+import { findRelevantContext, RelevantContextOptions, RelevantFile } from './context-index';
 
 /**
  * Codebase context structure
@@ -16,6 +17,14 @@ export interface CodebaseContext {
   sensitiveFiles: string[];
   summary: string;
   documentation: Documentation;
+  relevantFiles: RelevantFile[]; // Files and snippets selected for the request (empty without one)
+}
+
+/**
+ * Options for building context
+ */
+export interface BuildContextOptions extends RelevantContextOptions {
+  query?: string; // The user request, used to select relevant files
 }
 
 /**
@@ -84,11 +93,12 @@ export interface Documentation {
  * - Database schema and models
  * - Recent changes and patterns
  * - Which files are protected or sensitive
+ * - Which files are relevant to the request (see ContextIndex)
  *
  * Usage:
  * ```typescript
  * const builder = new CodebaseContextBuilder('/path/to/project');
- * const context = await builder.build();
+ * const context = await builder.build({ query: 'Add a dark mode toggle' });
  * ```
  */
 export class CodebaseContextBuilder {
@@ -101,15 +111,16 @@ export class CodebaseContextBuilder {
   /**
    * Build complete codebase context
    */
-  async build(): Promise<CodebaseContext> {
+  async build(options: BuildContextOptions = {}): Promise<CodebaseContext> {
     console.log('Building codebase context...');
 
-    const [structure, dependencies, schema, recentChanges, documentation] = await Promise.all([
+    const [structure, dependencies, schema, recentChanges, documentation, relevantFiles] = await Promise.all([
       this.scanStructure(),
       this.getDependencies(),
       this.getDatabaseSchema(),
       this.getRecentChanges(),
       this.getDocumentation(),
+      selectRelevantFiles(this.projectRoot, options),
     ]);
 
     const protectedFiles = getProtectedPatterns();
@@ -127,6 +138,7 @@ export class CodebaseContextBuilder {
       sensitiveFiles,
       summary,
       documentation,
+      relevantFiles,
     };
   }
 
@@ -245,18 +257,18 @@ export class CodebaseContextBuilder {
   private async getRecentChanges(): Promise<RecentChange[]> {
     try {
       const gitManager = createGitManager(this.projectRoot);
-      const logResult = await gitManager.getLog(10);
+      const logResult = await gitManager.getDetailedLog({ maxCount: 10 });
 
       if (!logResult.success || !logResult.data?.commits) {
         return [];
       }
 
-      return logResult.data.commits.map((commit: any) => ({
+      return (logResult.data.commits as CommitDetails[]).map((commit) => ({
         hash: commit.hash,
         date: commit.date,
         message: commit.message,
         author: commit.author,
-        files: [], // simple-git doesn't include files in log by default
+        files: commit.files.map((file) => file.path),
       }));
     } catch (error) {
       return [];
@@ -397,18 +409,46 @@ export class CodebaseContextBuilder {
 }
 
 /**
- * Convenience function to build codebase context
+ * Select the files most relevant to the request from the shared index
+ * (none without a query)
  */
-export async function buildCodebaseContext(projectRoot?: string): Promise<CodebaseContext> {
+export async function selectRelevantFiles(
+  projectRoot: string,
+  options: BuildContextOptions = {}
+): Promise<RelevantFile[]> {
+  if (!options.query) {
+    return [];
+  }
+
+  try {
+    return await findRelevantContext(projectRoot, options.query, options);
+  } catch (error) {
+    console.warn('⚠ Could not select relevant files:', error instanceof Error ? error.message : error);
+    return [];
+  }
+}
+
+/**
+ * Convenience function to build codebase context (uncached, see loadCodebaseContext)
+ */
+export async function buildCodebaseContext(
+  projectRoot?: string,
+  options?: BuildContextOptions
+): Promise<CodebaseContext> {
   const root = projectRoot || process.cwd();
   const builder = new CodebaseContextBuilder(root);
-  return await builder.build();
+  return await builder.build(options);
 }
 
 /**
- * Format context for AI agent prompt
+ * Format context for AI agent prompt.
+ *
+ * Agents with file tools get the models list and the relevant snippets and
+ * are pointed at the Read tool for the rest. Completion models (`tools: false`)
+ * cannot read files, so the full schema is included instead.
  */
-export function formatContextForAgent(context: CodebaseContext): string {
+export function formatContextForAgent(context: CodebaseContext, options: { tools?: boolean } = {}): string {
+  const tools = options.tools ?? true;
   const lines: string[] = [];
 
   lines.push('=== CODEBASE CONTEXT ===\n');
@@ -429,12 +469,42 @@ export function formatContextForAgent(context: CodebaseContext): string {
   lines.push('These files require extra validation and careful modifications:');
   context.sensitiveFiles.forEach((pattern) => lines.push(`- ${pattern}`));
 
-  // Database schema
+  // Database schema (with tools, models relevant to the request are in Relevant Code)
   if (context.schema) {
     lines.push('\n## Database Schema');
-    lines.push('```prisma');
-    lines.push(context.schema.content);
-    lines.push('```');
+    if (tools) {
+      lines.push(`Models: ${context.schema.models.join(', ')}`);
+      lines.push('Full schema: prisma/schema.prisma (use Read tool if you need models not shown below)');
+    } else {
+      lines.push('```prisma');
+      lines.push(context.schema.content);
+      lines.push('```');
+    }
+  }
+
+  // Files selected for this request (the schema is already shown in full without tools)
+  const relevantFiles = tools
+    ? context.relevantFiles
+    : context.relevantFiles.filter((file) => !file.path.endsWith('.prisma'));
+  if (relevantFiles.length > 0) {
+    lines.push('\n## Relevant Code');
+    lines.push(
+      tools
+        ? 'Selected for this request by keyword and symbol match. Read a file in full before editing it.'
+        : 'Selected for this request by keyword and symbol match.'
+    );
+    relevantFiles.forEach((file) => {
+      const details = [file.kind, file.route, file.symbols.length > 0 ? `exports ${file.symbols.join(', ')}` : '']
+        .filter(Boolean)
+        .join(' · ');
+      const endLine = file.startLine + file.snippet.split('\n').length - 1;
+
+      lines.push(`\n### ${file.path} (${details})`);
+      lines.push(`Lines ${file.startLine}-${endLine}:`);
+      lines.push('```' + (file.path.endsWith('.prisma') ? 'prisma' : path.extname(file.path).substring(1)));
+      lines.push(file.snippet);
+      lines.push('```');
+    });
   }
 
   // Recent changes
@@ -442,6 +512,10 @@ export function formatContextForAgent(context: CodebaseContext): string {
     lines.push('\n## Recent Changes');
     context.recentChanges.slice(0, 5).forEach((change) => {
       lines.push(`- ${change.date}: ${change.message} (by ${change.author})`);
+      if (change.files.length > 0) {
+        const more = change.files.length > 10 ? ` (+${change.files.length - 10} more)` : '';
+        lines.push(`  Files: ${change.files.slice(0, 10).join(', ')}${more}`);
+      }
     });
   }
 
@@ -460,7 +534,7 @@ export function formatContextForAgent(context: CodebaseContext): string {
     lines.push('\n## Administrator Conventions & Terminology');
     lines.push('These are the conventions and terms administrators use:');
     context.documentation.conventions.forEach((convention) => lines.push(convention));
-    lines.push('\nFull admin guide available at: docs/ADMIN_GUIDE.md (use Read tool if you need details)');
+    lines.push(`\nFull admin guide available at: docs/ADMIN_GUIDE.md${tools ? ' (use Read tool if you need details)' : ''}`);
   }
 
   lines.push('\n=== END CODEBASE CONTEXT ===\n');
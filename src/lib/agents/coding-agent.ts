@@ -1,7 +1,23 @@
-import { ClaudeCodeClient, ClaudeCodeMessage } from './claude-code-client';
-import { buildCodebaseContext, formatContextForAgent, CodebaseContext } from './codebase-context';
+import { ClaudeCodeClient, ClaudeCodeMessage, ClaudeCodeRequestOptions } from './claude-code-client';
+import { formatContextForAgent, CodebaseContext } from './codebase-context';
+import { getContextCache, loadCodebaseContext } from './context-cache';
 import { FileModification } from '../code-modification/file-manager';
 
+/**
+ * Chat-completion client the agent generates code with.
+ * Both ClaudeCodeClient and BedrockClient satisfy it.
+ */
+export interface CompletionClient {
+  invokeModel(options: ClaudeCodeRequestOptions): Promise<{
+    success: boolean;
+    content: string;
+    usage?: { inputTokens: number; outputTokens: number };
+    error?: string;
+  }>;
+  testConnection(): Promise<{ success: boolean; error?: string }>;
+  getModelId?(): string;
+}
+
 /**
  * Code generation request
  */
@@ -22,6 +38,7 @@ export interface CodeGenerationResponse {
   thinking?: string;
   error?: string;
   warnings?: string[];
+  usage?: { inputTokens: number; outputTokens: number };
 }
 
 /**
@@ -45,11 +62,11 @@ export interface CodeGenerationResponse {
  * ```
  */
 export class CodingAgent {
-  private claudeCodeClient: ClaudeCodeClient;
+  private claudeCodeClient: CompletionClient;
   private projectRoot: string;
   private codebaseContext: CodebaseContext | null = null;
 
-  constructor(projectRoot: string, claudeCodeClient?: ClaudeCodeClient) {
+  constructor(projectRoot: string, claudeCodeClient?: CompletionClient) {
     this.projectRoot = projectRoot;
     this.claudeCodeClient = claudeCodeClient || new ClaudeCodeClient(projectRoot);
   }
@@ -59,7 +76,7 @@ export class CodingAgent {
    */
   async initialize(): Promise<void> {
     console.log('Initializing coding agent...');
-    this.codebaseContext = await buildCodebaseContext(this.projectRoot);
+    this.codebaseContext = await loadCodebaseContext(this.projectRoot);
     console.log('Codebase context loaded!');
   }
 
@@ -68,10 +85,8 @@ export class CodingAgent {
    */
   async generateCode(request: CodeGenerationRequest): Promise<CodeGenerationResponse> {
     try {
-      // Ensure context is loaded
-      if (!this.codebaseContext) {
-        await this.initialize();
-      }
+      // Load context (cached until files change) with the files relevant to this request
+      this.codebaseContext = await loadCodebaseContext(this.projectRoot, { query: request.userRequest });
 
       // Build system prompt
       const systemPrompt = this.buildSystemPrompt();
@@ -110,7 +125,7 @@ export class CodingAgent {
       // Parse agent response
       const parsed = this.parseAgentResponse(response.content);
 
-      return parsed;
+      return { ...parsed, usage: response.usage };
     } catch (error) {
       return {
         success: false,
@@ -129,7 +144,8 @@ export class CodingAgent {
       throw new Error('Codebase context not initialized');
     }
 
-    const contextStr = formatContextForAgent(this.codebaseContext);
+    // Completion clients have no file tools - the schema and snippets stay in the prompt
+    const contextStr = formatContextForAgent(this.codebaseContext, { tools: false });
 
     return `You are an expert coding agent that modifies a Next.js application based on user requests.
 
@@ -137,7 +153,7 @@ ${contextStr}
 
 ## YOUR ROLE
 
-You must generate code changes to implement user requests. You have access to the full codebase context above.
+You must generate code changes to implement user requests. You have the codebase context above: the database schema and the code selected for this request.
 
 ## CRITICAL RULES
 
@@ -300,10 +316,10 @@ Remember: Your changes will be automatically tested and deployed. Generate high-
   }
 
   /**
-   * Reload codebase context
+   * Reload codebase context, rebuilding the shared cache for this project
    */
   async reloadContext(): Promise<void> {
-    this.codebaseContext = await buildCodebaseContext(this.projectRoot);
+    this.codebaseContext = await getContextCache(this.projectRoot).refresh();
   }
 
   /**
@@ -0,0 +1,145 @@
+import * as os from 'os';
+import * as path from 'path';
+import { CodingAgent, CompletionClient } from './coding-agent';
+import { ClaudeCodeMessage } from './claude-code-client';
+import { formatContextForAgent } from './codebase-context';
+import { loadCodebaseContext } from './context-cache';
+import { PLAN_MODE_INSTRUCTIONS, parsePlanOutput } from './modification-plan';
+import {
+  LLMProvider,
+  LLMProviderName,
+  TokenUsage,
+  CodeModificationRequest,
+  CodeModificationResponse,
+  CodePlanResponse,
+} from './llm-provider';
+import { FileManager } from '../code-modification/file-manager';
+
+/**
+ * CompletionProvider
+ *
+ * Adapts a chat-completion client (Bedrock, Claude Code headless) to the
+ * LLMProvider interface. These models cannot edit files themselves, so the
+ * CodingAgent asks them for file contents as JSON and the FileManager writes
+ * them (with the usual protected-file checks).
+ *
+ * Usage:
+ * ```typescript
+ * const provider = new CompletionProvider('bedrock', '/path/to/staging', new BedrockClient());
+ * const response = await provider.modifyCode({ userRequest: 'Add a footer' });
+ * ```
+ */
+export class CompletionProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+
+  private projectRoot: string;
+  private client: CompletionClient;
+  private agent: CodingAgent;
+  private fileManager: FileManager;
+
+  constructor(name: LLMProviderName, projectRoot: string, client: CompletionClient) {
+    this.name = name;
+    this.projectRoot = projectRoot;
+    this.client = client;
+    this.agent = new CodingAgent(projectRoot, client);
+    // Keep backups out of the worktree so they are never committed
+    this.fileManager = new FileManager(projectRoot, path.join(os.tmpdir(), 'deboraai-backups'));
+  }
+
+  /**
+   * Generate file contents and write them to the worktree
+   */
+  async modifyCode(request: CodeModificationRequest): Promise<CodeModificationResponse> {
+    try {
+      const generation = await this.agent.generateCode({
+        userRequest: request.userRequest,
+        conversationHistory: toMessages(request.conversationHistory),
+      });
+
+      const usage = this.toUsage(generation.usage);
+
+      if (!generation.success) {
+        return { success: false, result: '', usage, error: generation.error || 'Failed to generate code' };
+      }
+
+      if (request.signal?.aborted) {
+        return { success: false, result: '', usage, error: 'Cancelled' };
+      }
+
+      const applied = await this.fileManager.applyModifications(
+        generation.modifications.map((mod) => ({ ...mod, createIfMissing: true }))
+      );
+
+      if (!applied.success) {
+        return { success: false, result: generation.explanation, usage, error: applied.error };
+      }
+
+      return {
+        success: true,
+        result: generation.explanation,
+        sessionId: request.sessionId,
+        filesModified: generation.modifications.map((mod) => mod.filePath),
+        usage,
+      };
+    } catch (error) {
+      console.error(`${this.name} provider error:`, error);
+      return {
+        success: false,
+        result: '',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Ask the model for a plan (no files are written)
+   */
+  async planChanges(request: CodeModificationRequest): Promise<CodePlanResponse> {
+    try {
+      const context = await loadCodebaseContext(this.projectRoot, { query: request.userRequest });
+      const response = await this.client.invokeModel({
+        messages: [
+          ...toMessages(request.conversationHistory),
+          { role: 'user', content: `## USER REQUEST\n\n${request.userRequest}\n\n${PLAN_MODE_INSTRUCTIONS}` },
+        ],
+        system: `You are an expert coding agent planning changes to a Next.js application.\n\n${formatContextForAgent(context, { tools: false })}`,
+        maxTokens: 4000,
+        temperature: 0.3,
+      });
+
+      if (!response.success) {
+        return { success: false, result: '', error: response.error || 'Failed to plan changes' };
+      }
+
+      return {
+        success: true,
+        plan: parsePlanOutput(response.content),
+        result: response.content,
+        sessionId: request.sessionId,
+        usage: this.toUsage(response.usage),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        result: '',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Attach the client's model id to the token counts it reported
+   */
+  private toUsage(usage?: { inputTokens: number; outputTokens: number }): TokenUsage | undefined {
+    return usage ? { model: this.client.getModelId?.(), ...usage } : undefined;
+  }
+}
+
+/**
+ * Keep only the roles completion clients accept
+ */
+function toMessages(history: CodeModificationRequest['conversationHistory']): ClaudeCodeMessage[] {
+  return (history || [])
+    .filter((message) => message.role === 'user' || message.role === 'assistant')
+    .map((message) => ({ role: message.role as 'user' | 'assistant', content: message.content }));
+}
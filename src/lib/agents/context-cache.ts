@@ -0,0 +1,256 @@
+import * as path from 'path';
+import { BuildContextOptions, CodebaseContext, CodebaseContextBuilder, selectRelevantFiles } from './codebase-context';
+import { getContextIndex } from './context-index';
+
+/**
+ * Directories and file types whose changes never affect the context
+ * (SQLite files change on every database write)
+ */
+const IGNORE_DIRS = ['node_modules', '.next', 'dist', 'build', 'coverage', '.git'];
+const IGNORE_EXTENSIONS = ['.db', '.db-journal', '.db-wal', '.db-shm', '.log', '.tsbuildinfo'];
+
+/**
+ * File watcher the cache listens to (chokidar's FSWatcher satisfies it)
+ */
+export interface FileWatcher {
+  on(event: 'all', listener: (eventName: string, filePath: string) => void): unknown;
+  on(event: 'error', listener: (error: unknown) => void): unknown;
+  close(): Promise<void>;
+}
+
+/**
+ * Start watching `paths`, skipping anything `ignored` returns true for
+ */
+export type WatcherFactory = (paths: string[], ignored: (filePath: string) => boolean) => Promise<FileWatcher>;
+
+/**
+ * Cache statistics
+ */
+export interface ContextCacheStats {
+  projectRoot: string;
+  watching: boolean; // Without a watcher every request rebuilds
+  cached: boolean;
+  hits: number;
+  misses: number;
+  builds: number;
+  invalidations: number; // File change events seen
+  lastBuiltAt: Date | null;
+  lastBuildMs: number | null;
+  lastChange: { event: string; filePath: string; at: Date } | null;
+}
+
+/**
+ * ContextCache
+ *
+ * Keeps the CodebaseContext of a project between requests instead of
+ * re-walking the tree every time. A file watcher (chokidar) drops the cached
+ * context whenever a file in the project changes, and the next request
+ * rebuilds it. Commits are noticed through `.git/logs/HEAD`, so the recent
+ * changes listed in the context stay current too.
+ *
+ * Relevant files are selected per request from the ContextIndex and are not
+ * part of what is cached.
+ *
+ * If the watcher cannot be started the cache is bypassed: every request is a
+ * miss and rebuilds, which is slower but never stale.
+ *
+ * Usage:
+ * ```typescript
+ * const cache = getContextCache('/path/to/staging');
+ * const context = await cache.get({ query: 'Add a dark mode toggle' });
+ * console.log(cache.getStats()); // { hits: 3, misses: 1, ... }
+ * ```
+ */
+export class ContextCache {
+  private projectRoot: string;
+  private builder: CodebaseContextBuilder;
+  private createWatcher: WatcherFactory;
+  private context: CodebaseContext | null = null;
+  private pendingBuild: Promise<CodebaseContext> | null = null;
+  private generation = 0; // Bumped on every change so a build that overlapped one is not cached
+  private watcher: FileWatcher | null = null;
+  private watchStart: Promise<void> | null = null;
+  private stats = {
+    hits: 0,
+    misses: 0,
+    builds: 0,
+    invalidations: 0,
+    lastBuiltAt: null as Date | null,
+    lastBuildMs: null as number | null,
+    lastChange: null as ContextCacheStats['lastChange'],
+  };
+
+  constructor(projectRoot: string, options: { createWatcher?: WatcherFactory } = {}) {
+    this.projectRoot = projectRoot;
+    this.builder = new CodebaseContextBuilder(projectRoot);
+    this.createWatcher = options.createWatcher || watchWithChokidar;
+  }
+
+  /**
+   * Get the context, from the cache when nothing changed since it was built
+   */
+  async get(options: BuildContextOptions = {}): Promise<CodebaseContext> {
+    await this.startWatching();
+
+    let context: CodebaseContext;
+    if (this.context && this.watcher) {
+      this.stats.hits++;
+      context = this.context;
+    } else {
+      this.stats.misses++;
+      context = await this.build();
+    }
+
+    return { ...context, relevantFiles: await selectRelevantFiles(this.projectRoot, options) };
+  }
+
+  /**
+   * Drop the cached context and rebuild it now, including the relevant-file index
+   */
+  async refresh(): Promise<CodebaseContext> {
+    await this.pendingBuild?.catch(() => undefined);
+
+    this.invalidate();
+    getContextIndex(this.projectRoot).reset();
+
+    const [context] = await Promise.all([this.build(), getContextIndex(this.projectRoot).refresh()]);
+    return context;
+  }
+
+  /**
+   * Drop the cached context; the next request rebuilds it
+   */
+  invalidate(): void {
+    this.generation++;
+    this.context = null;
+  }
+
+  getStats(): ContextCacheStats {
+    return {
+      projectRoot: this.projectRoot,
+      watching: this.watcher !== null,
+      cached: this.context !== null,
+      ...this.stats,
+    };
+  }
+
+  /**
+   * Stop watching (the cache is bypassed afterwards)
+   */
+  async close(): Promise<void> {
+    const watcher = this.watcher;
+    this.watcher = null;
+    this.invalidate();
+    await watcher?.close();
+  }
+
+  private async build(): Promise<CodebaseContext> {
+    if (!this.pendingBuild) {
+      const generation = this.generation;
+      const startedAt = Date.now();
+
+      this.pendingBuild = this.builder
+        .build()
+        .then((context) => {
+          this.stats.builds++;
+          this.stats.lastBuiltAt = new Date();
+          this.stats.lastBuildMs = Date.now() - startedAt;
+
+          if (generation === this.generation) {
+            this.context = context;
+          }
+          return context;
+        })
+        .finally(() => {
+          this.pendingBuild = null;
+        });
+    }
+
+    return this.pendingBuild;
+  }
+
+  /**
+   * Start the watcher once; failures are logged and leave the cache bypassed
+   */
+  private startWatching(): Promise<void> {
+    if (!this.watchStart) {
+      const gitLog = path.join(this.projectRoot, '.git', 'logs', 'HEAD');
+
+      this.watchStart = this.createWatcher([this.projectRoot, gitLog], (filePath) => {
+        if (filePath === gitLog) return false;
+        const relative = path.relative(this.projectRoot, filePath);
+        return (
+          relative.split(path.sep).some((segment) => IGNORE_DIRS.includes(segment)) ||
+          IGNORE_EXTENSIONS.some((extension) => relative.endsWith(extension))
+        );
+      })
+        .then((watcher) => {
+          watcher.on('all', (event, filePath) => {
+            this.stats.invalidations++;
+            this.stats.lastChange = { event, filePath: path.relative(this.projectRoot, filePath), at: new Date() };
+            this.invalidate();
+          });
+          watcher.on('error', (error) => {
+            console.warn('⚠ Codebase context watcher error:', error instanceof Error ? error.message : error);
+          });
+          this.watcher = watcher;
+        })
+        .catch((error) => {
+          console.warn(
+            '⚠ Could not watch project files, codebase context will not be cached:',
+            error instanceof Error ? error.message : error
+          );
+        });
+    }
+
+    return this.watchStart;
+  }
+}
+
+/**
+ * Default watcher. chokidar is ESM-only, so it is loaded on first use.
+ */
+async function watchWithChokidar(paths: string[], ignored: (filePath: string) => boolean): Promise<FileWatcher> {
+  const { watch } = await import('chokidar');
+  return watch(paths, { ignored, ignoreInitial: true, persistent: false });
+}
+
+/**
+ * Process-wide caches, one per project.
+ * Stored on the Node.js global object so hot reloads in dev do not start
+ * another watcher (same approach as the SSE broadcast manager).
+ */
+declare global {
+  var codebaseContextCaches: Map<string, ContextCache> | undefined;
+}
+
+const caches: Map<string, ContextCache> = global.codebaseContextCaches || new Map();
+
+if (!global.codebaseContextCaches) {
+  global.codebaseContextCaches = caches;
+}
+
+/**
+ * Get the shared cache for a project
+ */
+export function getContextCache(projectRoot: string): ContextCache {
+  const root = path.resolve(projectRoot);
+  let cache = caches.get(root);
+
+  if (!cache) {
+    cache = new ContextCache(root);
+    caches.set(root, cache);
+  }
+
+  return cache;
+}
+
+/**
+ * Load a project's codebase context through the shared cache
+ */
+export async function loadCodebaseContext(
+  projectRoot?: string,
+  options?: BuildContextOptions
+): Promise<CodebaseContext> {
+  return getContextCache(projectRoot || process.cwd()).get(options);
+}
@@ -0,0 +1,556 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createGitManager } from '../code-modification/git-manager';
+
+/**
+ * Default selection limits for one request
+ */
+const DEFAULT_MAX_FILES = 8;
+const DEFAULT_TOKEN_BUDGET = 6000;
+
+/**
+ * Lines of code shown per file, and the smallest budget worth filling
+ */
+const SNIPPET_LINES = 40;
+const MIN_SNIPPET_TOKENS = 50;
+
+/**
+ * Files larger than this are indexed by path and symbols only
+ */
+const MAX_FILE_SIZE = 200 * 1024;
+
+/**
+ * How much more a term in the path, route or exported symbols counts than one in the body
+ */
+const KEY_TERM_WEIGHT = 3;
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+const IGNORE_DIRS = ['node_modules', '.next', 'dist', 'build', 'coverage', '.git'];
+const SCHEMA_PATH = 'prisma/schema.prisma';
+
+/**
+ * Words too common in requests and code to say anything about relevance
+ */
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'our', 'your', 'you', 'are', 'was', 'can',
+  'add', 'make', 'use', 'new', 'should', 'would', 'when', 'then', 'than', 'please', 'want', 'need', 'also',
+  'import', 'export', 'const', 'let', 'var', 'function', 'return', 'default', 'async', 'await',
+  'string', 'number', 'boolean', 'null', 'undefined', 'true', 'false', 'div', 'span',
+]);
+
+/**
+ * What an index entry describes
+ */
+export type ContextEntryKind = 'route' | 'page' | 'component' | 'module' | 'model';
+
+/**
+ * A file (or Prisma model) selected for a request, with the part of it to show the agent
+ */
+export interface RelevantFile {
+  path: string;
+  kind: ContextEntryKind;
+  route?: string; // URL path for API routes and pages
+  symbols: string[]; // Exported names, or the model name
+  score: number;
+  startLine: number; // 1-based line of the snippet
+  snippet: string;
+}
+
+/**
+ * Options for selecting relevant context
+ */
+export interface RelevantContextOptions {
+  maxFiles?: number;
+  tokenBudget?: number; // Approximate tokens for all snippets together
+}
+
+/**
+ * Result of bringing the index up to date
+ */
+export interface IndexRefreshResult {
+  mode: 'full' | 'incremental' | 'unchanged';
+  filesIndexed: number;
+  totalEntries: number;
+}
+
+/**
+ * One indexed file or model
+ */
+interface IndexEntry {
+  id: string; // File path, or path#Model for Prisma models
+  path: string;
+  kind: ContextEntryKind;
+  route?: string;
+  symbols: string[];
+  keyTerms: Set<string>;
+  terms: Map<string, number>;
+  length: number;
+  lines: string[];
+  startLine: number;
+}
+
+/**
+ * ContextIndex
+ *
+ * Local keyword/symbol index over `src/` and the Prisma schema, used to pick
+ * the files and snippets most relevant to a request instead of sending the
+ * whole codebase in every prompt. Entries are source files (with their
+ * exports, API route or page path) and Prisma models; they are ranked with
+ * BM25 over identifiers split into words, with matches in paths and symbols
+ * counting extra. No embedding service is involved.
+ *
+ * The first refresh indexes everything. Later refreshes ask git which files
+ * changed since the last one (commits, uncommitted edits and untracked files)
+ * and re-index only those.
+ *
+ * Usage:
+ * ```typescript
+ * const index = new ContextIndex('/path/to/project');
+ * await index.refresh();
+ * const files = index.search('Add a bio to the user profile page');
+ * ```
+ */
+export class ContextIndex {
+  private projectRoot: string;
+  private entries = new Map<string, IndexEntry>();
+  private indexedCommit: string | null = null;
+  private dirtyFiles = new Set<string>();
+  private built = false;
+  private pendingRefresh: Promise<IndexRefreshResult> | null = null;
+
+  constructor(projectRoot: string) {
+    this.projectRoot = projectRoot;
+  }
+
+  /**
+   * Bring the index up to date with the working tree
+   */
+  async refresh(): Promise<IndexRefreshResult> {
+    // Concurrent requests share one refresh
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.doRefresh().finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+
+    return this.pendingRefresh;
+  }
+
+  /**
+   * Rank indexed files against a request and cut snippets to the token budget
+   */
+  search(query: string, options: RelevantContextOptions = {}): RelevantFile[] {
+    const maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+    let remainingTokens = options.tokenBudget ?? DEFAULT_TOKEN_BUDGET;
+
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || this.entries.size === 0) {
+      return [];
+    }
+
+    const ranked = this.rank(queryTerms);
+    const results: RelevantFile[] = [];
+
+    for (const { entry, score } of ranked) {
+      if (results.length >= maxFiles || remainingTokens < MIN_SNIPPET_TOKENS) break;
+
+      const { startLine, lines } = selectSnippet(entry, new Set(queryTerms), remainingTokens);
+      if (lines.length === 0) continue;
+
+      const snippet = lines.join('\n');
+      remainingTokens -= estimateTokens(snippet);
+
+      results.push({
+        path: entry.path,
+        kind: entry.kind,
+        route: entry.route,
+        symbols: entry.symbols,
+        score: Math.round(score * 100) / 100,
+        startLine,
+        snippet,
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Forget what was indexed so the next refresh rebuilds everything
+   */
+  reset(): void {
+    this.built = false;
+  }
+
+  /**
+   * Number of indexed files and models
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private async doRefresh(): Promise<IndexRefreshResult> {
+    const gitManager = createGitManager(this.projectRoot);
+
+    if (this.built && this.indexedCommit) {
+      const changes = await gitManager.getChangedFiles(this.indexedCommit);
+
+      if (changes.success) {
+        const changed: string[] = changes.data.files;
+        // Files dirty last time may have been reverted since, so they are re-read too
+        const toIndex = new Set([...changed, ...this.dirtyFiles].filter((file) => this.isIndexable(file)));
+
+        for (const file of toIndex) {
+          await this.indexFile(file);
+        }
+
+        this.indexedCommit = changes.data.head;
+        this.dirtyFiles = new Set(changes.data.uncommitted);
+
+        return {
+          mode: toIndex.size > 0 ? 'incremental' : 'unchanged',
+          filesIndexed: toIndex.size,
+          totalEntries: this.entries.size,
+        };
+      }
+    }
+
+    // First build, or git could not tell what changed. The commit is read
+    // first so edits made while scanning are picked up next time.
+    const changes = await gitManager.getChangedFiles();
+
+    this.entries.clear();
+    const files = await this.listSourceFiles();
+    for (const file of files) {
+      await this.indexFile(file);
+    }
+
+    this.indexedCommit = changes.success ? changes.data.head : null;
+    this.dirtyFiles = new Set(changes.success ? changes.data.uncommitted : []);
+    this.built = true;
+
+    return { mode: 'full', filesIndexed: files.length, totalEntries: this.entries.size };
+  }
+
+  /**
+   * Source files under src/ plus the Prisma schema, relative to the project root
+   */
+  private async listSourceFiles(): Promise<string[]> {
+    const files: string[] = [];
+    const projectRoot = this.projectRoot;
+
+    async function scan(dir: string): Promise<void> {
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name);
+
+        if (entry.isDirectory()) {
+          if (!IGNORE_DIRS.includes(entry.name)) {
+            await scan(fullPath);
+          }
+        } else if (entry.isFile() && SOURCE_EXTENSIONS.includes(path.extname(entry.name))) {
+          files.push(path.relative(projectRoot, fullPath).split(path.sep).join('/'));
+        }
+      }
+    }
+
+    await scan(path.join(this.projectRoot, 'src'));
+
+    try {
+      await fs.access(path.join(this.projectRoot, SCHEMA_PATH));
+      files.push(SCHEMA_PATH);
+    } catch {
+      // No Prisma schema
+    }
+
+    return files;
+  }
+
+  private isIndexable(file: string): boolean {
+    if (file === SCHEMA_PATH) return true;
+
+    return (
+      file.startsWith('src/') &&
+      SOURCE_EXTENSIONS.includes(path.extname(file)) &&
+      !file.split('/').some((segment) => IGNORE_DIRS.includes(segment))
+    );
+  }
+
+  /**
+   * (Re-)index one file, or drop it if it no longer exists
+   */
+  private async indexFile(file: string): Promise<void> {
+    for (const [id, entry] of this.entries) {
+      if (entry.path === file) this.entries.delete(id);
+    }
+
+    let content: string;
+    try {
+      const fullPath = path.join(this.projectRoot, file);
+      const stats = await fs.stat(fullPath);
+      content = stats.size > MAX_FILE_SIZE ? '' : await fs.readFile(fullPath, 'utf-8');
+    } catch {
+      return; // Deleted
+    }
+
+    const entries = file === SCHEMA_PATH ? parseSchemaEntries(content) : [parseSourceEntry(file, content)];
+    entries.forEach((entry) => this.entries.set(entry.id, entry));
+  }
+
+  /**
+   * BM25 over body terms, plus a bonus per query term found in the path, route or symbols
+   */
+  private rank(queryTerms: string[]): Array<{ entry: IndexEntry; score: number }> {
+    const entries = Array.from(this.entries.values());
+    const total = entries.length;
+    const averageLength = entries.reduce((sum, entry) => sum + entry.length, 0) / total || 1;
+    const k1 = 1.2;
+    const b = 0.75;
+
+    const idf = new Map<string, number>();
+    for (const term of queryTerms) {
+      const documentFrequency = entries.filter((entry) => entry.terms.has(term) || entry.keyTerms.has(term)).length;
+      idf.set(term, Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5)));
+    }
+
+    return entries
+      .map((entry) => {
+        let score = 0;
+
+        for (const term of queryTerms) {
+          const termIdf = idf.get(term) || 0;
+          const frequency = entry.terms.get(term) || 0;
+
+          if (frequency > 0) {
+            score += termIdf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * (entry.length / averageLength)));
+          }
+          if (entry.keyTerms.has(term)) {
+            score += termIdf * KEY_TERM_WEIGHT;
+          }
+        }
+
+        return { entry, score };
+      })
+      .filter((result) => result.score > 0)
+      .sort((a, b) => b.score - a.score || a.entry.id.localeCompare(b.entry.id));
+  }
+}
+
+/**
+ * Split text into lowercase words, breaking identifiers at camelCase and
+ * punctuation and folding simple plurals ("UserProfiles" → user, profile)
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+function countTerms(words: string[]): Map<string, number> {
+  const terms = new Map<string, number>();
+  words.forEach((word) => terms.set(word, (terms.get(word) || 0) + 1));
+  return terms;
+}
+
+/**
+ * Index entry for a source file: its exports, and its URL if it is a route or page
+ */
+function parseSourceEntry(file: string, content: string): IndexEntry {
+  const symbols = extractExports(content);
+  const fileName = path.basename(file);
+  const appRoute = file.startsWith('src/app/') ? routeFromPath(file) : undefined;
+
+  let kind: ContextEntryKind = 'module';
+  let route: string | undefined;
+  if (/^route\.(ts|js)$/.test(fileName) && appRoute) {
+    kind = 'route';
+    route = appRoute;
+  } else if (/^(page|layout)\.(tsx|jsx)$/.test(fileName) && appRoute) {
+    kind = 'page';
+    route = appRoute;
+  } else if (file.endsWith('.tsx') || file.endsWith('.jsx')) {
+    kind = 'component';
+  }
+
+  const words = tokenize(content);
+
+  return {
+    id: file,
+    path: file,
+    kind,
+    route,
+    symbols,
+    keyTerms: new Set(tokenize([file.replace(/\.\w+$/, ''), route || '', ...symbols].join(' '))),
+    terms: countTerms(words),
+    length: words.length,
+    lines: content.split('\n'),
+    startLine: 1,
+  };
+}
+
+/**
+ * Names exported by a module (declarations, `export { a, b as c }` and `export default Name`)
+ */
+export function extractExports(content: string): string[] {
+  const symbols = new Set<string>();
+  const declaration = /^export\s+(?:default\s+)?(?:async\s+)?(?:abstract\s+)?(?:function\*?|const|let|var|class|interface|type|enum)\s+(\w+)/gm;
+  const list = /^export\s+(?:type\s+)?\{([^}]*)\}/gm;
+  const defaultName = /^export\s+default\s+(\w+)\s*;?\s*$/gm;
+
+  let match;
+  while ((match = declaration.exec(content)) !== null) {
+    symbols.add(match[1]);
+  }
+  while ((match = list.exec(content)) !== null) {
+    match[1]
+      .split(',')
+      .map((name) => name.trim().split(/\s+as\s+/).pop()?.trim())
+      .filter((name): name is string => !!name)
+      .forEach((name) => symbols.add(name));
+  }
+  while ((match = defaultName.exec(content)) !== null) {
+    symbols.add(match[1]);
+  }
+
+  return Array.from(symbols);
+}
+
+/**
+ * URL path of an App Router file (route groups removed, dynamic segments kept)
+ */
+function routeFromPath(file: string): string {
+  const segments = file
+    .replace(/^src\/app\/?/, '')
+    .split('/')
+    .slice(0, -1)
+    .filter((segment) => !/^\(.*\)$/.test(segment));
+
+  return `/${segments.join('/')}`;
+}
+
+/**
+ * One index entry per `model` block in the Prisma schema
+ */
+function parseSchemaEntries(content: string): IndexEntry[] {
+  const entries: IndexEntry[] = [];
+  const lines = content.split('\n');
+  const modelRegex = /^model\s+(\w+)\s*\{/;
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = modelRegex.exec(lines[i]);
+    if (!match) continue;
+
+    let end = i;
+    while (end < lines.length && !/^\}/.test(lines[end])) end++;
+
+    const blockLines = lines.slice(i, end + 1);
+    const words = tokenize(blockLines.join('\n'));
+
+    entries.push({
+      id: `${SCHEMA_PATH}#${match[1]}`,
+      path: SCHEMA_PATH,
+      kind: 'model',
+      symbols: [match[1]],
+      keyTerms: new Set(tokenize(match[1])),
+      terms: countTerms(words),
+      length: words.length,
+      lines: blockLines,
+      startLine: i + 1,
+    });
+    i = end;
+  }
+
+  return entries;
+}
+
+/**
+ * The window of an entry with the most lines mentioning query terms,
+ * trimmed to what is left of the token budget
+ */
+function selectSnippet(
+  entry: IndexEntry,
+  queryTerms: Set<string>,
+  remainingTokens: number
+): { startLine: number; lines: string[] } {
+  let start = 0;
+
+  if (entry.lines.length > SNIPPET_LINES) {
+    const hits = entry.lines.map((line) => (tokenize(line).some((word) => queryTerms.has(word)) ? 1 : 0));
+    let windowHits = hits.slice(0, SNIPPET_LINES).reduce((sum: number, hit) => sum + hit, 0);
+    let bestHits = windowHits;
+
+    for (let i = 1; i + SNIPPET_LINES <= hits.length; i++) {
+      windowHits += hits[i + SNIPPET_LINES - 1] - hits[i - 1];
+      if (windowHits > bestHits) {
+        bestHits = windowHits;
+        start = i;
+      }
+    }
+  }
+
+  const lines: string[] = [];
+  let tokens = 0;
+  for (const line of entry.lines.slice(start, start + SNIPPET_LINES)) {
+    tokens += estimateTokens(line) + 1;
+    if (tokens > remainingTokens) break;
+    lines.push(line);
+  }
+
+  return { startLine: entry.startLine + start, lines };
+}
+
+/**
+ * Rough token count (about four characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * One index per project, kept for the life of the process so later
+ * requests only re-index what changed
+ */
+const indexes = new Map<string, ContextIndex>();
+
+/**
+ * Get the shared index for a project
+ */
+export function getContextIndex(projectRoot: string): ContextIndex {
+  const root = path.resolve(projectRoot);
+  let index = indexes.get(root);
+
+  if (!index) {
+    index = new ContextIndex(root);
+    indexes.set(root, index);
+  }
+
+  return index;
+}
+
+/**
+ * Refresh the shared index and select the files most relevant to a request
+ */
+export async function findRelevantContext(
+  projectRoot: string,
+  query: string,
+  options?: RelevantContextOptions
+): Promise<RelevantFile[]> {
+  const index = getContextIndex(projectRoot);
+  await index.refresh();
+  return index.search(query, options);
+}
@@ -0,0 +1,82 @@
+import { ModificationPlan } from './modification-plan';
+
+/**
+ * Code modification request
+ */
+export interface CodeModificationRequest {
+  userRequest: string;
+  conversationHistory?: Array<{ role: string; content: string }>;
+  sessionId?: string;
+  signal?: AbortSignal; // Aborting stops the provider (e.g. kills the CLI process tree)
+  onActivity?: (activity: AgentActivity) => void; // Live tool calls and assistant text
+}
+
+/**
+ * Something the agent did while working on a request:
+ * a tool call (file read, edit, bash command) or a piece of assistant text
+ */
+export type AgentActivity =
+  | { type: 'tool'; tool: string; summary: string } // summary: file path, command or pattern
+  | { type: 'text'; text: string };
+
+/**
+ * Code modification response
+ */
+export interface CodeModificationResponse {
+  success: boolean;
+  result: string;
+  sessionId?: string;
+  filesModified?: string[];
+  usage?: TokenUsage;
+  error?: string;
+}
+
+/**
+ * Plan-mode response
+ */
+export interface CodePlanResponse {
+  success: boolean;
+  plan?: ModificationPlan;
+  result: string; // Raw agent output
+  sessionId?: string;
+  usage?: TokenUsage;
+  error?: string;
+}
+
+/**
+ * Tokens used by one provider call
+ */
+export interface TokenUsage {
+  model?: string;
+  inputTokens: number; // Including cache reads/writes
+  outputTokens: number;
+  costUsd?: number; // When the provider reports it; otherwise estimated from the model price
+}
+
+/**
+ * Registered provider names
+ */
+export type LLMProviderName = 'claude-cli' | 'agent-sdk' | 'bedrock' | 'claude-code' | 'scripted';
+
+/**
+ * LLMProvider
+ *
+ * What the modification pipeline needs from a model: apply a request to the
+ * files in the worktree, or describe what it would change without touching
+ * anything. Every way of reaching a model (Claude CLI, Agent SDK, Bedrock,
+ * Claude Code headless, scripted fixtures) is exposed through this interface
+ * and picked by name from the provider registry.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+
+  /**
+   * Modify files in the project root to implement the request
+   */
+  modifyCode(request: CodeModificationRequest): Promise<CodeModificationResponse>;
+
+  /**
+   * Produce a plan without modifying any files
+   */
+  planChanges(request: CodeModificationRequest): Promise<CodePlanResponse>;
+}
@@ -0,0 +1,162 @@
+import { validateFileModifications } from '../code-modification/protected-files';
+
+/**
+ * What the agent intends to do with a file
+ */
+export type PlannedAction = 'create' | 'modify' | 'delete';
+
+/**
+ * A file the agent proposes to touch
+ */
+export interface PlannedFileChange {
+  path: string;
+  action: PlannedAction;
+  rationale: string;
+}
+
+/**
+ * Warning derived from protected/sensitive file rules (not from the agent)
+ */
+export interface PlanWarning {
+  type: 'protected' | 'sensitive' | 'schema_change';
+  filePath: string;
+  message: string;
+}
+
+/**
+ * Structured plan returned by plan mode
+ */
+export interface ModificationPlan {
+  summary: string;
+  files: PlannedFileChange[];
+  riskFlags: string[]; // Risks reported by the agent
+  warnings: PlanWarning[]; // Risks derived from validateFileModifications
+}
+
+/**
+ * Instructions appended to the user prompt in plan mode.
+ * The agent must end its answer with a JSON block that parsePlanOutput can read.
+ */
+export const PLAN_MODE_INSTRUCTIONS = `This is PLAN MODE. Do NOT modify, create or delete any files and do not run commands that change state.
+Read the code you need, then describe what you would change.
+
+End your answer with a single JSON code block in exactly this shape:
+
+\`\`\`json
+{
+  "summary": "One paragraph describing the overall change",
+  "files": [
+    { "path": "src/app/page.tsx", "action": "modify", "rationale": "Why this file changes" }
+  ],
+  "riskFlags": ["Anything that could break, needs a migration, or needs review"]
+}
+\`\`\``;
+
+const PLANNED_ACTIONS: PlannedAction[] = ['create', 'modify', 'delete'];
+
+/**
+ * Parse the agent's plan-mode output into a structured plan.
+ * Falls back to a plan with the raw output as summary if no valid JSON block is found.
+ */
+export function parsePlanOutput(output: string): ModificationPlan {
+  const blocks = Array.from(output.matchAll(/```json\s*([\s\S]*?)```/g));
+  const lastBlock = blocks.length > 0 ? blocks[blocks.length - 1][1] : null;
+
+  let parsed: {
+    summary?: unknown;
+    files?: unknown;
+    riskFlags?: unknown;
+  } | null = null;
+
+  if (lastBlock) {
+    try {
+      parsed = JSON.parse(lastBlock);
+    } catch {
+      parsed = null;
+    }
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    return {
+      summary: output.trim(),
+      files: [],
+      riskFlags: ['Agent did not return a structured plan - review the summary manually'],
+      warnings: [],
+    };
+  }
+
+  const files: PlannedFileChange[] = (Array.isArray(parsed.files) ? parsed.files : [])
+    .filter((file): file is Record<string, unknown> => !!file && typeof file.path === 'string')
+    .map((file) => ({
+      path: String(file.path).replace(/^\.?\//, ''),
+      action: PLANNED_ACTIONS.includes(file.action as PlannedAction)
+        ? (file.action as PlannedAction)
+        : 'modify',
+      rationale: typeof file.rationale === 'string' ? file.rationale : '',
+    }));
+
+  const riskFlags = Array.isArray(parsed.riskFlags)
+    ? parsed.riskFlags.filter((flag): flag is string => typeof flag === 'string')
+    : [];
+
+  return {
+    summary: typeof parsed.summary === 'string' ? parsed.summary : '',
+    files,
+    riskFlags,
+    warnings: buildPlanWarnings(files.map((file) => file.path)),
+  };
+}
+
+/**
+ * Build warnings for planned files from the protected/sensitive file rules
+ */
+export function buildPlanWarnings(filePaths: string[]): PlanWarning[] {
+  const validation = validateFileModifications(filePaths);
+  const warnings: PlanWarning[] = [];
+
+  for (const filePath of validation.protected) {
+    warnings.push({
+      type: 'protected',
+      filePath,
+      message: `${filePath} is protected and cannot be modified by the agent`,
+    });
+  }
+
+  for (const filePath of validation.sensitive) {
+    if (filePath.endsWith('schema.prisma')) {
+      warnings.push({
+        type: 'schema_change',
+        filePath,
+        message: 'Database schema change - a migration will be generated and applied',
+      });
+    } else {
+      warnings.push({
+        type: 'sensitive',
+        filePath,
+        message: `${filePath} is a sensitive file - review the change carefully`,
+      });
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Format an approved plan as part of the apply request, so the agent
+ * implements what was reviewed rather than re-planning from scratch
+ */
+export function formatApprovedPlan(plan: ModificationPlan): string {
+  const parts: string[] = ['## APPROVED PLAN\n', plan.summary, '\n\n'];
+
+  if (plan.files.length > 0) {
+    parts.push('Files:\n');
+    for (const file of plan.files) {
+      parts.push(`- ${file.action} ${file.path}${file.rationale ? `: ${file.rationale}` : ''}\n`);
+    }
+    parts.push('\n');
+  }
+
+  parts.push('Implement this plan. Do not touch files outside it unless strictly necessary, and explain any deviation.');
+
+  return parts.join('');
+}
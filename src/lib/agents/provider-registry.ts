@@ -0,0 +1,57 @@
+import { LLMProvider, LLMProviderName } from './llm-provider';
+import { createClaudeCLIAgent } from './claude-cli-agent';
+import { createClaudeAgent } from './claude-agent';
+import { createBedrockClient } from './bedrock-client';
+import { createClaudeCodeClient } from './claude-code-client';
+import { CompletionProvider } from './completion-provider';
+import { ScriptedProvider } from './scripted-provider';
+
+/**
+ * Builds a provider for a project root
+ */
+export type LLMProviderFactory = (projectRoot: string) => LLMProvider;
+
+/**
+ * Provider used when LLM_PROVIDER is not set
+ */
+export const DEFAULT_PROVIDER: LLMProviderName = 'claude-cli';
+
+const factories = new Map<string, LLMProviderFactory>([
+  ['claude-cli', (projectRoot) => createClaudeCLIAgent(projectRoot)],
+  ['agent-sdk', (projectRoot) => createClaudeAgent(projectRoot)],
+  ['bedrock', (projectRoot) => new CompletionProvider('bedrock', projectRoot, createBedrockClient())],
+  ['claude-code', (projectRoot) => new CompletionProvider('claude-code', projectRoot, createClaudeCodeClient(projectRoot))],
+  ['scripted', (projectRoot) => new ScriptedProvider(projectRoot)],
+]);
+
+/**
+ * Register (or replace) a provider factory
+ */
+export function registerProvider(name: string, factory: LLMProviderFactory): void {
+  factories.set(name, factory);
+}
+
+/**
+ * Names of all registered providers
+ */
+export function listProviders(): string[] {
+  return Array.from(factories.keys());
+}
+
+/**
+ * Create the configured provider.
+ *
+ * The provider is chosen by `name`, else the LLM_PROVIDER environment
+ * variable, else DEFAULT_PROVIDER. Throws on an unknown name so a typo in the
+ * configuration fails loudly instead of silently calling a different model.
+ */
+export function createLLMProvider(projectRoot?: string, name?: string): LLMProvider {
+  const providerName = name || process.env.LLM_PROVIDER || DEFAULT_PROVIDER;
+  const factory = factories.get(providerName);
+
+  if (!factory) {
+    throw new Error(`Unknown LLM provider "${providerName}" (available: ${listProviders().join(', ')})`);
+  }
+
+  return factory(projectRoot || process.cwd());
+}
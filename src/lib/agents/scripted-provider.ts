@@ -0,0 +1,184 @@
+import { readFileSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildPlanWarnings, PlannedFileChange } from './modification-plan';
+import {
+  LLMProvider,
+  CodeModificationRequest,
+  CodeModificationResponse,
+  CodePlanResponse,
+} from './llm-provider';
+import { FileManager } from '../code-modification/file-manager';
+
+/**
+ * One canned file edit
+ */
+export interface ScriptedEdit {
+  filePath: string;
+  content?: string; // Full new file contents
+  delete?: boolean;
+}
+
+/**
+ * One canned response, selected when `match` occurs in the request
+ */
+export interface ScriptedResponse {
+  match?: string; // Case-insensitive substring; omitted = matches every request
+  result?: string; // Agent explanation
+  edits?: ScriptedEdit[];
+  plan?: {
+    summary: string;
+    files?: PlannedFileChange[];
+    riskFlags?: string[];
+  };
+  error?: string; // Simulate a provider failure
+}
+
+/**
+ * Fixture file format
+ */
+export interface ScriptedFixture {
+  responses: ScriptedResponse[];
+}
+
+/**
+ * Fixture used when LLM_PROVIDER_FIXTURES is not set (relative to the project root)
+ */
+export const DEFAULT_FIXTURE_PATH = 'tests/fixtures/llm/scripted.json';
+
+/**
+ * ScriptedProvider
+ *
+ * Deterministic provider that replays canned edits from a fixture instead of
+ * calling a model, so the full /api/code/modify pipeline (branch, commit,
+ * tests, merge) can run in CI without network access.
+ *
+ * Responses are tried in order and the first whose `match` occurs in the
+ * request wins; put specific matches (e.g. "repair attempt 1") before general
+ * ones. Edits go through the FileManager, so protected files stay protected.
+ *
+ * Usage:
+ * ```typescript
+ * const provider = new ScriptedProvider('/path/to/staging', {
+ *   responses: [{ match: 'footer', result: 'Added a footer', edits: [{ filePath: 'src/components/Footer.tsx', content: '...' }] }],
+ * });
+ * await provider.modifyCode({ userRequest: 'Add a footer' });
+ * ```
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted' as const;
+
+  private fixture: ScriptedFixture;
+  private fileManager: FileManager;
+  private calls: CodeModificationRequest[] = [];
+
+  constructor(projectRoot: string, fixture?: ScriptedFixture | string) {
+    this.fixture = typeof fixture === 'object'
+      ? fixture
+      : loadFixture(path.resolve(projectRoot, fixture || process.env.LLM_PROVIDER_FIXTURES || DEFAULT_FIXTURE_PATH));
+    // Keep backups out of the worktree so they are never committed
+    this.fileManager = new FileManager(projectRoot, path.join(os.tmpdir(), 'deboraai-backups'));
+  }
+
+  /**
+   * Apply the edits of the matching response
+   */
+  async modifyCode(request: CodeModificationRequest): Promise<CodeModificationResponse> {
+    this.calls.push(request);
+    const response = this.findResponse(request.userRequest);
+
+    if (!response) {
+      return { success: false, result: '', error: `No scripted response matches request: ${request.userRequest.substring(0, 100)}` };
+    }
+
+    if (response.error) {
+      return { success: false, result: '', error: response.error };
+    }
+
+    const filesModified: string[] = [];
+
+    try {
+      for (const edit of response.edits || []) {
+        request.onActivity?.({ type: 'tool', tool: edit.delete ? 'Delete' : 'Write', summary: edit.filePath });
+        const result = edit.delete
+          ? await this.fileManager.deleteFile(edit.filePath)
+          : await this.fileManager.writeFile(edit.filePath, edit.content || '', { createIfMissing: true });
+
+        if (!result.success) {
+          return { success: false, result: '', error: result.error };
+        }
+        filesModified.push(edit.filePath);
+      }
+    } catch (error) {
+      // ProtectedFileError
+      return { success: false, result: '', error: error instanceof Error ? error.message : String(error) };
+    }
+
+    return {
+      success: true,
+      result: response.result || `Applied ${filesModified.length} scripted edit(s)`,
+      sessionId: request.sessionId || 'scripted_session',
+      filesModified,
+    };
+  }
+
+  /**
+   * Return the scripted plan, or one derived from the scripted edits
+   */
+  async planChanges(request: CodeModificationRequest): Promise<CodePlanResponse> {
+    this.calls.push(request);
+    const response = this.findResponse(request.userRequest);
+
+    if (!response) {
+      return { success: false, result: '', error: `No scripted response matches request: ${request.userRequest.substring(0, 100)}` };
+    }
+
+    if (response.error) {
+      return { success: false, result: '', error: response.error };
+    }
+
+    const files: PlannedFileChange[] = response.plan?.files || (response.edits || []).map((edit) => ({
+      path: edit.filePath,
+      action: edit.delete ? 'delete' : 'modify',
+      rationale: '',
+    }));
+    const summary = response.plan?.summary || response.result || '';
+
+    return {
+      success: true,
+      plan: {
+        summary,
+        files,
+        riskFlags: response.plan?.riskFlags || [],
+        warnings: buildPlanWarnings(files.map((file) => file.path)),
+      },
+      result: summary,
+      sessionId: request.sessionId || 'scripted_session',
+    };
+  }
+
+  /**
+   * Requests received so far (for assertions in tests)
+   */
+  getCalls(): CodeModificationRequest[] {
+    return [...this.calls];
+  }
+
+  private findResponse(userRequest: string): ScriptedResponse | undefined {
+    const request = userRequest.toLowerCase();
+    return this.fixture.responses.find((response) => !response.match || request.includes(response.match.toLowerCase()));
+  }
+}
+
+/**
+ * Read and validate a fixture file
+ */
+function loadFixture(fixturePath: string): ScriptedFixture {
+  const fixture = JSON.parse(readFileSync(fixturePath, 'utf-8'));
+
+  if (!fixture || !Array.isArray(fixture.responses)) {
+    throw new Error(`Invalid scripted provider fixture ${fixturePath}: expected { "responses": [...] }`);
+  }
+
+  return fixture;
+}
@@ -0,0 +1,46 @@
+import * as path from 'path';
+import type { CanUseTool } from '@anthropic-ai/claude-agent-sdk';
+import { isProtectedFile } from '../code-modification/protected-files';
+
+/**
+ * Tools that write files, and the input field holding the target path
+ */
+const FILE_WRITE_TOOLS: Record<string, string> = {
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  Write: 'file_path',
+  NotebookEdit: 'notebook_path',
+};
+
+/**
+ * Build an Agent SDK permission callback that denies file writes to
+ * protected paths (and anywhere outside the project root) before they happen.
+ *
+ * Every other tool call is allowed; edits made some other way (e.g. via Bash)
+ * are caught by the post-run protected-file check in the modification runner.
+ */
+export function createProtectedFileGuard(projectRoot: string): CanUseTool {
+  return async (toolName, input) => {
+    const field = FILE_WRITE_TOOLS[toolName];
+    const target = field ? input[field] : undefined;
+
+    if (typeof target !== 'string') {
+      return { behavior: 'allow', updatedInput: input };
+    }
+
+    const relativePath = path.relative(projectRoot, path.resolve(projectRoot, target));
+
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      return { behavior: 'deny', message: `${toolName} denied: ${target} is outside the project` };
+    }
+
+    if (isProtectedFile(relativePath)) {
+      return {
+        behavior: 'deny',
+        message: `${toolName} denied: ${relativePath} is a protected file and must not be modified`,
+      };
+    }
+
+    return { behavior: 'allow', updatedInput: input };
+  };
+}
@@ -0,0 +1,229 @@
+import { PrismaClient } from '@prisma/client';
+import { prisma as defaultPrisma } from '../db';
+import { JobStatus, ModificationJobResult } from '../jobs/job-store';
+
+/**
+ * Chat type (mirrors the ChatType enum in prisma/schema.prisma)
+ */
+export type ChatType = 'CODING' | 'LEGAL';
+
+/**
+ * Longest title derived from the first request
+ */
+const MAX_TITLE_LENGTH = 80;
+
+/**
+ * One stored message. Messages about a modification job carry its id and,
+ * for the agent's reply, the outcome (status, files, commit, tests).
+ */
+export interface ConversationMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  timestamp: string; // ISO 8601
+  jobId?: string;
+  status?: JobStatus;
+  modifications?: ModificationJobResult['modifications'];
+  commit?: ModificationJobResult['commit'];
+  tests?: ModificationJobResult['tests'];
+  duration?: number;
+  error?: string;
+}
+
+/**
+ * Conversation with messages parsed
+ */
+export interface ConversationRecord {
+  id: string;
+  userId: string;
+  type: ChatType;
+  title: string | null;
+  messages: ConversationMessage[];
+  agentSessionId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Conversation as listed in the sidebar (messages summarized)
+ */
+export interface ConversationSummary {
+  id: string;
+  title: string | null;
+  agentSessionId: string | null;
+  messageCount: number;
+  jobIds: string[];
+  commits: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Raw Chat row (messages still stringified)
+ */
+interface ChatRow {
+  id: string;
+  userId: string;
+  type: ChatType;
+  title: string | null;
+  messages: string;
+  agentSessionId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * ConversationStore
+ *
+ * Persists admin conversations with the coding agent in the Chat table, so a
+ * conversation survives a page reload and can be reopened later with the
+ * same agent session. Requests and the agent's replies are appended by the
+ * modify route and the modification runner; each carries the id of its job.
+ *
+ * Usage:
+ * ```typescript
+ * const store = new ConversationStore();
+ * const conversation = await store.createConversation({ userId, title: 'Add a footer' });
+ * await store.appendMessages(conversation.id, [{ role: 'user', content: 'Add a footer', timestamp }]);
+ * ```
+ */
+export class ConversationStore {
+  private prisma: PrismaClient;
+
+  constructor(prismaClient?: PrismaClient) {
+    this.prisma = prismaClient || defaultPrisma;
+  }
+
+  /**
+   * Start an empty conversation
+   */
+  async createConversation(options: {
+    userId: string;
+    title?: string | null;
+    type?: ChatType;
+  }): Promise<ConversationRecord> {
+    const row = await this.prisma.chat.create({
+      data: {
+        userId: options.userId,
+        type: options.type || 'CODING',
+        title: options.title ? conversationTitle(options.title) : null,
+        messages: JSON.stringify([]),
+      },
+    });
+
+    return this.toRecord(row);
+  }
+
+  /**
+   * Get a conversation by id
+   */
+  async getConversation(id: string): Promise<ConversationRecord | null> {
+    const row = await this.prisma.chat.findUnique({ where: { id } });
+    return row ? this.toRecord(row) : null;
+  }
+
+  /**
+   * A user's conversations, most recently active first
+   */
+  async listConversations(
+    userId: string,
+    options: { type?: ChatType; limit?: number } = {}
+  ): Promise<ConversationSummary[]> {
+    const rows = await this.prisma.chat.findMany({
+      where: { userId, type: options.type || 'CODING' },
+      orderBy: { updatedAt: 'desc' },
+      take: options.limit || 50,
+    });
+
+    return rows.map((row: ChatRow) => {
+      const record = this.toRecord(row);
+      return {
+        id: record.id,
+        title: record.title,
+        agentSessionId: record.agentSessionId,
+        messageCount: record.messages.length,
+        ...conversationLinks(record.messages),
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt,
+      };
+    });
+  }
+
+  /**
+   * Append messages, optionally moving the conversation to a new agent session.
+   * A conversation without a title takes it from its first message.
+   */
+  async appendMessages(
+    id: string,
+    messages: ConversationMessage[],
+    options: { agentSessionId?: string | null } = {}
+  ): Promise<ConversationRecord> {
+    const conversation = await this.getConversation(id);
+    if (!conversation) {
+      throw new Error(`Conversation not found: ${id}`);
+    }
+
+    const row = await this.prisma.chat.update({
+      where: { id },
+      data: {
+        messages: JSON.stringify([...conversation.messages, ...messages]),
+        ...(!conversation.title && messages.length > 0 && { title: conversationTitle(messages[0].content) }),
+        ...(options.agentSessionId && { agentSessionId: options.agentSessionId }),
+      },
+    });
+
+    return this.toRecord(row);
+  }
+
+  /**
+   * Delete a conversation
+   */
+  async deleteConversation(id: string): Promise<void> {
+    await this.prisma.chat.delete({ where: { id } });
+  }
+
+  /**
+   * Convert a database row into a record with messages parsed
+   */
+  private toRecord(row: ChatRow): ConversationRecord {
+    return {
+      id: row.id,
+      userId: row.userId,
+      type: row.type,
+      title: row.title ?? null,
+      messages: JSON.parse(row.messages),
+      agentSessionId: row.agentSessionId ?? null,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+}
+
+/**
+ * Jobs and commits referenced by a conversation's messages, in order
+ */
+export function conversationLinks(messages: ConversationMessage[]): { jobIds: string[]; commits: string[] } {
+  const jobIds = new Set<string>();
+  const commits = new Set<string>();
+
+  for (const message of messages) {
+    if (message.jobId) jobIds.add(message.jobId);
+    if (message.commit?.hash) commits.add(message.commit.hash);
+  }
+
+  return { jobIds: [...jobIds], commits: [...commits] };
+}
+
+/**
+ * First line of a request, shortened to a title
+ */
+function conversationTitle(text: string): string {
+  const line = text.trim().split('\n')[0].trim();
+  return line.length > MAX_TITLE_LENGTH ? `${line.substring(0, MAX_TITLE_LENGTH - 1)}…` : line;
+}
+
+/**
+ * Convenience function to create a ConversationStore instance
+ */
+export function createConversationStore(prismaClient?: PrismaClient): ConversationStore {
+  return new ConversationStore(prismaClient);
+}
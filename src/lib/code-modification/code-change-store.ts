@@ -0,0 +1,314 @@
+import { PrismaClient } from '@prisma/client';
+import { prisma as defaultPrisma } from '../db';
+
+/**
+ * Code change with JSON columns parsed and the admin resolved
+ */
+export interface CodeChangeRecord {
+  id: string;
+  commitHash: string;
+  description: string;
+  filesChanged: string[];
+  adminId: string;
+  admin: { name: string; email: string } | null;
+  testsPassed: boolean;
+  deployedToStaging: boolean;
+  deployedToProduction: boolean;
+  revertedBy: string | null;
+  reverter: { name: string; email: string } | null;
+  revertedAt: Date | null;
+  revertCommitHash: string | null;
+  createdAt: Date;
+}
+
+/**
+ * History filters (undefined = no filter)
+ */
+export interface CodeChangeFilters {
+  adminId?: string;
+  testsPassed?: boolean;
+  deployedToStaging?: boolean;
+  deployedToProduction?: boolean;
+  commitHash?: string;
+  limit?: number;
+}
+
+/**
+ * Raw CodeChange row (filesChanged still stringified)
+ */
+interface CodeChangeRow {
+  id: string;
+  commitHash: string;
+  description: string;
+  filesChanged: string;
+  adminId: string;
+  testsPassed: boolean;
+  deployedToStaging: boolean;
+  deployedToProduction: boolean;
+  revertedBy: string | null;
+  revertedAt: Date | null;
+  revertCommitHash: string | null;
+  createdAt: Date;
+}
+
+/**
+ * CodeChangeStore
+ *
+ * Records every AI commit in the CodeChange table, so history, test status and
+ * deployment state come from the database instead of raw git logs.
+ *
+ * Lifecycle of a row:
+ * - Created by the modification runner when it commits (testsPassed = false)
+ * - deployedToStaging set once the commit is pushed to origin/staging
+ * - testsPassed set once the test step passes
+ * - deployedToProduction set by PromotionManager.promote for merged commits
+ * - revertedBy/revertedAt/revertCommitHash set when an admin reverts it
+ * - Deleted when the job is cancelled and its branch discarded
+ *
+ * Usage:
+ * ```typescript
+ * const store = new CodeChangeStore();
+ * await store.recordCommit({ commitHash: 'abc1234', description: 'Add footer', filesChanged: [], adminId });
+ * const changes = await store.list({ testsPassed: true });
+ * ```
+ */
+export class CodeChangeStore {
+  private prisma: PrismaClient;
+
+  constructor(prismaClient?: PrismaClient) {
+    this.prisma = prismaClient || defaultPrisma;
+  }
+
+  /**
+   * Record a commit (idempotent, so a resumed job does not duplicate rows)
+   */
+  async recordCommit(options: {
+    commitHash: string;
+    description: string;
+    filesChanged: string[];
+    adminId: string;
+  }): Promise<CodeChangeRecord> {
+    const data = {
+      description: options.description,
+      filesChanged: JSON.stringify(options.filesChanged),
+      adminId: options.adminId,
+    };
+
+    const row = await this.prisma.codeChange.upsert({
+      where: { commitHash: options.commitHash },
+      create: { commitHash: options.commitHash, testsPassed: false, ...data },
+      update: data,
+    });
+
+    return this.toRecord(row, null, null);
+  }
+
+  /**
+   * Set the test outcome for a commit
+   */
+  async setTestsPassed(commitHash: string, testsPassed: boolean): Promise<void> {
+    await this.prisma.codeChange.updateMany({
+      where: { commitHash },
+      data: { testsPassed },
+    });
+  }
+
+  /**
+   * Mark a commit as pushed to origin/staging
+   */
+  async markDeployedToStaging(commitHash: string): Promise<void> {
+    await this.prisma.codeChange.updateMany({
+      where: { commitHash },
+      data: { deployedToStaging: true },
+    });
+  }
+
+  /**
+   * Mark commits as deployed to production.
+   *
+   * Accepts full or abbreviated hashes: rows store the hash as reported by
+   * `git commit` (abbreviated), while promotion lists full hashes.
+   * Returns the number of rows updated.
+   */
+  async markDeployedToProduction(commitHashes: string[]): Promise<number> {
+    if (commitHashes.length === 0) {
+      return 0;
+    }
+
+    const pending: Array<{ commitHash: string }> = await this.prisma.codeChange.findMany({
+      where: { deployedToProduction: false },
+      select: { commitHash: true },
+    });
+
+    const matched = pending
+      .map((row) => row.commitHash)
+      .filter((hash) => commitHashes.some((full) => full.startsWith(hash) || hash.startsWith(full)));
+
+    if (matched.length === 0) {
+      return 0;
+    }
+
+    const result = await this.prisma.codeChange.updateMany({
+      where: { commitHash: { in: matched } },
+      data: { deployedToProduction: true },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Record that an admin reverted a commit.
+   * Accepts a full or abbreviated hash, like markDeployedToProduction.
+   * Returns false if the commit was not recorded.
+   */
+  async markReverted(commitHash: string, options: { revertedBy: string; revertCommitHash: string }): Promise<boolean> {
+    const recorded = await this.findRecordedHash(commitHash);
+    if (!recorded) {
+      return false;
+    }
+
+    await this.prisma.codeChange.updateMany({
+      where: { commitHash: recorded },
+      data: { revertedBy: options.revertedBy, revertedAt: new Date(), revertCommitHash: options.revertCommitHash },
+    });
+
+    return true;
+  }
+
+  /**
+   * Get the change recorded for a full or abbreviated hash
+   */
+  async findByHash(commitHash: string): Promise<CodeChangeRecord | null> {
+    const recorded = await this.findRecordedHash(commitHash);
+    if (!recorded) {
+      return null;
+    }
+
+    const [change] = await this.list({ commitHash: recorded, limit: 1 });
+    return change || null;
+  }
+
+  /**
+   * Remove commits that no longer exist (e.g. the branch of a cancelled job was deleted)
+   */
+  async deleteCommits(commitHashes: string[]): Promise<number> {
+    if (commitHashes.length === 0) {
+      return 0;
+    }
+
+    const result = await this.prisma.codeChange.deleteMany({
+      where: { commitHash: { in: commitHashes } },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * List changes, newest first
+   */
+  async list(filters: CodeChangeFilters = {}): Promise<CodeChangeRecord[]> {
+    const where: Record<string, string | boolean> = {};
+    if (filters.adminId !== undefined) where.adminId = filters.adminId;
+    if (filters.testsPassed !== undefined) where.testsPassed = filters.testsPassed;
+    if (filters.deployedToStaging !== undefined) where.deployedToStaging = filters.deployedToStaging;
+    if (filters.deployedToProduction !== undefined) where.deployedToProduction = filters.deployedToProduction;
+    if (filters.commitHash !== undefined) where.commitHash = filters.commitHash;
+
+    const rows: CodeChangeRow[] = await this.prisma.codeChange.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit || 50,
+    });
+
+    // CodeChange has no relation to User, so resolve admins in one query
+    const adminIds = Array.from(
+      new Set(rows.flatMap((row) => (row.revertedBy ? [row.adminId, row.revertedBy] : [row.adminId])))
+    );
+    const admins: Array<{ id: string; name: string; email: string }> = adminIds.length > 0
+      ? await this.prisma.user.findMany({
+          where: { id: { in: adminIds } },
+          select: { id: true, name: true, email: true },
+        })
+      : [];
+    const adminsById = new Map(admins.map((admin) => [admin.id, admin]));
+
+    const adminInfo = (id: string | null) => {
+      const admin = id ? adminsById.get(id) : undefined;
+      return admin ? { name: admin.name, email: admin.email } : null;
+    };
+
+    return rows.map((row) => this.toRecord(row, adminInfo(row.adminId), adminInfo(row.revertedBy)));
+  }
+
+  /**
+   * Admins that have recorded changes (for history filters)
+   */
+  async listAdmins(): Promise<Array<{ id: string; name: string; email: string }>> {
+    const rows: Array<{ adminId: string }> = await this.prisma.codeChange.findMany({
+      distinct: ['adminId'],
+      select: { adminId: true },
+    });
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    return this.prisma.user.findMany({
+      where: { id: { in: rows.map((row) => row.adminId) } },
+      select: { id: true, name: true, email: true },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * The stored hash matching a full or abbreviated one, if recorded
+   */
+  private async findRecordedHash(commitHash: string): Promise<string | null> {
+    const rows: Array<{ commitHash: string }> = await this.prisma.codeChange.findMany({
+      select: { commitHash: true },
+    });
+
+    const match = rows.find((row) => row.commitHash.startsWith(commitHash) || commitHash.startsWith(row.commitHash));
+    return match ? match.commitHash : null;
+  }
+
+  /**
+   * Convert a database row into a record with parsed JSON columns
+   */
+  private toRecord(
+    row: CodeChangeRow,
+    admin: CodeChangeRecord['admin'],
+    reverter: CodeChangeRecord['reverter']
+  ): CodeChangeRecord {
+    let filesChanged: string[] = [];
+    try {
+      filesChanged = JSON.parse(row.filesChanged);
+    } catch {
+      // Leave empty on malformed JSON
+    }
+
+    return {
+      id: row.id,
+      commitHash: row.commitHash,
+      description: row.description,
+      filesChanged,
+      adminId: row.adminId,
+      admin,
+      testsPassed: row.testsPassed,
+      deployedToStaging: row.deployedToStaging,
+      deployedToProduction: row.deployedToProduction,
+      revertedBy: row.revertedBy ?? null,
+      reverter,
+      revertedAt: row.revertedAt ?? null,
+      revertCommitHash: row.revertCommitHash ?? null,
+      createdAt: row.createdAt,
+    };
+  }
+}
+
+/**
+ * Convenience function to create a CodeChangeStore instance
+ */
+export function createCodeChangeStore(prismaClient?: PrismaClient): CodeChangeStore {
+  return new CodeChangeStore(prismaClient);
+}
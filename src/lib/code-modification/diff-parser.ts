@@ -0,0 +1,142 @@
+/**
+ * One line of a hunk with its line numbers in the old and new file
+ */
+export interface DiffLine {
+  type: 'context' | 'added' | 'removed';
+  content: string;
+  oldNumber: number | null;
+  newNumber: number | null;
+}
+
+/**
+ * One `@@ -a,b +c,d @@` section of a file diff
+ */
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  newStart: number;
+  lines: DiffLine[];
+}
+
+/**
+ * Changes to one file. `oldPath` is null for added files, `newPath` for deleted ones.
+ */
+export interface DiffFile {
+  path: string;
+  oldPath: string | null;
+  newPath: string | null;
+  binary: boolean;
+  hunks: DiffHunk[];
+}
+
+/**
+ * Row of a side-by-side view: the old line on the left, the new one on the right
+ */
+export interface SideBySideRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+/**
+ * Parse `git diff` output (unified format) into files, hunks and numbered lines.
+ * Pure, so the admin UI can use it on diffs returned by the API.
+ */
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldNumber = 0;
+  let newNumber = 0;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      const match = /^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/.exec(line);
+      file = {
+        path: match ? match[2] : line.substring('diff --git '.length),
+        oldPath: match ? match[1] : null,
+        newPath: match ? match[2] : null,
+        binary: false,
+        hunks: [],
+      };
+      hunk = null;
+      files.push(file);
+      continue;
+    }
+
+    if (!file) {
+      continue;
+    }
+
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      oldNumber = parseInt(header[1], 10);
+      newNumber = parseInt(header[2], 10);
+      hunk = { header: line, oldStart: oldNumber, newStart: newNumber, lines: [] };
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    if (!hunk) {
+      // Extended header lines before the first hunk
+      if (line.startsWith('new file mode')) {
+        file.oldPath = null;
+      } else if (line.startsWith('deleted file mode')) {
+        file.newPath = null;
+        file.path = file.oldPath || file.path;
+      } else if (line.startsWith('rename from ')) {
+        file.oldPath = line.substring('rename from '.length);
+      } else if (line.startsWith('rename to ')) {
+        file.newPath = file.path = line.substring('rename to '.length);
+      } else if (line.startsWith('Binary files ')) {
+        file.binary = true;
+      }
+      continue;
+    }
+
+    if (line.startsWith('+')) {
+      hunk.lines.push({ type: 'added', content: line.substring(1), oldNumber: null, newNumber: newNumber++ });
+    } else if (line.startsWith('-')) {
+      hunk.lines.push({ type: 'removed', content: line.substring(1), oldNumber: oldNumber++, newNumber: null });
+    } else if (line.startsWith(' ')) {
+      hunk.lines.push({ type: 'context', content: line.substring(1), oldNumber: oldNumber++, newNumber: newNumber++ });
+    }
+    // "\ No newline at end of file" and the trailing empty line carry no content
+  }
+
+  return files;
+}
+
+/**
+ * Lay out a hunk side by side. Removed lines are paired with the added lines
+ * that follow them, so a changed line appears on one row.
+ */
+export function toSideBySide(hunk: DiffHunk): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i] || null, right: added[i] || null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of hunk.lines) {
+    if (line.type === 'removed') {
+      if (added.length > 0) flush();
+      removed.push(line);
+    } else if (line.type === 'added') {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+
+  return rows;
+}
@@ -1,11 +1,13 @@
 import simpleGit, { SimpleGit, StatusResult, BranchSummary } from 'simple-git';
+import { promises as fs } from 'fs';
+import * as path from 'path';
 
 /**
  * Git operation result
  */
 export interface GitOperationResult {
   success: boolean;
-  operation: 'commit' | 'merge' | 'rollback' | 'status' | 'branch' | 'checkout';
+  operation: 'commit' | 'merge' | 'rollback' | 'status' | 'branch' | 'checkout' | 'push';
   message?: string;
   error?: string;
   data?: any;
@@ -23,6 +25,69 @@ export interface CommitOptions {
   };
 }
 
+/**
+ * How a file changed in a commit
+ */
+export type FileChangeStatus = 'added' | 'modified' | 'deleted' | 'renamed' | 'copied' | 'type-changed' | 'unknown';
+
+/**
+ * One file changed by a commit
+ */
+export interface CommitFileChange {
+  path: string;
+  oldPath?: string; // Renames and copies
+  status: FileChangeStatus;
+  additions: number | null; // null for binary files
+  deletions: number | null;
+}
+
+/**
+ * Commit with its changed files (see getDetailedLog)
+ */
+export interface CommitDetails {
+  hash: string;
+  shortHash: string;
+  date: string; // ISO 8601
+  message: string; // Subject line
+  body: string;
+  author: string;
+  email: string;
+  files: CommitFileChange[];
+  additions: number;
+  deletions: number;
+  patch?: string; // Unified diff, when requested
+  patchTruncated?: boolean;
+}
+
+/**
+ * Options for getDetailedLog
+ */
+export interface DetailedLogOptions {
+  maxCount?: number; // Default 10
+  ref?: string; // Branch or commit to start from (default HEAD)
+  commits?: string[]; // Only these commits (no history walk); unknown hashes are skipped
+  paths?: string[]; // Only commits touching these paths, and only their changes to them
+  includePatch?: boolean;
+  maxPatchBytes?: number; // Per commit, default 100 KB
+}
+
+const DEFAULT_MAX_PATCH_BYTES = 100 * 1024;
+
+/**
+ * Field and record separators for `git log --format`
+ */
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+
+const STATUS_CODES: Record<string, FileChangeStatus> = {
+  A: 'added',
+  M: 'modified',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+  T: 'type-changed',
+};
+
 /**
  * GitManager Service
  *
@@ -68,7 +133,7 @@ export class GitManager {
         data: {
           branch: status.current,
           modified: status.modified,
-          created: status.created,
+          created: [...status.created, ...status.not_added], // New files, staged or untracked
           deleted: status.deleted,
           renamed: status.renamed,
           staged: status.staged,
@@ -214,6 +279,29 @@ export class GitManager {
     }
   }
 
+  /**
+   * Delete a local branch
+   * Use force to delete a branch that has not been merged.
+   */
+  async deleteBranch(branchName: string, force: boolean = false): Promise<GitOperationResult> {
+    try {
+      await this.git.deleteLocalBranch(branchName, force);
+
+      return {
+        success: true,
+        operation: 'branch',
+        message: `Successfully deleted branch: ${branchName}`,
+        data: { branchName },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        operation: 'branch',
+        error: `Failed to delete branch: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
   /**
    * Checkout a branch
    */
@@ -271,6 +359,27 @@ export class GitManager {
     }
   }
 
+  /**
+   * Abort an in-progress merge (e.g. after conflicts)
+   */
+  async abortMerge(): Promise<GitOperationResult> {
+    try {
+      await this.git.merge(['--abort']);
+
+      return {
+        success: true,
+        operation: 'merge',
+        message: 'Successfully aborted merge',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        operation: 'merge',
+        error: `Failed to abort merge: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
   /**
    * Rollback to a specific commit
    */
@@ -298,11 +407,13 @@ export class GitManager {
   }
 
   /**
-   * Revert a specific commit (create new commit that undoes changes)
+   * Revert a specific commit (create new commit that undoes changes).
+   * With `noCommit` the changes are only staged, to be committed later.
+   * A revert that conflicts is aborted, leaving the worktree as it was.
    */
-  async revertCommit(commitHash: string): Promise<GitOperationResult> {
+  async revertCommit(commitHash: string, options: { noCommit?: boolean } = {}): Promise<GitOperationResult> {
     try {
-      await this.git.revert(commitHash);
+      await this.git.revert(commitHash, options.noCommit ? { '--no-commit': null } : { '--no-edit': null });
 
       return {
         success: true,
@@ -311,6 +422,8 @@ export class GitManager {
         data: { commitHash },
       };
     } catch (error) {
+      await this.git.raw(['revert', '--abort']).catch(() => undefined);
+
       return {
         success: false,
         operation: 'rollback',
@@ -351,6 +464,120 @@ export class GitManager {
     }
   }
 
+  /**
+   * Get commit history with the files each commit changed (status and line
+   * counts), optionally with the patch. Merge commits are compared with their
+   * first parent.
+   */
+  async getDetailedLog(options: DetailedLogOptions = {}): Promise<GitOperationResult> {
+    try {
+      let commits: CommitDetails[];
+
+      if (options.commits) {
+        commits = await this.readCommits(options.commits, options);
+      } else {
+        commits = await this.readLog(
+          [`--max-count=${options.maxCount || 10}`, ...(options.ref ? [options.ref] : [])],
+          options.paths
+        );
+      }
+
+      if (options.includePatch) {
+        for (const commit of commits) {
+          Object.assign(commit, await this.readPatch(commit.hash, options));
+        }
+      }
+
+      return {
+        success: true,
+        operation: 'status',
+        message: 'Successfully retrieved detailed commit history',
+        data: { commits },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        operation: 'status',
+        error: `Failed to get commit log: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Specific commits, in the order given. If git rejects the batch (an
+   * unknown hash), each commit is read on its own and unknown ones are skipped.
+   */
+  private async readCommits(hashes: string[], options: DetailedLogOptions): Promise<CommitDetails[]> {
+    if (hashes.length === 0) {
+      return [];
+    }
+
+    let commits: CommitDetails[];
+    try {
+      commits = await this.readLog(['--no-walk=unsorted', ...hashes], options.paths);
+    } catch {
+      commits = [];
+      for (const hash of hashes) {
+        try {
+          commits.push(...(await this.readLog(['--no-walk', hash], options.paths)));
+        } catch {
+          // Unknown commit (e.g. its branch was deleted)
+        }
+      }
+    }
+
+    return commits;
+  }
+
+  /**
+   * Run `git log` with raw and numstat output and parse it into CommitDetails
+   */
+  private async readLog(args: string[], paths?: string[]): Promise<CommitDetails[]> {
+    const format = `${RECORD_SEPARATOR}${['%H', '%h', '%aI', '%an', '%ae', '%s', '%b'].join('%x1f')}${FIELD_SEPARATOR}`;
+    const output = await this.git.raw([
+      '-c',
+      'core.quotePath=false',
+      'log',
+      `--format=${format}`,
+      '--raw',
+      '--numstat',
+      '-M',
+      '--diff-merges=first-parent',
+      ...args,
+      ...(paths && paths.length > 0 ? ['--', ...paths] : []),
+    ]);
+
+    return output
+      .split(RECORD_SEPARATOR)
+      .filter((record) => record.trim())
+      .map((record) => parseLogRecord(record));
+  }
+
+  /**
+   * Patch of one commit (against its first parent), cut at maxPatchBytes
+   */
+  private async readPatch(
+    hash: string,
+    options: DetailedLogOptions
+  ): Promise<{ patch: string; patchTruncated: boolean }> {
+    const maxBytes = options.maxPatchBytes || DEFAULT_MAX_PATCH_BYTES;
+    const patch = await this.git.raw([
+      'show',
+      '--format=',
+      '--patch',
+      '-M',
+      '--diff-merges=first-parent',
+      hash,
+      ...(options.paths && options.paths.length > 0 ? ['--', ...options.paths] : []),
+    ]);
+
+    if (Buffer.byteLength(patch) <= maxBytes) {
+      return { patch, patchTruncated: false };
+    }
+
+    return { patch: Buffer.from(patch).subarray(0, maxBytes).toString('utf-8'), patchTruncated: true };
+  }
+
   /**
    * Get diff between commits or branches
    */
@@ -381,6 +608,64 @@ export class GitManager {
     }
   }
 
+  /**
+   * List files that differ from a commit: committed since it, uncommitted
+   * and untracked (`files`), and the uncommitted and untracked ones alone
+   * (`uncommitted`). Paths are relative to the repository path. Without
+   * `since`, both lists are the uncommitted files.
+   */
+  async getChangedFiles(since?: string): Promise<GitOperationResult> {
+    try {
+      const head = (await this.git.revparse(['HEAD'])).trim();
+      const [sinceDiff, headDiff, untracked] = await Promise.all([
+        since ? this.git.raw(['diff', '--name-only', '--relative', since]) : Promise.resolve(''),
+        this.git.raw(['diff', '--name-only', '--relative', 'HEAD']),
+        this.git.raw(['ls-files', '--others', '--exclude-standard']),
+      ]);
+
+      const toList = (...outputs: string[]) => Array.from(new Set(outputs.join('\n').split('\n').filter(Boolean)));
+      const uncommitted = toList(headDiff, untracked);
+      const files = toList(sinceDiff, headDiff, untracked);
+
+      return {
+        success: true,
+        operation: 'status',
+        message: `${files.length} changed file(s)`,
+        data: { head, files, uncommitted },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        operation: 'status',
+        error: `Failed to list changed files: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Content of a file (relative to the repository path) at a commit, or null
+   * when the file does not exist there
+   */
+  async readFileAt(ref: string, file: string): Promise<string | null> {
+    try {
+      return await this.git.show([`${ref}:./${file}`]);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Best common ancestor of two refs (the commit a branch was created from),
+   * or null when they have none or a ref does not exist
+   */
+  async getMergeBase(refA: string, refB: string): Promise<string | null> {
+    try {
+      return (await this.git.raw(['merge-base', refA, refB])).trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Check if repository is clean (no uncommitted changes)
    */
@@ -411,6 +696,49 @@ export class GitManager {
     }
   }
 
+  /**
+   * Revert uncommitted changes to specific files, one file at a time.
+   * Files that exist in HEAD are restored (worktree and index); new files
+   * are removed. Failures are collected so the other files are still reverted.
+   */
+  async revertFiles(files: string[]): Promise<GitOperationResult> {
+    const reverted: string[] = [];
+    const failed: Array<{ filePath: string; error: string }> = [];
+
+    for (const file of files) {
+      try {
+        const inHead = (await this.git.raw(['ls-tree', '--name-only', 'HEAD', '--', file])).trim() !== '';
+
+        if (inHead) {
+          await this.git.raw(['checkout', 'HEAD', '--', file]);
+        } else {
+          await this.git.raw(['rm', '--cached', '--ignore-unmatch', '-q', '--', file]);
+          await fs.rm(path.join(this.repoPath, file), { recursive: true, force: true });
+        }
+
+        reverted.push(file);
+      } catch (error) {
+        failed.push({ filePath: file, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    if (failed.length > 0) {
+      return {
+        success: false,
+        operation: 'rollback',
+        error: `Failed to revert ${failed.map((f) => f.filePath).join(', ')}`,
+        data: { reverted, failed },
+      };
+    }
+
+    return {
+      success: true,
+      operation: 'rollback',
+      message: `Successfully reverted ${reverted.length} file(s)`,
+      data: { reverted, failed },
+    };
+  }
+
   /**
    * Push commits to remote repository
    */
@@ -436,6 +764,51 @@ export class GitManager {
   }
 }
 
+/**
+ * Parse one `git log --raw --numstat` record: the formatted header fields,
+ * then one raw line per file (status and paths) and one numstat line per
+ * file (line counts), in the same order.
+ */
+function parseLogRecord(record: string): CommitDetails {
+  const fields = record.split(FIELD_SEPARATOR);
+  const [hash, shortHash, date, author, email, message, body] = fields;
+  const lines = (fields[7] || '').split('\n').filter(Boolean);
+
+  const files: CommitFileChange[] = lines
+    .filter((line) => line.startsWith(':'))
+    .map((line) => {
+      const [meta, ...paths] = line.split('\t');
+      const code = meta.split(' ').pop() || '';
+      const status = STATUS_CODES[code.charAt(0)] || 'unknown';
+
+      return paths.length > 1
+        ? { path: paths[1], oldPath: paths[0], status, additions: 0, deletions: 0 }
+        : { path: paths[0], status, additions: 0, deletions: 0 };
+    });
+
+  lines
+    .filter((line) => !line.startsWith(':'))
+    .forEach((line, index) => {
+      const [additions, deletions] = line.split('\t');
+      if (!files[index]) return;
+      files[index].additions = additions === '-' ? null : parseInt(additions, 10);
+      files[index].deletions = deletions === '-' ? null : parseInt(deletions, 10);
+    });
+
+  return {
+    hash,
+    shortHash,
+    date,
+    message,
+    body: (body || '').trim(),
+    author,
+    email,
+    files,
+    additions: files.reduce((sum, file) => sum + (file.additions || 0), 0),
+    deletions: files.reduce((sum, file) => sum + (file.deletions || 0), 0),
+  };
+}
+
 /**
  * Convenience function to create a GitManager instance
  */
@@ -2,6 +2,8 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import * as path from 'path';
 import { promises as fs } from 'fs';
+import { diffPrismaSchemas, SchemaDiff } from './schema-diff';
+import { SnapshotManager, DatabaseSnapshot } from './snapshot-manager';
 
 const execAsync = promisify(exec);
 
@@ -10,7 +12,7 @@ const execAsync = promisify(exec);
  */
 export interface MigrationResult {
   success: boolean;
-  operation: 'generate' | 'apply' | 'rollback' | 'status' | 'validate';
+  operation: 'generate' | 'apply' | 'rollback' | 'status' | 'validate' | 'snapshot';
   message?: string;
   error?: string;
   data?: any;
@@ -36,6 +38,8 @@ export interface MigrationOptions {
  * - Apply migrations to databases
  * - Rollback migrations
  * - Validate schema
+ * - Snapshot the SQLite database before migrating, and restore it when the
+ *   migration fails
  *
  * Usage:
  * ```typescript
@@ -48,10 +52,12 @@ export interface MigrationOptions {
 export class MigrationManager {
   private projectRoot: string;
   private prismaDir: string;
+  private snapshots: SnapshotManager;
 
-  constructor(projectRoot: string) {
+  constructor(projectRoot: string, snapshots?: SnapshotManager) {
     this.projectRoot = projectRoot;
     this.prismaDir = path.join(projectRoot, 'prisma');
+    this.snapshots = snapshots || new SnapshotManager({ projectRoot });
   }
 
   /**
@@ -203,6 +209,113 @@ export class MigrationManager {
     }
   }
 
+  /**
+   * Roll back an applied migration after its schema change was discarded.
+   *
+   * Prisma has no down migrations, so this diffs the database against the
+   * current schema.prisma (already restored by the caller), applies that SQL,
+   * removes the migration from _prisma_migrations and its directory, and
+   * regenerates the client.
+   */
+  async rollbackMigration(migrationName: string): Promise<MigrationResult> {
+    const schemaPath = path.join(this.prismaDir, 'schema.prisma');
+    const scriptPath = path.join(this.prismaDir, `.rollback-${Date.now()}.sql`);
+
+    try {
+      const { stdout: downScript } = await execAsync(
+        `npx prisma migrate diff --from-schema-datasource "${schemaPath}" --to-schema-datamodel "${schemaPath}" --script`,
+        { cwd: this.projectRoot, timeout: 30000 }
+      );
+
+      const script = [
+        downScript,
+        `DELETE FROM "_prisma_migrations" WHERE "migration_name" LIKE '%${migrationName.replace(/'/g, "''")}';`,
+      ].join('\n');
+      await fs.writeFile(scriptPath, script, 'utf-8');
+
+      await execAsync(`npx prisma db execute --file "${scriptPath}" --schema "${schemaPath}"`, {
+        cwd: this.projectRoot,
+        timeout: 30000,
+      });
+
+      // The directory is normally removed with the discarded changes already
+      const migrationsDir = path.join(this.prismaDir, 'migrations');
+      const entries = await fs.readdir(migrationsDir).catch(() => [] as string[]);
+      for (const entry of entries.filter((name) => name.endsWith(`_${migrationName}`))) {
+        await fs.rm(path.join(migrationsDir, entry), { recursive: true, force: true });
+      }
+
+      const clientGen = await this.generateClient();
+      if (!clientGen.success) {
+        return { success: false, operation: 'rollback', error: clientGen.error };
+      }
+
+      return {
+        success: true,
+        operation: 'rollback',
+        message: `Successfully rolled back migration: ${migrationName}`,
+        data: { script: downScript },
+      };
+    } catch (error) {
+      const execError = error as { stdout?: string; stderr?: string; message?: string };
+      return {
+        success: false,
+        operation: 'rollback',
+        error: `Failed to roll back migration ${migrationName}: ${execError.stdout || execError.stderr || execError.message}`,
+      };
+    } finally {
+      await fs.rm(scriptPath, { force: true });
+    }
+  }
+
+  /**
+   * Copy the database file before a migration (see SnapshotManager).
+   * Succeeds without a snapshot when the database is not a SQLite file.
+   */
+  async snapshotDatabase(label: string): Promise<MigrationResult> {
+    try {
+      const snapshot = await this.snapshots.create(label);
+
+      return {
+        success: true,
+        operation: 'snapshot',
+        message: snapshot ? `Snapshotted database as ${snapshot.id}` : 'No SQLite database file to snapshot',
+        data: { snapshot },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        operation: 'snapshot',
+        error: `Failed to snapshot database: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Copy a snapshot back over the database file
+   */
+  async restoreSnapshot(snapshotId: string): Promise<MigrationResult> {
+    try {
+      const result = await this.snapshots.restore(snapshotId);
+      if (!result) {
+        return { success: false, operation: 'rollback', error: `Snapshot not found: ${snapshotId}` };
+      }
+
+      return {
+        success: true,
+        operation: 'rollback',
+        message: `Restored database from snapshot ${snapshotId}`,
+        data: { snapshot: result.restored },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        operation: 'rollback',
+        error: `Failed to restore snapshot ${snapshotId}: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
   /**
    * Resolve failed migration state
    */
@@ -279,6 +392,33 @@ export class MigrationManager {
     }
   }
 
+  /**
+   * Compare schema.prisma with its version at a git ref (the last commit by
+   * default) and classify the changes as additive, risky or destructive.
+   * A schema the ref does not contain yet counts as empty.
+   */
+  async diffSchema(ref: string = 'HEAD'): Promise<SchemaDiff> {
+    const current = (await this.readSchema()) || '';
+    const schemaPath = path.relative(this.projectRoot, path.join(this.prismaDir, 'schema.prisma'));
+
+    let previous = '';
+    try {
+      const { stdout } = await execAsync(`git show "${ref}:./${schemaPath}"`, {
+        cwd: this.projectRoot,
+        timeout: 15000,
+        maxBuffer: 10 * 1024 * 1024,
+      });
+      previous = stdout;
+    } catch (error) {
+      const execError = error as { stderr?: string; message?: string };
+      if (!/does not exist|exists on disk, but not in/.test(execError.stderr || '')) {
+        throw new Error(`Failed to read schema.prisma at ${ref}: ${execError.stderr || execError.message}`);
+      }
+    }
+
+    return diffPrismaSchemas(previous, current);
+  }
+
   /**
    * List all migrations
    */
@@ -325,16 +465,42 @@ export class MigrationManager {
    *
    * This orchestrates the full process:
    * 1. Validate schema
-   * 2. Generate migration
-   * 3. Apply migration
+   * 2. Snapshot the database
+   * 3. Generate and apply migration
    * 4. Generate Prisma client
+   *
+   * If step 3 or 4 fails the database is restored from the snapshot, so it
+   * is not left half-migrated (`restored` says whether that worked).
    */
   async handleSchemaChange(migrationName: string): Promise<{
     success: boolean;
     steps: MigrationResult[];
+    snapshot?: DatabaseSnapshot | null;
+    restored?: boolean;
     error?: string;
   }> {
     const steps: MigrationResult[] = [];
+    let snapshot: DatabaseSnapshot | null = null;
+
+    // Undo whatever the failed step did to the database
+    const fail = async (error: string) => {
+      if (!snapshot) {
+        return { success: false, steps, snapshot, error };
+      }
+
+      console.log(`Restoring database from snapshot ${snapshot.id}...`);
+      const restore = await this.restoreSnapshot(snapshot.id);
+      steps.push(restore);
+      return {
+        success: false,
+        steps,
+        snapshot,
+        restored: restore.success,
+        error: restore.success
+          ? `${error} - database restored from snapshot ${snapshot.id}`
+          : `${error} - ${restore.error}`,
+      };
+    };
 
     try {
       // Step 1: Validate schema
@@ -350,8 +516,22 @@ export class MigrationManager {
         };
       }
 
-      // Step 2: Generate migration
-      console.log('Step 2: Generating migration...');
+      // Step 2: Snapshot the database
+      console.log('Step 2: Snapshotting database...');
+      const snapshotResult = await this.snapshotDatabase(migrationName);
+      steps.push(snapshotResult);
+
+      if (!snapshotResult.success) {
+        return {
+          success: false,
+          steps,
+          error: 'Database snapshot failed - migration not attempted',
+        };
+      }
+      snapshot = snapshotResult.data.snapshot;
+
+      // Step 3: Generate migration
+      console.log('Step 3: Generating migration...');
       const generation = await this.generateMigration({
         name: migrationName,
         createOnly: false,
@@ -359,33 +539,21 @@ export class MigrationManager {
       steps.push(generation);
 
       if (!generation.success) {
-        return {
-          success: false,
-          steps,
-          error: 'Migration generation failed',
-        };
+        return fail('Migration generation failed');
       }
 
-      // Step 3: Generate Prisma client
-      console.log('Step 3: Generating Prisma client...');
+      // Step 4: Generate Prisma client
+      console.log('Step 4: Generating Prisma client...');
       const clientGen = await this.generateClient();
       steps.push(clientGen);
 
       if (!clientGen.success) {
-        return {
-          success: false,
-          steps,
-          error: 'Prisma client generation failed',
-        };
+        return fail('Prisma client generation failed');
       }
 
-      return { success: true, steps };
+      return { success: true, steps, snapshot };
     } catch (error) {
-      return {
-        success: false,
-        steps,
-        error: `Migration workflow failed: ${error instanceof Error ? error.message : String(error)}`,
-      };
+      return fail(`Migration workflow failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 }
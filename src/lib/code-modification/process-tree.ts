@@ -0,0 +1,167 @@
+import { spawn } from 'child_process';
+
+/**
+ * Options for execProcessTree (subset of exec options, plus an abort signal)
+ */
+export interface ProcessTreeOptions {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  timeout?: number; // ms, 0 = no timeout
+  maxBuffer?: number; // bytes per stream
+  shell?: string;
+  signal?: AbortSignal;
+  onStdout?: (chunk: string) => void; // Called as output arrives, before the command exits
+}
+
+/**
+ * Error raised when the command fails, times out or is aborted.
+ * Carries the same fields as child_process.exec errors so existing
+ * `error.stdout || error.stderr` handling keeps working.
+ */
+export interface ProcessTreeError extends Error {
+  stdout: string;
+  stderr: string;
+  code: number | string | null;
+  killed: boolean;
+  signal: NodeJS.Signals | null;
+}
+
+/**
+ * Grace period between SIGTERM and SIGKILL when killing a process tree
+ */
+const KILL_GRACE_MS = 5000;
+
+const DEFAULT_MAX_BUFFER = 10 * 1024 * 1024;
+
+/**
+ * Run a shell command like `promisify(exec)`, but in its own process group.
+ *
+ * `exec` only kills the shell on timeout, leaving grandchildren (the claude CLI,
+ * npm → jest workers) running. Here the command is the leader of a new process
+ * group, so a timeout or an aborted `signal` kills the whole tree.
+ */
+export function execProcessTree(
+  command: string,
+  options: ProcessTreeOptions = {}
+): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(createError('Command aborted before it started', { code: 'ABORT_ERR', name: 'AbortError' }));
+      return;
+    }
+
+    const child = spawn(command, {
+      cwd: options.cwd,
+      env: options.env,
+      shell: options.shell || true,
+      detached: true, // New process group, so the tree can be killed with -pid
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    const maxBuffer = options.maxBuffer ?? DEFAULT_MAX_BUFFER;
+    let stdout = '';
+    let stderr = '';
+    let killedBy: 'timeout' | 'abort' | 'maxBuffer' | null = null;
+    let killTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const kill = (reason: 'timeout' | 'abort' | 'maxBuffer') => {
+      if (killedBy) {
+        return;
+      }
+      killedBy = reason;
+      killProcessTree(child.pid, 'SIGTERM');
+      killTimer = setTimeout(() => killProcessTree(child.pid, 'SIGKILL'), KILL_GRACE_MS);
+      killTimer.unref();
+    };
+
+    const onAbort = () => kill('abort');
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const timeoutTimer = options.timeout
+      ? setTimeout(() => kill('timeout'), options.timeout)
+      : null;
+
+    child.stdout?.on('data', (chunk: Buffer) => {
+      const text = chunk.toString();
+      stdout += text;
+      options.onStdout?.(text);
+      if (stdout.length > maxBuffer) kill('maxBuffer');
+    });
+    child.stderr?.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+      if (stderr.length > maxBuffer) kill('maxBuffer');
+    });
+
+    const cleanup = () => {
+      if (timeoutTimer) clearTimeout(timeoutTimer);
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+
+    child.on('error', (error) => {
+      cleanup();
+      reject(createError(error.message, { stdout, stderr }));
+    });
+
+    child.on('close', (code, signal) => {
+      cleanup();
+      if (killTimer) clearTimeout(killTimer); // stdio closed, so the whole group has exited
+
+      if (killedBy === 'abort') {
+        reject(createError(`Command aborted: ${command}`, {
+          stdout, stderr, code: 'ABORT_ERR', name: 'AbortError', killed: true, signal,
+        }));
+      } else if (killedBy === 'timeout') {
+        reject(createError(`Command timed out after ${options.timeout}ms: ${command}`, {
+          stdout, stderr, code, killed: true, signal,
+        }));
+      } else if (killedBy === 'maxBuffer') {
+        reject(createError(`Output exceeded maxBuffer (${maxBuffer} bytes): ${command}`, {
+          stdout, stderr, code: 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER', killed: true, signal,
+        }));
+      } else if (code !== 0) {
+        reject(createError(`Command failed: ${command}\n${stderr}`, { stdout, stderr, code, signal }));
+      } else {
+        resolve({ stdout, stderr });
+      }
+    });
+  });
+}
+
+/**
+ * Send a signal to every process in the group led by `pid`
+ */
+export function killProcessTree(pid: number | undefined, signal: NodeJS.Signals = 'SIGTERM'): void {
+  if (!pid) {
+    return;
+  }
+
+  try {
+    process.kill(-pid, signal);
+  } catch {
+    // Group already exited - fall back to the leader alone
+    try {
+      process.kill(pid, signal);
+    } catch {}
+  }
+}
+
+/**
+ * Check whether an error came from an aborted execProcessTree call
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+function createError(
+  message: string,
+  fields: Partial<Omit<ProcessTreeError, 'message'>>
+): ProcessTreeError {
+  const error = new Error(message) as ProcessTreeError;
+  error.name = fields.name || 'Error';
+  error.stdout = fields.stdout || '';
+  error.stderr = fields.stderr || '';
+  error.code = fields.code ?? null;
+  error.killed = fields.killed || false;
+  error.signal = fields.signal ?? null;
+  return error;
+}
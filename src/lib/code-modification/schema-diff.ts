@@ -0,0 +1,407 @@
+/**
+ * How a schema change affects the data already in the database:
+ * - additive: only adds (tables, nullable or defaulted columns, enum values)
+ * - risky: keeps the data but the migration can fail on it (new required
+ *   columns without a default, new unique constraints, ...)
+ * - destructive: drops or rewrites data (dropped models or fields, type
+ *   changes, removed enum values, renamed tables or columns)
+ */
+export type SchemaChangeSeverity = 'additive' | 'risky' | 'destructive';
+
+/**
+ * What changed
+ */
+export type SchemaChangeKind =
+  | 'model_added'
+  | 'model_removed'
+  | 'model_renamed'
+  | 'field_added'
+  | 'field_removed'
+  | 'field_renamed'
+  | 'field_type_changed'
+  | 'field_required'
+  | 'field_optional'
+  | 'unique_added'
+  | 'id_changed'
+  | 'enum_added'
+  | 'enum_removed'
+  | 'enum_value_added'
+  | 'enum_value_removed';
+
+/**
+ * One classified change between two versions of schema.prisma
+ */
+export interface SchemaChange {
+  kind: SchemaChangeKind;
+  severity: SchemaChangeSeverity;
+  model?: string;
+  field?: string;
+  enum?: string;
+  description: string;
+}
+
+/**
+ * All changes, and the most severe of them (null when nothing changed)
+ */
+export interface SchemaDiff {
+  severity: SchemaChangeSeverity | null;
+  changes: SchemaChange[];
+}
+
+/**
+ * Field of a model, e.g. `email String? @unique`
+ */
+export interface PrismaField {
+  name: string;
+  type: string;
+  list: boolean;
+  optional: boolean;
+  attributes: string; // Everything after the type, e.g. `@unique @default("")`
+}
+
+export interface PrismaModel {
+  name: string;
+  fields: PrismaField[];
+  attributes: string[]; // Block attributes, e.g. `@@unique([a, b])`
+}
+
+export interface PrismaEnum {
+  name: string;
+  values: string[];
+}
+
+/**
+ * Models and enums of a schema (datasource, generator and other blocks are ignored)
+ */
+export interface PrismaSchema {
+  models: PrismaModel[];
+  enums: PrismaEnum[];
+}
+
+const SEVERITY_ORDER: SchemaChangeSeverity[] = ['additive', 'risky', 'destructive'];
+
+/**
+ * Parse the models and enums of a Prisma schema
+ */
+export function parsePrismaSchema(source: string): PrismaSchema {
+  const schema: PrismaSchema = { models: [], enums: [] };
+  let model: PrismaModel | null = null;
+  let prismaEnum: PrismaEnum | null = null;
+  let inOtherBlock = false;
+
+  for (const rawLine of source.split('\n')) {
+    const line = stripComment(rawLine).trim();
+    if (!line) {
+      continue;
+    }
+
+    if (line.startsWith('}')) {
+      model = null;
+      prismaEnum = null;
+      inOtherBlock = false;
+      continue;
+    }
+
+    const block = line.match(/^(\w+)\s+(\w+)\s*\{$/);
+    if (block && !model && !prismaEnum && !inOtherBlock) {
+      if (block[1] === 'model') {
+        model = { name: block[2], fields: [], attributes: [] };
+        schema.models.push(model);
+      } else if (block[1] === 'enum') {
+        prismaEnum = { name: block[2], values: [] };
+        schema.enums.push(prismaEnum);
+      } else {
+        inOtherBlock = true;
+      }
+      continue;
+    }
+
+    if (model) {
+      if (line.startsWith('@@')) {
+        model.attributes.push(line.replace(/\s+/g, ''));
+        continue;
+      }
+
+      const field = line.match(/^(\w+)\s+(\w+)(\[\])?(\?)?\s*(.*)$/);
+      if (field) {
+        model.fields.push({
+          name: field[1],
+          type: field[2],
+          list: Boolean(field[3]),
+          optional: Boolean(field[4]),
+          attributes: field[5],
+        });
+      }
+    } else if (prismaEnum && !line.startsWith('@@')) {
+      const value = line.match(/^(\w+)/);
+      if (value) {
+        prismaEnum.values.push(value[1]);
+      }
+    }
+  }
+
+  return schema;
+}
+
+/**
+ * Compare two versions of schema.prisma and classify every change.
+ * An empty `before` (no schema yet) makes everything additive.
+ */
+export function diffPrismaSchemas(before: string, after: string): SchemaDiff {
+  const oldSchema = parsePrismaSchema(before);
+  const newSchema = parsePrismaSchema(after);
+  const changes: SchemaChange[] = [];
+
+  const oldModels = new Map(oldSchema.models.map((model) => [model.name, model]));
+  const newModels = new Map(newSchema.models.map((model) => [model.name, model]));
+
+  for (const model of newSchema.models) {
+    const previous = oldModels.get(model.name);
+    if (!previous) {
+      changes.push({ kind: 'model_added', severity: 'additive', model: model.name, description: `Model ${model.name} added` });
+      continue;
+    }
+
+    changes.push(...diffModels(previous, model, oldModels, newModels));
+  }
+
+  for (const model of oldSchema.models.filter((model) => !newModels.has(model.name))) {
+    changes.push({
+      kind: 'model_removed',
+      severity: 'destructive',
+      model: model.name,
+      description: `Model ${model.name} removed - its table and all its rows are dropped`,
+    });
+  }
+
+  const oldEnums = new Map(oldSchema.enums.map((prismaEnum) => [prismaEnum.name, prismaEnum]));
+  const newEnums = new Map(newSchema.enums.map((prismaEnum) => [prismaEnum.name, prismaEnum]));
+
+  for (const prismaEnum of newSchema.enums) {
+    const previous = oldEnums.get(prismaEnum.name);
+    if (!previous) {
+      changes.push({ kind: 'enum_added', severity: 'additive', enum: prismaEnum.name, description: `Enum ${prismaEnum.name} added` });
+      continue;
+    }
+
+    for (const value of prismaEnum.values.filter((value) => !previous.values.includes(value))) {
+      changes.push({
+        kind: 'enum_value_added',
+        severity: 'additive',
+        enum: prismaEnum.name,
+        description: `Value ${value} added to enum ${prismaEnum.name}`,
+      });
+    }
+    for (const value of previous.values.filter((value) => !prismaEnum.values.includes(value))) {
+      changes.push({
+        kind: 'enum_value_removed',
+        severity: 'destructive',
+        enum: prismaEnum.name,
+        description: `Value ${value} removed from enum ${prismaEnum.name} - rows using it can no longer be read`,
+      });
+    }
+  }
+
+  for (const prismaEnum of oldSchema.enums.filter((prismaEnum) => !newEnums.has(prismaEnum.name))) {
+    changes.push({
+      kind: 'enum_removed',
+      severity: 'destructive',
+      enum: prismaEnum.name,
+      description: `Enum ${prismaEnum.name} removed`,
+    });
+  }
+
+  return { severity: highestSeverity(changes), changes };
+}
+
+/**
+ * Changes that need an admin's approval before they are migrated
+ */
+export function requiresApproval(diff: SchemaDiff): boolean {
+  return diff.severity === 'destructive';
+}
+
+/**
+ * Compare the fields and block attributes of a model present in both schemas
+ */
+function diffModels(
+  before: PrismaModel,
+  after: PrismaModel,
+  oldModels: Map<string, PrismaModel>,
+  newModels: Map<string, PrismaModel>
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const model = after.name;
+  const oldFields = new Map(before.fields.map((field) => [field.name, field]));
+  const newFields = new Map(after.fields.map((field) => [field.name, field]));
+
+  const oldTable = blockArgument(before.attributes, 'map') || before.name;
+  const newTable = blockArgument(after.attributes, 'map') || after.name;
+  if (oldTable !== newTable) {
+    changes.push({
+      kind: 'model_renamed',
+      severity: 'destructive',
+      model,
+      description: `Table of model ${model} renamed from ${oldTable} to ${newTable} - the old table and its rows are dropped`,
+    });
+  }
+
+  for (const field of after.fields) {
+    const previous = oldFields.get(field.name);
+    const name = `${model}.${field.name}`;
+
+    if (!previous) {
+      const needsValue =
+        !field.optional && !field.list && !newModels.has(field.type) && !/@(default|updatedAt)\b/.test(field.attributes);
+      changes.push(
+        needsValue
+          ? {
+              kind: 'field_added',
+              severity: 'risky',
+              model,
+              field: field.name,
+              description: `Required field ${name} added without a default - fails if ${model} has rows`,
+            }
+          : { kind: 'field_added', severity: 'additive', model, field: field.name, description: `Field ${name} added` }
+      );
+      continue;
+    }
+
+    const isRelation = oldModels.has(previous.type) || newModels.has(field.type);
+
+    if (previous.type !== field.type || previous.list !== field.list) {
+      changes.push({
+        kind: 'field_type_changed',
+        severity: isRelation ? 'risky' : 'destructive',
+        model,
+        field: field.name,
+        description: `Field ${name} changed from ${formatType(previous)} to ${formatType(field)}${
+          isRelation ? '' : ' - existing values are converted or lost'
+        }`,
+      });
+    } else if (previous.optional && !field.optional) {
+      changes.push({
+        kind: 'field_required',
+        severity: 'risky',
+        model,
+        field: field.name,
+        description: `Field ${name} made required - fails if any row has no value`,
+      });
+    } else if (!previous.optional && field.optional) {
+      changes.push({ kind: 'field_optional', severity: 'additive', model, field: field.name, description: `Field ${name} made optional` });
+    }
+
+    const oldColumn = fieldArgument(previous.attributes, 'map') || previous.name;
+    const newColumn = fieldArgument(field.attributes, 'map') || field.name;
+    if (!isRelation && oldColumn !== newColumn) {
+      changes.push({
+        kind: 'field_renamed',
+        severity: 'destructive',
+        model,
+        field: field.name,
+        description: `Column of ${name} renamed from ${oldColumn} to ${newColumn} - the old column and its values are dropped`,
+      });
+    }
+
+    if (/@unique\b/.test(field.attributes) && !/@unique\b/.test(previous.attributes)) {
+      changes.push({
+        kind: 'unique_added',
+        severity: 'risky',
+        model,
+        field: field.name,
+        description: `Field ${name} made unique - fails if existing rows have duplicates`,
+      });
+    }
+
+    if (/@id\b/.test(field.attributes) !== /@id\b/.test(previous.attributes)) {
+      changes.push({
+        kind: 'id_changed',
+        severity: 'risky',
+        model,
+        field: field.name,
+        description: `Primary key of ${model} changed at ${name} - the table is rebuilt`,
+      });
+    }
+  }
+
+  for (const field of before.fields.filter((field) => !newFields.has(field.name))) {
+    const isRelation = oldModels.has(field.type);
+    changes.push({
+      kind: 'field_removed',
+      severity: isRelation ? 'risky' : 'destructive',
+      model,
+      field: field.name,
+      description: isRelation
+        ? `Relation field ${model}.${field.name} removed`
+        : `Field ${model}.${field.name} removed - its column and values are dropped`,
+    });
+  }
+
+  for (const attribute of after.attributes.filter((attribute) => !before.attributes.includes(attribute))) {
+    if (attribute.startsWith('@@unique')) {
+      changes.push({
+        kind: 'unique_added',
+        severity: 'risky',
+        model,
+        description: `Unique constraint ${attribute} added to ${model} - fails if existing rows have duplicates`,
+      });
+    } else if (attribute.startsWith('@@id')) {
+      changes.push({ kind: 'id_changed', severity: 'risky', model, description: `Primary key of ${model} changed to ${attribute} - the table is rebuilt` });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Most severe change (null when there are none)
+ */
+function highestSeverity(changes: SchemaChange[]): SchemaChangeSeverity | null {
+  return changes.reduce<SchemaChangeSeverity | null>(
+    (highest, change) =>
+      !highest || SEVERITY_ORDER.indexOf(change.severity) > SEVERITY_ORDER.indexOf(highest) ? change.severity : highest,
+    null
+  );
+}
+
+/**
+ * Drop a `//` comment, unless the slashes are inside a string (e.g. a URL default)
+ */
+function stripComment(line: string): string {
+  let inString = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"' && line[i - 1] !== '\\') {
+      inString = !inString;
+    } else if (!inString && line[i] === '/' && line[i + 1] === '/') {
+      return line.substring(0, i);
+    }
+  }
+  return line;
+}
+
+/**
+ * Name given by `@map("...")` in a field's attributes
+ */
+function fieldArgument(attributes: string, name: string): string | undefined {
+  return attributes.match(new RegExp(`@${name}\\(\\s*(?:name:\\s*)?"([^"]*)"`))?.[1];
+}
+
+/**
+ * Name given by `@@map("...")` in a model's block attributes (stored without whitespace)
+ */
+function blockArgument(attributes: string[], name: string): string | undefined {
+  for (const attribute of attributes) {
+    const match = attribute.match(new RegExp(`^@@${name}\\((?:name:)?"([^"]*)"`));
+    if (match) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Field type as written in the schema, e.g. `String[]` or `Int?`
+ */
+function formatType(field: PrismaField): string {
+  return `${field.type}${field.list ? '[]' : ''}${field.optional ? '?' : ''}`;
+}
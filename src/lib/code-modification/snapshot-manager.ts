@@ -0,0 +1,254 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { PrismaClient } from '@prisma/client';
+import { prisma as defaultPrisma } from '../db';
+
+/**
+ * Snapshots kept by default (older ones are deleted as new ones are taken)
+ */
+const DEFAULT_RETENTION = parseInt(process.env.DB_SNAPSHOT_RETENTION || '10', 10) || 10;
+
+/**
+ * Snapshot ids: creation time, then a label, e.g. `20261019T180000123Z_ai_generated_1760896800000`.
+ * Also guards restore against paths outside the snapshot directory.
+ */
+const SNAPSHOT_ID = /^(\d{8}T\d{9}Z)_([\w-]+)$/;
+
+/**
+ * Files SQLite may keep next to the database (write-ahead log, rollback journal)
+ */
+const SIDECAR_SUFFIXES = ['-wal', '-shm', '-journal'];
+
+/**
+ * Consistent copy of the database file
+ */
+export interface DatabaseSnapshot {
+  id: string;
+  label: string; // Why it was taken, e.g. the migration name or `pre_restore`
+  size: number; // Bytes
+  createdAt: Date;
+}
+
+/**
+ * SnapshotManager
+ *
+ * Snapshots the SQLite database (resolved from DATABASE_URL) into a snapshot
+ * directory, and puts snapshots back in its place. MigrationManager takes one
+ * before each migration and restores it when the migration fails; admins can
+ * list and restore them through /api/db/snapshots.
+ *
+ * Snapshots are written by SQLite itself (`VACUUM INTO` through the Prisma
+ * client, which must be connected to that database), so they are consistent
+ * even while the server writes to it, and have no write-ahead log to go with
+ * them. A restore swaps the file in with a rename while the client's
+ * connections are closed, and reconnects afterwards: open connections would
+ * otherwise keep using the replaced file.
+ *
+ * Snapshots are plain `<id>.db` files (prisma/snapshots by default): their
+ * metadata lives in the file name rather than in the database they copy, so
+ * restoring one does not lose track of the others. Only the newest
+ * `retention` snapshots are kept.
+ *
+ * Relative `file:` URLs are resolved from the prisma directory, as Prisma
+ * does, falling back to the project root. Other databases are not supported:
+ * create() returns null for them.
+ *
+ * Usage:
+ * ```typescript
+ * const snapshots = new SnapshotManager({ projectRoot: '/path/to/staging' });
+ * const snapshot = await snapshots.create('add_task_model');
+ * await snapshots.restore(snapshot.id);
+ * ```
+ */
+export class SnapshotManager {
+  private projectRoot: string;
+  private databaseUrl: string;
+  private snapshotDir: string;
+  private retention: number;
+  private prisma: PrismaClient;
+
+  constructor(
+    options: {
+      projectRoot?: string;
+      databaseUrl?: string;
+      snapshotDir?: string;
+      retention?: number;
+      prisma?: PrismaClient;
+    } = {}
+  ) {
+    this.projectRoot = options.projectRoot || process.cwd();
+    this.databaseUrl = options.databaseUrl ?? process.env.DATABASE_URL ?? '';
+    this.snapshotDir =
+      options.snapshotDir || process.env.DB_SNAPSHOT_DIR || path.join(this.projectRoot, 'prisma', 'snapshots');
+    this.retention = options.retention || DEFAULT_RETENTION;
+    this.prisma = options.prisma || defaultPrisma;
+  }
+
+  /**
+   * Absolute path of the SQLite database file (null when DATABASE_URL is not a `file:` URL)
+   */
+  async getDatabasePath(): Promise<string | null> {
+    if (!this.databaseUrl.startsWith('file:')) {
+      return null;
+    }
+
+    const file = this.databaseUrl.substring('file:'.length).split('?')[0];
+    if (path.isAbsolute(file)) {
+      return file;
+    }
+
+    const fromSchema = path.resolve(this.projectRoot, 'prisma', file);
+    const fromRoot = path.resolve(this.projectRoot, file);
+    return (await exists(fromSchema)) || !(await exists(fromRoot)) ? fromSchema : fromRoot;
+  }
+
+  /**
+   * Number of snapshots kept
+   */
+  getRetention(): number {
+    return this.retention;
+  }
+
+  /**
+   * Snapshot the database and prune old snapshots. Returns null
+   * when there is nothing to copy (not SQLite, or no database file yet).
+   */
+  async create(label: string): Promise<DatabaseSnapshot | null> {
+    const snapshot = await this.copyDatabase(label);
+    if (snapshot) {
+      await this.prune();
+    }
+    return snapshot;
+  }
+
+  /**
+   * Snapshots, newest first
+   */
+  async list(): Promise<DatabaseSnapshot[]> {
+    const entries = await fs.readdir(this.snapshotDir).catch(() => [] as string[]);
+    const ids = entries
+      .filter((entry) => entry.endsWith('.db') && SNAPSHOT_ID.test(entry.slice(0, -3)))
+      .map((entry) => entry.slice(0, -3))
+      .sort()
+      .reverse();
+
+    const snapshots: DatabaseSnapshot[] = [];
+    for (const id of ids) {
+      const snapshot = await this.get(id);
+      if (snapshot) {
+        snapshots.push(snapshot);
+      }
+    }
+    return snapshots;
+  }
+
+  /**
+   * Get a snapshot by id
+   */
+  async get(id: string): Promise<DatabaseSnapshot | null> {
+    const match = id.match(SNAPSHOT_ID);
+    if (!match) {
+      return null;
+    }
+
+    try {
+      const stat = await fs.stat(this.snapshotPath(id));
+      const [, stamp, label] = match;
+      const createdAt = new Date(stamp.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(\d{3})Z$/, '$1-$2-$3T$4:$5:$6.$7Z'));
+      return { id, label, size: stat.size, createdAt };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Replace the database with a snapshot. With `backup`, the current
+   * database is snapshotted first (label `pre_restore`) so the restore can be
+   * undone. Returns null when the snapshot does not exist.
+   */
+  async restore(
+    id: string,
+    options: { backup?: boolean } = {}
+  ): Promise<{ restored: DatabaseSnapshot; backup: DatabaseSnapshot | null } | null> {
+    const restored = await this.get(id);
+    const databasePath = await this.getDatabasePath();
+    if (!restored || !databasePath) {
+      return null;
+    }
+
+    // Pruned only afterwards, so the backup cannot push out the snapshot being restored
+    const backup = options.backup ? await this.copyDatabase('pre_restore') : null;
+
+    // Copied next to the database first, so it is swapped in with a single rename
+    const incoming = `${databasePath}.restoring`;
+    await fs.copyFile(this.snapshotPath(id), incoming);
+
+    // Closing the last connection checkpoints the write-ahead log into the old file
+    await this.prisma.$disconnect();
+    try {
+      // A stale log or journal would be replayed over the restored file
+      for (const suffix of SIDECAR_SUFFIXES) {
+        await fs.rm(databasePath + suffix, { force: true });
+      }
+      await fs.rename(incoming, databasePath);
+    } finally {
+      await fs.rm(incoming, { force: true });
+      await this.prisma.$connect();
+    }
+    await this.prune();
+
+    return { restored, backup };
+  }
+
+  /**
+   * Write the database into a new snapshot (without pruning)
+   */
+  private async copyDatabase(label: string): Promise<DatabaseSnapshot | null> {
+    const databasePath = await this.getDatabasePath();
+    if (!databasePath || !(await exists(databasePath))) {
+      return null;
+    }
+
+    const createdAt = new Date();
+    const id = `${createdAt.toISOString().replace(/[-:.]/g, '')}_${label.replace(/[^\w-]/g, '_').substring(0, 80) || 'snapshot'}`;
+
+    await fs.mkdir(this.snapshotDir, { recursive: true });
+    // Includes committed changes not yet checkpointed from the write-ahead log
+    await this.prisma.$executeRawUnsafe(`VACUUM INTO '${this.snapshotPath(id).replace(/'/g, "''")}'`);
+
+    return this.get(id);
+  }
+
+  /**
+   * Delete the snapshots beyond the retention limit, oldest first
+   */
+  private async prune(): Promise<void> {
+    const snapshots = await this.list();
+    for (const snapshot of snapshots.slice(this.retention)) {
+      await fs.rm(this.snapshotPath(snapshot.id), { force: true });
+    }
+  }
+
+  private snapshotPath(id: string): string {
+    return path.join(this.snapshotDir, `${id}.db`);
+  }
+}
+
+/**
+ * Whether a file exists
+ */
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convenience function to create a SnapshotManager instance
+ */
+export function createSnapshotManager(projectRoot?: string): SnapshotManager {
+  return new SnapshotManager({ projectRoot });
+}
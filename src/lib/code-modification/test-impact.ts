@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TypeChecker, getTypeChecker } from './type-checker';
+
+/**
+ * Tests picked for a set of changed files
+ */
+export interface TestSelection {
+  all: boolean; // A changed file can affect any test - only the full suite tells
+  reason?: string; // Why `all`
+  files: string[]; // Impacted test files, relative to the project root (empty when `all`)
+}
+
+/**
+ * Jest test files the test runner runs (tests/unit and tests/integration)
+ */
+const TEST_FILE = /^tests\/(unit|integration)\/.+\.test\.[cm]?[jt]sx?$/;
+
+/**
+ * Files outside the import graph that every test depends on
+ */
+const GLOBAL_FILES = [
+  /^package(-lock)?\.json$/,
+  /^tsconfig\.json$/,
+  /^jest\.(config|setup)\.[cm]?[jt]s$/,
+  /^babel\.config\./,
+  /^next\.config\./,
+  /^\.env/,
+  /^prisma\/schema\.prisma$/,
+];
+
+/**
+ * Code files, followed through imports
+ */
+const CODE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.json'];
+
+/**
+ * Whether a path is a Jest test file run by the test runner
+ */
+export function isTestFile(filePath: string): boolean {
+  return TEST_FILE.test(filePath.split(path.sep).join('/'));
+}
+
+/**
+ * Pick the test files affected by `changedFiles`: the tests that import a
+ * changed file, directly or through other files, using TypeScript's module
+ * resolution (path aliases included). Changed test files select themselves.
+ *
+ * Config files, non-code files under tests/ (fixtures read from disk) and
+ * code files the TypeScript project does not include select the full suite.
+ * Other non-code files (styles, docs) select nothing.
+ */
+export async function selectImpactedTests(
+  changedFiles: string[],
+  options: { projectRoot: string; typeChecker?: TypeChecker }
+): Promise<TestSelection> {
+  const typeChecker = options.typeChecker || getTypeChecker(options.projectRoot);
+  const files = changedFiles.map((file) => file.split(path.sep).join('/'));
+
+  const global = files.find(
+    (file) =>
+      GLOBAL_FILES.some((pattern) => pattern.test(file)) ||
+      (file.startsWith('tests/') && !CODE_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+  );
+  if (global) {
+    return { all: true, reason: `${global} affects every test`, files: [] };
+  }
+
+  const code = files.filter((file) => CODE_EXTENSIONS.includes(path.extname(file).toLowerCase()));
+  if (code.length === 0) {
+    return { all: false, files: [] };
+  }
+
+  const dependents = await typeChecker.findDependents(code);
+
+  // Changed test files run even when the project does not include them (e.g. .test.js)
+  const outside = code.find(
+    (file) => !dependents.includes(file) && !isTestFile(file) && fs.existsSync(path.join(options.projectRoot, file))
+  );
+  if (outside) {
+    return { all: true, reason: `${outside} is not part of the TypeScript project`, files: [] };
+  }
+
+  const tests = new Set([...dependents, ...code].filter(isTestFile));
+  return {
+    all: false,
+    files: Array.from(tests)
+      .filter((file) => fs.existsSync(path.join(options.projectRoot, file)))
+      .sort(),
+  };
+}
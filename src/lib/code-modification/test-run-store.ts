@@ -0,0 +1,380 @@
+import { PrismaClient } from '@prisma/client';
+import { prisma as defaultPrisma } from '../db';
+import { TestResult, TestCaseResult, StageResult, FileCoverage, testKey } from './test-runner';
+
+/**
+ * Days of test outcomes flakiness scores are computed over by default
+ */
+const DEFAULT_FLAKINESS_DAYS = 30;
+
+/**
+ * What ran the tests
+ */
+export type TestRunTrigger = 'job' | 'repair' | 'revert';
+
+/**
+ * Which tests ran: those impacted by the change, or the full suite
+ */
+export type TestRunScope = 'impacted' | 'full';
+
+/**
+ * Stored test run without its tests (for lists)
+ */
+export interface TestRunSummary {
+  id: string;
+  jobId: string | null;
+  commitHash: string | null;
+  trigger: TestRunTrigger;
+  scope: TestRunScope;
+  success: boolean;
+  passed: number;
+  failed: number;
+  skipped: number;
+  total: number;
+  duration: number;
+  createdAt: Date;
+}
+
+/**
+ * Stored test run with every test and the lint, coverage and build stages
+ */
+export interface TestRunRecord extends TestRunSummary {
+  tests: TestCaseResult[];
+  stages: StageResult[];
+}
+
+/**
+ * Test whose failures do not fail test runs
+ */
+export interface QuarantinedTest {
+  id: string;
+  file: string | null;
+  fullName: string;
+  reason: string | null;
+  quarantinedBy: string | null;
+  createdAt: Date;
+}
+
+/**
+ * How often a test failed or was flaky over recent runs. `score` is the
+ * share of its runs in which it was flaky.
+ */
+export interface TestFlakiness {
+  type: TestCaseResult['type'];
+  file: string | null;
+  fullName: string;
+  runs: number;
+  passed: number;
+  failed: number;
+  flaky: number;
+  score: number;
+  lastFailedAt: Date | null; // Last failed or flaky run
+  quarantine: QuarantinedTest | null;
+}
+
+/**
+ * Raw TestOutcome row (as selected for flakiness scores)
+ */
+interface TestOutcomeRow {
+  type: string;
+  file: string;
+  fullName: string;
+  status: string;
+  createdAt: Date;
+}
+
+/**
+ * Raw TestQuarantine row
+ */
+interface TestQuarantineRow {
+  id: string;
+  file: string;
+  fullName: string;
+  reason: string | null;
+  quarantinedBy: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Raw TestRun row (tests and stages still stringified)
+ */
+interface TestRunRow {
+  id: string;
+  jobId: string | null;
+  commitHash: string | null;
+  trigger: string;
+  scope: string;
+  success: boolean;
+  passed: number;
+  failed: number;
+  skipped: number;
+  total: number;
+  duration: number;
+  tests: string;
+  stages: string | null;
+  coverage?: string | null;
+  createdAt: Date;
+}
+
+/**
+ * TestRunStore
+ *
+ * Keeps the per-test results of the test runs made for modification jobs,
+ * their repair attempts and reverts, so the admin tests page can show which
+ * test broke a change and export the run as JUnit XML.
+ *
+ * Each run's outcomes are also stored one row per test (TestOutcome), from
+ * which flakiness scores are computed, together with the tests admins
+ * quarantined (TestQuarantine): they still run, but their failures no longer
+ * fail the run.
+ *
+ * Usage:
+ * ```typescript
+ * const store = new TestRunStore();
+ * const run = await store.record({ jobId, trigger: 'job', result });
+ * const runs = await store.listRuns({ jobId });
+ * const flaky = await store.getFlakiness({ days: 30 });
+ * await store.quarantine({ file, fullName, reason, quarantinedBy: adminId });
+ * ```
+ */
+export class TestRunStore {
+  private prisma: PrismaClient;
+
+  constructor(prismaClient?: PrismaClient) {
+    this.prisma = prismaClient || defaultPrisma;
+  }
+
+  /**
+   * Store the result of a test run
+   */
+  async record(options: {
+    result: TestResult;
+    trigger: TestRunTrigger;
+    scope?: TestRunScope;
+    jobId?: string | null;
+    commitHash?: string | null;
+  }): Promise<TestRunRecord> {
+    const { result } = options;
+    const tests = result.tests || [];
+
+    const row = await this.prisma.testRun.create({
+      data: {
+        jobId: options.jobId || null,
+        commitHash: options.commitHash || null,
+        trigger: options.trigger,
+        scope: options.scope || 'full',
+        success: result.success,
+        passed: result.testsPassed,
+        failed: result.testsFailed,
+        skipped: tests.filter((test) => test.status === 'skipped').length,
+        total: result.totalTests,
+        duration: Math.round(result.duration),
+        tests: JSON.stringify(tests),
+        stages: result.stages ? JSON.stringify(result.stages) : null,
+        coverage: result.coverage?.files ? JSON.stringify(result.coverage.files) : null,
+      },
+    });
+
+    const outcomes = tests.filter((test) => test.status !== 'skipped');
+    if (outcomes.length > 0) {
+      await this.prisma.testOutcome.createMany({
+        data: outcomes.map((test) => ({
+          testRunId: row.id,
+          type: test.type,
+          file: test.file || '',
+          fullName: test.fullName,
+          status: test.status,
+          attempts: test.attempts || 1,
+          createdAt: row.createdAt,
+        })),
+      });
+    }
+
+    return this.toRecord(row);
+  }
+
+  /**
+   * Get a run with its tests by id
+   */
+  async getRun(id: string): Promise<TestRunRecord | null> {
+    const row = await this.prisma.testRun.findUnique({ where: { id } });
+    return row ? this.toRecord(row) : null;
+  }
+
+  /**
+   * Recent runs, newest first, optionally only those of one job
+   */
+  async listRuns(options: { jobId?: string; limit?: number } = {}): Promise<TestRunSummary[]> {
+    // The tests column can be large - lists leave it out
+    const rows = await this.prisma.testRun.findMany({
+      where: options.jobId ? { jobId: options.jobId } : undefined,
+      orderBy: { createdAt: 'desc' },
+      take: options.limit || 50,
+      select: {
+        id: true,
+        jobId: true,
+        commitHash: true,
+        trigger: true,
+        scope: true,
+        success: true,
+        passed: true,
+        failed: true,
+        skipped: true,
+        total: true,
+        duration: true,
+        createdAt: true,
+      },
+    });
+
+    return rows.map((row: Omit<TestRunRow, 'tests' | 'stages'>) => this.toSummary(row));
+  }
+
+  /**
+   * Line coverage by file of the latest passing run at `commitHash` that
+   * collected it, or null when none did. Jobs fast-forward staging to their
+   * last tested commit, so for a staging commit this is staging's coverage there.
+   */
+  async getCoverageAt(commitHash: string): Promise<Record<string, FileCoverage> | null> {
+    const row = await this.prisma.testRun.findFirst({
+      where: { commitHash, success: true, coverage: { not: null } },
+      orderBy: { createdAt: 'desc' },
+      select: { coverage: true },
+    });
+    return row?.coverage ? JSON.parse(row.coverage) : null;
+  }
+
+  /**
+   * Tests that failed or were flaky in the last `days` days, most flaky first
+   */
+  async getFlakiness(options: { days?: number } = {}): Promise<TestFlakiness[]> {
+    const since = new Date(Date.now() - (options.days || DEFAULT_FLAKINESS_DAYS) * 24 * 60 * 60 * 1000);
+    const rows = await this.prisma.testOutcome.findMany({
+      where: { createdAt: { gte: since } },
+      select: { type: true, file: true, fullName: true, status: true, createdAt: true },
+    });
+    const quarantined = new Map((await this.listQuarantined()).map((test) => [testKey(test), test]));
+
+    const tests = new Map<string, TestFlakiness>();
+    for (const row of rows as TestOutcomeRow[]) {
+      const key = testKey(row);
+      const test = tests.get(key) || {
+        type: row.type as TestFlakiness['type'],
+        file: row.file || null,
+        fullName: row.fullName,
+        runs: 0,
+        passed: 0,
+        failed: 0,
+        flaky: 0,
+        score: 0,
+        lastFailedAt: null,
+        quarantine: quarantined.get(key) || null,
+      };
+
+      test.runs++;
+      if (row.status === 'passed') {
+        test.passed++;
+      } else {
+        test[row.status === 'flaky' ? 'flaky' : 'failed']++;
+        if (!test.lastFailedAt || row.createdAt > test.lastFailedAt) {
+          test.lastFailedAt = row.createdAt;
+        }
+      }
+      tests.set(key, test);
+    }
+
+    return Array.from(tests.values())
+      .filter((test) => test.failed + test.flaky > 0)
+      .map((test) => ({ ...test, score: test.flaky / test.runs }))
+      .sort((a, b) => b.score - a.score || b.failed - a.failed);
+  }
+
+  /**
+   * Quarantine a test: it keeps running, but its failures no longer fail
+   * runs. Quarantining it again updates the reason.
+   */
+  async quarantine(options: {
+    file: string | null;
+    fullName: string;
+    reason?: string | null;
+    quarantinedBy?: string | null;
+  }): Promise<QuarantinedTest> {
+    const file = options.file || '';
+    const data = { reason: options.reason || null, quarantinedBy: options.quarantinedBy || null };
+
+    const row = await this.prisma.testQuarantine.upsert({
+      where: { file_fullName: { file, fullName: options.fullName } },
+      create: { file, fullName: options.fullName, ...data },
+      update: data,
+    });
+
+    return this.toQuarantinedTest(row);
+  }
+
+  /**
+   * Lift a test's quarantine. Returns false when it was not quarantined.
+   */
+  async unquarantine(file: string | null, fullName: string): Promise<boolean> {
+    const result = await this.prisma.testQuarantine.deleteMany({ where: { file: file || '', fullName } });
+    return result.count > 0;
+  }
+
+  /**
+   * Quarantined tests, most recently quarantined first
+   */
+  async listQuarantined(): Promise<QuarantinedTest[]> {
+    const rows = await this.prisma.testQuarantine.findMany({ orderBy: { createdAt: 'desc' } });
+    return rows.map((row: TestQuarantineRow) => this.toQuarantinedTest(row));
+  }
+
+  /**
+   * Convert a database row into a record with the JSON columns parsed
+   */
+  private toRecord(row: TestRunRow): TestRunRecord {
+    return {
+      ...this.toSummary(row),
+      tests: JSON.parse(row.tests),
+      stages: row.stages ? JSON.parse(row.stages) : [],
+    };
+  }
+
+  /**
+   * Convert a database row (without its JSON columns) into a summary
+   */
+  private toSummary(row: Omit<TestRunRow, 'tests' | 'stages'>): TestRunSummary {
+    return {
+      id: row.id,
+      jobId: row.jobId ?? null,
+      commitHash: row.commitHash ?? null,
+      trigger: row.trigger as TestRunTrigger,
+      scope: row.scope as TestRunScope,
+      success: row.success,
+      passed: row.passed,
+      failed: row.failed,
+      skipped: row.skipped,
+      total: row.total,
+      duration: row.duration,
+      createdAt: row.createdAt,
+    };
+  }
+
+  /**
+   * Convert a TestQuarantine row (empty file meaning none)
+   */
+  private toQuarantinedTest(row: TestQuarantineRow): QuarantinedTest {
+    return {
+      id: row.id,
+      file: row.file || null,
+      fullName: row.fullName,
+      reason: row.reason ?? null,
+      quarantinedBy: row.quarantinedBy ?? null,
+      createdAt: row.createdAt,
+    };
+  }
+}
+
+/**
+ * Convenience function to create a TestRunStore instance
+ */
+export function createTestRunStore(prismaClient?: PrismaClient): TestRunStore {
+  return new TestRunStore(prismaClient);
+}
@@ -1,9 +1,7 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-
-const execAsync = promisify(exec);
+import { execProcessTree, isAbortError } from './process-tree';
 
 /**
  * Test result structure
@@ -16,9 +14,95 @@ export interface TestResult {
   coverage?: CoverageResult;
   output: string;
   errors?: string;
+  failedTests?: string[]; // Full names of failing tests, when the reporter provides them
+  flakyTests?: string[]; // Full names of tests that failed, then passed when re-run
+  tests?: TestCaseResult[]; // Every test, when the reporter provides them
+  stages?: StageResult[]; // Lint and build gates
+  duration: number;
+}
+
+/**
+ * Result of a single test case
+ */
+export interface TestCaseResult {
+  type: 'unit' | 'integration' | 'e2e';
+  file: string | null; // Relative to the project root
+  suite: string; // Enclosing describe blocks, outermost first, joined with " › "
+  name: string;
+  fullName: string;
+  status: 'passed' | 'failed' | 'flaky' | 'skipped'; // flaky: failed, then passed when re-run
+  duration: number | null; // ms, when the reporter measured it
+  attempts?: number; // Runs of a failed test including its retries
+  quarantined?: boolean; // A failure does not fail the run
+  failureMessage?: string; // Of the first failure
+  stack?: string;
+}
+
+/**
+ * What a failing lint or build stage does: fail the run, only report the
+ * failure, or not run at all
+ */
+export type GatePolicy = 'block' | 'warn' | 'off';
+
+/**
+ * One ESLint message
+ */
+export interface LintMessage {
+  file: string; // Relative to the project root
+  line: number;
+  column: number;
+  ruleId: string | null;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/**
+ * Result of a lint, coverage or build stage
+ */
+export interface StageResult {
+  name: 'lint' | 'coverage' | 'build';
+  policy: GatePolicy;
+  status: 'passed' | 'failed' | 'skipped';
+  summary: string;
+  messages?: LintMessage[]; // lint
+  coverage?: ChangedCoverage; // coverage
+  output?: string; // build output (tail) when it failed
   duration: number;
 }
 
+/**
+ * Line coverage of one file
+ */
+export interface FileCoverage {
+  covered: number; // Lines run by at least one test
+  total: number; // Lines with statements
+}
+
+/**
+ * Coverage of the lines a change added or modified in one file
+ */
+export interface ChangedFileCoverage {
+  file: string;
+  changed: number; // Changed lines with statements
+  covered: number;
+  uncoveredLines: number[];
+  before: number | null; // Line coverage of the whole file (%) before the change (null for new files or without a baseline)
+  after: number | null; // Line coverage of the whole file (%) with the change
+  gated: boolean; // Under COVERAGE_GATE_PATHS, so counted by the gate
+}
+
+/**
+ * Coverage of the changed lines, as checked by the coverage gate
+ */
+export interface ChangedCoverage {
+  minimum: number; // %
+  baseline: boolean; // Coverage before the change was known (otherwise every `before` is null)
+  changed: number; // Changed lines with statements in gated files
+  covered: number;
+  percent: number | null; // null when no such lines changed
+  files: ChangedFileCoverage[];
+}
+
 /**
  * Coverage result structure
  */
@@ -28,6 +112,7 @@ export interface CoverageResult {
   functions: number;
   branches: number;
   meetsThreshold: boolean;
+  files?: Record<string, FileCoverage>; // By path relative to the project root
 }
 
 /**
@@ -41,8 +126,33 @@ export interface TestRunnerConfig {
   collectCoverage?: boolean;
   coverageThreshold?: number;
   timeout?: number;
+  signal?: AbortSignal; // Aborting kills the running test process tree
+  testFiles?: string[]; // Only run these Jest test files (relative to the project root); a suite with none is skipped
+  retries?: number; // Times a failed Jest test is re-run before it counts as failed
+  quarantined?: string[]; // testKey() of tests whose failures do not fail the run
+  lint?: GatePolicy;
+  lintFiles?: string[]; // Files to lint, relative to the project root (default: the whole project)
+  coverageGate?: GatePolicy; // Needs collectCoverage and changedLines
+  coverageGateMinimum?: number; // % of the changed lines in COVERAGE_GATE_PATHS tests must run
+  changedLines?: Record<string, number[]>; // Added or modified line numbers by file
+  baselineCoverage?: Record<string, FileCoverage>; // Coverage before the change, for the report
+  build?: GatePolicy;
+  buildCommand?: string;
+  buildTimeout?: number;
+}
+
+/**
+ * Read a gate policy from the environment
+ */
+function gatePolicy(value: string | undefined, fallback: GatePolicy): GatePolicy {
+  return value === 'block' || value === 'warn' || value === 'off' ? value : fallback;
 }
 
+/**
+ * Turbopack rejects the node_modules symlink of the build copy, webpack follows it
+ */
+const DEFAULT_BUILD_COMMAND = 'npx next build --webpack';
+
 /**
  * Default configuration
  */
@@ -54,14 +164,63 @@ const DEFAULT_CONFIG: TestRunnerConfig = {
   collectCoverage: true,
   coverageThreshold: 70,
   timeout: 120000, // 2 minutes
+  retries: process.env.TEST_RETRIES ? parseInt(process.env.TEST_RETRIES, 10) || 0 : 2,
+  lint: gatePolicy(process.env.LINT_GATE, 'block'),
+  coverageGate: gatePolicy(process.env.COVERAGE_GATE, 'block'),
+  coverageGateMinimum: process.env.COVERAGE_GATE_MIN ? parseFloat(process.env.COVERAGE_GATE_MIN) || 0 : 80,
+  build: gatePolicy(process.env.BUILD_GATE, 'warn'),
+  buildCommand: process.env.BUILD_GATE_COMMAND || DEFAULT_BUILD_COMMAND,
+  buildTimeout: 600000, // 10 minutes
 };
 
+/**
+ * Files ESLint is run on
+ */
+const LINT_EXTENSIONS = ['.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.mts', '.cts'];
+
+/**
+ * Changed code the coverage gate holds to its minimum (other files are only reported)
+ */
+const COVERAGE_GATE_PATHS = ['src/lib/'];
+
+/**
+ * Top-level entries not copied for the build stage (node_modules is symlinked instead)
+ */
+const BUILD_COPY_EXCLUDE = ['node_modules', '.next', '.git', 'coverage'];
+
+/**
+ * Build output kept on a failed build stage
+ */
+const MAX_BUILD_OUTPUT = 8000;
+
+/**
+ * Name of the test listed for a Jest file that failed before running any test
+ */
+const SUITE_FAILED = 'Test suite failed to run';
+
 /**
  * Test Runner Service
  *
  * This is a CRITICAL service that runs automated tests before deploying code changes.
  * It prevents broken code from being deployed to staging or production.
  *
+ * Besides the Jest and Playwright suites it runs two gates:
+ * - lint: ESLint through its Node API with the project's eslint.config.mjs,
+ *   on `lintFiles` (the changed files) or the whole project
+ * - build: `next build` in a temporary copy of the project, so the worktree's
+ *   `.next` directory and tsconfig.json are left alone
+ *
+ * - coverage: share of the `changedLines` in src/lib that the unit tests run,
+ *   from Jest's coverage of the unit suite (needs `collectCoverage`)
+ *
+ * Each gate has a policy (LINT_GATE / COVERAGE_GATE / BUILD_GATE: block, warn
+ * or off). A blocking gate that fails fails the run; a warning gate is only
+ * reported in `stages`. The build only runs once everything before it passed.
+ *
+ * Failed Jest tests are re-run up to `retries` times (TEST_RETRIES, default 2):
+ * a test that passes on a retry is flaky and does not fail the run. Failures of
+ * `quarantined` tests are reported but do not fail the run either.
+ *
  * Usage:
  * ```typescript
  * const result = await runTests();
@@ -88,10 +247,33 @@ export class TestRunner {
     let totalFailed = 0;
     let allOutput = '';
     let allErrors = '';
+    const failedTests: string[] = [];
+    const flakyTests: string[] = [];
+    const tests: TestCaseResult[] = [];
     let overallSuccess = true;
     let coverage: CoverageResult | undefined;
+    const stages: StageResult[] = [];
+
+    const addStage = (stage: StageResult) => {
+      stages.push(stage);
+      if (stage.status !== 'failed') {
+        return;
+      }
+      if (stage.policy === 'block') {
+        overallSuccess = false;
+        allErrors += `\n=== ${stage.name.toUpperCase()} ===\n${formatStage(stage)}`;
+      } else {
+        console.warn(`⚠ ${stage.name} failed (policy: warn): ${stage.summary}`);
+      }
+    };
 
     try {
+      // Lint first - it is the quickest to fail
+      if (this.config.lint && this.config.lint !== 'off') {
+        console.log('Running lint...');
+        addStage(await this.runLint());
+      }
+
       // Run unit tests
       if (this.config.runUnit) {
         console.log('Running unit tests...');
@@ -99,9 +281,13 @@ export class TestRunner {
         totalPassed += unitResult.testsPassed;
         totalFailed += unitResult.testsFailed;
         allOutput += `\n=== UNIT TESTS ===\n${unitResult.output}`;
+        tests.push(...(unitResult.tests || []));
+        flakyTests.push(...(unitResult.flakyTests || []));
+        (unitResult.stages || []).forEach(addStage);
         if (!unitResult.success) {
           overallSuccess = false;
           allErrors += unitResult.errors || '';
+          failedTests.push(...(unitResult.failedTests || []));
         }
         if (unitResult.coverage) {
           coverage = unitResult.coverage;
@@ -115,9 +301,12 @@ export class TestRunner {
         totalPassed += integrationResult.testsPassed;
         totalFailed += integrationResult.testsFailed;
         allOutput += `\n=== INTEGRATION TESTS ===\n${integrationResult.output}`;
+        tests.push(...(integrationResult.tests || []));
+        flakyTests.push(...(integrationResult.flakyTests || []));
         if (!integrationResult.success) {
           overallSuccess = false;
           allErrors += integrationResult.errors || '';
+          failedTests.push(...(integrationResult.failedTests || []));
         }
       }
 
@@ -128,9 +317,12 @@ export class TestRunner {
         totalPassed += e2eResult.testsPassed;
         totalFailed += e2eResult.testsFailed;
         allOutput += `\n=== E2E TESTS ===\n${e2eResult.output}`;
+        tests.push(...(e2eResult.tests || []));
+        flakyTests.push(...(e2eResult.flakyTests || []));
         if (!e2eResult.success) {
           overallSuccess = false;
           allErrors += e2eResult.errors || '';
+          failedTests.push(...(e2eResult.failedTests || []));
         }
       }
 
@@ -142,7 +334,21 @@ export class TestRunner {
         }
       }
 
+      // Build last - it is the slowest, and pointless when something already failed
+      if (this.config.build && this.config.build !== 'off') {
+        if (overallSuccess) {
+          console.log('Running build...');
+          addStage(await this.runBuild());
+        } else {
+          addStage(skippedStage('build', this.config.build, 'Skipped - earlier checks failed'));
+        }
+      }
+
     } catch (error) {
+      // A cancelled run has no meaningful result
+      if (isAbortError(error)) {
+        throw error;
+      }
       overallSuccess = false;
       allErrors += `\nUnexpected error: ${error instanceof Error ? error.message : String(error)}`;
     }
@@ -157,68 +363,203 @@ export class TestRunner {
       coverage,
       output: allOutput,
       errors: allErrors || undefined,
+      failedTests: failedTests.length > 0 ? failedTests : undefined,
+      flakyTests: flakyTests.length > 0 ? flakyTests : undefined,
+      tests: tests.length > 0 ? tests : undefined,
+      stages: stages.length > 0 ? stages : undefined,
       duration,
     };
   }
 
   /**
-   * Run unit tests with Jest
+   * Lint the configured files with ESLint and the project's config
    */
-  async runUnitTests(): Promise<TestResult> {
+  async runLint(): Promise<StageResult> {
     const startTime = Date.now();
+    const policy = this.config.lint || 'off';
+
+    if (policy === 'off') {
+      return skippedStage('lint', policy, 'Disabled by policy');
+    }
+
+    // Deleted files and non-code files are not linted
+    const files = this.config.lintFiles
+      ? this.config.lintFiles.filter(
+          (file) =>
+            LINT_EXTENSIONS.includes(path.extname(file).toLowerCase()) &&
+            fs.existsSync(path.join(this.projectRoot, file))
+        )
+      : ['.'];
+
+    if (files.length === 0) {
+      return skippedStage('lint', policy, 'No files to lint');
+    }
 
     try {
-      const outputFile = path.join(this.projectRoot, 'test-results-unit.json');
-      const command = this.config.collectCoverage
-        ? 'npm test -- tests/unit --coverage --coverageDirectory=coverage/unit --json --outputFile=test-results-unit.json'
-        : 'npm test -- tests/unit --json --outputFile=test-results-unit.json';
+      const { ESLint } = await import('eslint');
+      const eslint = new ESLint({ cwd: this.projectRoot, errorOnUnmatchedPattern: false, warnIgnored: false });
+      const results = await eslint.lintFiles(files);
 
-      const { stdout, stderr } = await execAsync(command, {
-        timeout: this.config.timeout,
+      const messages: LintMessage[] = results.flatMap((result) =>
+        result.messages.map((message) => ({
+          file: path.relative(this.projectRoot, result.filePath).split(path.sep).join('/'),
+          line: message.line,
+          column: message.column,
+          ruleId: message.ruleId,
+          severity: message.severity === 2 ? ('error' as const) : ('warning' as const),
+          message: message.message,
+        }))
+      );
+      const errorCount = messages.filter((message) => message.severity === 'error').length;
+      const warningCount = messages.length - errorCount;
+
+      return {
+        name: 'lint',
+        policy,
+        status: errorCount > 0 ? 'failed' : 'passed',
+        summary: `${errorCount} error${errorCount === 1 ? '' : 's'}, ${warningCount} warning${warningCount === 1 ? '' : 's'} in ${results.length} file${results.length === 1 ? '' : 's'}`,
+        messages,
+        duration: Date.now() - startTime,
+      };
+    } catch (error) {
+      return {
+        name: 'lint',
+        policy,
+        status: 'failed',
+        summary: `ESLint could not run: ${error instanceof Error ? error.message : String(error)}`,
+        duration: Date.now() - startTime,
+      };
+    }
+  }
+
+  /**
+   * Run `next build` in a temporary copy of the project
+   */
+  async runBuild(): Promise<StageResult> {
+    const startTime = Date.now();
+    const policy = this.config.build || 'off';
+
+    if (policy === 'off') {
+      return skippedStage('build', policy, 'Disabled by policy');
+    }
+
+    const buildDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'deboraai-build-'));
+
+    try {
+      await fs.promises.cp(this.projectRoot, buildDir, {
+        recursive: true,
+        filter: (source) => {
+          const topLevel = path.relative(this.projectRoot, source).split(path.sep)[0];
+          return !BUILD_COPY_EXCLUDE.includes(topLevel);
+        },
       });
+      await fs.promises.symlink(path.join(this.projectRoot, 'node_modules'), path.join(buildDir, 'node_modules'), 'dir');
 
-      // Read Jest JSON output from file (Jest writes to file, not stdout)
-      const result = await this.parseJestOutputFromFile(outputFile, stdout, stderr);
-      result.duration = Date.now() - startTime;
+      await execProcessTree(this.config.buildCommand || DEFAULT_BUILD_COMMAND, {
+        cwd: buildDir,
+        timeout: this.config.buildTimeout,
+        signal: this.config.signal,
+      });
 
-      // Parse coverage if collected
-      if (this.config.collectCoverage) {
-        result.coverage = await this.parseCoverage();
+      return { name: 'build', policy, status: 'passed', summary: 'Build succeeded', duration: Date.now() - startTime };
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
       }
 
-      return result;
-    } catch (error: any) {
-      // Jest exits with non-zero code when tests fail
-      const outputFile = path.join(this.projectRoot, 'test-results-unit.json');
-      const result = await this.parseJestOutputFromFile(outputFile, error.stdout || '', error.stderr || '');
-      result.duration = Date.now() - startTime;
-      return result;
+      const { stdout = '', stderr = '' } = error as { stdout?: string; stderr?: string };
+      const output = `${stdout}\n${stderr}`.trim();
+
+      return {
+        name: 'build',
+        policy,
+        status: 'failed',
+        summary: `Build failed: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`,
+        output: output.length > MAX_BUILD_OUTPUT ? output.slice(-MAX_BUILD_OUTPUT) : output,
+        duration: Date.now() - startTime,
+      };
+    } finally {
+      await fs.promises.rm(buildDir, { recursive: true, force: true }).catch(() => {});
     }
   }
 
   /**
-   * Run integration tests with Jest
+   * Run unit tests with Jest
    */
-  async runIntegrationTests(): Promise<TestResult> {
+  async runUnitTests(): Promise<TestResult> {
     const startTime = Date.now();
 
-    try {
-      const outputFile = path.join(this.projectRoot, 'test-results-integration.json');
-      const command = 'npm test -- tests/integration --json --outputFile=test-results-integration.json';
+    const target = this.jestTarget('tests/unit');
+    if (target === null) {
+      return noSelectedTests();
+    }
 
-      const { stdout, stderr } = await execAsync(command, {
-        timeout: this.config.timeout,
-      });
+    // Thresholds are checked here (coverageThreshold and the coverage gate), not by Jest
+    const args = this.config.collectCoverage
+      ? `${target} --coverage --coverageDirectory=coverage/unit --coverageReporters=json --coverageThreshold='{}'`
+      : target;
+    const result = await this.retryFailedTests(await this.execJest(args, 'unit'), 'unit');
+    result.duration = Date.now() - startTime;
 
-      const result = await this.parseJestOutputFromFile(outputFile, stdout, stderr);
-      result.duration = Date.now() - startTime;
-      return result;
-    } catch (error: any) {
-      const outputFile = path.join(this.projectRoot, 'test-results-integration.json');
-      const result = await this.parseJestOutputFromFile(outputFile, error.stdout || '', error.stderr || '');
-      result.duration = Date.now() - startTime;
-      return result;
+    // Parse coverage if collected
+    if (this.config.collectCoverage) {
+      const parsed = await this.parseCoverage();
+      result.coverage = parsed?.coverage;
+
+      if (this.config.changedLines && this.config.coverageGate && this.config.coverageGate !== 'off') {
+        result.stages = [
+          parsed
+            ? this.checkChangedCoverage(parsed.lineHits, parsed.coverage)
+            : skippedStage('coverage', this.config.coverageGate, 'Skipped - no coverage report'),
+        ];
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Coverage gate: the share of the changed lines in COVERAGE_GATE_PATHS that
+   * ran must reach coverageGateMinimum. Lines without statements (comments,
+   * types) do not count.
+   */
+  private checkChangedCoverage(lineHits: Record<string, Record<number, number>>, coverage: CoverageResult): StageResult {
+    const policy = this.config.coverageGate || 'off';
+    const minimum = this.config.coverageGateMinimum ?? 80;
+    const report = changedLineCoverage(this.config.changedLines || {}, lineHits, {
+      minimum,
+      before: this.config.baselineCoverage,
+      after: coverage.files,
+    });
+
+    if (report.percent === null) {
+      return { name: 'coverage', policy, status: 'passed', summary: 'No changed lines to cover', coverage: report, duration: 0 };
+    }
+
+    return {
+      name: 'coverage',
+      policy,
+      status: report.percent >= minimum ? 'passed' : 'failed',
+      summary: `${report.percent}% of ${report.changed} changed line${report.changed === 1 ? '' : 's'} covered (minimum ${minimum}%)`,
+      coverage: report,
+      duration: 0,
+    };
+  }
+
+  /**
+   * Run integration tests with Jest
+   */
+  async runIntegrationTests(): Promise<TestResult> {
+    const startTime = Date.now();
+
+    const target = this.jestTarget('tests/integration');
+    if (target === null) {
+      return noSelectedTests();
     }
+
+    const result = await this.retryFailedTests(await this.execJest(target, 'integration'), 'integration');
+    result.duration = Date.now() - startTime;
+    return result;
   }
 
   /**
@@ -230,14 +571,19 @@ export class TestRunner {
     try {
       const command = 'npm run test:e2e -- --reporter=json';
 
-      const { stdout, stderr } = await execAsync(command, {
+      const { stdout, stderr } = await execProcessTree(command, {
+        cwd: this.projectRoot,
         timeout: this.config.timeout,
+        signal: this.config.signal,
       });
 
       const result = this.parsePlaywrightOutput(stdout, stderr);
       result.duration = Date.now() - startTime;
       return result;
     } catch (error: any) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       const result = this.parsePlaywrightOutput(error.stdout || '', error.stderr || '');
       result.duration = Date.now() - startTime;
       return result;
@@ -245,9 +591,118 @@ export class TestRunner {
   }
 
   /**
-   * Parse Jest output from JSON file
+   * Jest arguments selecting the tests of a directory: the directory itself,
+   * the selected `testFiles` in it, or null when none of them are in it
+   */
+  private jestTarget(directory: string): string | null {
+    if (!this.config.testFiles) {
+      return directory;
+    }
+
+    const files = this.config.testFiles.filter((file) => file.startsWith(`${directory}/`));
+    if (files.length === 0) {
+      return null;
+    }
+
+    return `--runTestsByPath ${files.map(shellQuote).join(' ')}`;
+  }
+
+  /**
+   * Run Jest with `args` and read its JSON report (test-results-<name>.json).
+   * The report of an earlier run is removed first, so a run that writes none
+   * fails instead of reusing it.
+   */
+  private async execJest(args: string, type: 'unit' | 'integration', name: string = type): Promise<TestResult> {
+    const outputName = `test-results-${name}.json`;
+    const outputFile = path.join(this.projectRoot, outputName);
+    await fs.promises.rm(outputFile, { force: true });
+
+    try {
+      const { stdout, stderr } = await execProcessTree(`npm test -- ${args} --json --outputFile=${outputName}`, {
+        cwd: this.projectRoot,
+        timeout: this.config.timeout,
+        signal: this.config.signal,
+      });
+
+      // Read Jest JSON output from file (Jest writes to file, not stdout)
+      return await this.parseJestOutputFromFile(outputFile, type, stdout, stderr);
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      // Jest exits with non-zero code when tests fail
+      return this.parseJestOutputFromFile(outputFile, type, error.stdout || '', error.stderr || '');
+    }
+  }
+
+  /**
+   * Re-run the failed tests of a Jest result up to `retries` times. A test
+   * that passes on a retry becomes flaky; one that keeps failing stays failed.
+   * Quarantined tests and files that failed to run are not retried. The run
+   * succeeds when only quarantined tests are left failing.
+   */
+  private async retryFailedTests(result: TestResult, type: 'unit' | 'integration'): Promise<TestResult> {
+    if (!result.tests) {
+      return result;
+    }
+
+    const quarantined = new Set(this.config.quarantined || []);
+    const tests = result.tests.map((test) => ({ ...test, ...(quarantined.has(testKey(test)) && { quarantined: true }) }));
+    const failedBefore = tests.filter((test) => test.status === 'failed').length;
+
+    for (let retry = 1; retry <= (this.config.retries || 0); retry++) {
+      const retried = tests.filter(
+        (test) => test.status === 'failed' && !test.quarantined && test.file && test.name !== SUITE_FAILED
+      );
+      if (retried.length === 0) {
+        break;
+      }
+
+      console.log(`Re-running ${retried.length} failed test(s) (retry ${retry}/${this.config.retries})...`);
+      const files = Array.from(new Set(retried.map((test) => test.file as string)));
+      const pattern = `^(${retried.map((test) => escapeRegExp(test.fullName)).join('|')})$`;
+      const rerun = await this.execJest(
+        `--runTestsByPath ${files.map(shellQuote).join(' ')} --testNamePattern ${shellQuote(pattern)}`,
+        type,
+        `${type}-retry`
+      );
+      const passed = new Set((rerun.tests || []).filter((test) => test.status === 'passed').map(testKey));
+
+      for (const test of retried) {
+        test.attempts = retry + 1;
+        if (passed.has(testKey(test))) {
+          test.status = 'flaky';
+        }
+      }
+    }
+
+    const failed = tests.filter((test) => test.status === 'failed');
+    const blocking = failed.filter((test) => !test.quarantined);
+    const flaky = tests.filter((test) => test.status === 'flaky');
+    const resolved = failedBefore > 0 && blocking.length === 0;
+
+    return {
+      ...result,
+      success: result.success || resolved,
+      testsPassed: result.testsPassed + flaky.length,
+      testsFailed: Math.max(result.testsFailed - flaky.length, 0),
+      errors: resolved ? undefined : result.errors,
+      failedTests: blocking.length > 0 ? blocking.map((test) => test.fullName) : undefined,
+      flakyTests: flaky.length > 0 ? flaky.map((test) => test.fullName) : undefined,
+      tests,
+    };
+  }
+
+  /**
+   * Parse Jest output from JSON file. A missing or unreadable report (Jest
+   * crashed or never started) is a failed run.
    */
-  private async parseJestOutputFromFile(outputFile: string, stdout: string, stderr: string): Promise<TestResult> {
+  private async parseJestOutputFromFile(
+    outputFile: string,
+    type: TestCaseResult['type'],
+    stdout: string,
+    stderr: string
+  ): Promise<TestResult> {
     try {
       // Read JSON from file
       const fileContent = await fs.promises.readFile(outputFile, 'utf-8');
@@ -260,59 +715,22 @@ export class TestRunner {
         totalTests: data.numTotalTests || 0,
         output: stdout,
         errors: data.success ? undefined : stderr,
+        failedTests: collectJestFailures(data),
+        tests: collectJestTests(data, type, this.projectRoot),
         duration: 0, // Will be set by caller
       };
     } catch (e) {
-      // Fallback to parsing stdout if file read fails
-      console.warn('Failed to read test results file, falling back to stdout parsing:', e);
-      return this.parseJestOutput(stdout, stderr);
-    }
-  }
-
-  /**
-   * Parse Jest output
-   */
-  private parseJestOutput(stdout: string, stderr: string): TestResult {
-    try {
-      // Try to parse JSON output
-      const lines = stdout.split('\n');
-      const jsonLine = lines.find(line => line.trim().startsWith('{'));
-
-      if (jsonLine) {
-        const data = JSON.parse(jsonLine);
-
-        return {
-          success: data.success || false,
-          testsPassed: data.numPassedTests || 0,
-          testsFailed: data.numFailedTests || 0,
-          totalTests: data.numTotalTests || 0,
-          output: stdout,
-          errors: data.success ? undefined : stderr,
-          duration: 0, // Will be set by caller
-        };
-      }
-    } catch (e) {
-      // Fallback to manual parsing if JSON parsing fails
+      console.warn(`Failed to read the Jest report ${path.basename(outputFile)}:`, e);
+      return {
+        success: false,
+        testsPassed: 0,
+        testsFailed: 0,
+        totalTests: 0,
+        output: stdout,
+        errors: `Jest did not write a test report (${path.basename(outputFile)})${stderr ? `\n${stderr}` : ''}`,
+        duration: 0,
+      };
     }
-
-    // Fallback: parse text output
-    const passedMatch = stdout.match(/(\d+) passed/);
-    const failedMatch = stdout.match(/(\d+) failed/);
-    const totalMatch = stdout.match(/(\d+) total/);
-
-    const passed = passedMatch ? parseInt(passedMatch[1]) : 0;
-    const failed = failedMatch ? parseInt(failedMatch[1]) : 0;
-    const total = totalMatch ? parseInt(totalMatch[1]) : passed + failed;
-
-    return {
-      success: failed === 0 && total > 0,
-      testsPassed: passed,
-      testsFailed: failed,
-      totalTests: total,
-      output: stdout,
-      errors: failed > 0 ? stderr : undefined,
-      duration: 0,
-    };
   }
 
   /**
@@ -320,16 +738,14 @@ export class TestRunner {
    */
   private parsePlaywrightOutput(stdout: string, stderr: string): TestResult {
     try {
-      // Playwright JSON format
-      const data = JSON.parse(stdout);
-
-      const passed = data.suites?.reduce((sum: number, suite: any) => {
-        return sum + (suite.specs?.filter((s: any) => s.ok).length || 0);
-      }, 0) || 0;
+      // Playwright JSON format (npm prints the script name before it)
+      const data = JSON.parse(stdout.slice(stdout.indexOf('{')));
 
-      const failed = data.suites?.reduce((sum: number, suite: any) => {
-        return sum + (suite.specs?.filter((s: any) => !s.ok).length || 0);
-      }, 0) || 0;
+      // Specs sit in file suites and any describe suites nested in them
+      const tests = collectPlaywrightTests(data);
+      const flaky = tests.filter((test) => test.status === 'flaky').map((test) => test.fullName);
+      const passed = tests.filter((test) => test.status === 'passed').length + flaky.length;
+      const failed = tests.filter((test) => test.status === 'failed').length;
 
       return {
         success: failed === 0 && passed > 0,
@@ -338,6 +754,9 @@ export class TestRunner {
         totalTests: passed + failed,
         output: stdout,
         errors: failed > 0 ? stderr : undefined,
+        failedTests: failed > 0 ? tests.filter((test) => test.status === 'failed').map((test) => test.fullName) : undefined,
+        flakyTests: flaky.length > 0 ? flaky : undefined,
+        tests,
         duration: 0,
       };
     } catch (e) {
@@ -355,24 +774,34 @@ export class TestRunner {
   }
 
   /**
-   * Parse coverage data from Jest coverage report
+   * Parse the unit suite's coverage (coverage/unit/coverage-final.json): the
+   * totals, the line coverage of each file, and the times each line ran
    */
-  private async parseCoverage(): Promise<CoverageResult | undefined> {
+  private async parseCoverage(): Promise<
+    { coverage: CoverageResult; lineHits: Record<string, Record<number, number>> } | undefined
+  > {
     try {
-      const fs = await import('fs/promises');
-      const path = await import('path');
+      const coveragePath = path.join(this.projectRoot, 'coverage', 'unit', 'coverage-final.json');
+      const report: IstanbulCoverageReport = JSON.parse(await fs.promises.readFile(coveragePath, 'utf-8'));
 
-      // Read coverage summary
-      const coveragePath = path.join(process.cwd(), 'coverage', 'coverage-summary.json');
-      const coverageData = await fs.readFile(coveragePath, 'utf-8');
-      const coverage = JSON.parse(coverageData);
+      const lineHits = collectLineHits(report, this.projectRoot);
+      const files: Record<string, FileCoverage> = {};
+      for (const [file, hits] of Object.entries(lineHits)) {
+        const counts = Object.values(hits);
+        files[file] = { covered: counts.filter((count) => count > 0).length, total: counts.length };
+      }
 
-      const total = coverage.total;
+      const fileReports = Object.values(report);
+      const pct = (covered: number, total: number) => (total === 0 ? 100 : Math.round((covered / total) * 10000) / 100);
+      const ratio = (counts: number[]) => pct(counts.filter((count) => count > 0).length, counts.length);
 
-      const lines = total.lines?.pct || 0;
-      const statements = total.statements?.pct || 0;
-      const functions = total.functions?.pct || 0;
-      const branches = total.branches?.pct || 0;
+      const lines = pct(
+        Object.values(files).reduce((sum, file) => sum + file.covered, 0),
+        Object.values(files).reduce((sum, file) => sum + file.total, 0)
+      );
+      const statements = ratio(fileReports.flatMap((file) => Object.values(file.s || {})));
+      const functions = ratio(fileReports.flatMap((file) => Object.values(file.f || {})));
+      const branches = ratio(fileReports.flatMap((file) => Object.values(file.b || {}).flat()));
 
       const threshold = this.config.coverageThreshold || 70;
       const meetsThreshold =
@@ -382,11 +811,15 @@ export class TestRunner {
         branches >= threshold;
 
       return {
-        lines,
-        statements,
-        functions,
-        branches,
-        meetsThreshold,
+        coverage: {
+          lines,
+          statements,
+          functions,
+          branches,
+          meetsThreshold,
+          files,
+        },
+        lineHits,
       };
     } catch (error) {
       console.warn('Could not parse coverage data:', error);
@@ -395,6 +828,433 @@ export class TestRunner {
   }
 }
 
+/**
+ * Identity of a test across runs: its file and full name
+ */
+export function testKey(test: Pick<TestCaseResult, 'file' | 'fullName'>): string {
+  return `${test.file || ''} › ${test.fullName}`;
+}
+
+/**
+ * Quote an argument for the shell
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Escape a string for use as a literal in a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Result of a Jest suite none of the selected test files belong to
+ */
+function noSelectedTests(): TestResult {
+  return { success: true, testsPassed: 0, testsFailed: 0, totalTests: 0, output: 'No selected test files', duration: 0 };
+}
+
+/**
+ * Stage that did not run
+ */
+function skippedStage(name: StageResult['name'], policy: GatePolicy, summary: string): StageResult {
+  return { name, policy, status: 'skipped', summary, duration: 0 };
+}
+
+/**
+ * Describe a failed stage for `errors` and repair prompts:
+ * lint errors one per line, or the tail of the build output
+ */
+export function formatStage(stage: StageResult): string {
+  const lines = [`${stage.name}: ${stage.summary}`];
+
+  for (const message of stage.messages || []) {
+    if (message.severity === 'error') {
+      lines.push(`${message.file}(${message.line},${message.column}): ${message.message}${message.ruleId ? ` [${message.ruleId}]` : ''}`);
+    }
+  }
+
+  for (const file of stage.coverage?.files || []) {
+    if (file.gated && file.uncoveredLines.length > 0) {
+      lines.push(`${file.file}: lines ${formatLineRanges(file.uncoveredLines)} are not covered by any test`);
+    }
+  }
+
+  if (stage.output) {
+    lines.push(stage.output);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Istanbul coverage-final.json (only the fields read here), keyed by absolute path
+ */
+type IstanbulCoverageReport = Record<
+  string,
+  {
+    statementMap?: Record<string, { start: { line: number } }>;
+    s?: Record<string, number>;
+    f?: Record<string, number>;
+    b?: Record<string, number[]>;
+  }
+>;
+
+/**
+ * Times each line ran, by file relative to the project root. A line's count
+ * is that of the most-run statement starting on it, as Istanbul's own line
+ * coverage; lines without statements are left out.
+ */
+export function collectLineHits(
+  report: IstanbulCoverageReport,
+  projectRoot: string
+): Record<string, Record<number, number>> {
+  const files: Record<string, Record<number, number>> = {};
+
+  for (const [file, coverage] of Object.entries(report)) {
+    const hits: Record<number, number> = {};
+    for (const [id, statement] of Object.entries(coverage.statementMap || {})) {
+      const count = coverage.s?.[id] || 0;
+      hits[statement.start.line] = Math.max(hits[statement.start.line] ?? 0, count);
+    }
+    files[path.relative(projectRoot, file).split(path.sep).join('/')] = hits;
+  }
+
+  return files;
+}
+
+/**
+ * Coverage of the changed lines of each file. Files under COVERAGE_GATE_PATHS
+ * make up the totals; `before` and `after` add each file's whole coverage.
+ */
+export function changedLineCoverage(
+  changedLines: Record<string, number[]>,
+  lineHits: Record<string, Record<number, number>>,
+  options: { minimum: number; before?: Record<string, FileCoverage>; after?: Record<string, FileCoverage> }
+): ChangedCoverage {
+  const percent = (coverage?: FileCoverage) =>
+    coverage && coverage.total > 0 ? Math.round((coverage.covered / coverage.total) * 1000) / 10 : null;
+  const files: ChangedFileCoverage[] = [];
+
+  for (const [file, lines] of Object.entries(changedLines)) {
+    const hits = lineHits[file];
+    const executable = hits ? lines.filter((line) => hits[line] !== undefined) : [];
+    if (executable.length === 0) {
+      continue;
+    }
+
+    const uncoveredLines = executable.filter((line) => hits[line] === 0);
+    files.push({
+      file,
+      changed: executable.length,
+      covered: executable.length - uncoveredLines.length,
+      uncoveredLines,
+      before: percent(options.before?.[file]),
+      after: percent(options.after?.[file]),
+      gated: COVERAGE_GATE_PATHS.some((prefix) => file.startsWith(prefix)),
+    });
+  }
+
+  const gated = files.filter((file) => file.gated);
+  const changed = gated.reduce((sum, file) => sum + file.changed, 0);
+  const covered = gated.reduce((sum, file) => sum + file.covered, 0);
+
+  return {
+    minimum: options.minimum,
+    baseline: options.before !== undefined,
+    changed,
+    covered,
+    percent: changed > 0 ? Math.round((covered / changed) * 1000) / 10 : null,
+    files,
+  };
+}
+
+/**
+ * Line numbers as ranges, e.g. "3, 7-9"
+ */
+function formatLineRanges(lines: number[]): string {
+  const ranges: string[] = [];
+  let start = lines[0];
+
+  for (let i = 1; i <= lines.length; i++) {
+    if (lines[i] !== lines[i - 1] + 1) {
+      const end = lines[i - 1];
+      ranges.push(start === end ? `${start}` : `${start}-${end}`);
+      start = lines[i];
+    }
+  }
+
+  return ranges.join(', ');
+}
+
+/**
+ * Jest JSON report (only the fields read here)
+ */
+interface JestJsonReport {
+  testResults?: Array<{
+    name?: string;
+    status?: string;
+    message?: string; // Why the file failed, e.g. a syntax error before any test ran
+    assertionResults?: Array<{
+      ancestorTitles?: string[];
+      fullName?: string;
+      title?: string;
+      status?: string;
+      duration?: number | null;
+      failureMessages?: string[];
+    }>;
+  }>;
+}
+
+/**
+ * Collect the full names of failing tests from a Jest JSON report
+ */
+export function collectJestFailures(report: JestJsonReport): string[] {
+  const failures: string[] = [];
+
+  for (const file of report.testResults || []) {
+    for (const assertion of file.assertionResults || []) {
+      if (assertion.status === 'failed') {
+        failures.push(assertion.fullName || assertion.title || file.name || 'unknown test');
+      }
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * List every test of a Jest JSON report. A file that failed before running any
+ * test (e.g. it does not compile) is listed as one failed test.
+ */
+export function collectJestTests(
+  report: JestJsonReport,
+  type: TestCaseResult['type'],
+  projectRoot: string
+): TestCaseResult[] {
+  const tests: TestCaseResult[] = [];
+
+  for (const file of report.testResults || []) {
+    const relativeFile = file.name ? path.relative(projectRoot, file.name).split(path.sep).join('/') : null;
+    const assertions = file.assertionResults || [];
+
+    if (assertions.length === 0 && file.status === 'failed') {
+      tests.push({
+        type,
+        file: relativeFile,
+        suite: '',
+        name: SUITE_FAILED,
+        fullName: `${relativeFile || 'unknown file'}: ${SUITE_FAILED}`,
+        status: 'failed',
+        duration: null,
+        ...splitFailure(file.message || ''),
+      });
+      continue;
+    }
+
+    for (const assertion of assertions) {
+      const name = assertion.title || assertion.fullName || 'unknown test';
+      const status = assertion.status === 'passed' ? 'passed' : assertion.status === 'failed' ? 'failed' : 'skipped';
+
+      tests.push({
+        type,
+        file: relativeFile,
+        suite: (assertion.ancestorTitles || []).join(' › '),
+        name,
+        fullName: assertion.fullName || name,
+        status,
+        duration: assertion.duration ?? null,
+        ...(status === 'failed' && splitFailure((assertion.failureMessages || []).join('\n\n'))),
+      });
+    }
+  }
+
+  return tests;
+}
+
+/**
+ * Playwright JSON report (only the fields read here). Top-level suites are
+ * files; `describe` blocks are suites nested in them, to any depth.
+ */
+interface PlaywrightJsonReport {
+  suites?: PlaywrightSuite[];
+}
+
+interface PlaywrightSuite {
+  title?: string;
+  file?: string;
+  specs?: Array<{
+    title?: string;
+    file?: string;
+    ok?: boolean;
+    tests?: PlaywrightTest[];
+  }>;
+  suites?: PlaywrightSuite[];
+}
+
+/**
+ * A spec run in one project, with its retries in `results`
+ */
+interface PlaywrightTest {
+  projectName?: string;
+  expectedStatus?: string;
+  status?: string; // expected | unexpected | flaky | skipped
+  results?: Array<{ duration?: number; error?: { message?: string; stack?: string } }>;
+}
+
+/**
+ * List every test of a Playwright JSON report, one per spec and project.
+ * Tests Playwright reports as flaky (passed on its own retry) are flaky.
+ */
+export function collectPlaywrightTests(report: PlaywrightJsonReport): TestCaseResult[] {
+  const tests: TestCaseResult[] = [];
+
+  const walk = (suite: PlaywrightSuite, titles: string[]) => {
+    for (const spec of suite.specs || []) {
+      const name = spec.title || 'unknown test';
+      const file = spec.file || suite.file || null;
+      const runs: PlaywrightTest[] =
+        spec.tests && spec.tests.length > 0 ? spec.tests : [{ status: spec.ok ? 'expected' : 'unexpected' }];
+
+      for (const run of runs) {
+        const suiteTitles = run.projectName ? [run.projectName, ...titles] : titles;
+        const results = run.results || [];
+        const status =
+          run.status === 'unexpected'
+            ? 'failed'
+            : run.status === 'skipped' || run.expectedStatus === 'skipped'
+            ? 'skipped'
+            : run.status === 'flaky'
+            ? 'flaky'
+            : 'passed';
+        const error = results.filter((result) => result.error).pop()?.error;
+
+        tests.push({
+          type: 'e2e',
+          file,
+          suite: suiteTitles.join(' › '),
+          name,
+          fullName: [...suiteTitles, name].join(' › '),
+          status,
+          duration: results.length > 0 ? results.reduce((sum, result) => sum + (result.duration || 0), 0) : null,
+          ...(results.length > 1 && { attempts: results.length }),
+          ...(status === 'failed' && error && {
+            failureMessage: stripAnsi(error.message || '').trim() || splitFailure(error.stack || '').failureMessage,
+            stack: splitFailure(error.stack || '').stack,
+          }),
+        });
+      }
+    }
+
+    for (const child of suite.suites || []) {
+      walk(child, child.title ? [...titles, child.title] : titles);
+    }
+  };
+
+  // The file suite's title is its path, already kept in `file`
+  for (const fileSuite of report.suites || []) {
+    walk(fileSuite, []);
+  }
+
+  return tests;
+}
+
+/**
+ * Split a failure into its message and the stack trace below it
+ */
+function splitFailure(text: string): { failureMessage: string; stack?: string } {
+  const lines = stripAnsi(text).split('\n');
+  const stackStart = lines.findIndex((line) => /^\s+at /.test(line));
+
+  if (stackStart === -1) {
+    return { failureMessage: lines.join('\n').trim() };
+  }
+
+  return {
+    failureMessage: lines.slice(0, stackStart).join('\n').trim(),
+    stack: lines.slice(stackStart).map((line) => line.trim()).join('\n'),
+  };
+}
+
+/**
+ * Remove terminal colour codes (and other characters XML cannot hold)
+ */
+function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, '').replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+/**
+ * Escape text for an XML attribute or element
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Seconds with millisecond precision, as JUnit XML expects
+ */
+function junitTime(ms: number | null | undefined): string {
+  return ((ms || 0) / 1000).toFixed(3);
+}
+
+/**
+ * Export the tests of a run as JUnit XML, one <testsuite> per test file,
+ * for CI dashboards and other tools that read it
+ */
+export function toJUnitXml(result: Pick<TestResult, 'tests' | 'duration'>, name: string = 'DeboraAI'): string {
+  const tests = result.tests || [];
+  const files = new Map<string, TestCaseResult[]>();
+
+  for (const test of tests) {
+    const key = test.file || test.type;
+    files.set(key, [...(files.get(key) || []), test]);
+  }
+
+  const count = (list: TestCaseResult[], status: TestCaseResult['status']) =>
+    list.filter((test) => test.status === status).length;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(name)}" tests="${tests.length}" failures="${count(tests, 'failed')}" skipped="${count(tests, 'skipped')}" time="${junitTime(result.duration)}">`,
+  ];
+
+  for (const [file, fileTests] of files) {
+    const fileTime = fileTests.reduce((sum, test) => sum + (test.duration || 0), 0);
+    lines.push(
+      `  <testsuite name="${escapeXml(file)}" tests="${fileTests.length}" failures="${count(fileTests, 'failed')}" skipped="${count(fileTests, 'skipped')}" time="${junitTime(fileTime)}">`
+    );
+
+    for (const test of fileTests) {
+      const attributes = `classname="${escapeXml(test.suite || file)}" name="${escapeXml(test.name)}"${test.file ? ` file="${escapeXml(test.file)}"` : ''} time="${junitTime(test.duration)}"`;
+
+      if (test.status === 'failed') {
+        const body = [test.failureMessage, test.stack].filter(Boolean).join('\n');
+        lines.push(`    <testcase ${attributes}>`);
+        lines.push(`      <failure message="${escapeXml((test.failureMessage || 'Test failed').split('\n')[0])}">${escapeXml(body)}</failure>`);
+        lines.push('    </testcase>');
+      } else if (test.status === 'skipped') {
+        lines.push(`    <testcase ${attributes}>`);
+        lines.push('      <skipped/>');
+        lines.push('    </testcase>');
+      } else {
+        lines.push(`    <testcase ${attributes}/>`);
+      }
+    }
+
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
 /**
  * Convenience function to run all tests
  */
@@ -0,0 +1,28 @@
+import { TypeChecker, TypeCheckRequest, TypeCheckResponse } from './type-checker';
+
+/**
+ * Type check worker process
+ *
+ * Started by TypeChecker (with `worker: true`) with the project root as its
+ * argument. Runs checks for that project one at a time and keeps the program
+ * warm between them; exits when the parent disconnects.
+ */
+const checker = new TypeChecker(process.argv[2]);
+
+process.on('message', async (request: TypeCheckRequest) => {
+  let response: TypeCheckResponse;
+
+  try {
+    const result =
+      request.method === 'checkFiles'
+        ? await checker.checkFiles(...(request.args as Parameters<TypeChecker['checkFiles']>))
+        : await checker.findDependents(...(request.args as Parameters<TypeChecker['findDependents']>));
+    response = { id: request.id, result };
+  } catch (error) {
+    response = { id: request.id, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  process.send?.(response);
+});
+
+process.on('disconnect', () => process.exit(0));
@@ -0,0 +1,624 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fork, ChildProcess } from 'child_process';
+import * as ts from 'typescript';
+
+/**
+ * One compiler diagnostic. Lines and columns are 1-based; `file`, `line` and
+ * `column` are null for diagnostics not tied to a file (tsconfig errors).
+ */
+export interface TypeDiagnostic {
+  file: string | null; // Relative to the project root
+  line: number | null;
+  column: number | null;
+  code: number; // TS error code, e.g. 2322
+  category: 'error' | 'warning' | 'suggestion' | 'message';
+  message: string;
+}
+
+/**
+ * Type check outcome
+ */
+export interface TypeCheckResult {
+  success: boolean; // No error diagnostics
+  diagnostics: TypeDiagnostic[]; // With a baseline, only the ones the change introduced
+  checkedFiles: string[]; // Changed files and their dependents
+  preexistingErrors?: number; // Errors the baseline already had (left out of diagnostics)
+  duration: number;
+}
+
+export interface TypeCheckOptions {
+  overrides?: Record<string, string>; // Content to check instead of the file on disk, by path
+  baseline?: Record<string, string | null>; // Content of the changed files before the change (null = did not exist)
+}
+
+/**
+ * Request sent to a type check worker process (see type-check-worker.ts)
+ */
+export interface TypeCheckRequest {
+  id: number;
+  method: 'checkFiles' | 'findDependents';
+  args: unknown[];
+}
+
+/**
+ * Reply from a type check worker process
+ */
+export interface TypeCheckResponse {
+  id: number;
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * Extensions the type checker handles
+ */
+const TYPESCRIPT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts'];
+
+/**
+ * Directories whose files are never checked as dependents. `.next/types` is
+ * generated by `next build` and is stale until the next build.
+ */
+const IGNORE_DIRS = ['node_modules', '.next'];
+
+/**
+ * Sources of the worker process (the worker and this module, which it
+ * imports). Resolved from the working directory, which is the app root:
+ * bundled server code has no usable __dirname.
+ */
+const WORKER_SOURCES = ['type-check-worker.ts', 'type-checker.ts'].map((file) =>
+  path.join(process.cwd(), 'src/lib/code-modification', file)
+);
+
+/**
+ * Where the worker is compiled to. Inside node_modules, so its `typescript`
+ * import resolves to the app's copy.
+ */
+const WORKER_OUT_DIR = path.join(process.cwd(), 'node_modules', '.cache', 'type-check-worker');
+
+/**
+ * Whether a path is a TypeScript source file
+ */
+export function isTypeScriptFile(filePath: string): boolean {
+  return TYPESCRIPT_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Format a diagnostic the way tsc prints it, e.g.
+ * `src/app/page.tsx(12,5): error TS2322: Type 'string' is not assignable to type 'number'.`
+ */
+export function formatDiagnostic(diagnostic: TypeDiagnostic): string {
+  const location = diagnostic.file
+    ? `${diagnostic.file}${diagnostic.line !== null ? `(${diagnostic.line},${diagnostic.column})` : ''}: `
+    : '';
+  return `${location}${diagnostic.category} TS${diagnostic.code}: ${diagnostic.message}`;
+}
+
+/**
+ * Parse a single file and return its syntax errors, without type checking or
+ * resolving imports. JavaScript (ESM, CommonJS and JSX) is parsed as such, so
+ * TypeScript-only syntax in a .js file is reported too.
+ */
+export function checkSyntax(filePath: string, content: string): TypeDiagnostic[] {
+  const { diagnostics = [] } = ts.transpileModule(content, {
+    fileName: path.basename(filePath),
+    reportDiagnostics: true,
+    compilerOptions: {
+      allowJs: true,
+      jsx: ts.JsxEmit.Preserve,
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ESNext,
+    },
+  });
+
+  return diagnostics.map((diagnostic) => toTypeDiagnostic(diagnostic, filePath));
+}
+
+/**
+ * Convert a compiler diagnostic, reporting it against `file`
+ */
+function toTypeDiagnostic(diagnostic: ts.Diagnostic, file: string | null): TypeDiagnostic {
+  const position =
+    diagnostic.file && diagnostic.start !== undefined
+      ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+      : null;
+
+  return {
+    file,
+    line: position ? position.line + 1 : null,
+    column: position ? position.character + 1 : null,
+    code: diagnostic.code,
+    category: ts.DiagnosticCategory[diagnostic.category].toLowerCase() as TypeDiagnostic['category'],
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+  };
+}
+
+/**
+ * TypeChecker
+ *
+ * Type-checks changed files with the TypeScript language service instead of
+ * shelling out to tsc. The project's tsconfig.json is loaded as-is, so path
+ * aliases (`@/...`), JSX and strictness match `tsc --noEmit`.
+ *
+ * The program stays in memory between checks: unchanged files (including the
+ * lib and node_modules declarations) are not parsed again, and only the given
+ * files and the project files that import them, directly or through other
+ * files, are checked. Files are re-read when their mtime changes, and
+ * `overrides` checks content that is not on disk yet. `findDependents` walks
+ * the same import graph without checking, to select the tests to run.
+ *
+ * With a `baseline` (the changed files' previous content) the checked files
+ * are also checked as they were, and errors that were already there - in the
+ * changed files or their dependents - do not fail the check.
+ *
+ * The language service is synchronous, and a cold check of this project takes
+ * tens of seconds. Checkers created with `worker: true` (as getTypeChecker
+ * does) run the checks in a child process instead, where the program stays
+ * warm, so the server's event loop is not blocked.
+ *
+ * Usage:
+ * ```typescript
+ * const checker = getTypeChecker('/path/to/staging');
+ * const result = await checker.checkFiles(['src/lib/utils.ts']);
+ * result.diagnostics.forEach((d) => console.error(formatDiagnostic(d)));
+ * ```
+ */
+export class TypeChecker {
+  private projectRoot: string;
+  private config: ts.ParsedCommandLine | null = null;
+  private service: ts.LanguageService | null = null;
+  private overrides = new Map<string, string | null>(); // Absolute path -> content (null = hidden)
+  private overrideVersion = 0;
+  private imports = new Map<string, { version: string; specifiers: string[] }>();
+  private worker: TypeCheckWorker | null;
+
+  constructor(projectRoot: string, options: { worker?: boolean } = {}) {
+    this.projectRoot = path.resolve(projectRoot);
+    this.worker = options.worker ? new TypeCheckWorker(this.projectRoot) : null;
+  }
+
+  /**
+   * Check `files` (relative or absolute; deleted files check their importers)
+   * and every project file that depends on them
+   */
+  async checkFiles(files: string[], options: TypeCheckOptions = {}): Promise<TypeCheckResult> {
+    if (this.worker) {
+      return this.worker.request('checkFiles', [files, options]) as Promise<TypeCheckResult>;
+    }
+
+    const startTime = Date.now();
+
+    this.setOverrides(options.overrides || {});
+
+    try {
+      const config = this.loadConfig();
+      const targets = this.collectTargets(this.getProgram(), config.options, files.map((file) => this.toAbsolute(file)));
+      let diagnostics = this.diagnose(config, targets);
+      let preexistingErrors: number | undefined;
+
+      if (options.baseline) {
+        this.setOverrides({ ...options.overrides, ...options.baseline });
+        const before = this.diagnose(config, targets.filter((file) => this.fileExists(file)));
+        const { introduced, existing } = subtractDiagnostics(diagnostics, before);
+        diagnostics = introduced;
+        preexistingErrors = existing.filter((diagnostic) => diagnostic.category === 'error').length;
+      }
+
+      return {
+        success: !diagnostics.some((diagnostic) => diagnostic.category === 'error'),
+        diagnostics,
+        checkedFiles: targets.map((file) => this.toRelative(file)),
+        ...(preexistingErrors !== undefined && { preexistingErrors }),
+        duration: Date.now() - startTime,
+      };
+    } finally {
+      this.setOverrides({});
+    }
+  }
+
+  /**
+   * Project files that import `files`, directly or through other files, plus
+   * the files themselves (relative paths, sorted). Nothing is type-checked.
+   */
+  async findDependents(files: string[]): Promise<string[]> {
+    if (this.worker) {
+      return this.worker.request('findDependents', [files]) as Promise<string[]>;
+    }
+
+    const config = this.loadConfig();
+    const program = this.getService().getProgram();
+    if (!program) {
+      throw new Error('Failed to create the TypeScript program');
+    }
+
+    return this.collectTargets(program, config.options, files.map((file) => this.toAbsolute(file))).map((file) =>
+      this.toRelative(file)
+    );
+  }
+
+  /**
+   * Replace the content overrides (by path; null hides a file on disk)
+   */
+  private setOverrides(overrides: Record<string, string | null>): void {
+    if (this.overrides.size === 0 && Object.keys(overrides).length === 0) {
+      return;
+    }
+
+    this.overrides.clear();
+    this.overrideVersion++;
+    for (const [file, content] of Object.entries(overrides)) {
+      this.overrides.set(this.toAbsolute(file), content);
+    }
+  }
+
+  /**
+   * tsconfig errors plus the syntactic and semantic diagnostics of `files`
+   */
+  private diagnose(config: ts.ParsedCommandLine, files: string[]): TypeDiagnostic[] {
+    const service = this.getService();
+    const diagnostics = config.errors.map((diagnostic) => this.toDiagnostic(diagnostic));
+
+    for (const file of files) {
+      for (const diagnostic of [...service.getSyntacticDiagnostics(file), ...service.getSemanticDiagnostics(file)]) {
+        diagnostics.push(this.toDiagnostic(diagnostic));
+      }
+    }
+
+    return diagnostics;
+  }
+
+  private getProgram(): ts.Program {
+    const program = this.getService().getProgram();
+    if (!program) {
+      throw new Error('Failed to create the TypeScript program');
+    }
+    return program;
+  }
+
+  /**
+   * Parse tsconfig.json again, so new files matching `include` are picked up
+   */
+  private loadConfig(): ts.ParsedCommandLine {
+    const configPath = path.join(this.projectRoot, 'tsconfig.json');
+
+    if (!ts.sys.fileExists(configPath)) {
+      this.config = {
+        options: { strict: true, noEmit: true, skipLibCheck: true, jsx: ts.JsxEmit.Preserve },
+        fileNames: [],
+        errors: [],
+      };
+      return this.config;
+    }
+
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) {
+      throw new Error(`Invalid tsconfig.json: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+    }
+
+    const parsed = ts.parseJsonConfigFileContent(config, ts.sys, this.projectRoot, { noEmit: true }, configPath);
+    this.config = {
+      ...parsed,
+      // "No inputs were found" just means nothing matched `include` yet
+      errors: parsed.errors.filter((diagnostic) => diagnostic.code !== 18003),
+    };
+    return this.config;
+  }
+
+  private getConfig(): ts.ParsedCommandLine {
+    return this.config || this.loadConfig();
+  }
+
+  /**
+   * Language service over the project, created once and kept warm
+   */
+  private getService(): ts.LanguageService {
+    if (!this.service) {
+      const host: ts.LanguageServiceHost = {
+        getScriptFileNames: () => {
+          const fileNames = new Set(this.getConfig().fileNames);
+          this.overrides.forEach((content, file) => (content === null ? fileNames.delete(file) : fileNames.add(file)));
+          return Array.from(fileNames);
+        },
+        getScriptVersion: (file) => this.getScriptVersion(file),
+        getScriptSnapshot: (file) => {
+          const content = this.readFile(file);
+          return content === undefined ? undefined : ts.ScriptSnapshot.fromString(content);
+        },
+        getCurrentDirectory: () => this.projectRoot,
+        getCompilationSettings: () => this.getConfig().options,
+        getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+        fileExists: (file) => this.fileExists(file),
+        readFile: (file) => this.readFile(file),
+        readDirectory: ts.sys.readDirectory,
+        directoryExists: ts.sys.directoryExists,
+        getDirectories: ts.sys.getDirectories,
+      };
+
+      this.service = ts.createLanguageService(host, ts.createDocumentRegistry());
+    }
+
+    return this.service;
+  }
+
+  /**
+   * The changed files plus, transitively, the project files importing them
+   */
+  private collectTargets(program: ts.Program, options: ts.CompilerOptions, changed: string[]): string[] {
+    const projectFiles = program.getSourceFiles().filter((sourceFile) => this.isProjectFile(sourceFile.fileName));
+    const importers = new Map<string, Set<string>>(); // File -> files importing it
+    const missing: Array<{ importer: string; candidate: string }> = []; // Imports that no longer resolve
+
+    for (const sourceFile of projectFiles) {
+      for (const specifier of this.getImports(sourceFile)) {
+        const resolved = ts.resolveModuleName(specifier, sourceFile.fileName, options, {
+          fileExists: (file) => this.fileExists(file),
+          readFile: (file) => this.readFile(file),
+        }).resolvedModule;
+
+        if (resolved) {
+          const file = path.resolve(resolved.resolvedFileName);
+          if (!importers.has(file)) {
+            importers.set(file, new Set());
+          }
+          importers.get(file)!.add(sourceFile.fileName);
+        } else {
+          const candidate = this.candidatePath(specifier, sourceFile.fileName, options);
+          if (candidate) {
+            missing.push({ importer: sourceFile.fileName, candidate });
+          }
+        }
+      }
+    }
+
+    const inProgram = new Set(projectFiles.map((sourceFile) => sourceFile.fileName));
+    const targets = new Set<string>();
+    const queue: string[] = [];
+
+    for (const file of changed) {
+      if (inProgram.has(file)) {
+        queue.push(file);
+      } else if (!this.fileExists(file)) {
+        // Deleted: whoever still imports it must be checked
+        const stem = file.replace(/\.[^/.]+$/, '');
+        missing
+          .filter(({ candidate }) => candidate === stem || (candidate === path.dirname(file) && path.basename(stem) === 'index'))
+          .forEach(({ importer }) => queue.push(importer));
+      }
+    }
+
+    while (queue.length > 0) {
+      const file = queue.shift()!;
+      if (targets.has(file)) {
+        continue;
+      }
+      targets.add(file);
+      importers.get(file)?.forEach((importer) => queue.push(importer));
+    }
+
+    return Array.from(targets).sort();
+  }
+
+  /**
+   * Module specifiers imported by a file, cached until the file changes
+   */
+  private getImports(sourceFile: ts.SourceFile): string[] {
+    const version = this.getScriptVersion(sourceFile.fileName);
+    const cached = this.imports.get(sourceFile.fileName);
+    if (cached && cached.version === version) {
+      return cached.specifiers;
+    }
+
+    const specifiers = ts.preProcessFile(sourceFile.text, true, true).importedFiles.map((file) => file.fileName);
+    this.imports.set(sourceFile.fileName, { version, specifiers });
+    return specifiers;
+  }
+
+  /**
+   * Where an unresolved relative or path-mapped import points (without extension)
+   */
+  private candidatePath(specifier: string, importer: string, options: ts.CompilerOptions): string | null {
+    if (specifier.startsWith('.')) {
+      return path.resolve(path.dirname(importer), specifier);
+    }
+
+    const baseDir = options.baseUrl || this.projectRoot;
+    for (const [pattern, targets] of Object.entries(options.paths || {})) {
+      if (targets.length === 0) {
+        continue;
+      }
+      if (pattern.endsWith('*') && specifier.startsWith(pattern.slice(0, -1))) {
+        return path.resolve(baseDir, targets[0].replace('*', specifier.slice(pattern.length - 1))).replace(/\.[^/.]+$/, '');
+      }
+      if (pattern === specifier) {
+        return path.resolve(baseDir, targets[0]).replace(/\.[^/.]+$/, '');
+      }
+    }
+
+    return null;
+  }
+
+  private getScriptVersion(file: string): string {
+    if (this.overrides.has(file)) {
+      return `override:${this.overrideVersion}`;
+    }
+
+    try {
+      const stats = fs.statSync(file);
+      return `${stats.mtimeMs}:${stats.size}`;
+    } catch {
+      return 'missing';
+    }
+  }
+
+  private fileExists(file: string): boolean {
+    return this.overrides.has(file) ? this.overrides.get(file) !== null : ts.sys.fileExists(file);
+  }
+
+  private readFile(file: string): string | undefined {
+    return this.overrides.has(file) ? (this.overrides.get(file) ?? undefined) : ts.sys.readFile(file);
+  }
+
+  private isProjectFile(file: string): boolean {
+    const relative = path.relative(this.projectRoot, file);
+    return (
+      !relative.startsWith('..') &&
+      !path.isAbsolute(relative) &&
+      !relative.split(path.sep).some((part) => IGNORE_DIRS.includes(part))
+    );
+  }
+
+  private toDiagnostic(diagnostic: ts.Diagnostic): TypeDiagnostic {
+    return toTypeDiagnostic(diagnostic, diagnostic.file ? this.toRelative(diagnostic.file.fileName) : null);
+  }
+
+  private toAbsolute(file: string): string {
+    return path.resolve(this.projectRoot, file);
+  }
+
+  private toRelative(file: string): string {
+    return path.relative(this.projectRoot, file).split(path.sep).join('/');
+  }
+}
+
+/**
+ * Split `after` into the diagnostics that are not in `before` and the ones
+ * that are. Diagnostics match by file, code and message, not position, since
+ * the change moves lines around.
+ */
+function subtractDiagnostics(
+  after: TypeDiagnostic[],
+  before: TypeDiagnostic[]
+): { introduced: TypeDiagnostic[]; existing: TypeDiagnostic[] } {
+  const key = (diagnostic: TypeDiagnostic) => `${diagnostic.file}|${diagnostic.code}|${diagnostic.message}`;
+  const remaining = new Map<string, number>();
+  before.forEach((diagnostic) => remaining.set(key(diagnostic), (remaining.get(key(diagnostic)) || 0) + 1));
+
+  const introduced: TypeDiagnostic[] = [];
+  const existing: TypeDiagnostic[] = [];
+  for (const diagnostic of after) {
+    const count = remaining.get(key(diagnostic)) || 0;
+    if (count > 0) {
+      remaining.set(key(diagnostic), count - 1);
+      existing.push(diagnostic);
+    } else {
+      introduced.push(diagnostic);
+    }
+  }
+
+  return { introduced, existing };
+}
+
+/**
+ * Child process running a TypeChecker for one project (type-check-worker.ts).
+ * Started on the first request and again after it exits; it does not keep
+ * the server process alive while idle.
+ */
+class TypeCheckWorker {
+  private projectRoot: string;
+  private child: ChildProcess | null = null;
+  private nextId = 0;
+  private pending = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+
+  constructor(projectRoot: string) {
+    this.projectRoot = projectRoot;
+  }
+
+  request(method: TypeCheckRequest['method'], args: unknown[]): Promise<unknown> {
+    const child = this.start();
+    const id = ++this.nextId;
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      child.channel?.ref();
+      child.send({ id, method, args } satisfies TypeCheckRequest);
+    });
+  }
+
+  private start(): ChildProcess {
+    if (this.child) {
+      return this.child;
+    }
+
+    // Without the server's Node.js flags (such as --inspect)
+    const child = fork(compileWorker(), [this.projectRoot], { execArgv: [] });
+
+    child.on('message', (response: TypeCheckResponse) => {
+      const request = this.pending.get(response.id);
+      this.pending.delete(response.id);
+      if (this.pending.size === 0) {
+        child.channel?.unref();
+      }
+
+      if (response.error !== undefined) {
+        request?.reject(new Error(response.error));
+      } else {
+        request?.resolve(response.result);
+      }
+    });
+
+    const fail = (error: Error) => {
+      if (this.child === child) {
+        this.child = null;
+      }
+      this.pending.forEach((request) => request.reject(error));
+      this.pending.clear();
+    };
+    child.on('error', fail);
+    child.on('exit', (code, signal) => fail(new Error(`Type check process exited (${signal || `code ${code}`})`)));
+
+    child.unref();
+    child.channel?.unref();
+    this.child = child;
+    return child;
+  }
+}
+
+/**
+ * Compile the worker sources to CommonJS so the worker runs on plain Node.js,
+ * and return the entry point. Each file is written under a temporary name and
+ * renamed, so a worker started by another process never loads a partial file.
+ */
+function compileWorker(): string {
+  fs.mkdirSync(WORKER_OUT_DIR, { recursive: true });
+
+  for (const source of WORKER_SOURCES) {
+    const { outputText } = ts.transpileModule(fs.readFileSync(source, 'utf-8'), {
+      fileName: source,
+      compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+    });
+    const output = path.join(WORKER_OUT_DIR, `${path.basename(source, '.ts')}.js`);
+    fs.writeFileSync(`${output}.${process.pid}`, outputText);
+    fs.renameSync(`${output}.${process.pid}`, output);
+  }
+
+  return path.join(WORKER_OUT_DIR, 'type-check-worker.js');
+}
+
+/**
+ * Process-wide checkers, one per project, so the program stays warm between
+ * jobs. Stored on the Node.js global object to survive hot reloads in dev.
+ */
+declare global {
+  var typeCheckers: Map<string, TypeChecker> | undefined;
+}
+
+const checkers: Map<string, TypeChecker> = global.typeCheckers || new Map();
+
+if (!global.typeCheckers) {
+  global.typeCheckers = checkers;
+}
+
+/**
+ * Get the shared type checker for a project
+ */
+export function getTypeChecker(projectRoot: string): TypeChecker {
+  const root = path.resolve(projectRoot);
+  let checker = checkers.get(root);
+
+  if (!checker) {
+    checker = new TypeChecker(root, { worker: true });
+    checkers.set(root, checker);
+  }
+
+  return checker;
+}
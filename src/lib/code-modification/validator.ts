@@ -2,6 +2,7 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import * as path from 'path';
 import { promises as fs } from 'fs';
+import { getTypeChecker, checkSyntax, formatDiagnostic, TypeDiagnostic } from './type-checker';
 
 const execAsync = promisify(exec);
 
@@ -14,6 +15,7 @@ export interface ValidationResult {
   type: 'typescript' | 'json' | 'prisma' | 'javascript' | 'other';
   errors?: string[];
   warnings?: string[];
+  diagnostics?: TypeDiagnostic[]; // Structured compiler diagnostics (TypeScript and JavaScript)
 }
 
 /**
@@ -22,10 +24,10 @@ export interface ValidationResult {
  * Validates code before applying changes to prevent syntax errors and broken code.
  *
  * Supports:
- * - TypeScript syntax and type checking
+ * - TypeScript syntax and type checking (in-memory, see TypeChecker)
  * - JSON format validation
  * - Prisma schema validation
- * - Basic JavaScript syntax
+ * - JavaScript syntax (ESM, CommonJS and JSX)
  *
  * Usage:
  * ```typescript
@@ -56,6 +58,8 @@ export class Validator {
 
       case '.js':
       case '.jsx':
+      case '.mjs':
+      case '.cjs':
         return this.validateJavaScript(filePath, content);
 
       case '.json':
@@ -76,65 +80,27 @@ export class Validator {
   }
 
   /**
-   * Validate TypeScript syntax and types
+   * Validate TypeScript syntax and types.
+   *
+   * The content is checked in memory against the project's tsconfig, together
+   * with the files that import it, without writing anything to disk.
    */
   async validateTypeScript(filePath: string, content: string): Promise<ValidationResult> {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-
     try {
-      // Basic syntax check using TypeScript compiler API would be ideal,
-      // but for simplicity, we'll write to temp file and use tsc --noEmit
-      // Preserve file extension (ts vs tsx) for proper JSX parsing
-      const ext = path.extname(filePath);
-      const tempFile = path.join(this.projectRoot, `.tmp_validation${ext}`);
-
-      try {
-        await fs.writeFile(tempFile, content, 'utf-8');
-
-        // Run TypeScript compiler check
-        const { stdout, stderr } = await execAsync(
-          `npx tsc --noEmit --skipLibCheck --jsx preserve ${tempFile}`,
-          {
-            cwd: this.projectRoot,
-            timeout: 10000,
-          }
-        );
-
-        if (stderr && !stderr.includes('error TS')) {
-          warnings.push(stderr);
-        }
-
-        // Clean up temp file
-        await fs.unlink(tempFile).catch(() => {});
-
-        return {
-          valid: true,
-          filePath,
-          type: 'typescript',
-          warnings: warnings.length > 0 ? warnings : undefined,
-        };
-      } catch (error: any) {
-        // Clean up temp file
-        await fs.unlink(tempFile).catch(() => {});
+      const result = await getTypeChecker(this.projectRoot).checkFiles([filePath], {
+        overrides: { [filePath]: content },
+      });
+      const errors = result.diagnostics.filter((diagnostic) => diagnostic.category === 'error');
+      const warnings = result.diagnostics.filter((diagnostic) => diagnostic.category !== 'error');
 
-        // Parse TypeScript errors
-        if (error.stdout) {
-          const errorLines = error.stdout.split('\n').filter((line: string) => line.includes('error TS'));
-          errors.push(...errorLines);
-        }
-
-        if (errors.length === 0 && error.message) {
-          errors.push(error.message);
-        }
-
-        return {
-          valid: false,
-          filePath,
-          type: 'typescript',
-          errors,
-        };
-      }
+      return {
+        valid: result.success,
+        filePath,
+        type: 'typescript',
+        errors: errors.length > 0 ? errors.map(formatDiagnostic) : undefined,
+        warnings: warnings.length > 0 ? warnings.map(formatDiagnostic) : undefined,
+        diagnostics: result.diagnostics,
+      };
     } catch (error) {
       return {
         valid: false,
@@ -146,49 +112,20 @@ export class Validator {
   }
 
   /**
-   * Validate JavaScript syntax
+   * Validate JavaScript syntax (ESM, CommonJS and JSX) by parsing it with the
+   * TypeScript compiler. Only syntax is checked - JavaScript is not type-checked.
    */
   async validateJavaScript(filePath: string, content: string): Promise<ValidationResult> {
     try {
-      // Basic syntax check by trying to parse as JavaScript
-      // In Node.js, we can use vm.Script or eval (with caution)
-      // For safety, we'll use a simple regex-based check
-
-      // Check for common syntax errors
-      const errors: string[] = [];
-
-      // Check for unmatched brackets
-      const openBraces = (content.match(/{/g) || []).length;
-      const closeBraces = (content.match(/}/g) || []).length;
-      if (openBraces !== closeBraces) {
-        errors.push(`Unmatched braces: ${openBraces} open, ${closeBraces} close`);
-      }
-
-      const openParens = (content.match(/\(/g) || []).length;
-      const closeParens = (content.match(/\)/g) || []).length;
-      if (openParens !== closeParens) {
-        errors.push(`Unmatched parentheses: ${openParens} open, ${closeParens} close`);
-      }
-
-      const openBrackets = (content.match(/\[/g) || []).length;
-      const closeBrackets = (content.match(/\]/g) || []).length;
-      if (openBrackets !== closeBrackets) {
-        errors.push(`Unmatched brackets: ${openBrackets} open, ${closeBrackets} close`);
-      }
-
-      if (errors.length > 0) {
-        return {
-          valid: false,
-          filePath,
-          type: 'javascript',
-          errors,
-        };
-      }
+      const diagnostics = checkSyntax(filePath, content);
+      const errors = diagnostics.filter((diagnostic) => diagnostic.category === 'error');
 
       return {
-        valid: true,
+        valid: errors.length === 0,
         filePath,
         type: 'javascript',
+        errors: errors.length > 0 ? errors.map(formatDiagnostic) : undefined,
+        diagnostics,
       };
     } catch (error) {
       return {
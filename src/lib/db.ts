@@ -0,0 +1,20 @@
+import { PrismaClient } from '@prisma/client';
+
+/**
+ * Shared Prisma client
+ *
+ * Use this instance everywhere on the server instead of creating new clients.
+ * In Next.js dev mode, modules are re-evaluated on hot reload and API routes can
+ * run in different contexts, so the client is stored on the Node.js global object
+ * (same approach as the SSE broadcast manager).
+ */
+declare global {
+  var prisma: PrismaClient | undefined;
+}
+
+export const prisma: PrismaClient = global.prisma || new PrismaClient();
+
+// Store in global for reuse across contexts
+if (!global.prisma) {
+  global.prisma = prisma;
+}
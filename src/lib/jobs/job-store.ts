@@ -0,0 +1,462 @@
+import { PrismaClient } from '@prisma/client';
+import { prisma as defaultPrisma } from '../db';
+import { ModificationPlan } from '../agents/modification-plan';
+import { TypeDiagnostic } from '../code-modification/type-checker';
+import { StageResult } from '../code-modification/test-runner';
+import { SchemaChange } from '../code-modification/schema-diff';
+
+/**
+ * Job status (mirrors the JobStatus enum in prisma/schema.prisma)
+ */
+export type JobStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+/**
+ * Pipeline steps, in execution order
+ */
+export type JobStepName = 'branch' | 'agent' | 'typecheck' | 'migration' | 'commit' | 'tests' | 'merge' | 'push';
+
+export const JOB_STEPS: JobStepName[] = ['branch', 'agent', 'typecheck', 'migration', 'commit', 'tests', 'merge', 'push'];
+
+/**
+ * Statuses a job can still leave (terminal statuses are never overwritten)
+ */
+const ACTIVE_STATUSES: JobStatus[] = ['PENDING', 'RUNNING'];
+
+/**
+ * Times updateStep re-reads and merges when another writer changed the steps first
+ */
+const MAX_STEP_UPDATE_ATTEMPTS = 5;
+
+/**
+ * Per-step state
+ */
+export type JobStepStatus = 'pending' | 'running' | 'completed' | 'skipped' | 'failed' | 'cancelled';
+
+export interface JobStep {
+  name: JobStepName;
+  status: JobStepStatus;
+  startedAt?: string;
+  completedAt?: string;
+  data?: JobStepData;
+  error?: string;
+}
+
+/**
+ * One self-repair attempt after a test failure
+ */
+export interface RepairAttempt {
+  attempt: number; // 1-based
+  failingTests: string[];
+  failed: number;
+  total: number;
+  startedAt: string;
+  completedAt?: string;
+  commit?: string | null; // Commit with the agent's fix (null if nothing changed)
+  result?: string; // Agent's explanation
+  error?: string;
+  testRunId?: string; // Stored run with the failures this attempt was asked to fix
+  files?: string[]; // Files the fix changed
+}
+
+/**
+ * Admin decision on destructive schema changes, asked for before their
+ * migration is generated. `expired` when nobody decided in time.
+ */
+export interface SchemaApproval {
+  status: 'pending' | 'approved' | 'rejected' | 'expired';
+  changes: SchemaChange[]; // Destructive and risky changes shown to the admin
+  requestedAt: string;
+  decidedBy?: string;
+  decidedAt?: string;
+}
+
+/**
+ * Data recorded by steps (later steps read what earlier steps stored)
+ */
+export interface JobStepData {
+  // branch
+  branch?: string;
+  // agent
+  initialFiles?: string[];
+  result?: string;
+  agentSessionId?: string;
+  files?: string[];
+  createdFiles?: string[];
+  deletedFiles?: string[];
+  // typecheck
+  checkedFiles?: string[];
+  // migration
+  migrationName?: string;
+  snapshotId?: string; // Database snapshot taken before migrating (SnapshotManager)
+  schemaChanges?: SchemaChange[]; // Classified changes to schema.prisma
+  schemaApproval?: SchemaApproval;
+  // commit
+  commit?: string | null;
+  // tests
+  passed?: number;
+  failed?: number;
+  total?: number;
+  duration?: number;
+  stages?: StageResult[]; // Lint and build gates
+  flakyTests?: string[]; // Failed, then passed when re-run
+  testRunId?: string; // Stored run with every test's result (TestRunStore)
+  impactedTests?: { files: string[]; passed: number; failed: number; total: number; testRunId?: string }; // Last impacted-only run
+  error?: string;
+  repairAttempts?: RepairAttempt[];
+  // merge
+  merged?: boolean;
+  // push
+  pushed?: boolean;
+}
+
+/**
+ * Job result: the final response when COMPLETED, failure details when FAILED
+ */
+export interface ModificationJobResult {
+  result?: string;
+  agentSessionId?: string;
+  modifications?: Array<{ filePath: string; created: boolean }>;
+  commit?: { hash: string | null; message: string | null };
+  tests?:
+    | {
+        passed: number;
+        failed: number;
+        total: number;
+        duration?: number;
+        repairAttempts?: number;
+        stages?: StageResult[];
+        testRunId?: string;
+      }
+    | { skipped: true };
+  duration?: number;
+  // Failure details
+  details?: string;
+  testResults?: {
+    passed: number;
+    failed: number;
+    total: number;
+    errors?: string;
+    stages?: StageResult[];
+    testRunId?: string;
+  };
+  protectedFiles?: Array<{ filePath: string; reverted: boolean; error?: string }>;
+  typeErrors?: TypeDiagnostic[];
+  schemaChanges?: SchemaChange[]; // Destructive and risky changes that were not approved
+}
+
+/**
+ * Commit a revert job undoes (from the history page)
+ */
+export interface RevertTarget {
+  commitHash: string;
+  message: string; // Subject of the reverted commit
+}
+
+/**
+ * Original request options, stored so a job can be resumed after a restart
+ */
+export interface ModificationJobInput {
+  conversationHistory?: Array<{ role: string; content: string }>;
+  skipTests?: boolean;
+  sessionId?: string; // Client sessionId for SSE filtering
+  agentSessionId?: string; // Agent sessionId for conversation continuity
+  maxRepairAttempts?: number; // Self-repair attempts after failing tests (default: MAX_REPAIR_ATTEMPTS env)
+  planId?: string; // Approved plan being applied (plan mode)
+  plan?: ModificationPlan;
+  conversationId?: string; // Saved conversation the agent's reply is appended to
+  revert?: RevertTarget; // Revert job: the agent step reverts this commit instead of calling the agent
+}
+
+/**
+ * Modification job with JSON columns parsed
+ */
+export interface ModificationJobRecord {
+  id: string;
+  adminId: string | null;
+  message: string;
+  input: ModificationJobInput;
+  status: JobStatus;
+  currentStep: JobStepName | null;
+  steps: JobStep[];
+  result: ModificationJobResult | null;
+  error: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+}
+
+/**
+ * Raw ModificationJob row (JSON columns still stringified)
+ */
+interface ModificationJobRow {
+  id: string;
+  adminId: string | null;
+  message: string;
+  input: string;
+  status: JobStatus;
+  currentStep: string | null;
+  steps: string;
+  result: string | null;
+  error: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+}
+
+/**
+ * JobStore
+ *
+ * Persists modification jobs in the ModificationJob table.
+ * JSON columns (input, steps, result) are stringified on write and parsed on read,
+ * following the same convention as Chat.messages and CodeChange.filesChanged.
+ *
+ * Usage:
+ * ```typescript
+ * const store = new JobStore();
+ * const job = await store.createJob({ message: 'Add a footer', input: {} });
+ * await store.updateStep(job.id, 'agent', { status: 'running' });
+ * ```
+ */
+export class JobStore {
+  private prisma: PrismaClient;
+
+  constructor(prismaClient?: PrismaClient) {
+    this.prisma = prismaClient || defaultPrisma;
+  }
+
+  /**
+   * Create a new pending job with all steps pending
+   */
+  async createJob(options: {
+    message: string;
+    input: ModificationJobInput;
+    adminId?: string | null;
+  }): Promise<ModificationJobRecord> {
+    const steps: JobStep[] = JOB_STEPS.map((name) => ({ name, status: 'pending' }));
+
+    const row = await this.prisma.modificationJob.create({
+      data: {
+        message: options.message,
+        adminId: options.adminId ?? null,
+        input: JSON.stringify(options.input),
+        steps: JSON.stringify(steps),
+        status: 'PENDING',
+      },
+    });
+
+    return this.toRecord(row);
+  }
+
+  /**
+   * Get a job by id
+   */
+  async getJob(id: string): Promise<ModificationJobRecord | null> {
+    const row = await this.prisma.modificationJob.findUnique({ where: { id } });
+    return row ? this.toRecord(row) : null;
+  }
+
+  /**
+   * List jobs that have not reached a terminal state
+   */
+  async listIncompleteJobs(): Promise<ModificationJobRecord[]> {
+    const rows = await this.prisma.modificationJob.findMany({
+      where: { status: { in: ACTIVE_STATUSES } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return rows.map((row: ModificationJobRow) => this.toRecord(row));
+  }
+
+  /**
+   * Number of unfinished jobs queued ahead of this one (0 = next or running)
+   */
+  async getQueuePosition(id: string): Promise<number> {
+    const job = await this.getJob(id);
+    if (!job || (job.status !== 'PENDING' && job.status !== 'RUNNING')) {
+      return 0;
+    }
+
+    return this.prisma.modificationJob.count({
+      where: {
+        status: { in: ACTIVE_STATUSES },
+        createdAt: { lt: job.createdAt },
+      },
+    });
+  }
+
+  /**
+   * Update a single step (shallow merge; `data` is merged too).
+   *
+   * The steps column is rewritten only if it still holds what was read, and
+   * the merge is retried otherwise, so concurrent writers (the runner and e.g.
+   * the schema-approval route) do not lose each other's updates.
+   */
+  async updateStep(
+    id: string,
+    name: JobStepName,
+    patch: Partial<Omit<JobStep, 'name'>>
+  ): Promise<ModificationJobRecord> {
+    for (let attempt = 1; ; attempt++) {
+      const row = await this.requireRow(id);
+
+      const steps = normalizeSteps(parseJson(row.steps, [])).map((step) =>
+        step.name === name
+          ? {
+              ...step,
+              ...patch,
+              data: patch.data ? { ...step.data, ...patch.data } : step.data,
+            }
+          : step
+      );
+
+      const { count } = await this.prisma.modificationJob.updateMany({
+        where: { id, steps: row.steps },
+        data: {
+          steps: JSON.stringify(steps),
+          currentStep: name,
+        },
+      });
+
+      if (count > 0) {
+        return this.requireJob(id);
+      }
+      if (attempt >= MAX_STEP_UPDATE_ATTEMPTS) {
+        throw new Error(`Modification job ${id} kept changing while updating step ${name}`);
+      }
+    }
+  }
+
+  /**
+   * Mark job as running (unless it already finished, e.g. was cancelled)
+   */
+  async markRunning(id: string): Promise<ModificationJobRecord> {
+    return this.transition(id, { status: 'RUNNING' });
+  }
+
+  /**
+   * Mark job as completed with its final result.
+   * A job that already finished (e.g. was cancelled meanwhile) keeps its status.
+   */
+  async markCompleted(id: string, result: ModificationJobResult): Promise<ModificationJobRecord> {
+    return this.transition(id, {
+      status: 'COMPLETED',
+      result: JSON.stringify(result),
+      error: null,
+      completedAt: new Date(),
+    });
+  }
+
+  /**
+   * Mark job as failed (unless it already finished)
+   */
+  async markFailed(id: string, error: string, details?: ModificationJobResult): Promise<ModificationJobRecord> {
+    return this.transition(id, {
+      status: 'FAILED',
+      error,
+      result: details !== undefined ? JSON.stringify(details) : null,
+      completedAt: new Date(),
+    });
+  }
+
+  /**
+   * Mark job as cancelled by an admin (unless it already finished)
+   */
+  async markCancelled(id: string, reason: string = 'Cancelled by admin'): Promise<ModificationJobRecord> {
+    return this.transition(id, {
+      status: 'CANCELLED',
+      error: reason,
+      completedAt: new Date(),
+    });
+  }
+
+  /**
+   * Update a job that has not finished yet, in a single conditional write.
+   * Returns the job as stored afterwards: callers compare its status with the
+   * one they asked for to find out whether another writer finished it first.
+   */
+  private async transition(
+    id: string,
+    data: { status: JobStatus; result?: string | null; error?: string | null; completedAt?: Date }
+  ): Promise<ModificationJobRecord> {
+    await this.prisma.modificationJob.updateMany({
+      where: { id, status: { in: ACTIVE_STATUSES } },
+      data,
+    });
+
+    return this.requireJob(id);
+  }
+
+  /**
+   * Get a raw job row or throw if it does not exist
+   */
+  private async requireRow(id: string): Promise<ModificationJobRow> {
+    const row = await this.prisma.modificationJob.findUnique({ where: { id } });
+    if (!row) {
+      throw new Error(`Modification job not found: ${id}`);
+    }
+    return row;
+  }
+
+  /**
+   * Get a job or throw if it does not exist
+   */
+  private async requireJob(id: string): Promise<ModificationJobRecord> {
+    const job = await this.getJob(id);
+    if (!job) {
+      throw new Error(`Modification job not found: ${id}`);
+    }
+    return job;
+  }
+
+  /**
+   * Convert a database row into a record with parsed JSON columns
+   */
+  private toRecord(row: ModificationJobRow): ModificationJobRecord {
+    return {
+      id: row.id,
+      adminId: row.adminId ?? null,
+      message: row.message,
+      input: parseJson(row.input, {}),
+      status: row.status,
+      currentStep: (row.currentStep as JobStepName | null) ?? null,
+      steps: normalizeSteps(parseJson(row.steps, [])),
+      result: parseJson(row.result, null),
+      error: row.error ?? null,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+      completedAt: row.completedAt ?? null,
+    };
+  }
+}
+
+/**
+ * Parse a JSON column, falling back to a default on null or invalid JSON
+ */
+function parseJson<T>(value: string | null | undefined, fallback: T): T {
+  if (!value) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Return steps in JOB_STEPS order, adding any missing ones as pending
+ * (jobs persisted before a step was introduced)
+ */
+function normalizeSteps(steps: JobStep[]): JobStep[] {
+  return JOB_STEPS.map(
+    (name) => steps.find((step) => step.name === name) || { name, status: 'pending' }
+  );
+}
+
+/**
+ * Convenience function to create a JobStore instance
+ */
+export function createJobStore(prismaClient?: PrismaClient): JobStore {
+  return new JobStore(prismaClient);
+}
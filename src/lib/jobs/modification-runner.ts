@@ -0,0 +1,1851 @@
+import {
+  LLMProvider,
+  AgentActivity,
+  CodeModificationRequest,
+  CodeModificationResponse,
+} from '../agents/llm-provider';
+import { createLLMProvider } from '../agents/provider-registry';
+import { GitManager, createGitManager } from '../code-modification/git-manager';
+import { MigrationManager, createMigrationManager } from '../code-modification/migration-manager';
+import { runTests, testKey, TestResult, TestCaseResult, StageResult, FileCoverage } from '../code-modification/test-runner';
+import { parseUnifiedDiff } from '../code-modification/diff-parser';
+import { SchemaChange, SchemaDiff, requiresApproval } from '../code-modification/schema-diff';
+import { CodeChangeStore } from '../code-modification/code-change-store';
+import { TestRunStore, TestRunScope } from '../code-modification/test-run-store';
+import { selectImpactedTests, TestSelection } from '../code-modification/test-impact';
+import { TypeChecker, getTypeChecker, isTypeScriptFile, formatDiagnostic } from '../code-modification/type-checker';
+import { formatApprovedPlan } from '../agents/modification-plan';
+import { validateFileModifications } from '../code-modification/protected-files';
+import { UsageStore, UsageOperation } from '../usage/usage-store';
+import { ConversationStore, ConversationMessage } from '../chat/conversation-store';
+import {
+  broadcastProgress,
+  broadcastStatus,
+  broadcastFileChange,
+  broadcastTestResult,
+  broadcastError,
+  broadcastComplete,
+  broadcastCancelled,
+  broadcastAgentTool,
+  broadcastAgentText,
+} from '../sse/broadcast';
+import {
+  JobStore,
+  JobStepName,
+  JobStep,
+  JobStepData,
+  ModificationJobRecord,
+  ModificationJobResult,
+  RepairAttempt,
+  RevertTarget,
+  SchemaApproval,
+  JOB_STEPS,
+} from './job-store';
+import { WorktreeLock } from './worktree-lock';
+
+/**
+ * Outcome of a single pipeline step
+ */
+interface StepOutcome {
+  status: 'completed' | 'skipped';
+  data?: JobStepData;
+}
+
+/**
+ * One run of the tests step: the full suite, or the impacted `files` only
+ */
+interface SuiteRun {
+  results: TestResult;
+  summary: {
+    passed: number;
+    failed: number;
+    total: number;
+    stages?: StageResult[];
+    flakyTests?: string[];
+    testRunId?: string;
+  };
+  files?: string[];
+}
+
+/**
+ * Error raised by a step to fail the job.
+ * `details` is stored as the job result so clients can show e.g. test counts.
+ */
+export class JobStepError extends Error {
+  details?: ModificationJobResult;
+
+  constructor(message: string, details?: ModificationJobResult) {
+    super(message);
+    this.name = 'JobStepError';
+    this.details = details;
+  }
+}
+
+/**
+ * Raised inside the runner once a cancellation has been requested
+ */
+export class JobCancelledError extends Error {
+  constructor(message: string = 'Job cancelled') {
+    super(message);
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Branch that AI branches are cut from and merged into
+ */
+export const STAGING_BRANCH = 'staging';
+
+/**
+ * Default self-repair attempts when a request does not set maxRepairAttempts
+ */
+const DEFAULT_MAX_REPAIR_ATTEMPTS = parseInt(process.env.MAX_REPAIR_ATTEMPTS || '0', 10) || 0;
+
+/**
+ * How long a job waits for an admin to approve destructive schema changes
+ * before it fails
+ */
+const SCHEMA_APPROVAL_TIMEOUT_MS = (parseInt(process.env.SCHEMA_APPROVAL_TIMEOUT_MINUTES || '30', 10) || 30) * 60 * 1000;
+
+/**
+ * Per-job branch name
+ */
+export function jobBranchName(jobId: string): string {
+  return `ai/${jobId}`;
+}
+
+/**
+ * A job can be cancelled until it starts merging into staging.
+ * After that its changes are (being) published and cancelling would lose track of them.
+ */
+export function isJobCancellable(job: ModificationJobRecord): boolean {
+  if (job.status === 'PENDING') {
+    return true;
+  }
+
+  return job.status === 'RUNNING' && getStep(job, 'merge').status === 'pending';
+}
+
+/**
+ * ModificationRunner
+ *
+ * Executes a persisted modification job step by step:
+ * branch → agent → typecheck → migration → commit → tests → merge → push.
+ *
+ * Each job works on its own `ai/<job-id>` branch cut from staging. Tests run on
+ * that branch, and it is merged into staging and pushed only when they pass.
+ * A failed job leaves its branch in place for inspection (deletable from the
+ * admin UI), returns the worktree to staging and rolls back a migration it
+ * applied, so staging history never contains failed changes or revert commits
+ * and the database keeps matching staging's schema.
+ *
+ * Changes the agent makes to protected files (auth, config, the agent's own
+ * code) are reverted as soon as it returns, and the job fails with a report.
+ *
+ * Before anything is committed, the TypeScript files the agent touched and the
+ * files importing them are type-checked in memory against the project's
+ * tsconfig; type errors fail the job with structured diagnostics.
+ *
+ * Changes to schema.prisma are compared with staging's schema before their
+ * migration is generated. Destructive ones (dropped models or fields, type
+ * changes, removed enum values) wait for an admin to approve them in the chat;
+ * a rejection fails the job with its changes discarded.
+ *
+ * Revert jobs (`input.revert`, from the history page) go through the same
+ * pipeline: their agent step reverts the commit on the job branch instead of
+ * calling the agent, so the revert is type-checked, migrated, tested and
+ * merged like any other change, and the original is marked as reverted.
+ *
+ * When the job belongs to a saved conversation, its outcome is appended to the
+ * conversation together with the agent session, so the chat can be reopened
+ * and continued after the browser that started it is gone. Unless the request
+ * names an agent session, the agent resumes the conversation's latest one.
+ *
+ * Every step transition is written to the ModificationJob row before moving on,
+ * so a job interrupted by a server restart resumes from the first step that did
+ * not complete. Progress is reported through the SSE broadcast helpers using the
+ * client sessionId stored with the job.
+ *
+ * Aborting the signal passed to run() cancels the job: the running agent or test
+ * process tree is killed, the branch and any applied migration are discarded and
+ * the job ends as CANCELLED.
+ *
+ * Usage:
+ * ```typescript
+ * const runner = new ModificationRunner({ projectRoot: '/path/to/staging' });
+ * const job = await runner.run(jobId);
+ * ```
+ */
+export class ModificationRunner {
+  private store: JobStore;
+  private agent: LLMProvider;
+  private gitManager: GitManager;
+  private migrationManager: MigrationManager;
+  private changeStore: CodeChangeStore;
+  private usageStore: UsageStore;
+  private conversationStore: ConversationStore;
+  private testRunStore: TestRunStore;
+  private typeChecker: TypeChecker;
+  private projectRoot: string;
+
+  constructor(options: {
+    projectRoot?: string;
+    store?: JobStore;
+    changeStore?: CodeChangeStore;
+    usageStore?: UsageStore;
+    conversationStore?: ConversationStore;
+    testRunStore?: TestRunStore;
+    typeChecker?: TypeChecker;
+    provider?: LLMProvider;
+  } = {}) {
+    const projectRoot = options.projectRoot || process.cwd();
+    this.projectRoot = projectRoot;
+    this.store = options.store || new JobStore();
+    this.changeStore = options.changeStore || new CodeChangeStore();
+    this.usageStore = options.usageStore || new UsageStore();
+    this.conversationStore = options.conversationStore || new ConversationStore();
+    this.testRunStore = options.testRunStore || new TestRunStore();
+    this.typeChecker = options.typeChecker || getTypeChecker(projectRoot);
+    this.agent = options.provider || createLLMProvider(projectRoot);
+    this.gitManager = createGitManager(projectRoot);
+    this.migrationManager = createMigrationManager(projectRoot);
+  }
+
+  /**
+   * Run (or resume) a job until it completes, fails or is cancelled through `signal`
+   */
+  async run(jobId: string, signal: AbortSignal = new AbortController().signal): Promise<ModificationJobRecord | null> {
+    let job = await this.store.getJob(jobId);
+
+    if (!job || job.status === 'COMPLETED' || job.status === 'FAILED' || job.status === 'CANCELLED') {
+      return job;
+    }
+
+    const sessionId = job.input.sessionId;
+    const isResume = job.status === 'RUNNING';
+    job = await this.store.markRunning(jobId);
+    if (job.status !== 'RUNNING') {
+      return job; // Finished (e.g. cancelled) since it was read
+    }
+
+    if (isResume) {
+      const nextStep = job.steps.find((step) => !isStepDone(step));
+      console.log(`[Job ${jobId}] Resuming from step: ${nextStep?.name || 'finalize'}`);
+      broadcastProgress(`Resuming modification from step: ${nextStep?.name || 'finalize'}`, sessionId);
+    }
+
+    let activeStep: JobStepName | null = null;
+
+    try {
+      for (const name of JOB_STEPS) {
+        const step = getStep(job, name);
+        if (isStepDone(step)) {
+          continue;
+        }
+
+        if (signal.aborted && isJobCancellable(job)) {
+          throw new JobCancelledError();
+        }
+
+        activeStep = name;
+        job = await this.store.updateStep(jobId, name, {
+          status: 'running',
+          startedAt: new Date().toISOString(),
+          error: undefined,
+        });
+
+        console.log(`\n[Job ${jobId}] [Step ${stepLabel(name)}] ${name}...`);
+        const outcome = await this.runStep(name, job, signal);
+
+        job = await this.store.updateStep(jobId, name, {
+          status: outcome.status,
+          completedAt: new Date().toISOString(),
+          data: outcome.data,
+        });
+        activeStep = null;
+      }
+
+      const result = this.buildResult(job);
+      job = await this.store.markCompleted(jobId, result);
+      if (job.status !== 'COMPLETED') {
+        console.warn(`⚠ Job ${jobId} finished its steps but was already ${job.status.toLowerCase()} - status kept`);
+        return job;
+      }
+      await this.recordConversation(job);
+
+      console.log(`\n✓ Job ${jobId} complete (${(result.duration / 1000).toFixed(2)}s)`);
+      broadcastComplete({
+        success: true,
+        jobId,
+        modifications: result.modifications?.length || 0,
+        duration: result.duration,
+      }, sessionId);
+
+      return job;
+    } catch (error) {
+      // Whatever a killed process made the step throw, a requested cancellation wins
+      if (signal.aborted && isJobCancellable(job)) {
+        return this.cancel(jobId, activeStep, typeof signal.reason === 'string' ? signal.reason : undefined);
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      const details = error instanceof JobStepError ? error.details : undefined;
+
+      console.error(`✗ Job ${jobId} failed${activeStep ? ` at step ${activeStep}` : ''}:`, message);
+
+      if (activeStep) {
+        await this.store.updateStep(jobId, activeStep, {
+          status: 'failed',
+          completedAt: new Date().toISOString(),
+          error: message,
+        });
+      }
+
+      job = await this.store.markFailed(jobId, message, details);
+      await this.recordConversation(job);
+      broadcastError(message, sessionId);
+
+      await this.returnToStaging(job);
+
+      // Staging's schema does not have the job's migration - take the database back with it
+      if (
+        getStep(job, 'migration').status === 'completed' &&
+        (await this.gitManager.getCurrentBranch()) === STAGING_BRANCH
+      ) {
+        await this.rollbackJobMigration(job);
+      }
+
+      return job;
+    }
+  }
+
+  /**
+   * Dispatch a step to its handler
+   */
+  private runStep(name: JobStepName, job: ModificationJobRecord, signal: AbortSignal): Promise<StepOutcome> {
+    switch (name) {
+      case 'branch':
+        return this.runBranchStep(job);
+      case 'agent':
+        return this.runAgentStep(job, signal);
+      case 'typecheck':
+        return this.runTypecheckStep(job);
+      case 'migration':
+        return this.runMigrationStep(job, signal);
+      case 'commit':
+        return this.runCommitStep(job);
+      case 'tests':
+        return this.runTestsStep(job, signal);
+      case 'merge':
+        return this.runMergeStep(job);
+      case 'push':
+        return this.runPushStep(job);
+    }
+  }
+
+  /**
+   * Step 1: Create the job's ai/<job-id> branch from staging and check it out
+   */
+  private async runBranchStep(job: ModificationJobRecord): Promise<StepOutcome> {
+    const sessionId = job.input.sessionId;
+    const branch = jobBranchName(job.id);
+
+    const currentBranch = await this.gitManager.getCurrentBranch();
+    if (currentBranch === branch) {
+      // Resumed after the branch was created
+      return { status: 'completed', data: { branch } };
+    }
+
+    if (currentBranch !== STAGING_BRANCH) {
+      const checkoutResult = await this.gitManager.checkoutBranch(STAGING_BRANCH);
+      if (!checkoutResult.success) {
+        throw new JobStepError(`Failed to check out ${STAGING_BRANCH}`, { details: checkoutResult.error });
+      }
+    }
+
+    const branchResult = await this.gitManager.createBranch(branch, true);
+    if (!branchResult.success) {
+      // Branch may already exist from an interrupted run
+      const checkoutResult = await this.gitManager.checkoutBranch(branch);
+      if (!checkoutResult.success) {
+        throw new JobStepError(`Failed to create branch ${branch}`, { details: branchResult.error });
+      }
+    }
+
+    console.log(`✓ Working on branch ${branch}`);
+    broadcastStatus('branch_created', { step: stepLabel('branch'), jobId: job.id, branch }, sessionId);
+
+    return { status: 'completed', data: { branch } };
+  }
+
+  /**
+   * Step 2: Claude modifies files directly in the worktree
+   */
+  private async runAgentStep(job: ModificationJobRecord, signal: AbortSignal): Promise<StepOutcome> {
+    const sessionId = job.input.sessionId;
+
+    if (job.input.revert) {
+      return this.runRevertStep(job);
+    }
+
+    // Record the pre-existing changes before the agent runs, so a resumed
+    // run diffs against the same baseline as the original one
+    let initialFiles: string[] | undefined = getStep(job, 'agent').data?.initialFiles;
+    if (!initialFiles) {
+      const initialStatus = await this.gitManager.getStatus();
+      initialFiles = [...initialStatus.data.modified, ...initialStatus.data.created] as string[];
+      await this.store.updateStep(job.id, 'agent', { data: { initialFiles } });
+    }
+
+    broadcastProgress('Claude Agent is analyzing and modifying files...', sessionId);
+    const modificationResult = await this.callAgent(job, 'modify', {
+      userRequest: job.input.plan
+        ? `${job.message}\n\n${formatApprovedPlan(job.input.plan)}`
+        : job.message,
+      conversationHistory: job.input.conversationHistory,
+      sessionId: await this.resolveAgentSessionId(job), // Use agent sessionId for resuming, not client sessionId
+      signal,
+      onActivity: streamActivity(job),
+    });
+
+    if (!modificationResult.success) {
+      throw new JobStepError(modificationResult.error || 'Code modification failed');
+    }
+
+    console.log('✓ Claude Agent completed');
+
+    // Get final git status to see what changed
+    const initial = new Set(initialFiles);
+    const finalStatus = await this.gitManager.getStatus();
+    const created: string[] = finalStatus.data.created;
+
+    // The prompt asks the agent to leave protected files alone - make sure it did
+    await this.enforceProtectedFiles(job, [
+      ...finalStatus.data.modified,
+      ...created,
+      ...finalStatus.data.deleted,
+      ...(modificationResult.filesModified || []),
+    ].filter((file) => !initial.has(file)));
+
+    broadcastStatus('agent_completed', { step: stepLabel('agent'), jobId: job.id }, sessionId);
+    const files = Array.from(new Set<string>([
+      ...finalStatus.data.modified.filter((f: string) => !initial.has(f)),
+      ...created.filter((f) => !initial.has(f)),
+      ...(modificationResult.filesModified || []),
+    ]));
+
+    if (files.length === 0) {
+      console.log('⚠ No files were modified');
+    }
+
+    files.forEach((file) => {
+      broadcastFileChange(file, created.includes(file) ? 'created' : 'modified', sessionId);
+    });
+
+    return {
+      status: 'completed',
+      data: {
+        result: modificationResult.result,
+        agentSessionId: modificationResult.sessionId,
+        files,
+        createdFiles: files.filter((file) => created.includes(file)),
+        deletedFiles: finalStatus.data.deleted.filter((f: string) => !initial.has(f)),
+      },
+    };
+  }
+
+  /**
+   * Step 2 of a revert job: stage the revert of the target commit on the job
+   * branch (committed by the commit step). A conflicting revert is aborted and
+   * fails the job.
+   */
+  private async runRevertStep(job: ModificationJobRecord): Promise<StepOutcome> {
+    const sessionId = job.input.sessionId;
+    const { commitHash, message } = job.input.revert as RevertTarget;
+    const shortHash = commitHash.substring(0, 7);
+
+    // The branch is cut from a clean staging, so changes mean a resumed job already reverted
+    if (await this.gitManager.isClean()) {
+      broadcastProgress(`Reverting ${shortHash}...`, sessionId);
+      const revertResult = await this.gitManager.revertCommit(commitHash, { noCommit: true });
+      if (!revertResult.success) {
+        broadcastError(`Could not revert ${shortHash}`, sessionId);
+        throw new JobStepError(`Failed to revert ${shortHash} - it conflicts with later changes`, {
+          details: revertResult.error,
+        });
+      }
+    }
+
+    const status = await this.gitManager.getStatus();
+    const created: string[] = status.data.created;
+    const files: string[] = [...status.data.modified, ...created];
+
+    console.log(`✓ Reverted ${shortHash} on the job branch`);
+    broadcastStatus('agent_completed', { step: stepLabel('agent'), jobId: job.id }, sessionId);
+
+    return {
+      status: 'completed',
+      data: {
+        result: `Reverted ${shortHash} "${message}"`,
+        files,
+        createdFiles: created,
+        deletedFiles: status.data.deleted,
+      },
+    };
+  }
+
+  /**
+   * Step 3: Type-check the TypeScript files the agent changed and the files
+   * depending on them, before anything is applied or committed. Only errors
+   * the change introduces fail the step.
+   */
+  private async runTypecheckStep(job: ModificationJobRecord): Promise<StepOutcome> {
+    const sessionId = job.input.sessionId;
+    const agentData = getStep(job, 'agent').data || {};
+    const files = [...(agentData.files || []), ...(agentData.deletedFiles || [])].filter(isTypeScriptFile);
+
+    if (files.length === 0) {
+      broadcastStatus('no_typecheck_needed', { step: stepLabel('typecheck'), jobId: job.id }, sessionId);
+      return { status: 'skipped' };
+    }
+
+    broadcastProgress(`Type-checking ${files.length} changed file${files.length === 1 ? '' : 's'}...`, sessionId);
+    // Errors that staging already has are not the change's fault
+    const baseline: Record<string, string | null> = {};
+    for (const file of files) {
+      baseline[file] = await this.gitManager.readFileAt('HEAD', file);
+    }
+    const result = await this.typeChecker.checkFiles(files, { baseline });
+    const typeErrors = result.diagnostics.filter((diagnostic) => diagnostic.category === 'error');
+
+    if (!result.success) {
+      const count = `${typeErrors.length} type error${typeErrors.length === 1 ? '' : 's'}`;
+      broadcastError(`Type check failed: ${count}`, sessionId);
+      throw new JobStepError(`Type check failed with ${count} - changes were not committed`, {
+        details: typeErrors.map(formatDiagnostic).join('\n'),
+        typeErrors,
+      });
+    }
+
+    console.log(
+      `✓ Type check passed (${result.checkedFiles.length} files in ${result.duration}ms` +
+        `${result.preexistingErrors ? `, ${result.preexistingErrors} existing error(s) ignored` : ''})`
+    );
+    broadcastStatus('typecheck_passed', {
+      step: stepLabel('typecheck'),
+      jobId: job.id,
+      checkedFiles: result.checkedFiles.length,
+    }, sessionId);
+
+    return { status: 'completed', data: { checkedFiles: result.checkedFiles } };
+  }
+
+  /**
+   * Step 4: Generate and apply a migration if the Prisma schema changed
+   */
+  private async runMigrationStep(job: ModificationJobRecord, signal: AbortSignal): Promise<StepOutcome> {
+    const sessionId = job.input.sessionId;
+    const files: string[] = getStep(job, 'agent').data?.files || [];
+
+    if (!files.some((f) => f.includes('schema.prisma'))) {
+      broadcastStatus('no_migration_needed', { step: stepLabel('migration'), jobId: job.id }, sessionId);
+      return { status: 'skipped' };
+    }
+
+    const { schemaChanges, schemaApproval } = await this.reviewSchemaChanges(job, signal);
+
+    broadcastProgress('Generating database migration...', sessionId);
+    const migrationName = getStep(job, 'migration').data?.migrationName || `ai_generated_${Date.now()}`;
+
+    // Stored before applying, so a cancelled or interrupted job knows what to roll back
+    await this.store.updateStep(job.id, 'migration', { data: { migrationName } });
+    const migrationResult = await this.migrationManager.handleSchemaChange(migrationName);
+
+    if (!migrationResult.success) {
+      // Rollback file changes (MigrationManager already restored the database snapshot)
+      broadcastError('Database migration failed - rolling back', sessionId);
+      await this.gitManager.discardChanges();
+      throw new JobStepError(
+        migrationResult.restored === false
+          ? 'Database migration failed and the database could not be restored from its snapshot'
+          : 'Database migration failed',
+        { details: migrationResult.error }
+      );
+    }
+
+    console.log('✓ Database migration successful');
+    broadcastStatus('migration_complete', { step: stepLabel('migration'), jobId: job.id }, sessionId);
+
+    return {
+      status: 'completed',
+      data: { migrationName, snapshotId: migrationResult.snapshot?.id, schemaChanges, schemaApproval },
+    };
+  }
+
+  /**
+   * Classify the agent's schema.prisma changes against the committed schema.
+   * Risky changes are reported; destructive ones wait for an admin's decision,
+   * and anything but an approval fails the job with the changes discarded.
+   */
+  private async reviewSchemaChanges(
+    job: ModificationJobRecord,
+    signal: AbortSignal
+  ): Promise<{ schemaChanges: SchemaChange[]; schemaApproval?: SchemaApproval }> {
+    const sessionId = job.input.sessionId;
+
+    let diff: SchemaDiff;
+    try {
+      diff = await this.migrationManager.diffSchema();
+    } catch (error) {
+      await this.gitManager.discardChanges();
+      throw new JobStepError('Could not compare schema.prisma with staging - changes were discarded', {
+        details: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const flagged = diff.changes.filter((change) => change.severity !== 'additive');
+    for (const change of flagged) {
+      console.warn(`⚠ [Job ${job.id}] ${change.severity === 'destructive' ? 'Destructive' : 'Risky'} schema change: ${change.description}`);
+    }
+
+    if (!requiresApproval(diff)) {
+      if (flagged.length > 0) {
+        broadcastStatus('schema_changes_risky', { step: stepLabel('migration'), jobId: job.id, changes: flagged }, sessionId);
+      }
+      return { schemaChanges: diff.changes };
+    }
+
+    // A decision taken before a restart still holds if the agent's changes are the same
+    const previous = getStep(job, 'migration').data?.schemaApproval;
+    const sameChanges = previous && JSON.stringify(previous.changes) === JSON.stringify(flagged);
+    let approval: SchemaApproval =
+      previous && sameChanges && previous.status !== 'pending'
+        ? previous
+        : { status: 'pending', changes: flagged, requestedAt: new Date().toISOString() };
+
+    if (approval.status === 'pending') {
+      await this.store.updateStep(job.id, 'migration', { data: { schemaApproval: approval } });
+      broadcastStatus('schema_approval_required', { step: stepLabel('migration'), jobId: job.id, changes: flagged }, sessionId);
+      broadcastProgress('Waiting for an admin to approve destructive database changes...', sessionId);
+
+      approval = await waitForSchemaApproval(job.id, approval, signal);
+      if (approval.status === 'expired') {
+        await this.store.updateStep(job.id, 'migration', { data: { schemaApproval: approval } });
+      }
+    }
+
+    if (approval.status !== 'approved') {
+      const reason =
+        approval.status === 'rejected'
+          ? `rejected by ${approval.decidedBy || 'an admin'}`
+          : `not approved within ${SCHEMA_APPROVAL_TIMEOUT_MS / 60000} minutes`;
+      broadcastError(`Destructive database changes ${reason} - discarding the changes`, sessionId);
+      await this.gitManager.discardChanges();
+      throw new JobStepError(`Destructive schema changes ${reason} - changes were not applied`, {
+        details: flagged.map((change) => `${change.severity}: ${change.description}`).join('\n'),
+        schemaChanges: flagged,
+      });
+    }
+
+    console.log(`✓ [Job ${job.id}] Destructive schema changes approved by ${approval.decidedBy || 'an admin'}`);
+    return { schemaChanges: diff.changes, schemaApproval: approval };
+  }
+
+  /**
+   * Step 5: Commit the agent's changes to the job branch
+   */
+  private async runCommitStep(job: ModificationJobRecord): Promise<StepOutcome> {
+    const sessionId = job.input.sessionId;
+    const agentData = getStep(job, 'agent').data || {};
+    const files: string[] = agentData.files || [];
+
+    broadcastProgress('Creating git commit...', sessionId);
+
+    // Check if there are actually changes to commit
+    const statusBeforeCommit = await this.gitManager.getStatus();
+    const hasChanges =
+      statusBeforeCommit.data.modified.length > 0 ||
+      statusBeforeCommit.data.created.length > 0 ||
+      statusBeforeCommit.data.deleted.length > 0;
+
+    if (!hasChanges) {
+      console.log('⚠ No changes to commit');
+      broadcastStatus('no_changes_to_commit', { step: stepLabel('commit'), jobId: job.id }, sessionId);
+      return { status: 'skipped', data: { commit: null } };
+    }
+
+    const message = job.message;
+    const commitMessage = job.input.revert
+      ? `${message}\n\nThis reverts commit ${job.input.revert.commitHash}.`
+      : `AI: ${message.substring(0, 100)}${message.length > 100 ? '...' : ''}\n\n${agentData.result || ''}\n\nCo-Authored-By: Claude Agent SDK <noreply@anthropic.com>`;
+
+    const commitResult = await this.gitManager.commit({
+      message: commitMessage,
+      files: files.length > 0 ? files : undefined,
+      author: {
+        name: 'DeboraAI Agent',
+        email: 'agent@deboraai.local',
+      },
+    });
+
+    if (!commitResult.success) {
+      broadcastError('Failed to commit changes', sessionId);
+      throw new JobStepError('Failed to commit changes', { details: commitResult.error });
+    }
+
+    console.log(`✓ Committed as: ${commitResult.data?.commit}`);
+
+    if (commitResult.data?.commit) {
+      await this.recordChange(job, 'record commit', async () => {
+        if (!job.adminId) {
+          console.warn('⚠ Job has no admin - commit not recorded in change history');
+          return;
+        }
+        await this.changeStore.recordCommit({
+          commitHash: commitResult.data.commit,
+          description: message,
+          filesChanged: files,
+          adminId: job.adminId,
+        });
+      });
+    }
+    broadcastStatus('commit_created', {
+      step: stepLabel('commit'),
+      jobId: job.id,
+      commit: commitResult.data?.commit,
+    }, sessionId);
+
+    return { status: 'completed', data: { commit: commitResult.data?.commit } };
+  }
+
+  /**
+   * Step 6: Run automated tests on the job branch.
+   *
+   * The tests importing the changed files run first, so a broken change is
+   * reported (and repaired) quickly; the full suite with the lint and build
+   * gates then runs before anything is merged into staging.
+   *
+   * When tests fail and self-repair is enabled, the failures are sent back to
+   * the agent session to fix, the fix is committed to the branch, and tests
+   * re-run - up to maxRepairAttempts times. Each attempt is stored on the step
+   * so the job history shows it and a resumed job continues the count.
+   */
+  private async runTestsStep(job: ModificationJobRecord, signal: AbortSignal): Promise<StepOutcome> {
+    const sessionId = job.input.sessionId;
+
+    if (job.input.skipTests) {
+      broadcastStatus('tests_skipped', { step: stepLabel('tests'), jobId: job.id }, sessionId);
+      return { status: 'skipped' };
+    }
+
+    const maxRepairAttempts = job.input.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+    const repairAttempts: RepairAttempt[] = [...(getStep(job, 'tests').data?.repairAttempts || [])];
+
+    while (true) {
+      let run: SuiteRun;
+      let impacted: SuiteRun | null = null;
+      try {
+        // Impacted tests first for fast feedback - a failure there goes straight to repair
+        impacted = await this.runImpactedTests(job, repairAttempts, signal);
+
+        if (impacted && !impacted.results.success) {
+          run = impacted;
+        } else {
+          broadcastProgress(
+            repairAttempts.length > 0
+              ? `Re-running tests after repair attempt ${repairAttempts.length}...`
+              : impacted
+              ? 'Impacted tests passed - running the full suite...'
+              : 'Running automated tests...',
+            sessionId
+          );
+          run = await this.runSuite(job, repairAttempts, signal);
+        }
+      } catch (error) {
+        if (signal.aborted) {
+          throw new JobCancelledError();
+        }
+        console.error('✗ Test execution failed:', error);
+        broadcastError('Test execution failed', sessionId);
+        // Untested changes are never merged
+        const branch = getStep(job, 'branch').data?.branch || jobBranchName(job.id);
+        throw new JobStepError(`Tests could not be run - changes were not merged (kept on branch ${branch})`, {
+          details: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      const { results: testResults, summary } = run;
+      const impactedTests = impacted ? { files: impacted.files || [], ...impacted.summary } : undefined;
+
+      if (testResults.success) {
+        console.log(`✓ All tests passed (${testResults.testsPassed}/${testResults.totalTests})`);
+
+        for (const commit of jobCommits({ ...job, steps: withRepairAttempts(job, repairAttempts) })) {
+          await this.recordChange(job, 'record test result', () =>
+            this.changeStore.setTestsPassed(commit, true)
+          );
+        }
+
+        return {
+          status: 'completed',
+          data: { ...summary, duration: testResults.duration, impactedTests, repairAttempts },
+        };
+      }
+
+      console.error(`✗ Tests failed: ${testResults.testsFailed}/${testResults.totalTests}`);
+      blockingFailures(testResults).forEach((stage) => console.error(`✗ ${stage.name}: ${stage.summary}`));
+
+      if (repairAttempts.length >= maxRepairAttempts) {
+        // Nothing to roll back: the commits only exist on the job branch
+        const branch = getStep(job, 'branch').data?.branch || jobBranchName(job.id);
+        const repaired = repairAttempts.length > 0 ? ` after ${repairAttempts.length} repair attempt(s)` : '';
+        throw new JobStepError(`Tests failed${repaired} - changes were not merged (kept on branch ${branch})`, {
+          testResults: { ...summary, errors: testResults.errors },
+        });
+      }
+
+      const attempt = await this.runRepairAttempt(job, repairAttempts.length + 1, maxRepairAttempts, testResults, signal);
+      attempt.testRunId = summary.testRunId;
+      repairAttempts.push(attempt);
+      job = await this.store.updateStep(job.id, 'tests', { data: { repairAttempts } });
+
+      if (attempt.error) {
+        const branch = getStep(job, 'branch').data?.branch || jobBranchName(job.id);
+        throw new JobStepError(`Repair attempt ${attempt.attempt} failed: ${attempt.error} (kept on branch ${branch})`, {
+          testResults: { ...summary, errors: testResults.errors },
+        });
+      }
+    }
+  }
+
+  /**
+   * Run only the tests that import the files changed by the job (and its
+   * repairs). Returns null - run the full suite straight away - when selection
+   * is off (IMPACTED_TESTS=off), fails, selects nothing, or a changed file can
+   * affect every test.
+   */
+  private async runImpactedTests(
+    job: ModificationJobRecord,
+    repairAttempts: RepairAttempt[],
+    signal: AbortSignal
+  ): Promise<SuiteRun | null> {
+    if (process.env.IMPACTED_TESTS === 'off') {
+      return null;
+    }
+
+    const agentData = getStep(job, 'agent').data || {};
+    const changedFiles = [
+      ...(agentData.files || []),
+      ...(agentData.deletedFiles || []),
+      ...repairAttempts.flatMap((attempt) => attempt.files || []),
+    ];
+
+    let selection: TestSelection;
+    try {
+      selection = await selectImpactedTests(changedFiles, { projectRoot: this.projectRoot, typeChecker: this.typeChecker });
+    } catch (error) {
+      console.warn(`⚠ [Job ${job.id}] Impacted test selection failed - running the full suite:`, error);
+      return null;
+    }
+
+    if (selection.all || selection.files.length === 0) {
+      console.log(`[Job ${job.id}] Running the full suite: ${selection.reason || 'no tests import the changed files'}`);
+      return null;
+    }
+
+    broadcastProgress(
+      `Running ${selection.files.length} impacted test file${selection.files.length === 1 ? '' : 's'}...`,
+      job.input.sessionId
+    );
+    return this.runSuite(job, repairAttempts, signal, selection.files);
+  }
+
+  /**
+   * Run the tests (the full suite with the lint and build gates, or only
+   * `testFiles`), store the run and stream its counts to the job session
+   */
+  private async runSuite(
+    job: ModificationJobRecord,
+    repairAttempts: RepairAttempt[],
+    signal: AbortSignal,
+    testFiles?: string[]
+  ): Promise<SuiteRun> {
+    const scope = testFiles ? 'impacted' : 'full';
+    // A revert restores code that was on staging before - it is not gated on coverage
+    const gateCoverage = !testFiles && !job.input.revert;
+    const results = await runTests({
+      runUnit: true,
+      runIntegration: true,
+      runE2E: false, // Skip E2E for faster feedback
+      // The coverage gate checks the changed lines with the full suite; the
+      // project-wide threshold is not enforced on AI changes
+      collectCoverage: gateCoverage,
+      coverageThreshold: 0,
+      ...(gateCoverage && (await this.coverageOptions(job))),
+      lintFiles: getStep(job, 'agent').data?.files || [],
+      // The gates run once, with the full suite
+      ...(testFiles && { testFiles, lint: 'off' as const, build: 'off' as const }),
+      quarantined: await this.quarantinedTests(job),
+      signal,
+    });
+
+    if (results.flakyTests) {
+      console.warn(`⚠ [Job ${job.id}] Flaky tests (passed when re-run): ${results.flakyTests.join(', ')}`);
+    }
+
+    const summary = {
+      passed: results.testsPassed,
+      failed: results.testsFailed,
+      total: results.totalTests,
+      stages: results.stages,
+      flakyTests: results.flakyTests,
+      testRunId: await this.recordTestRun(job, results, repairAttempts, scope),
+    };
+    broadcastTestResult({ ...summary, scope }, job.input.sessionId);
+
+    return { results, summary, files: testFiles };
+  }
+
+  /**
+   * Lines the job changed on its branch (for the coverage gate) and staging's
+   * coverage at the commit the branch was created from (for its report). When
+   * the branch cannot be diffed (only logged) the gate does not run; when that
+   * commit's coverage was never recorded the report has no baseline.
+   */
+  private async coverageOptions(
+    job: ModificationJobRecord
+  ): Promise<{ changedLines?: Record<string, number[]>; baselineCoverage?: Record<string, FileCoverage> }> {
+    const diff = await this.gitManager.getDiff(STAGING_BRANCH, 'HEAD');
+    if (!diff.success) {
+      console.warn(`⚠ [Job ${job.id}] Could not diff the job branch - skipping the coverage gate:`, diff.error);
+      return {};
+    }
+
+    const changedLines: Record<string, number[]> = {};
+    for (const file of parseUnifiedDiff(diff.data.diff)) {
+      const lines = file.hunks.flatMap((hunk) => hunk.lines).filter((line) => line.type === 'added');
+      if (file.newPath && lines.length > 0) {
+        changedLines[file.newPath] = lines.map((line) => line.newNumber as number);
+      }
+    }
+
+    let baselineCoverage: Record<string, FileCoverage> | undefined;
+    const baseCommit = await this.gitManager.getMergeBase(STAGING_BRANCH, 'HEAD');
+    try {
+      baselineCoverage = (baseCommit && (await this.testRunStore.getCoverageAt(baseCommit))) || undefined;
+    } catch (error) {
+      console.error(`⚠ [Job ${job.id}] Failed to load the coverage before the job:`, error);
+    }
+    if (!baselineCoverage) {
+      console.log(`[Job ${job.id}] No coverage recorded for ${STAGING_BRANCH} at ${baseCommit || 'the branch base'} - reporting without a baseline`);
+    }
+
+    return { changedLines, baselineCoverage };
+  }
+
+  /**
+   * Keys of the tests quarantined on /admin/tests, whose failures do not
+   * block the job. When they cannot be loaded (only logged) every failure blocks.
+   */
+  private async quarantinedTests(job: ModificationJobRecord): Promise<string[]> {
+    try {
+      return (await this.testRunStore.listQuarantined()).map(testKey);
+    } catch (error) {
+      console.error(`⚠ [Job ${job.id}] Failed to load quarantined tests:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Store the per-test results of a run for the admin tests page. Returns the
+   * run's id, or undefined when it could not be stored (only logged).
+   */
+  private async recordTestRun(
+    job: ModificationJobRecord,
+    testResults: TestResult,
+    repairAttempts: RepairAttempt[],
+    scope: TestRunScope
+  ): Promise<string | undefined> {
+    try {
+      const commits = jobCommits({ ...job, steps: withRepairAttempts(job, repairAttempts) });
+      const run = await this.testRunStore.record({
+        jobId: job.id,
+        commitHash: commits[commits.length - 1],
+        trigger: job.input.revert ? 'revert' : repairAttempts.length > 0 ? 'repair' : 'job',
+        scope,
+        result: testResults,
+      });
+      return run.id;
+    } catch (error) {
+      console.error(`⚠ [Job ${job.id}] Failed to record test run:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Ask the agent (same session) to fix failing tests and commit its fix
+   */
+  private async runRepairAttempt(
+    job: ModificationJobRecord,
+    attemptNumber: number,
+    maxAttempts: number,
+    testResults: TestResult,
+    signal: AbortSignal
+  ): Promise<RepairAttempt> {
+    const sessionId = job.input.sessionId;
+    const failingTests = testResults.failedTests || [];
+    const attempt: RepairAttempt = {
+      attempt: attemptNumber,
+      failingTests,
+      failed: testResults.testsFailed,
+      total: testResults.totalTests,
+      startedAt: new Date().toISOString(),
+    };
+
+    console.log(`\n[Job ${job.id}] Repair attempt ${attemptNumber}/${maxAttempts}...`);
+    broadcastStatus('repair_attempt', {
+      step: stepLabel('tests'),
+      jobId: job.id,
+      attempt: attemptNumber,
+      maxAttempts,
+      failingTests,
+    }, sessionId);
+
+    const repairResult = await this.callAgent(job, 'repair', {
+      userRequest: buildRepairRequest(job.message, testResults, attemptNumber),
+      sessionId: getStep(job, 'agent').data?.agentSessionId || job.input.agentSessionId,
+      signal,
+      onActivity: streamActivity(job),
+    });
+
+    if (!repairResult.success) {
+      attempt.error = repairResult.error || 'Agent failed to repair the code';
+    } else {
+      attempt.result = repairResult.result;
+
+      const status = await this.gitManager.getStatus();
+      const files: string[] = [...status.data.modified, ...status.data.created, ...status.data.deleted];
+      await this.enforceProtectedFiles(job, files);
+      attempt.files = files;
+
+      if (files.length === 0) {
+        console.log('⚠ Repair attempt made no changes');
+        attempt.commit = null;
+      } else {
+        const commitResult = await this.gitManager.commit({
+          message: `AI repair (attempt ${attemptNumber}): ${job.message.substring(0, 80)}\n\n${repairResult.result || ''}`,
+          files,
+          author: {
+            name: 'DeboraAI Agent',
+            email: 'agent@deboraai.local',
+          },
+        });
+
+        if (!commitResult.success) {
+          attempt.error = `Failed to commit repair: ${commitResult.error}`;
+        } else {
+          attempt.commit = commitResult.data?.commit || null;
+          const repairCommit = attempt.commit;
+          if (repairCommit && job.adminId) {
+            await this.recordChange(job, 'record repair commit', () =>
+              this.changeStore.recordCommit({
+                commitHash: repairCommit,
+                description: `Repair attempt ${attemptNumber}: ${job.message}`,
+                filesChanged: files,
+                adminId: job.adminId as string,
+              })
+            );
+          }
+        }
+      }
+    }
+
+    attempt.completedAt = new Date().toISOString();
+
+    console.log(attempt.error ? `✗ Repair attempt ${attemptNumber} failed: ${attempt.error}` : `✓ Repair attempt ${attemptNumber} complete`);
+    broadcastStatus('repair_attempt_complete', {
+      step: stepLabel('tests'),
+      jobId: job.id,
+      attempt: attemptNumber,
+      maxAttempts,
+      commit: attempt.commit,
+      error: attempt.error,
+    }, sessionId);
+
+    return attempt;
+  }
+
+  /**
+   * Call the agent and record the tokens, cost and duration of the call
+   * against the job and its admin (best effort - a failed write is only logged)
+   */
+  private async callAgent(
+    job: ModificationJobRecord,
+    operation: UsageOperation,
+    request: CodeModificationRequest
+  ): Promise<CodeModificationResponse> {
+    const startedAt = Date.now();
+    const response = await this.agent.modifyCode(request);
+
+    try {
+      await this.usageStore.record({
+        jobId: job.id,
+        adminId: job.adminId,
+        provider: this.agent.name,
+        operation,
+        usage: response.usage,
+        durationMs: Date.now() - startedAt,
+      });
+    } catch (error) {
+      console.error(`⚠ [Job ${job.id}] Failed to record token usage:`, error);
+    }
+
+    return response;
+  }
+
+  /**
+   * Fail the job if the agent changed protected files.
+   * Each protected change is reverted on its own, so one failed revert does not
+   * leave the others in place, and the report lists what happened to each file.
+   */
+  private async enforceProtectedFiles(job: ModificationJobRecord, changedFiles: string[]): Promise<void> {
+    const violations = Array.from(new Set(validateFileModifications(changedFiles).protected));
+    if (violations.length === 0) {
+      return;
+    }
+
+    console.error(`✗ [Job ${job.id}] Agent modified protected files: ${violations.join(', ')}`);
+    const revertResult = await this.gitManager.revertFiles(violations);
+    const failed: Array<{ filePath: string; error: string }> = revertResult.data?.failed || [];
+
+    const protectedFiles = violations.map((filePath) => {
+      const failure = failed.find((f) => f.filePath === filePath);
+      return failure ? { filePath, reverted: false, error: failure.error } : { filePath, reverted: true };
+    });
+    const report = protectedFiles
+      .map((file) => `- ${file.filePath}: ${file.reverted ? 'reverted' : `NOT reverted (${file.error})`}`)
+      .join('\n');
+
+    throw new JobStepError(
+      `Agent modified ${violations.length} protected file(s) - the job was stopped and nothing was merged`,
+      { details: `Protected files changed by the agent:\n${report}`, protectedFiles }
+    );
+  }
+
+  /**
+   * Step 7: Merge the job branch into staging (fast-forward when possible)
+   */
+  private async runMergeStep(job: ModificationJobRecord): Promise<StepOutcome> {
+    const sessionId = job.input.sessionId;
+    const branch = getStep(job, 'branch').data?.branch || jobBranchName(job.id);
+
+    if (jobCommits(job).length === 0) {
+      // Nothing was committed - just go back to staging
+      await this.gitManager.checkoutBranch(STAGING_BRANCH);
+      await this.gitManager.deleteBranch(branch, true);
+      return { status: 'skipped', data: { merged: false } };
+    }
+
+    broadcastProgress(`Merging ${branch} into ${STAGING_BRANCH}...`, sessionId);
+
+    if ((await this.gitManager.getCurrentBranch()) !== STAGING_BRANCH) {
+      const checkoutResult = await this.gitManager.checkoutBranch(STAGING_BRANCH);
+      if (!checkoutResult.success) {
+        throw new JobStepError(`Failed to check out ${STAGING_BRANCH}`, { details: checkoutResult.error });
+      }
+    }
+
+    const mergeResult = await this.gitManager.mergeBranch(branch);
+    if (!mergeResult.success) {
+      await this.gitManager.abortMerge();
+      throw new JobStepError(`Failed to merge ${branch} into ${STAGING_BRANCH}`, { details: mergeResult.error });
+    }
+
+    // Merged branches are not needed anymore; failed ones are kept for inspection
+    const deleteResult = await this.gitManager.deleteBranch(branch);
+    if (!deleteResult.success) {
+      console.warn(`⚠ Could not delete merged branch ${branch}:`, deleteResult.error);
+    }
+
+    console.log(`✓ Merged ${branch} into ${STAGING_BRANCH}`);
+    broadcastStatus('branch_merged', { step: stepLabel('merge'), jobId: job.id, branch }, sessionId);
+
+    const revert = job.input.revert;
+    const revertCommit = getStep(job, 'commit').data?.commit;
+    if (revert && revertCommit && job.adminId) {
+      await this.recordChange(job, 'mark reverted', () =>
+        this.changeStore.markReverted(revert.commitHash, {
+          revertedBy: job.adminId as string,
+          revertCommitHash: revertCommit,
+        })
+      );
+    }
+
+    return { status: 'completed', data: { merged: true } };
+  }
+
+  /**
+   * Step 8: Push staging to origin
+   */
+  private async runPushStep(job: ModificationJobRecord): Promise<StepOutcome> {
+    const sessionId = job.input.sessionId;
+    if (!getStep(job, 'merge').data?.merged) {
+      return { status: 'skipped' };
+    }
+
+    broadcastProgress('Pushing to GitHub...', sessionId);
+    const pushResult = await this.gitManager.push({ remote: 'origin', branch: STAGING_BRANCH });
+
+    if (!pushResult.success) {
+      // Don't fail the job if push fails - admin can push manually
+      console.warn('⚠ Continuing despite push failure - changes are merged locally:', pushResult.error);
+      return { status: 'completed', data: { pushed: false, error: pushResult.error } };
+    }
+
+    console.log(`✓ Pushed to origin/${STAGING_BRANCH}`);
+    broadcastStatus('pushed_to_remote', { step: stepLabel('push'), jobId: job.id }, sessionId);
+    for (const commit of jobCommits(job)) {
+      await this.recordChange(job, 'mark deployed to staging', () =>
+        this.changeStore.markDeployedToStaging(commit)
+      );
+    }
+
+    return { status: 'completed', data: { pushed: true } };
+  }
+
+  /**
+   * After a failure, keep the job branch (committing any leftover edits to it)
+   * and check staging out again so the next job starts from a clean base
+   */
+  private async returnToStaging(job: ModificationJobRecord): Promise<void> {
+    const branch = getStep(job, 'branch').data?.branch;
+    if (!branch) {
+      return;
+    }
+
+    try {
+      if ((await this.gitManager.getCurrentBranch()) !== branch) {
+        return;
+      }
+
+      if (!(await this.gitManager.isClean())) {
+        await this.gitManager.commit({
+          message: `AI (failed): ${job.message.substring(0, 100)}\n\nJob ${job.id} failed: ${job.error || 'unknown error'}`,
+          files: ['.'],
+          author: {
+            name: 'DeboraAI Agent',
+            email: 'agent@deboraai.local',
+          },
+        });
+      }
+
+      const checkoutResult = await this.gitManager.checkoutBranch(STAGING_BRANCH);
+      if (!checkoutResult.success) {
+        throw new Error(checkoutResult.error);
+      }
+
+      console.log(`✓ Returned to ${STAGING_BRANCH}; kept ${branch} for inspection`);
+    } catch (error) {
+      console.error(`✗ [Job ${job.id}] Failed to return to ${STAGING_BRANCH} - manual intervention required:`, error);
+    }
+  }
+
+  /**
+   * Finish a cancelled job: mark the interrupted step, throw away everything the
+   * job produced and tell the client
+   */
+  private async cancel(
+    jobId: string,
+    activeStep: JobStepName | null,
+    reason?: string
+  ): Promise<ModificationJobRecord> {
+    console.log(`\n[Job ${jobId}] Cancelled${activeStep ? ` during step ${activeStep}` : ''} - cleaning up`);
+
+    if (activeStep) {
+      await this.store.updateStep(jobId, activeStep, {
+        status: 'cancelled',
+        completedAt: new Date().toISOString(),
+        error: 'Cancelled',
+      });
+    }
+
+    // Re-read: steps may have stored data (e.g. the migration name) while running
+    let job = (await this.store.getJob(jobId)) as ModificationJobRecord;
+    const cleanup = await this.discardJobWork(job);
+
+    job = await this.store.markCancelled(jobId, reason);
+    await this.recordConversation(job);
+    console.log(`✓ Job ${jobId} cancelled`);
+    broadcastCancelled({ jobId, step: activeStep, cleanup }, job.input.sessionId);
+
+    return job;
+  }
+
+  /**
+   * Undo a cancelled job: discard worktree changes, delete its branch (and the
+   * history rows of commits on it) and roll back a migration it applied.
+   * Each action is best-effort; the returned list says what was done.
+   */
+  private async discardJobWork(job: ModificationJobRecord): Promise<string[]> {
+    const cleanup: string[] = [];
+    const branchStarted = getStep(job, 'branch').status !== 'pending';
+    const branch = getStep(job, 'branch').data?.branch || jobBranchName(job.id);
+
+    try {
+      const discardResult = await this.gitManager.discardChanges();
+      if (discardResult.success) {
+        cleanup.push('Discarded uncommitted changes');
+      } else {
+        console.error(`✗ [Job ${job.id}] Failed to discard changes:`, discardResult.error);
+      }
+
+      if (branchStarted) {
+        if ((await this.gitManager.getCurrentBranch()) !== STAGING_BRANCH) {
+          const checkoutResult = await this.gitManager.checkoutBranch(STAGING_BRANCH);
+          if (!checkoutResult.success) {
+            throw new Error(checkoutResult.error);
+          }
+        }
+
+        const deleteResult = await this.gitManager.deleteBranch(branch, true);
+        if (deleteResult.success) {
+          cleanup.push(`Deleted branch ${branch}`);
+        } else {
+          console.warn(`⚠ Could not delete branch ${branch}:`, deleteResult.error);
+        }
+
+        const commits = jobCommits(job);
+        if (commits.length > 0) {
+          await this.recordChange(job, 'remove cancelled commits', () =>
+            this.changeStore.deleteCommits(commits)
+          );
+        }
+      }
+    } catch (error) {
+      console.error(`✗ [Job ${job.id}] Failed to return to ${STAGING_BRANCH} - manual intervention required:`, error);
+    }
+
+    // Schema is back at the staging version now, so the database can follow it
+    const rolledBack = await this.rollbackJobMigration(job);
+    if (rolledBack) {
+      cleanup.push(`Rolled back migration ${rolledBack}`);
+    }
+
+    return cleanup;
+  }
+
+  /**
+   * Roll back the migration a job applied, once the worktree is back on
+   * staging's schema. Returns the migration's name, or null when there was
+   * nothing to roll back or the rollback failed (only logged).
+   */
+  private async rollbackJobMigration(job: ModificationJobRecord): Promise<string | null> {
+    const migrationName = getStep(job, 'migration').data?.migrationName;
+    if (!migrationName) {
+      return null;
+    }
+
+    const rollbackResult = await this.migrationManager.rollbackMigration(migrationName);
+    if (!rollbackResult.success) {
+      console.error(`✗ [Job ${job.id}] ${rollbackResult.error}`);
+      return null;
+    }
+
+    console.log(`✓ [Job ${job.id}] Rolled back migration ${migrationName}`);
+    return migrationName;
+  }
+
+  /**
+   * Update the CodeChange history. Failures are logged but do not fail the job:
+   * the commit itself already happened and history is secondary.
+   */
+  private async recordChange(
+    job: ModificationJobRecord,
+    action: string,
+    update: () => Promise<unknown>
+  ): Promise<void> {
+    try {
+      await update();
+    } catch (error) {
+      console.error(`⚠ [Job ${job.id}] Failed to ${action} in change history:`, error);
+    }
+  }
+
+  /**
+   * Agent session the job continues: the one given with the request, else the
+   * conversation's latest, read when the agent starts so a job queued behind
+   * another in the same conversation resumes the session that job left.
+   */
+  private async resolveAgentSessionId(job: ModificationJobRecord): Promise<string | undefined> {
+    if (job.input.agentSessionId || !job.input.conversationId) {
+      return job.input.agentSessionId;
+    }
+
+    try {
+      const conversation = await this.conversationStore.getConversation(job.input.conversationId);
+      return conversation?.agentSessionId ?? undefined;
+    } catch (error) {
+      console.error(`⚠ [Job ${job.id}] Failed to load the session of conversation ${job.input.conversationId}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Append the finished job's reply to its conversation and keep the agent
+   * session for the next request. Failures are logged but do not change the
+   * job's outcome.
+   */
+  private async recordConversation(job: ModificationJobRecord): Promise<void> {
+    const conversationId = job.input.conversationId;
+    if (!conversationId) {
+      return;
+    }
+
+    try {
+      const conversation = await this.conversationStore.getConversation(conversationId);
+      if (!conversation) {
+        console.warn(`⚠ [Job ${job.id}] Conversation ${conversationId} no longer exists`);
+        return;
+      }
+
+      // A resumed job may already have replied
+      if (conversation.messages.some((message) => message.jobId === job.id && message.role !== 'user')) {
+        return;
+      }
+
+      await this.conversationStore.appendMessages(conversationId, [conversationReply(job)], {
+        agentSessionId: job.result?.agentSessionId || getStep(job, 'agent').data?.agentSessionId,
+      });
+    } catch (error) {
+      console.error(`⚠ [Job ${job.id}] Failed to save the reply to conversation ${conversationId}:`, error);
+    }
+  }
+
+  /**
+   * Build the final result returned to clients (same shape the modify route used to return)
+   */
+  private buildResult(job: ModificationJobRecord): ModificationJobResult & { duration: number } {
+    const agentData = getStep(job, 'agent').data || {};
+    const commit = getStep(job, 'commit').data?.commit || null;
+    const tests = getStep(job, 'tests');
+    const files: string[] = agentData.files || [];
+    const createdFiles: string[] = agentData.createdFiles || [];
+
+    return {
+      result: agentData.result,
+      agentSessionId: agentData.agentSessionId,
+      modifications: files.map((file) => ({
+        filePath: file,
+        created: createdFiles.includes(file),
+      })),
+      commit: {
+        hash: commit,
+        message: commit ? (job.input.revert ? job.message : `AI: ${job.message.substring(0, 100)}...`) : null,
+      },
+      tests: tests.status === 'completed' && tests.data?.total !== undefined
+        ? {
+            passed: tests.data.passed || 0,
+            failed: tests.data.failed || 0,
+            total: tests.data.total,
+            duration: tests.data.duration,
+            repairAttempts: tests.data.repairAttempts?.length || 0,
+            stages: tests.data.stages,
+            testRunId: tests.data.testRunId,
+          }
+        : { skipped: true },
+      duration: Date.now() - new Date(job.createdAt).getTime(),
+    };
+  }
+}
+
+/**
+ * Find a step by name
+ */
+function getStep(job: ModificationJobRecord, name: JobStepName): JobStep {
+  return job.steps.find((step) => step.name === name) || { name, status: 'pending' };
+}
+
+/**
+ * Conversation message describing how a job ended
+ */
+function conversationReply(job: ModificationJobRecord): ConversationMessage {
+  const timestamp = new Date(job.completedAt || Date.now()).toISOString();
+  const result = job.result || {};
+
+  if (job.status === 'COMPLETED') {
+    return {
+      role: 'assistant',
+      content: result.result || 'Changes applied successfully',
+      timestamp,
+      jobId: job.id,
+      status: job.status,
+      modifications: result.modifications,
+      commit: result.commit,
+      tests: result.tests,
+      duration: result.duration,
+    };
+  }
+
+  if (job.status === 'CANCELLED') {
+    return {
+      role: 'system',
+      content: `Request cancelled${job.error ? ` (${job.error})` : ''} — no changes were kept`,
+      timestamp,
+      jobId: job.id,
+      status: job.status,
+    };
+  }
+
+  return {
+    role: 'system',
+    content: `Error: ${job.error}${result.details ? `\n\n${result.details}` : ''}`,
+    timestamp,
+    jobId: job.id,
+    status: job.status,
+    error: job.error || undefined,
+  };
+}
+
+/**
+ * Commits made by a job: the main commit plus any self-repair commits
+ */
+function jobCommits(job: ModificationJobRecord): string[] {
+  const commits = [
+    getStep(job, 'commit').data?.commit,
+    ...(getStep(job, 'tests').data?.repairAttempts || []).map((attempt) => attempt.commit),
+  ];
+
+  return commits.filter((commit): commit is string => !!commit);
+}
+
+/**
+ * Steps with the given repair attempts set on the tests step
+ */
+function withRepairAttempts(job: ModificationJobRecord, repairAttempts: RepairAttempt[]): JobStep[] {
+  return job.steps.map((step) =>
+    step.name === 'tests' ? { ...step, data: { ...step.data, repairAttempts } } : step
+  );
+}
+
+/**
+ * Lint and build stages whose failure failed the run
+ */
+function blockingFailures(testResults: TestResult): StageResult[] {
+  return (testResults.stages || []).filter((stage) => stage.status === 'failed' && stage.policy === 'block');
+}
+
+/**
+ * Prompt asking the agent to fix the tests its change broke
+ */
+function buildRepairRequest(message: string, testResults: TestResult, attempt: number): string {
+  const parts: string[] = [
+    `Your change for the request below made automated tests fail (repair attempt ${attempt}).`,
+    `Fix the code so the tests pass. Do not delete or weaken tests unless the request requires it.\n`,
+    `## ORIGINAL REQUEST\n${message}\n`,
+    `## TEST RESULTS\n${testResults.testsFailed} of ${testResults.totalTests} tests failed.\n`,
+  ];
+
+  const failedStages = blockingFailures(testResults);
+  if (failedStages.length > 0) {
+    parts.push(`## FAILING CHECKS\n${failedStages.map((stage) => `- ${stage.name}: ${stage.summary}`).join('\n')}\n`);
+  }
+
+  // Quarantined tests do not block - the agent should not chase them
+  const failedTests = (testResults.tests || []).filter((test) => test.status === 'failed' && !test.quarantined);
+  if (failedTests.length > 0) {
+    // First line of each failure; the full messages are in ERRORS
+    const describe = (test: TestCaseResult) =>
+      `- ${test.fullName}${test.file ? ` (${test.file})` : ''}${test.failureMessage ? `: ${test.failureMessage.split('\n')[0]}` : ''}`;
+    parts.push(`## FAILING TESTS\n${failedTests.map(describe).join('\n')}\n`);
+  } else if (testResults.failedTests && testResults.failedTests.length > 0) {
+    parts.push(`## FAILING TESTS\n${testResults.failedTests.map((name) => `- ${name}`).join('\n')}\n`);
+  }
+
+  if (testResults.errors) {
+    // Keep the prompt bounded - the head of the output has the first failures
+    parts.push(`## ERRORS\n${testResults.errors.substring(0, 8000)}`);
+  }
+
+  return parts.join('\n');
+}
+
+/**
+ * Forward the agent's tool calls and text to the job's SSE session
+ */
+function streamActivity(job: ModificationJobRecord): (activity: AgentActivity) => void {
+  const sessionId = job.input.sessionId;
+
+  return (activity) => {
+    if (activity.type === 'tool') {
+      broadcastAgentTool({ tool: activity.tool, summary: activity.summary, jobId: job.id }, sessionId);
+    } else {
+      broadcastAgentText(activity.text, job.id, sessionId);
+    }
+  };
+}
+
+/**
+ * Completed and skipped steps are not re-run on resume
+ */
+function isStepDone(step: JobStep): boolean {
+  return step.status === 'completed' || step.status === 'skipped';
+}
+
+/**
+ * Step label for progress events, e.g. "2/5"
+ */
+function stepLabel(name: JobStepName): string {
+  return `${JOB_STEPS.indexOf(name) + 1}/${JOB_STEPS.length}`;
+}
+
+/**
+ * In-process queue state - use global to share across Next.js contexts
+ */
+interface ModificationQueueState {
+  activeJobs: Map<string, AbortController>; // Aborting a controller cancels its job
+  schemaApprovals: Map<string, (approval: SchemaApproval) => void>; // Jobs waiting for an admin's decision
+  draining: boolean;
+  generation: number; // Bumped to detach a drain stuck on an abandoned job
+  retryTimer: ReturnType<typeof setTimeout> | null;
+}
+
+declare global {
+  var modificationQueue: ModificationQueueState | undefined;
+}
+
+const queue: ModificationQueueState = global.modificationQueue || {
+  activeJobs: new Map<string, AbortController>(),
+  schemaApprovals: new Map<string, (approval: SchemaApproval) => void>(),
+  draining: false,
+  generation: 0,
+  retryTimer: null,
+};
+
+if (!global.modificationQueue) {
+  global.modificationQueue = queue;
+}
+
+/**
+ * How often to retry when another process holds the worktree lock
+ */
+const LOCK_RETRY_MS = 15000;
+
+/**
+ * Process queued jobs in the background, one at a time, oldest first.
+ *
+ * Each job runs while holding the staging WorktreeLock, and renews its lease
+ * while it works. If the lock is held elsewhere (another server process, or a
+ * crashed holder whose lease has not expired yet) the queue is retried later.
+ */
+export function processModificationQueue(options: {
+  store?: JobStore;
+  lock?: WorktreeLock;
+  runner?: ModificationRunner;
+} = {}): void {
+  if (queue.draining) {
+    return;
+  }
+
+  if (queue.retryTimer) {
+    clearTimeout(queue.retryTimer);
+    queue.retryTimer = null;
+  }
+
+  queue.draining = true;
+  const generation = ++queue.generation;
+
+  drainQueue(options, generation)
+    .catch((error) => {
+      console.error('[Jobs] Queue processing failed:', error);
+    })
+    .finally(() => {
+      // An abandoned drain must not clear the flag of the one that replaced it
+      if (queue.generation === generation) {
+        queue.draining = false;
+      }
+    });
+}
+
+async function drainQueue(
+  options: {
+    store?: JobStore;
+    lock?: WorktreeLock;
+    runner?: ModificationRunner;
+  },
+  generation: number
+): Promise<void> {
+  const store = options.store || new JobStore();
+  const lock = options.lock || new WorktreeLock();
+  const runner = options.runner || new ModificationRunner({ store });
+
+  while (queue.generation === generation) {
+    const [next] = await store.listIncompleteJobs();
+    if (!next) {
+      return;
+    }
+
+    const { acquired, holder } = await lock.acquire(next.id, next.adminId);
+    if (!acquired) {
+      console.log(`[Jobs] Worktree locked by job ${holder?.jobId} - retrying in ${LOCK_RETRY_MS / 1000}s`);
+      queue.retryTimer = setTimeout(() => processModificationQueue(options), LOCK_RETRY_MS);
+      return;
+    }
+
+    const controller = new AbortController();
+    queue.activeJobs.set(next.id, controller);
+    const heartbeat = setInterval(() => {
+      lock
+        .renew(next.id)
+        .then((held) => {
+          if (!held) {
+            // Broken, or expired and taken over: the worktree is not ours anymore
+            console.error(`[Job ${next.id}] Lost the worktree lock - cancelling the job`);
+            clearInterval(heartbeat);
+            controller.abort('Worktree lock was lost');
+          }
+        })
+        .catch((error) => {
+          console.error(`[Job ${next.id}] Failed to renew worktree lock:`, error);
+        });
+    }, lock.getLeaseMs() / 3);
+
+    try {
+      await runner.run(next.id, controller.signal);
+    } catch (error) {
+      console.error(`[Job ${next.id}] Runner crashed:`, error);
+      await store.markFailed(next.id, error instanceof Error ? error.message : String(error));
+    } finally {
+      clearInterval(heartbeat);
+      if (queue.activeJobs.get(next.id) === controller) {
+        queue.activeJobs.delete(next.id);
+      }
+      await lock.release(next.id);
+    }
+  }
+}
+
+/**
+ * Check whether a job is currently being executed by this process
+ */
+export function isJobActive(jobId: string): boolean {
+  return queue.activeJobs.has(jobId);
+}
+
+/**
+ * Request cancellation of a job this process is executing.
+ * Returns false if the job is not active here. The runner finishes the
+ * cancellation (cleanup, CANCELLED status, SSE event) asynchronously and
+ * stores `reason` as the job error.
+ */
+export function cancelActiveJob(jobId: string, reason?: string): boolean {
+  const controller = queue.activeJobs.get(jobId);
+  if (!controller) {
+    return false;
+  }
+
+  controller.abort(reason);
+  return true;
+}
+
+/**
+ * Wait until a job stops being executed by this process (e.g. after
+ * cancelActiveJob). Returns false if it is still active after `timeoutMs`.
+ */
+export async function waitForActiveJob(jobId: string, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (queue.activeJobs.has(jobId)) {
+    if (Date.now() >= deadline) {
+      return false;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  return true;
+}
+
+/**
+ * Give up on a job whose runner does not return, e.g. a hung agent that
+ * ignored cancelActiveJob: abort it, forget it and let the queue drain again
+ * without waiting for it. The caller fails the job and releases its lock.
+ * Returns false if the job is not active here.
+ */
+export function abandonActiveJob(jobId: string, reason?: string): boolean {
+  const controller = queue.activeJobs.get(jobId);
+  if (!controller) {
+    return false;
+  }
+
+  controller.abort(reason);
+  queue.activeJobs.delete(jobId);
+  queue.generation++;
+  queue.draining = false;
+  return true;
+}
+
+/**
+ * Check whether a job in this process is waiting for schema changes to be approved
+ */
+export function isAwaitingSchemaApproval(jobId: string): boolean {
+  return queue.schemaApprovals.has(jobId);
+}
+
+/**
+ * Hand an admin's decision to a job waiting for it in this process.
+ * Returns false if no job is waiting here; the caller stores the decision,
+ * which the job picks up when it is resumed.
+ */
+export function resolveSchemaApproval(jobId: string, approval: SchemaApproval): boolean {
+  const resolve = queue.schemaApprovals.get(jobId);
+  if (!resolve) {
+    return false;
+  }
+
+  resolve(approval);
+  return true;
+}
+
+/**
+ * Wait for resolveSchemaApproval, the timeout (`expired`) or a cancellation
+ */
+function waitForSchemaApproval(jobId: string, pending: SchemaApproval, signal: AbortSignal): Promise<SchemaApproval> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new JobCancelledError());
+      return;
+    }
+
+    const finish = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+      queue.schemaApprovals.delete(jobId);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new JobCancelledError());
+    };
+    const timer = setTimeout(() => {
+      finish();
+      resolve({ ...pending, status: 'expired', decidedAt: new Date().toISOString() });
+    }, SCHEMA_APPROVAL_TIMEOUT_MS);
+
+    signal.addEventListener('abort', onAbort);
+    queue.schemaApprovals.set(jobId, (approval) => {
+      finish();
+      resolve(approval);
+    });
+  });
+}
+
+/**
+ * Resume all PENDING/RUNNING jobs (called once on server startup)
+ */
+export async function resumeIncompleteJobs(store?: JobStore): Promise<string[]> {
+  const jobStore = store || new JobStore();
+  const jobs = await jobStore.listIncompleteJobs();
+
+  if (jobs.length > 0) {
+    console.log(`[Jobs] Resuming ${jobs.length} incomplete modification job(s)`);
+    processModificationQueue({ store: jobStore });
+  }
+
+  return jobs.map((job) => job.id);
+}
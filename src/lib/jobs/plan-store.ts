@@ -0,0 +1,151 @@
+import { PrismaClient } from '@prisma/client';
+import { prisma as defaultPrisma } from '../db';
+import { ModificationPlan } from '../agents/modification-plan';
+
+/**
+ * Plan status (mirrors the PlanStatus enum in prisma/schema.prisma)
+ */
+export type PlanStatus = 'PROPOSED' | 'APPLIED';
+
+/**
+ * Stored plan with JSON columns parsed
+ */
+export interface ModificationPlanRecord {
+  id: string;
+  adminId: string | null;
+  message: string;
+  plan: ModificationPlan;
+  agentSessionId: string | null;
+  status: PlanStatus;
+  jobId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Raw ModificationPlan row (plan still stringified)
+ */
+interface ModificationPlanRow {
+  id: string;
+  adminId: string | null;
+  message: string;
+  plan: string;
+  agentSessionId: string | null;
+  status: PlanStatus;
+  jobId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * PlanStore
+ *
+ * Persists plans produced in plan mode so an apply request can reference
+ * the plan an admin reviewed by id.
+ *
+ * Usage:
+ * ```typescript
+ * const store = new PlanStore();
+ * const record = await store.createPlan({ message, plan });
+ * // ...later, when applying
+ * if (await store.claim(record.id)) {
+ *   await store.markApplied(record.id, job.id);
+ * }
+ * ```
+ */
+export class PlanStore {
+  private prisma: PrismaClient;
+
+  constructor(prismaClient?: PrismaClient) {
+    this.prisma = prismaClient || defaultPrisma;
+  }
+
+  /**
+   * Store a proposed plan
+   */
+  async createPlan(options: {
+    message: string;
+    plan: ModificationPlan;
+    adminId?: string | null;
+    agentSessionId?: string | null;
+  }): Promise<ModificationPlanRecord> {
+    const row = await this.prisma.modificationPlan.create({
+      data: {
+        message: options.message,
+        plan: JSON.stringify(options.plan),
+        adminId: options.adminId ?? null,
+        agentSessionId: options.agentSessionId ?? null,
+        status: 'PROPOSED',
+      },
+    });
+
+    return this.toRecord(row);
+  }
+
+  /**
+   * Get a plan by id
+   */
+  async getPlan(id: string): Promise<ModificationPlanRecord | null> {
+    const row = await this.prisma.modificationPlan.findUnique({ where: { id } });
+    return row ? this.toRecord(row) : null;
+  }
+
+  /**
+   * Claim a proposed plan for an apply request, in a single conditional write.
+   * Returns false when another request claimed (applied) it first.
+   */
+  async claim(id: string): Promise<boolean> {
+    const { count } = await this.prisma.modificationPlan.updateMany({
+      where: { id, status: 'PROPOSED' },
+      data: { status: 'APPLIED' },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Give back a claimed plan whose job could not be created
+   */
+  async release(id: string): Promise<void> {
+    await this.prisma.modificationPlan.updateMany({
+      where: { id, status: 'APPLIED', jobId: null },
+      data: { status: 'PROPOSED' },
+    });
+  }
+
+  /**
+   * Mark a plan as applied by a modification job
+   */
+  async markApplied(id: string, jobId: string): Promise<ModificationPlanRecord> {
+    const row = await this.prisma.modificationPlan.update({
+      where: { id },
+      data: { status: 'APPLIED', jobId },
+    });
+
+    return this.toRecord(row);
+  }
+
+  /**
+   * Convert a database row into a record with the plan parsed
+   */
+  private toRecord(row: ModificationPlanRow): ModificationPlanRecord {
+    return {
+      id: row.id,
+      adminId: row.adminId ?? null,
+      message: row.message,
+      plan: JSON.parse(row.plan),
+      agentSessionId: row.agentSessionId ?? null,
+      status: row.status,
+      jobId: row.jobId ?? null,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+}
+
+/**
+ * Convenience function to create a PlanStore instance
+ */
+export function createPlanStore(prismaClient?: PrismaClient): PlanStore {
+  return new PlanStore(prismaClient);
+}
@@ -0,0 +1,162 @@
+import { PrismaClient } from '@prisma/client';
+import { prisma as defaultPrisma } from '../db';
+
+/**
+ * Current lock holder
+ */
+export interface WorktreeLockInfo {
+  id: string;
+  jobId: string;
+  adminId: string | null;
+  acquiredAt: Date;
+  leaseExpiresAt: Date;
+}
+
+/**
+ * Result of an acquire attempt
+ */
+export interface LockAcquireResult {
+  acquired: boolean;
+  holder: WorktreeLockInfo | null;
+}
+
+/**
+ * Lock options
+ */
+export interface WorktreeLockOptions {
+  name?: string; // Worktree name (row id)
+  leaseMs?: number; // How long a lease lasts without renewal
+}
+
+/**
+ * Default lease: long enough to survive a slow agent or test step between renewals,
+ * short enough that a crashed server does not block the queue for long
+ */
+export const DEFAULT_LEASE_MS = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * WorktreeLock
+ *
+ * Database-backed mutual exclusion over the staging worktree.
+ * Modification jobs diff `git status` before and after the agent runs, so two jobs
+ * sharing the worktree would corrupt each other's file lists and commits.
+ *
+ * The lock is a single WorktreeLock row keyed by worktree name:
+ * - Acquire inserts the row (primary key makes it atomic)
+ * - The holder renews its lease while it works
+ * - An expired lease is dropped, so a crashed holder cannot block forever
+ * - The same job can re-acquire its own lock (resume after restart)
+ *
+ * Usage:
+ * ```typescript
+ * const lock = new WorktreeLock();
+ * const { acquired } = await lock.acquire(jobId);
+ * if (acquired) {
+ *   try { ... } finally { await lock.release(jobId); }
+ * }
+ * ```
+ */
+export class WorktreeLock {
+  private prisma: PrismaClient;
+  private name: string;
+  private leaseMs: number;
+
+  constructor(options: WorktreeLockOptions = {}, prismaClient?: PrismaClient) {
+    this.prisma = prismaClient || defaultPrisma;
+    this.name = options.name || 'staging';
+    this.leaseMs = options.leaseMs || DEFAULT_LEASE_MS;
+  }
+
+  /**
+   * Try to acquire the lock for a job
+   */
+  async acquire(jobId: string, adminId?: string | null): Promise<LockAcquireResult> {
+    // Drop an expired lease so a crashed holder cannot block the queue forever
+    await this.prisma.worktreeLock.deleteMany({
+      where: { id: this.name, leaseExpiresAt: { lt: new Date() } },
+    });
+
+    // Re-entrant: a resumed job keeps the lock it already holds
+    if (await this.renew(jobId)) {
+      return { acquired: true, holder: await this.getHolder() };
+    }
+
+    try {
+      const row = await this.prisma.worktreeLock.create({
+        data: {
+          id: this.name,
+          jobId,
+          adminId: adminId ?? null,
+          leaseExpiresAt: this.leaseDeadline(),
+        },
+      });
+
+      return { acquired: true, holder: row };
+    } catch {
+      // Row already exists - someone else holds the lock
+      return { acquired: false, holder: await this.getHolder() };
+    }
+  }
+
+  /**
+   * Extend the lease (returns false if the job no longer holds the lock)
+   */
+  async renew(jobId: string): Promise<boolean> {
+    const result = await this.prisma.worktreeLock.updateMany({
+      where: { id: this.name, jobId },
+      data: { leaseExpiresAt: this.leaseDeadline() },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Release the lock if held by the given job
+   */
+  async release(jobId: string): Promise<boolean> {
+    const result = await this.prisma.worktreeLock.deleteMany({
+      where: { id: this.name, jobId },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Release the lock regardless of holder (admin "break lock")
+   * Returns the holder that was removed, if any.
+   */
+  async forceRelease(): Promise<WorktreeLockInfo | null> {
+    const holder = await this.getHolder();
+
+    if (holder) {
+      await this.prisma.worktreeLock.deleteMany({ where: { id: this.name } });
+    }
+
+    return holder;
+  }
+
+  /**
+   * Get the current holder (null if unlocked)
+   */
+  async getHolder(): Promise<WorktreeLockInfo | null> {
+    return this.prisma.worktreeLock.findUnique({ where: { id: this.name } });
+  }
+
+  /**
+   * Get lease duration in milliseconds
+   */
+  getLeaseMs(): number {
+    return this.leaseMs;
+  }
+
+  private leaseDeadline(): Date {
+    return new Date(Date.now() + this.leaseMs);
+  }
+}
+
+/**
+ * Convenience function to create a WorktreeLock instance
+ */
+export function createWorktreeLock(options?: WorktreeLockOptions): WorktreeLock {
+  return new WorktreeLock(options);
+}
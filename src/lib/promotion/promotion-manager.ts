@@ -2,6 +2,7 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { CodeChangeStore } from '../code-modification/code-change-store';
 
 const execAsync = promisify(exec);
 
@@ -16,6 +17,7 @@ export interface PromotionResult {
     insertions: number;
     deletions: number;
     commits: number;
+    recordedChanges?: number; // CodeChange rows marked deployedToProduction
   };
   error?: string;
   details?: string;
@@ -70,10 +72,12 @@ export interface PromotionDiff {
 export class PromotionManager {
   private stagingPath: string;
   private productionPath: string;
+  private changeStore: CodeChangeStore;
 
-  constructor(config: { stagingPath: string; productionPath: string }) {
+  constructor(config: { stagingPath: string; productionPath: string; changeStore?: CodeChangeStore }) {
     this.stagingPath = config.stagingPath;
     this.productionPath = config.productionPath;
+    this.changeStore = config.changeStore || new CodeChangeStore();
   }
 
   /**
@@ -298,6 +302,17 @@ export class PromotionManager {
         await execAsync('git push origin main', { cwd: this.productionPath });
         console.log('✓ Pushed to origin/main');
 
+        // Record the merged commits as deployed (history only - never fails the promotion)
+        let recordedChanges = 0;
+        try {
+          recordedChanges = await this.changeStore.markDeployedToProduction(
+            diff.commits.map((commit) => commit.hash)
+          );
+          console.log(`✓ Marked ${recordedChanges} recorded change(s) as deployed to production`);
+        } catch (recordError) {
+          console.error('⚠ Failed to update change history:', recordError);
+        }
+
         // Success!
         const duration = Date.now() - startTime;
         console.log('\n✓ Promotion complete!');
@@ -312,6 +327,7 @@ export class PromotionManager {
             insertions: diff.files.reduce((sum, f) => sum + f.additions, 0),
             deletions: diff.files.reduce((sum, f) => sum + f.deletions, 0),
             commits: diff.commits.length,
+            recordedChanges,
           },
         };
       } catch (mergeError) {
@@ -12,7 +12,7 @@ export interface SSEClient {
 }
 
 export interface SSEMessage {
-  type: 'progress' | 'status' | 'file_change' | 'test_result' | 'error' | 'complete';
+  type: 'progress' | 'status' | 'file_change' | 'test_result' | 'error' | 'complete' | 'cancelled' | 'agent_tool' | 'agent_text';
   data: any;
   sessionId?: string; // Optional session targeting
   timestamp: number;
@@ -155,7 +155,18 @@ export function broadcastFileChange(filePath: string, action: 'created' | 'modif
   });
 }
 
-export function broadcastTestResult(result: { passed: number; failed: number; total: number }, sessionId?: string): void {
+export function broadcastTestResult(
+  result: {
+    passed: number;
+    failed: number;
+    total: number;
+    stages?: Array<{ name: string; policy: string; status: string; summary: string }>; // Lint and build gates
+    flakyTests?: string[]; // Failed, then passed when re-run
+    testRunId?: string; // Per-test results on /admin/tests
+    scope?: 'impacted' | 'full'; // Only the tests importing the changed files, or the whole suite
+  },
+  sessionId?: string
+): void {
   sseManager.broadcast({
     type: 'test_result',
     data: result,
@@ -181,3 +192,30 @@ export function broadcastComplete(result: any, sessionId?: string): void {
     timestamp: Date.now(),
   });
 }
+
+export function broadcastCancelled(result: { jobId: string; step?: string | null; cleanup?: string[] }, sessionId?: string): void {
+  sseManager.broadcast({
+    type: 'cancelled',
+    data: result,
+    sessionId,
+    timestamp: Date.now(),
+  });
+}
+
+export function broadcastAgentTool(tool: { tool: string; summary: string; jobId?: string }, sessionId?: string): void {
+  sseManager.broadcast({
+    type: 'agent_tool',
+    data: tool,
+    sessionId,
+    timestamp: Date.now(),
+  });
+}
+
+export function broadcastAgentText(text: string, jobId?: string, sessionId?: string): void {
+  sseManager.broadcast({
+    type: 'agent_text',
+    data: { text, jobId },
+    sessionId,
+    timestamp: Date.now(),
+  });
+}
@@ -0,0 +1,62 @@
+import { TokenUsage } from '../agents/llm-provider';
+
+/**
+ * USD per million tokens, matched against the model id (first match wins)
+ */
+export const MODEL_PRICING: Array<{ match: string; input: number; output: number }> = [
+  { match: 'opus', input: 15, output: 75 },
+  { match: 'haiku', input: 0.8, output: 4 },
+  { match: 'sonnet', input: 3, output: 15 },
+];
+
+/**
+ * Price used when the model is unknown (Sonnet, the default model)
+ */
+const DEFAULT_PRICING = { input: 3, output: 15 };
+
+/**
+ * Estimated cost of a call in USD
+ */
+export function estimateCost(model: string | undefined, inputTokens: number, outputTokens: number): number {
+  const id = (model || '').toLowerCase();
+  const pricing = MODEL_PRICING.find((price) => id.includes(price.match)) || DEFAULT_PRICING;
+
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Cost of a call: what the provider reported, else the estimate
+ */
+export function usageCost(usage: TokenUsage): number {
+  return usage.costUsd ?? estimateCost(usage.model, usage.inputTokens, usage.outputTokens);
+}
+
+/**
+ * Token usage from an agent `result` message (Agent SDK or CLI stream-json),
+ * which carries `usage` and `total_cost_usd`. The model comes from the init message.
+ */
+export function usageFromResultMessage(message: unknown, model?: string): TokenUsage | undefined {
+  const result = message as {
+    usage?: {
+      input_tokens?: number;
+      output_tokens?: number;
+      cache_creation_input_tokens?: number;
+      cache_read_input_tokens?: number;
+    };
+    total_cost_usd?: number;
+  } | null;
+
+  if (!result?.usage) {
+    return undefined;
+  }
+
+  return {
+    model,
+    inputTokens:
+      (result.usage.input_tokens || 0) +
+      (result.usage.cache_creation_input_tokens || 0) +
+      (result.usage.cache_read_input_tokens || 0),
+    outputTokens: result.usage.output_tokens || 0,
+    costUsd: typeof result.total_cost_usd === 'number' ? result.total_cost_usd : undefined,
+  };
+}
@@ -0,0 +1,298 @@
+import { PrismaClient } from '@prisma/client';
+import { prisma as defaultPrisma } from '../db';
+import { TokenUsage } from '../agents/llm-provider';
+import { usageCost } from './pricing';
+
+/**
+ * What the agent call was for
+ */
+export type UsageOperation = 'modify' | 'repair' | 'plan';
+
+/**
+ * One recorded agent call
+ */
+export interface UsageRecord {
+  id: string;
+  jobId: string | null;
+  adminId: string | null;
+  provider: string;
+  model: string | null;
+  operation: UsageOperation;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  durationMs: number;
+  createdAt: Date;
+}
+
+/**
+ * Summed usage over a period
+ */
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Usage report for one month
+ */
+export interface UsageSummary {
+  month: string; // YYYY-MM (UTC)
+  totals: UsageTotals;
+  daily: Array<UsageTotals & { date: string }>; // Days of the month with usage, YYYY-MM-DD
+  monthly: Array<UsageTotals & { month: string }>; // The 12 months ending with `month`
+  byAdmin: Array<UsageTotals & { adminId: string | null; name: string | null; email: string | null }>;
+}
+
+/**
+ * Monthly budgets in USD (null = no limit)
+ */
+export interface UsageBudgets {
+  monthlyUsd: number | null; // All admins together
+  adminMonthlyUsd: number | null; // Each admin
+}
+
+/**
+ * Result of checking the budgets before a new request
+ */
+export interface BudgetCheck {
+  allowed: boolean;
+  error?: string;
+  spentUsd: number;
+  adminSpentUsd: number;
+  budgets: UsageBudgets;
+}
+
+/**
+ * Read the budgets from USAGE_MONTHLY_BUDGET_USD and USAGE_ADMIN_MONTHLY_BUDGET_USD
+ */
+export function getUsageBudgets(): UsageBudgets {
+  const parse = (value: string | undefined) => {
+    const amount = parseFloat(value || '');
+    return amount > 0 ? amount : null;
+  };
+
+  return {
+    monthlyUsd: parse(process.env.USAGE_MONTHLY_BUDGET_USD),
+    adminMonthlyUsd: parse(process.env.USAGE_ADMIN_MONTHLY_BUDGET_USD),
+  };
+}
+
+/**
+ * UsageStore
+ *
+ * Records the tokens, cost and duration of every agent call in the AgentUsage
+ * table, against the job and the admin that requested it, and answers the
+ * questions the usage page and the budget check ask about them.
+ *
+ * Months and days are UTC.
+ *
+ * Usage:
+ * ```typescript
+ * const store = new UsageStore();
+ * await store.record({ jobId, adminId, provider: 'claude-cli', operation: 'modify', usage, durationMs });
+ * const check = await store.checkBudget(adminId);
+ * ```
+ */
+export class UsageStore {
+  private prisma: PrismaClient;
+
+  constructor(prismaClient?: PrismaClient) {
+    this.prisma = prismaClient || defaultPrisma;
+  }
+
+  /**
+   * Record one agent call. Calls without usage (e.g. failed before the model
+   * answered) are still recorded so their duration counts.
+   */
+  async record(options: {
+    jobId?: string | null;
+    adminId?: string | null;
+    provider: string;
+    operation: UsageOperation;
+    usage?: TokenUsage;
+    durationMs: number;
+  }): Promise<UsageRecord> {
+    const usage = options.usage || { inputTokens: 0, outputTokens: 0 };
+
+    return this.prisma.agentUsage.create({
+      data: {
+        jobId: options.jobId || null,
+        adminId: options.adminId || null,
+        provider: options.provider,
+        model: usage.model || null,
+        operation: options.operation,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        costUsd: usageCost(usage),
+        durationMs: Math.round(options.durationMs),
+      },
+    });
+  }
+
+  /**
+   * Calls recorded for a job, oldest first
+   */
+  async listForJob(jobId: string): Promise<UsageRecord[]> {
+    return this.prisma.agentUsage.findMany({
+      where: { jobId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Cost so far this month, for one admin or everyone
+   */
+  async getMonthlyCost(adminId?: string | null, now: Date = new Date()): Promise<number> {
+    const { start, end } = monthRange(monthKey(now));
+    const where: Record<string, unknown> = { createdAt: { gte: start, lt: end } };
+    if (adminId !== undefined) where.adminId = adminId;
+
+    const result = await this.prisma.agentUsage.aggregate({
+      where,
+      _sum: { costUsd: true },
+    });
+
+    return result._sum.costUsd || 0;
+  }
+
+  /**
+   * Check the monthly budgets before accepting a new request from `adminId`
+   */
+  async checkBudget(adminId: string | null, now: Date = new Date()): Promise<BudgetCheck> {
+    const budgets = getUsageBudgets();
+    const [spentUsd, adminSpentUsd] = await Promise.all([
+      budgets.monthlyUsd !== null ? this.getMonthlyCost(undefined, now) : Promise.resolve(0),
+      budgets.adminMonthlyUsd !== null && adminId ? this.getMonthlyCost(adminId, now) : Promise.resolve(0),
+    ]);
+
+    if (budgets.monthlyUsd !== null && spentUsd >= budgets.monthlyUsd) {
+      return {
+        allowed: false,
+        error: `Monthly AI budget exceeded ($${spentUsd.toFixed(2)} of $${budgets.monthlyUsd.toFixed(2)})`,
+        spentUsd,
+        adminSpentUsd,
+        budgets,
+      };
+    }
+
+    if (budgets.adminMonthlyUsd !== null && adminId && adminSpentUsd >= budgets.adminMonthlyUsd) {
+      return {
+        allowed: false,
+        error: `Your monthly AI budget is exceeded ($${adminSpentUsd.toFixed(2)} of $${budgets.adminMonthlyUsd.toFixed(2)})`,
+        spentUsd,
+        adminSpentUsd,
+        budgets,
+      };
+    }
+
+    return { allowed: true, spentUsd, adminSpentUsd, budgets };
+  }
+
+  /**
+   * Daily, monthly and per-admin totals for a month (YYYY-MM, default: current month)
+   */
+  async getSummary(options: { month?: string; adminId?: string } = {}): Promise<UsageSummary> {
+    const month = options.month || monthKey(new Date());
+    const { start, end } = monthRange(month);
+    const windowStart = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() - 11, 1));
+
+    const where: Record<string, unknown> = { createdAt: { gte: windowStart, lt: end } };
+    if (options.adminId) where.adminId = options.adminId;
+
+    const rows: UsageRecord[] = await this.prisma.agentUsage.findMany({
+      where,
+      orderBy: { createdAt: 'asc' },
+    });
+    const inMonth = rows.filter((row) => row.createdAt >= start);
+
+    const monthly = new Map<string, UsageTotals>();
+    for (let i = 0; i < 12; i++) {
+      const date = new Date(Date.UTC(windowStart.getUTCFullYear(), windowStart.getUTCMonth() + i, 1));
+      monthly.set(monthKey(date), emptyTotals());
+    }
+    rows.forEach((row) => addTo(monthly, monthKey(row.createdAt), row));
+
+    const daily = new Map<string, UsageTotals>();
+    inMonth.forEach((row) => addTo(daily, row.createdAt.toISOString().substring(0, 10), row));
+
+    const byAdmin = new Map<string | null, UsageTotals>();
+    inMonth.forEach((row) => addTo(byAdmin, row.adminId, row));
+
+    // AgentUsage has no relation to User, so resolve admins in one query
+    const adminIds = Array.from(byAdmin.keys()).filter((id): id is string => !!id);
+    const admins: Array<{ id: string; name: string; email: string }> = adminIds.length > 0
+      ? await this.prisma.user.findMany({
+          where: { id: { in: adminIds } },
+          select: { id: true, name: true, email: true },
+        })
+      : [];
+    const adminsById = new Map(admins.map((admin) => [admin.id, admin]));
+
+    return {
+      month,
+      totals: inMonth.reduce((totals, row) => add(totals, row), emptyTotals()),
+      daily: Array.from(daily.entries()).map(([date, totals]) => ({ date, ...totals })),
+      monthly: Array.from(monthly.entries()).map(([key, totals]) => ({ month: key, ...totals })),
+      byAdmin: Array.from(byAdmin.entries())
+        .map(([adminId, totals]) => ({
+          adminId,
+          name: (adminId && adminsById.get(adminId)?.name) || null,
+          email: (adminId && adminsById.get(adminId)?.email) || null,
+          ...totals,
+        }))
+        .sort((a, b) => b.costUsd - a.costUsd),
+    };
+  }
+}
+
+/**
+ * UTC month of a date, as YYYY-MM
+ */
+export function monthKey(date: Date): string {
+  return date.toISOString().substring(0, 7);
+}
+
+/**
+ * Start (inclusive) and end (exclusive) of a YYYY-MM month
+ */
+function monthRange(month: string): { start: Date; end: Date } {
+  const match = /^(\d{4})-(\d{2})$/.exec(month);
+  if (!match) {
+    throw new Error(`Invalid month "${month}" (expected YYYY-MM)`);
+  }
+
+  const year = parseInt(match[1], 10);
+  const monthIndex = parseInt(match[2], 10) - 1;
+
+  return {
+    start: new Date(Date.UTC(year, monthIndex, 1)),
+    end: new Date(Date.UTC(year, monthIndex + 1, 1)),
+  };
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+function add(totals: UsageTotals, row: UsageRecord): UsageTotals {
+  return {
+    calls: totals.calls + 1,
+    inputTokens: totals.inputTokens + row.inputTokens,
+    outputTokens: totals.outputTokens + row.outputTokens,
+    costUsd: totals.costUsd + row.costUsd,
+  };
+}
+
+function addTo<K>(map: Map<K, UsageTotals>, key: K, row: UsageRecord): void {
+  map.set(key, add(map.get(key) || emptyTotals(), row));
+}
+
+/**
+ * Convenience function to create a UsageStore instance
+ */
+export function createUsageStore(prismaClient?: PrismaClient): UsageStore {
+  return new UsageStore(prismaClient);
+}
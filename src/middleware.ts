@@ -41,5 +41,6 @@ export const config = {
     '/admin/:path*',
     '/api/code/:path*',
     '/api/promotion/:path*',
+    '/api/db/:path*',
   ],
 };
@@ -0,0 +1,241 @@
+/**
+ * In-memory stand-in for the Prisma client, shared by the store tests.
+ *
+ * Each model is an array of rows supporting the delegate methods the stores
+ * use (create, find*, update*, upsert, delete*, count, aggregate) with where
+ * clauses of equalities and the common filter operators. Timestamps come from
+ * one clock per client, so rows created or updated later always sort later.
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+export type Row = Record<string, unknown>;
+export type Where = Record<string, unknown>;
+
+/**
+ * How a model's rows are created
+ */
+export interface FakeModel {
+  idPrefix?: string; // Generated ids are `<idPrefix>_<n>` (default: the model name)
+  defaults?: Row; // Column defaults from the schema
+  createdAt?: string; // Column defaulting to now() (default: createdAt)
+  updatedAt?: boolean; // Has an @updatedAt column
+  rows?: Row[]; // Initial rows
+}
+
+/**
+ * ModificationJob with its schema defaults, for the JobStore and pipeline tests
+ */
+export const MODIFICATION_JOB: FakeModel = {
+  idPrefix: 'job',
+  defaults: { adminId: null, status: 'PENDING', currentStep: null, result: null, error: null, completedAt: null },
+  updatedAt: true,
+};
+
+type OrderBy = Record<string, 'asc' | 'desc'> | Array<Record<string, 'asc' | 'desc'>>;
+
+interface FindArgs {
+  where?: Where;
+  orderBy?: OrderBy;
+  take?: number;
+  skip?: number;
+  select?: Record<string, boolean>;
+  distinct?: string[];
+}
+
+const OPERATORS = new Set(['equals', 'in', 'notIn', 'not', 'lt', 'lte', 'gt', 'gte', 'contains', 'startsWith']);
+
+/**
+ * Value comparable with `===` and `<` (dates by time)
+ */
+function comparable(value: unknown): unknown {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function isPlainObject(value: unknown): value is Row {
+  return !!value && typeof value === 'object' && !(value instanceof Date) && !Array.isArray(value);
+}
+
+/**
+ * Whether a column value satisfies one filter operator
+ */
+function satisfies(value: unknown, operator: string, operand: unknown): boolean {
+  const actual = comparable(value);
+  const expected = comparable(operand);
+
+  switch (operator) {
+    case 'equals':
+      return actual === expected;
+    case 'in':
+      return (operand as unknown[]).some((item) => comparable(item) === actual);
+    case 'notIn':
+      return !(operand as unknown[]).some((item) => comparable(item) === actual);
+    case 'not':
+      return isPlainObject(operand) ? !matchesValue(value, operand) : actual !== expected;
+    case 'lt':
+      return actual !== null && (actual as number) < (expected as number);
+    case 'lte':
+      return actual !== null && (actual as number) <= (expected as number);
+    case 'gt':
+      return actual !== null && (actual as number) > (expected as number);
+    case 'gte':
+      return actual !== null && (actual as number) >= (expected as number);
+    case 'contains':
+      return typeof value === 'string' && value.includes(operand as string);
+    case 'startsWith':
+      return typeof value === 'string' && value.startsWith(operand as string);
+    default:
+      throw new Error(`Unsupported filter operator: ${operator}`);
+  }
+}
+
+function matchesValue(value: unknown, filter: Row): boolean {
+  return Object.entries(filter).every(([operator, operand]) => operand === undefined || satisfies(value, operator, operand));
+}
+
+/**
+ * Whether a row satisfies a Prisma where clause: equalities (a missing column
+ * is null), filter objects such as `{ in: [...] }`, `{ not: null }` or
+ * `{ gte, lt }`, and compound unique keys such as `file_fullName: { file, fullName }`.
+ * Undefined conditions are ignored, as Prisma does.
+ */
+export function matches(row: Row, where: Where = {}): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (condition === undefined) {
+      return true;
+    }
+    if (isPlainObject(condition)) {
+      return Object.keys(condition).every((operator) => OPERATORS.has(operator))
+        ? matchesValue(row[key] ?? null, condition)
+        : matches(row, condition);
+    }
+    return comparable(row[key] ?? null) === comparable(condition);
+  });
+}
+
+function sortRows(rows: Row[], orderBy?: OrderBy): Row[] {
+  const orders = orderBy ? (Array.isArray(orderBy) ? orderBy : [orderBy]).flatMap((order) => Object.entries(order)) : [];
+
+  return [...rows].sort((a, b) => {
+    for (const [key, direction] of orders) {
+      const left = comparable(a[key]) as number;
+      const right = comparable(b[key]) as number;
+      if (left !== right) {
+        return (left < right ? -1 : 1) * (direction === 'desc' ? -1 : 1);
+      }
+    }
+    return 0;
+  });
+}
+
+function pick(row: Row, select?: Record<string, boolean>): Row {
+  return select ? Object.fromEntries(Object.keys(select).filter((key) => select[key]).map((key) => [key, row[key]])) : { ...row };
+}
+
+/**
+ * Create a client with the given models. `client` adds client-level members
+ * such as `$executeRawUnsafe`. `tables` holds each model's live rows, for
+ * seeding and inspecting them.
+ */
+export function createFakePrisma(
+  models: Record<string, FakeModel> = {},
+  client: Row = {}
+): { prisma: PrismaClient; tables: Record<string, Row[]> } {
+  const start = Date.now();
+  let clock = 0;
+  const now = () => new Date(start + ++clock);
+
+  const tables: Record<string, Row[]> = {};
+  const delegates: Row = {};
+
+  for (const [name, model] of Object.entries(models)) {
+    const rows: Row[] = (tables[name] = [...(model.rows || [])]);
+    let counter = 0;
+
+    const find = ({ where, orderBy, take, skip = 0, distinct }: FindArgs = {}) => {
+      let found = sortRows(rows.filter((row) => matches(row, where)), orderBy);
+      if (distinct) {
+        const seen = new Set<string>();
+        found = found.filter((row) => {
+          const key = JSON.stringify(distinct.map((field) => row[field]));
+          return !seen.has(key) && !!seen.add(key);
+        });
+      }
+      return found.slice(skip, take === undefined ? undefined : skip + take);
+    };
+
+    const insert = (data: Row): Row => {
+      if (data.id !== undefined && rows.some((row) => row.id === data.id)) {
+        throw new Error(`Unique constraint failed on the fields: (\`id\`) in ${name}`);
+      }
+      const createdAt = now();
+      const row: Row = {
+        id: `${model.idPrefix || name}_${++counter}`,
+        ...model.defaults,
+        [model.createdAt || 'createdAt']: createdAt,
+        ...(model.updatedAt && { updatedAt: createdAt }),
+        ...data,
+      };
+      rows.push(row);
+      return row;
+    };
+
+    const write = (row: Row, data: Row) => Object.assign(row, data, model.updatedAt && !('updatedAt' in data) ? { updatedAt: now() } : {});
+
+    const requireRow = (where: Where, operation: string): Row => {
+      const row = rows.find((candidate) => matches(candidate, where));
+      if (!row) {
+        throw new Error(`Record to ${operation} not found in ${name}`);
+      }
+      return row;
+    };
+
+    delegates[name] = {
+      create: async ({ data, select }: { data: Row; select?: Record<string, boolean> }) => pick(insert(data), select),
+      createMany: async ({ data }: { data: Row[] }) => {
+        data.forEach(insert);
+        return { count: data.length };
+      },
+      findUnique: async ({ where, select }: FindArgs) => {
+        const row = rows.find((candidate) => matches(candidate, where));
+        return row ? pick(row, select) : null;
+      },
+      findFirst: async (args: FindArgs = {}) => {
+        const [row] = find(args);
+        return row ? pick(row, args.select) : null;
+      },
+      findMany: async (args: FindArgs = {}) => find(args).map((row) => pick(row, args.select)),
+      count: async ({ where }: { where?: Where } = {}) => find({ where }).length,
+      aggregate: async ({ where, _sum = {} }: { where?: Where; _sum?: Record<string, boolean> }) => {
+        const found = find({ where });
+        const sum = (key: string) => {
+          const values = found.map((row) => row[key]).filter((value) => value !== null && value !== undefined);
+          return values.length > 0 ? values.reduce((total: number, value) => total + (value as number), 0) : null;
+        };
+        return { _sum: Object.fromEntries(Object.keys(_sum).map((key) => [key, sum(key)])) };
+      },
+      update: async ({ where, data }: { where: Where; data: Row }) => ({ ...write(requireRow(where, 'update'), data) }),
+      updateMany: async ({ where, data }: { where?: Where; data: Row }) => {
+        const found = rows.filter((row) => matches(row, where));
+        found.forEach((row) => write(row, data));
+        return { count: found.length };
+      },
+      upsert: async ({ where, create, update }: { where: Where; create: Row; update: Row }) => {
+        const row = rows.find((candidate) => matches(candidate, where));
+        return { ...(row ? write(row, update) : insert(create)) };
+      },
+      delete: async ({ where }: { where: Where }) => {
+        const row = requireRow(where, 'delete');
+        rows.splice(rows.indexOf(row), 1);
+        return { ...row };
+      },
+      deleteMany: async ({ where }: { where?: Where } = {}) => {
+        const found = rows.filter((row) => matches(row, where));
+        found.forEach((row) => rows.splice(rows.indexOf(row), 1));
+        return { count: found.length };
+      },
+    };
+  }
+
+  return { prisma: { ...delegates, ...client } as unknown as PrismaClient, tables };
+}
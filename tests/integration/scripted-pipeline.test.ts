@@ -0,0 +1,242 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * End-to-end run of the modification pipeline with the scripted LLM provider:
+ * a real git repository, real branch/commit/merge, no network.
+ */
+
+jest.mock('@/lib/db', () => ({ prisma: {} }));
+jest.mock('@anthropic-ai/claude-agent-sdk', () => ({ query: jest.fn() }));
+
+// Stubbed test runner: the tests step runs against the scripted edits, the suite itself is canned
+const mockRunTests = jest.fn();
+jest.mock('@/lib/code-modification/test-runner', () => ({
+  ...jest.requireActual('@/lib/code-modification/test-runner'),
+  runTests: (...args: unknown[]) => mockRunTests(...args),
+}));
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import simpleGit from 'simple-git';
+import { JobStore } from '@/lib/jobs/job-store';
+import { ModificationRunner } from '@/lib/jobs/modification-runner';
+import { ScriptedProvider } from '@/lib/agents/scripted-provider';
+import { CodeChangeStore } from '@/lib/code-modification/code-change-store';
+import { TestRunStore } from '@/lib/code-modification/test-run-store';
+import { LLMProvider } from '@/lib/agents/llm-provider';
+import { createFakePrisma, MODIFICATION_JOB } from '../helpers/fake-prisma';
+
+describe('Modification pipeline with the scripted provider', () => {
+  let repoDir: string;
+
+  beforeEach(async () => {
+    repoDir = await fs.mkdtemp(path.join(os.tmpdir(), 'scripted-pipeline-test-'));
+    const git = simpleGit(repoDir);
+    await git.init();
+    await git.addConfig('user.name', 'Test', false, 'local');
+    await git.addConfig('user.email', 'test@example.com', false, 'local');
+    await fs.writeFile(path.join(repoDir, 'README.md'), '# Test\n');
+    await fs.mkdir(path.join(repoDir, 'src/lib'), { recursive: true });
+    await fs.writeFile(path.join(repoDir, 'src/lib/auth.ts'), 'export const auth = {};\n');
+    await git.add('.');
+    await git.commit('Initial commit');
+    await git.checkoutLocalBranch('staging');
+  });
+
+  afterEach(async () => {
+    await fs.rm(repoDir, { recursive: true, force: true });
+  });
+
+  it('should apply, commit and merge the scripted edits into staging', async () => {
+    const store = new JobStore(createFakePrisma({ modificationJob: MODIFICATION_JOB }).prisma);
+    const changeStore = {
+      recordCommit: jest.fn(),
+      setTestsPassed: jest.fn(),
+      markDeployedToStaging: jest.fn(),
+    } as unknown as CodeChangeStore;
+    const provider = new ScriptedProvider(repoDir, path.join(__dirname, '../fixtures/llm/scripted.json'));
+
+    const job = await store.createJob({ message: 'Add a footer', input: { skipTests: true } });
+    const finished = await new ModificationRunner({ projectRoot: repoDir, store, changeStore, provider }).run(job.id);
+
+    expect(finished?.status).toBe('COMPLETED');
+    expect(finished?.result?.modifications).toEqual([{ filePath: 'src/components/Footer.tsx', created: true }]);
+
+    const git = simpleGit(repoDir);
+    expect((await git.branchLocal()).current).toBe('staging');
+    expect((await git.branchLocal()).all).not.toContain(`ai/${job.id}`);
+    expect((await git.log()).latest?.message).toBe('AI: Add a footer');
+    await expect(fs.readFile(path.join(repoDir, 'src/components/Footer.tsx'), 'utf-8')).resolves.toContain('<footer');
+  });
+
+  it('should revert protected files the agent changed and fail the job', async () => {
+    const store = new JobStore(createFakePrisma({ modificationJob: MODIFICATION_JOB }).prisma);
+    const changeStore = { recordCommit: jest.fn() } as unknown as CodeChangeStore;
+    // Writes straight to disk, like an agent running with --dangerously-skip-permissions
+    const provider = {
+      name: 'scripted',
+      modifyCode: async () => {
+        await fs.writeFile(path.join(repoDir, 'src/lib/auth.ts'), 'export const auth = { bypass: true };\n');
+        await fs.writeFile(path.join(repoDir, '.env'), 'SECRET=leaked\n');
+        await fs.writeFile(path.join(repoDir, 'src/page.tsx'), 'export default function Page() {}\n');
+        return { success: true, result: 'Done' };
+      },
+      planChanges: jest.fn(),
+    } as unknown as LLMProvider;
+
+    const job = await store.createJob({ message: 'Speed up login', input: { skipTests: true } });
+    const finished = await new ModificationRunner({ projectRoot: repoDir, store, changeStore, provider }).run(job.id);
+
+    expect(finished?.status).toBe('FAILED');
+    expect(finished?.error).toContain('protected file');
+    expect(finished?.result?.protectedFiles).toEqual([
+      { filePath: 'src/lib/auth.ts', reverted: true },
+      { filePath: '.env', reverted: true },
+    ]);
+    expect(finished?.result?.details).toContain('src/lib/auth.ts: reverted');
+
+    await expect(fs.readFile(path.join(repoDir, 'src/lib/auth.ts'), 'utf-8')).resolves.toBe('export const auth = {};\n');
+    await expect(fs.access(path.join(repoDir, '.env'))).rejects.toThrow();
+    expect(changeStore.recordCommit).not.toHaveBeenCalled();
+    expect((await simpleGit(repoDir).branchLocal()).current).toBe('staging');
+  });
+
+  describe('with the tests step', () => {
+    const testRunStore = {
+      record: jest.fn().mockResolvedValue({ id: 'run_1' }),
+      listQuarantined: jest.fn().mockResolvedValue([]),
+      getCoverageAt: jest.fn().mockResolvedValue(null),
+    } as unknown as TestRunStore;
+    let changeStore: CodeChangeStore;
+
+    const runFooterJob = async () => {
+      const store = new JobStore(createFakePrisma({ modificationJob: MODIFICATION_JOB }).prisma);
+      const provider = new ScriptedProvider(repoDir, path.join(__dirname, '../fixtures/llm/scripted.json'));
+      const job = await store.createJob({ message: 'Add a footer', input: {} });
+      const runner = new ModificationRunner({ projectRoot: repoDir, store, changeStore, testRunStore, provider });
+      return runner.run(job.id);
+    };
+
+    beforeEach(() => {
+      process.env.IMPACTED_TESTS = 'off';
+      mockRunTests.mockReset();
+      changeStore = {
+        recordCommit: jest.fn(),
+        setTestsPassed: jest.fn(),
+        markDeployedToStaging: jest.fn(),
+      } as unknown as CodeChangeStore;
+    });
+
+    afterEach(() => {
+      delete process.env.IMPACTED_TESTS;
+    });
+
+    it('should merge into staging when the tests pass', async () => {
+      mockRunTests.mockResolvedValue({ success: true, testsPassed: 3, testsFailed: 0, totalTests: 3, duration: 10 });
+
+      const finished = await runFooterJob();
+
+      expect(finished?.status).toBe('COMPLETED');
+      expect(mockRunTests).toHaveBeenCalledTimes(1);
+      expect(mockRunTests.mock.calls[0][0]).toMatchObject({ lintFiles: ['src/components/Footer.tsx'] });
+      expect(finished?.result?.tests).toMatchObject({ passed: 3, failed: 0, total: 3 });
+
+      const git = simpleGit(repoDir);
+      expect((await git.branchLocal()).current).toBe('staging');
+      expect((await git.log()).latest?.message).toBe('AI: Add a footer');
+      expect(changeStore.setTestsPassed).toHaveBeenCalledWith(finished?.result?.commit?.hash, true);
+    });
+
+    it('should keep the change off staging when the tests fail', async () => {
+      mockRunTests.mockResolvedValue({
+        success: false,
+        testsPassed: 2,
+        testsFailed: 1,
+        totalTests: 3,
+        failedTests: ['Footer renders the year'],
+        errors: 'Expected 2026, received 2025',
+        duration: 10,
+      });
+
+      const finished = await runFooterJob();
+
+      expect(finished?.status).toBe('FAILED');
+      expect(finished?.steps.find((step) => step.name === 'merge')?.status).toBe('pending');
+      expect(finished?.result?.testResults).toMatchObject({ failed: 1, total: 3 });
+
+      const git = simpleGit(repoDir);
+      expect((await git.branchLocal()).current).toBe('staging');
+      expect((await git.log()).latest?.message).toBe('Initial commit');
+      await expect(fs.access(path.join(repoDir, 'src/components/Footer.tsx'))).rejects.toThrow();
+      expect((await git.log([`ai/${finished?.id}`])).latest?.message).toBe('AI: Add a footer');
+      expect(changeStore.setTestsPassed).not.toHaveBeenCalled();
+      expect(changeStore.markDeployedToStaging).not.toHaveBeenCalled();
+    });
+
+    describe('reverting a commit', () => {
+      let footerCommit: string;
+      const provider = { name: 'scripted', modifyCode: jest.fn(), planChanges: jest.fn() } as unknown as LLMProvider;
+
+      const runRevertJob = async () => {
+        const store = new JobStore(createFakePrisma({ modificationJob: MODIFICATION_JOB }).prisma);
+        const job = await store.createJob({
+          message: 'Revert "AI: Add a footer"',
+          adminId: 'admin_1',
+          input: { revert: { commitHash: footerCommit, message: 'AI: Add a footer' }, maxRepairAttempts: 0 },
+        });
+        const runner = new ModificationRunner({ projectRoot: repoDir, store, changeStore, testRunStore, provider });
+        return runner.run(job.id);
+      };
+
+      beforeEach(async () => {
+        changeStore = { ...changeStore, markReverted: jest.fn() } as unknown as CodeChangeStore;
+        const git = simpleGit(repoDir);
+        await fs.mkdir(path.join(repoDir, 'src/components'), { recursive: true });
+        await fs.writeFile(path.join(repoDir, 'src/components/Footer.tsx'), 'export function Footer() {}\n');
+        await git.add('.');
+        footerCommit = (await git.commit('AI: Add a footer')).commit;
+      });
+
+      it('should test and merge the revert, then mark the commit reverted', async () => {
+        mockRunTests.mockResolvedValue({ success: true, testsPassed: 3, testsFailed: 0, totalTests: 3, duration: 10 });
+
+        const finished = await runRevertJob();
+
+        expect(finished?.status).toBe('COMPLETED');
+        expect(provider.modifyCode).not.toHaveBeenCalled();
+        expect(mockRunTests.mock.calls[0][0]).toMatchObject({ collectCoverage: false });
+
+        const git = simpleGit(repoDir);
+        const head = (await git.log({ maxCount: 1 })).latest;
+        expect((await git.branchLocal()).current).toBe('staging');
+        expect(head?.message).toBe('Revert "AI: Add a footer"');
+        expect(head?.body).toContain(`This reverts commit ${footerCommit}.`);
+        await expect(fs.access(path.join(repoDir, 'src/components/Footer.tsx'))).rejects.toThrow();
+        expect(changeStore.markReverted).toHaveBeenCalledWith(footerCommit, {
+          revertedBy: 'admin_1',
+          revertCommitHash: finished?.result?.commit?.hash,
+        });
+      });
+
+      it('should fail a revert that conflicts without touching staging', async () => {
+        const git = simpleGit(repoDir);
+        await fs.writeFile(path.join(repoDir, 'src/components/Footer.tsx'), 'export function Footer() { return null; }\n');
+        await git.add('.');
+        await git.commit('Change the footer');
+
+        const finished = await runRevertJob();
+
+        expect(finished?.status).toBe('FAILED');
+        expect(finished?.error).toContain('conflicts with later changes');
+        expect(mockRunTests).not.toHaveBeenCalled();
+        expect((await git.branchLocal()).current).toBe('staging');
+        expect((await git.log({ maxCount: 1 })).latest?.message).toBe('Change the footer');
+        expect((await git.status()).isClean()).toBe(true);
+        expect(changeStore.markReverted).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for parsing live agent activity (SDK messages and CLI stream-json)
+ */
+
+import {
+  extractActivity,
+  createStreamJsonParser,
+  parseStreamJsonResult,
+  parseStreamJsonSessionId,
+} from '@/lib/agents/agent-activity';
+import { AgentActivity } from '@/lib/agents/llm-provider';
+
+const assistantMessage = {
+  type: 'assistant',
+  message: {
+    content: [
+      { type: 'text', text: 'Let me look at the header first.' },
+      { type: 'tool_use', name: 'Read', input: { file_path: 'src/components/Header.tsx' } },
+      { type: 'tool_use', name: 'Bash', input: { command: 'git status' } },
+    ],
+  },
+};
+
+describe('extractActivity', () => {
+  it('should turn text and tool_use blocks into activity', () => {
+    expect(extractActivity(assistantMessage)).toEqual([
+      { type: 'text', text: 'Let me look at the header first.' },
+      { type: 'tool', tool: 'Read', summary: 'src/components/Header.tsx' },
+      { type: 'tool', tool: 'Bash', summary: 'git status' },
+    ]);
+  });
+
+  it('should ignore non-assistant messages and empty text', () => {
+    expect(extractActivity({ type: 'system', subtype: 'init' })).toEqual([]);
+    expect(extractActivity({ type: 'result', result: 'Done' })).toEqual([]);
+    expect(extractActivity({ type: 'assistant', message: { content: [{ type: 'text', text: '  ' }] } })).toEqual([]);
+    expect(extractActivity(null)).toEqual([]);
+  });
+});
+
+describe('createStreamJsonParser', () => {
+  it('should report activity from lines split across chunks', () => {
+    const activity: AgentActivity[] = [];
+    const onStdout = createStreamJsonParser((item) => activity.push(item));
+    const output = `${JSON.stringify({ type: 'system', subtype: 'init' })}\nnot json\n${JSON.stringify(assistantMessage)}\n`;
+
+    onStdout(output.substring(0, 50));
+    onStdout(output.substring(50, 120));
+    expect(activity).toHaveLength(0);
+
+    onStdout(output.substring(120));
+    expect(activity.map((item) => item.type)).toEqual(['text', 'tool', 'tool']);
+  });
+});
+
+describe('parseStreamJsonResult', () => {
+  it('should return the final result message', () => {
+    const stdout = [
+      JSON.stringify(assistantMessage),
+      JSON.stringify({ type: 'result', subtype: 'success', result: 'Added a dark mode toggle' }),
+      '',
+    ].join('\n');
+
+    expect(parseStreamJsonResult(stdout)).toBe('Added a dark mode toggle');
+  });
+
+  it('should return null for plain text output', () => {
+    expect(parseStreamJsonResult('Claude: done\n')).toBeNull();
+  });
+});
+
+describe('parseStreamJsonSessionId', () => {
+  it('should return the session id of the result message, else the init message', () => {
+    const init = JSON.stringify({ type: 'system', subtype: 'init', session_id: 'session-init' });
+    const result = JSON.stringify({ type: 'result', result: 'Done', session_id: 'session-result' });
+
+    expect(parseStreamJsonSessionId([init, result].join('\n'))).toBe('session-result');
+    expect(parseStreamJsonSessionId(init)).toBe('session-init');
+    expect(parseStreamJsonSessionId('plain text')).toBeUndefined();
+  });
+});
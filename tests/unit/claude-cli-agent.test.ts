@@ -0,0 +1,90 @@
+/**
+ * Tests for ClaudeCLIAgent (claude CLI subprocess provider)
+ */
+
+const mockExecProcessTree = jest.fn();
+
+jest.mock('@/lib/code-modification/process-tree', () => ({
+  ...jest.requireActual('@/lib/code-modification/process-tree'),
+  execProcessTree: (...args: unknown[]) => mockExecProcessTree(...args),
+}));
+
+jest.mock('@/lib/agents/context-cache', () => ({
+  loadCodebaseContext: jest.fn().mockResolvedValue({}),
+}));
+
+jest.mock('@/lib/agents/codebase-context', () => ({
+  formatContextForAgent: () => '## CODEBASE CONTEXT',
+}));
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ClaudeCLIAgent } from '@/lib/agents/claude-cli-agent';
+
+/**
+ * stream-json output of a CLI run in `sessionId`
+ */
+const streamOutput = (sessionId: string, result: string) =>
+  [
+    JSON.stringify({ type: 'system', subtype: 'init', session_id: sessionId, model: 'claude-sonnet-4-5' }),
+    JSON.stringify({ type: 'result', subtype: 'success', session_id: sessionId, result }),
+  ].join('\n');
+
+describe('ClaudeCLIAgent', () => {
+  let tmpDir: string;
+  let agent: ClaudeCLIAgent;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-cli-agent-test-'));
+    agent = new ClaudeCLIAgent(tmpDir, 'claude');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should return the session id the CLI reported', async () => {
+    mockExecProcessTree.mockResolvedValue({ stdout: streamOutput('5f1c2d3e-0000-4000-8000-000000000001', 'Added a footer'), stderr: '' });
+
+    const response = await agent.modifyCode({ userRequest: 'Add a footer' });
+
+    expect(response).toMatchObject({ success: true, result: 'Added a footer', sessionId: '5f1c2d3e-0000-4000-8000-000000000001' });
+    expect(mockExecProcessTree.mock.calls[0][0]).not.toContain('--resume');
+  });
+
+  it('should resume the session of an earlier call', async () => {
+    const sessionId = '5f1c2d3e-0000-4000-8000-000000000001';
+    mockExecProcessTree.mockResolvedValue({ stdout: streamOutput(sessionId, 'Fixed the test'), stderr: '' });
+
+    const response = await agent.modifyCode({ userRequest: 'Fix the failing test', sessionId });
+
+    expect(mockExecProcessTree).toHaveBeenCalledTimes(1);
+    expect(mockExecProcessTree.mock.calls[0][0]).toMatch(
+      new RegExp(`^claude --print --output-format stream-json --verbose --dangerously-skip-permissions --resume ${sessionId} < "`)
+    );
+    expect(response.sessionId).toBe(sessionId);
+  });
+
+  it('should start a new session when the CLI no longer has the old one', async () => {
+    mockExecProcessTree
+      .mockRejectedValueOnce(Object.assign(new Error('Command failed'), { stdout: '', stderr: 'No conversation found with session ID: agent_123' }))
+      .mockResolvedValueOnce({ stdout: streamOutput('5f1c2d3e-0000-4000-8000-000000000002', 'Planned'), stderr: '' });
+
+    const response = await agent.modifyCode({ userRequest: 'Add a footer', sessionId: 'agent_123' });
+
+    expect(mockExecProcessTree).toHaveBeenCalledTimes(2);
+    expect(mockExecProcessTree.mock.calls[0][0]).toContain('--resume agent_123');
+    expect(mockExecProcessTree.mock.calls[1][0]).not.toContain('--resume');
+    expect(response.sessionId).toBe('5f1c2d3e-0000-4000-8000-000000000002');
+  });
+
+  it('should not pass session ids that are not safe on the command line', async () => {
+    mockExecProcessTree.mockResolvedValue({ stdout: streamOutput('5f1c2d3e-0000-4000-8000-000000000003', 'Done'), stderr: '' });
+
+    await agent.planChanges({ userRequest: 'Add a footer', sessionId: 'x; rm -rf /' });
+
+    expect(mockExecProcessTree.mock.calls[0][0]).not.toContain('--resume');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Tests for CodeChangeStore (CodeChange history table)
+ */
+
+jest.mock('@/lib/db', () => ({ prisma: {} }));
+
+import { PrismaClient } from '@prisma/client';
+import { CodeChangeStore } from '@/lib/code-modification/code-change-store';
+import { createFakePrisma, Row } from '../helpers/fake-prisma';
+
+/**
+ * Fake client with the CodeChange table and the given users
+ */
+function createChangePrisma(users: Row[] = []): PrismaClient {
+  return createFakePrisma({
+    codeChange: { idPrefix: 'change', defaults: { deployedToStaging: false, deployedToProduction: false } },
+    user: { rows: users },
+  }).prisma;
+}
+
+describe('CodeChangeStore', () => {
+  let store: CodeChangeStore;
+
+  beforeEach(() => {
+    store = new CodeChangeStore(
+      createChangePrisma([{ id: 'admin_1', name: 'Admin One', email: 'one@example.com' }])
+    );
+  });
+
+  it('should record a commit once per hash', async () => {
+    await store.recordCommit({ commitHash: 'abc1234', description: 'First', filesChanged: ['a.ts'], adminId: 'admin_1' });
+    const again = await store.recordCommit({ commitHash: 'abc1234', description: 'Resumed', filesChanged: ['a.ts'], adminId: 'admin_1' });
+
+    const changes = await store.list();
+    expect(changes).toHaveLength(1);
+    expect(again.description).toBe('Resumed');
+    expect(again.filesChanged).toEqual(['a.ts']);
+    expect(again.testsPassed).toBe(false);
+  });
+
+  it('should resolve admins and filter by test status', async () => {
+    await store.recordCommit({ commitHash: 'aaa1111', description: 'Passed', filesChanged: [], adminId: 'admin_1' });
+    await store.recordCommit({ commitHash: 'bbb2222', description: 'Failed', filesChanged: [], adminId: 'admin_2' });
+    await store.setTestsPassed('aaa1111', true);
+
+    const passed = await store.list({ testsPassed: true });
+    expect(passed.map((change) => change.description)).toEqual(['Passed']);
+    expect(passed[0].admin).toEqual({ name: 'Admin One', email: 'one@example.com' });
+
+    const byAdmin = await store.list({ adminId: 'admin_2' });
+    expect(byAdmin.map((change) => change.description)).toEqual(['Failed']);
+    expect(byAdmin[0].admin).toBeNull();
+  });
+
+  it('should mark abbreviated hashes deployed from full promotion hashes', async () => {
+    await store.recordCommit({ commitHash: 'abc1234', description: 'Promoted', filesChanged: [], adminId: 'admin_1' });
+    await store.recordCommit({ commitHash: 'fff9999', description: 'Not promoted', filesChanged: [], adminId: 'admin_1' });
+    await store.markDeployedToStaging('abc1234');
+
+    const count = await store.markDeployedToProduction(['abc1234deadbeefdeadbeefdeadbeefdeadbeef']);
+
+    expect(count).toBe(1);
+    const deployed = await store.list({ deployedToProduction: true });
+    expect(deployed.map((change) => change.commitHash)).toEqual(['abc1234']);
+    expect(deployed[0].deployedToStaging).toBe(true);
+  });
+
+  it('should record who reverted a commit', async () => {
+    store = new CodeChangeStore(createChangePrisma([{ id: 'admin_2', name: 'Bob', email: 'bob@example.com' }]));
+    await store.recordCommit({ commitHash: 'abc1234', description: 'Footer', filesChanged: [], adminId: 'admin_1' });
+
+    expect(await store.markReverted('abc1234deadbeefdeadbeefdeadbeefdeadbeef', { revertedBy: 'admin_2', revertCommitHash: 'fed9876' })).toBe(true);
+    expect(await store.markReverted('0000000', { revertedBy: 'admin_2', revertCommitHash: 'fed9876' })).toBe(false);
+
+    const change = await store.findByHash('abc1234deadbeef');
+    expect(change).toMatchObject({
+      commitHash: 'abc1234',
+      revertedBy: 'admin_2',
+      reverter: { name: 'Bob', email: 'bob@example.com' },
+      revertCommitHash: 'fed9876',
+    });
+    expect(change?.revertedAt).toBeInstanceOf(Date);
+  });
+});
@@ -70,6 +70,15 @@ describe('CodebaseContextBuilder', () => {
     }, 30000);
   });
 
+  describe('recentChanges', () => {
+    it('should list the files each recent commit touched', async () => {
+      const context = await builder.build();
+
+      expect(context.recentChanges.length).toBeGreaterThan(0);
+      expect(context.recentChanges[0].files.length).toBeGreaterThan(0);
+    }, 30000);
+  });
+
   describe('findFiles', () => {
     it('should find files matching pattern', async () => {
       const files = await builder.findFiles('\\.test\\.ts$');
@@ -0,0 +1,128 @@
+/**
+ * Tests for ContextCache (codebase context kept between requests)
+ */
+
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ContextCache, FileWatcher } from '@/lib/agents/context-cache';
+import { CodebaseContextBuilder } from '@/lib/agents/codebase-context';
+
+/**
+ * Watcher the test drives by emitting chokidar-style events
+ */
+class FakeWatcher extends EventEmitter implements FileWatcher {
+  closed = false;
+
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+
+  change(filePath: string): void {
+    this.emit('all', 'change', filePath);
+  }
+}
+
+describe('ContextCache', () => {
+  let projectDir: string;
+  let watcher: FakeWatcher;
+  let ignored: (filePath: string) => boolean;
+  let cache: ContextCache;
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'context-cache-test-'));
+    await fs.mkdir(path.join(projectDir, 'src'));
+    await fs.writeFile(path.join(projectDir, 'src/page.tsx'), 'export default function Page() {}\n');
+
+    watcher = new FakeWatcher();
+    cache = new ContextCache(projectDir, {
+      createWatcher: async (_paths, isIgnored) => {
+        ignored = isIgnored;
+        return watcher;
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await cache.close();
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('should serve the cached context until a file changes', async () => {
+    const first = await cache.get();
+    const second = await cache.get();
+
+    expect(second.structure).toBe(first.structure);
+    expect(cache.getStats()).toMatchObject({ watching: true, cached: true, hits: 1, misses: 1, builds: 1 });
+
+    await fs.writeFile(path.join(projectDir, 'src/footer.tsx'), 'export function Footer() {}\n');
+    watcher.change(path.join(projectDir, 'src/footer.tsx'));
+    expect(cache.getStats()).toMatchObject({ cached: false, invalidations: 1 });
+    expect(cache.getStats().lastChange).toMatchObject({ event: 'change', filePath: path.join('src', 'footer.tsx') });
+
+    const third = await cache.get();
+    expect(third.structure.totalFiles).toBe(first.structure.totalFiles + 1);
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 2, builds: 2 });
+  }, 30000);
+
+  it('should not cache a build that overlapped a change', async () => {
+    const build = CodebaseContextBuilder.prototype.build;
+    const spy = jest.spyOn(CodebaseContextBuilder.prototype, 'build').mockImplementation(async function (
+      this: CodebaseContextBuilder,
+      options
+    ) {
+      const context = await build.call(this, options);
+      watcher.change(path.join(projectDir, 'src/page.tsx'));
+      return context;
+    });
+
+    await cache.get();
+    spy.mockRestore();
+
+    expect(cache.getStats()).toMatchObject({ cached: false, builds: 1 });
+  }, 30000);
+
+  it('should add the relevant files for each request without caching them', async () => {
+    const withQuery = await cache.get({ query: 'page' });
+    const withoutQuery = await cache.get();
+
+    expect(withQuery.relevantFiles.map((file) => file.path)).toEqual(['src/page.tsx']);
+    expect(withoutQuery.relevantFiles).toEqual([]);
+    expect(cache.getStats().hits).toBe(1);
+  }, 30000);
+
+  it('should rebuild on refresh', async () => {
+    await cache.get();
+    await cache.refresh();
+
+    expect(cache.getStats()).toMatchObject({ cached: true, builds: 2 });
+  }, 30000);
+
+  it('should ignore dependencies, build output and database files but not commits', async () => {
+    await cache.get();
+
+    expect(ignored(path.join(projectDir, 'node_modules/react/index.js'))).toBe(true);
+    expect(ignored(path.join(projectDir, '.next/server/app.js'))).toBe(true);
+    expect(ignored(path.join(projectDir, 'prisma/dev.db-journal'))).toBe(true);
+    expect(ignored(path.join(projectDir, '.git/index'))).toBe(true);
+    expect(ignored(path.join(projectDir, '.git/logs/HEAD'))).toBe(false);
+    expect(ignored(path.join(projectDir, 'src/app/page.tsx'))).toBe(false);
+  }, 30000);
+
+  it('should rebuild every time when the watcher cannot start', async () => {
+    const unwatched = new ContextCache(projectDir, {
+      createWatcher: async () => {
+        throw new Error('No inotify watches left');
+      },
+    });
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    await unwatched.get();
+    await unwatched.get();
+
+    expect(unwatched.getStats()).toMatchObject({ watching: false, hits: 0, misses: 2, builds: 2 });
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  }, 30000);
+});
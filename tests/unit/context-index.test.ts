@@ -0,0 +1,177 @@
+/**
+ * Tests for ContextIndex (relevance-ranked codebase context)
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import simpleGit, { SimpleGit } from 'simple-git';
+import { ContextIndex, extractExports, tokenize } from '@/lib/agents/context-index';
+import { formatContextForAgent, buildCodebaseContext } from '@/lib/agents/codebase-context';
+
+const FILES: Record<string, string> = {
+  'src/app/api/profile/route.ts': [
+    "import { prisma } from '@/lib/db';",
+    '',
+    '/**',
+    ' * GET /api/profile - The signed-in user profile',
+    ' */',
+    'export async function GET() {',
+    '  const profile = await prisma.user.findFirst();',
+    '  return Response.json({ profile });',
+    '}',
+  ].join('\n'),
+  'src/app/(site)/profile/page.tsx': 'export default function ProfilePage() {\n  return <ProfileCard />;\n}\n',
+  'src/components/ProfileCard.tsx': 'export function ProfileCard() {\n  return <div className="avatar">Profile</div>;\n}\n',
+  'src/components/Footer.tsx': 'export function Footer() {\n  return <footer>Copyright</footer>;\n}\n',
+  'src/lib/format.ts': 'export const formatDate = (date: Date) => date.toISOString();\nexport { formatDate as toIso };\n',
+  'prisma/schema.prisma': [
+    'datasource db {',
+    '  provider = "sqlite"',
+    '}',
+    '',
+    'model User {',
+    '  id    String @id',
+    '  email String @unique',
+    '}',
+    '',
+    'model Invoice {',
+    '  id     String @id',
+    '  amount Float',
+    '}',
+  ].join('\n'),
+};
+
+describe('ContextIndex', () => {
+  let repoDir: string;
+  let git: SimpleGit;
+
+  beforeEach(async () => {
+    repoDir = await fs.mkdtemp(path.join(os.tmpdir(), 'context-index-test-'));
+    git = simpleGit(repoDir);
+    await git.init();
+    await git.addConfig('user.name', 'Test', false, 'local');
+    await git.addConfig('user.email', 'test@example.com', false, 'local');
+
+    for (const [file, content] of Object.entries(FILES)) {
+      await fs.mkdir(path.dirname(path.join(repoDir, file)), { recursive: true });
+      await fs.writeFile(path.join(repoDir, file), content);
+    }
+    await git.add('.');
+    await git.commit('Initial commit');
+  });
+
+  afterEach(async () => {
+    await fs.rm(repoDir, { recursive: true, force: true });
+  });
+
+  it('should index source files and Prisma models with routes and exports', async () => {
+    const index = new ContextIndex(repoDir);
+
+    const refresh = await index.refresh();
+    expect(refresh).toEqual({ mode: 'full', filesIndexed: 6, totalEntries: 7 });
+
+    const [route] = index.search('profile api route');
+    expect(route).toMatchObject({
+      path: 'src/app/api/profile/route.ts',
+      kind: 'route',
+      route: '/api/profile',
+      symbols: ['GET'],
+      startLine: 1,
+    });
+
+    const [page] = index.search('ProfilePage');
+    expect(page).toMatchObject({ kind: 'page', route: '/profile', symbols: ['ProfilePage'] });
+
+    const [model] = index.search('Show the invoice amount');
+    expect(model).toMatchObject({ path: 'prisma/schema.prisma', kind: 'model', symbols: ['Invoice'], startLine: 10 });
+    expect(model.snippet).toContain('amount Float');
+    expect(model.snippet).not.toContain('email');
+  });
+
+  it('should rank by relevance and stay within the file and token limits', async () => {
+    const index = new ContextIndex(repoDir);
+    await index.refresh();
+
+    const results = index.search('Add an avatar to the profile card');
+    expect(results[0].path).toBe('src/components/ProfileCard.tsx');
+    expect(results.map((result) => result.path)).not.toContain('src/components/Footer.tsx');
+
+    expect(index.search('profile', { maxFiles: 2 })).toHaveLength(2);
+
+    const budgeted = index.search('profile', { tokenBudget: 60 });
+    const tokens = budgeted.reduce((sum, result) => sum + Math.ceil(result.snippet.length / 4), 0);
+    expect(tokens).toBeLessThanOrEqual(60);
+
+    expect(index.search('the and for')).toEqual([]);
+  });
+
+  it('should only re-index files that changed in git', async () => {
+    const index = new ContextIndex(repoDir);
+    await index.refresh();
+    expect(await index.refresh()).toMatchObject({ mode: 'unchanged', filesIndexed: 0 });
+
+    // Committed change, uncommitted new file and a deletion
+    await fs.writeFile(path.join(repoDir, 'src/components/Footer.tsx'), 'export function Footer() {\n  return <footer>Newsletter signup</footer>;\n}\n');
+    await git.add('.');
+    await git.commit('Newsletter footer');
+    await fs.writeFile(path.join(repoDir, 'src/lib/newsletter.ts'), 'export async function subscribeToNewsletter() {}\n');
+    await fs.rm(path.join(repoDir, 'src/lib/format.ts'));
+
+    expect(await index.refresh()).toMatchObject({ mode: 'incremental', filesIndexed: 3, totalEntries: 7 });
+    expect(index.search('newsletter').map((result) => result.path).sort()).toEqual([
+      'src/components/Footer.tsx',
+      'src/lib/newsletter.ts',
+    ]);
+    expect(index.search('formatDate')).toEqual([]);
+
+    // Reverting an uncommitted change is picked up too
+    await fs.rm(path.join(repoDir, 'src/lib/newsletter.ts'));
+    await git.checkout(['--', 'src/lib/format.ts']);
+
+    expect(await index.refresh()).toMatchObject({ mode: 'incremental', filesIndexed: 2, totalEntries: 7 });
+    expect(index.search('newsletter').map((result) => result.path)).toEqual(['src/components/Footer.tsx']);
+    expect(index.search('formatDate')[0].symbols).toEqual(['formatDate', 'toIso']);
+  });
+
+  it('should include only the relevant code in the agent context', async () => {
+    const context = await buildCodebaseContext(repoDir, { query: 'Show the invoice amount' });
+    const formatted = formatContextForAgent(context);
+
+    expect(formatted).toContain('## Relevant Code');
+    expect(formatted).toContain('### prisma/schema.prisma (model · exports Invoice)');
+    expect(formatted).toContain('Models: User, Invoice');
+    expect(formatted).not.toContain('email String @unique');
+  }, 30000);
+
+  it('should keep the full schema inline for agents without file tools', async () => {
+    const context = await buildCodebaseContext(repoDir, { query: 'Show the invoice amount' });
+    const formatted = formatContextForAgent(context, { tools: false });
+
+    expect(formatted).toContain('email String @unique');
+    expect(formatted).not.toContain('### prisma/schema.prisma');
+    expect(formatted).not.toContain('Read tool');
+  }, 30000);
+});
+
+describe('tokenize', () => {
+  it('should split identifiers and fold plurals', () => {
+    expect(tokenize('UserProfiles getAPIKey /api/code-changes')).toEqual([
+      'user', 'profile', 'get', 'api', 'key', 'api', 'code', 'change',
+    ]);
+  });
+});
+
+describe('extractExports', () => {
+  it('should find declarations, export lists and default exports', () => {
+    const content = [
+      'export default async function Page() {}',
+      'export interface Props {}',
+      'export { helper, internal as publicName };',
+      'const Widget = () => null;',
+      'export default Widget;',
+    ].join('\n');
+
+    expect(extractExports(content)).toEqual(['Page', 'Props', 'helper', 'publicName', 'Widget']);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for ConversationStore (saved coding-agent conversations in the Chat table)
+ */
+
+jest.mock('@/lib/db', () => ({ prisma: {} }));
+
+import { ConversationStore } from '@/lib/chat/conversation-store';
+import { createFakePrisma } from '../helpers/fake-prisma';
+
+describe('ConversationStore', () => {
+  let store: ConversationStore;
+
+  beforeEach(() => {
+    const { prisma } = createFakePrisma({
+      chat: { defaults: { title: null, agentSessionId: null }, updatedAt: true },
+    });
+    store = new ConversationStore(prisma);
+  });
+
+  it('should create an empty coding conversation', async () => {
+    const conversation = await store.createConversation({ userId: 'admin_1' });
+
+    expect(conversation).toMatchObject({
+      userId: 'admin_1',
+      type: 'CODING',
+      title: null,
+      messages: [],
+      agentSessionId: null,
+    });
+  });
+
+  it('should append messages, take the title from the first one and keep the agent session', async () => {
+    const { id } = await store.createConversation({ userId: 'admin_1' });
+
+    await store.appendMessages(id, [
+      { role: 'user', content: 'Add a dark mode toggle\nto the header', timestamp: '2026-10-19T10:00:00.000Z', jobId: 'job_1' },
+    ]);
+    const updated = await store.appendMessages(
+      id,
+      [
+        {
+          role: 'assistant',
+          content: 'Added the toggle',
+          timestamp: '2026-10-19T10:05:00.000Z',
+          jobId: 'job_1',
+          status: 'COMPLETED',
+          commit: { hash: 'abc1234', message: 'AI: Add a dark mode toggle...' },
+        },
+      ],
+      { agentSessionId: 'agent_1' }
+    );
+
+    expect(updated.title).toBe('Add a dark mode toggle');
+    expect(updated.agentSessionId).toBe('agent_1');
+    expect(updated.messages.map((message) => message.role)).toEqual(['user', 'assistant']);
+
+    // A reply without a session keeps the previous one
+    const later = await store.appendMessages(id, [
+      { role: 'system', content: 'Error: Tests failed', timestamp: '2026-10-19T10:10:00.000Z', jobId: 'job_2' },
+    ]);
+    expect(later.agentSessionId).toBe('agent_1');
+  });
+
+  it('should shorten long titles', async () => {
+    const conversation = await store.createConversation({ userId: 'admin_1', title: 'x'.repeat(200) });
+
+    expect(conversation.title).toHaveLength(80);
+    expect(conversation.title?.endsWith('…')).toBe(true);
+  });
+
+  it('should list only the user\'s conversations, most recent first, with their jobs and commits', async () => {
+    const first = await store.createConversation({ userId: 'admin_1', title: 'Footer' });
+    const second = await store.createConversation({ userId: 'admin_1', title: 'Header' });
+    await store.createConversation({ userId: 'admin_2', title: 'Someone else' });
+    await store.appendMessages(first.id, [
+      { role: 'user', content: 'Add a footer', timestamp: '', jobId: 'job_1' },
+      { role: 'assistant', content: 'Done', timestamp: '', jobId: 'job_1', commit: { hash: 'abc1234', message: null } },
+      { role: 'user', content: 'Make it blue', timestamp: '', jobId: 'job_2' },
+    ]);
+
+    const conversations = await store.listConversations('admin_1');
+
+    expect(conversations.map((conversation) => conversation.id)).toEqual([first.id, second.id]);
+    expect(conversations[0]).toMatchObject({
+      title: 'Footer',
+      messageCount: 3,
+      jobIds: ['job_1', 'job_2'],
+      commits: ['abc1234'],
+    });
+  });
+
+  it('should delete a conversation', async () => {
+    const { id } = await store.createConversation({ userId: 'admin_1' });
+
+    await store.deleteConversation(id);
+
+    expect(await store.getConversation(id)).toBeNull();
+    await expect(store.appendMessages(id, [])).rejects.toThrow('Conversation not found');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for the unified diff parser behind the commit diff viewer
+ */
+
+import { parseUnifiedDiff, toSideBySide } from '@/lib/code-modification/diff-parser';
+
+const DIFF = [
+  'diff --git a/src/app/page.tsx b/src/app/page.tsx',
+  'index 1111111..2222222 100644',
+  '--- a/src/app/page.tsx',
+  '+++ b/src/app/page.tsx',
+  '@@ -1,4 +1,5 @@',
+  ' export default function Page() {',
+  '-  return <h1>Hello</h1>;',
+  '+  return <h1>Welcome</h1>;',
+  '+  // Footer below',
+  ' }',
+  '--- a comment that looks like a header',
+  '\\ No newline at end of file',
+  'diff --git a/src/lib/old.ts b/src/lib/new.ts',
+  'similarity index 90%',
+  'rename from src/lib/old.ts',
+  'rename to src/lib/new.ts',
+  'diff --git a/public/logo.png b/public/logo.png',
+  'new file mode 100644',
+  'index 0000000..3333333',
+  'Binary files /dev/null and b/public/logo.png differ',
+  'diff --git a/src/unused.ts b/src/unused.ts',
+  'deleted file mode 100644',
+  'index 4444444..0000000',
+  '--- a/src/unused.ts',
+  '+++ /dev/null',
+  '@@ -1 +0,0 @@',
+  '-export const unused = true;',
+  '',
+].join('\n');
+
+describe('parseUnifiedDiff', () => {
+  it('should number lines and recognise added, deleted, renamed and binary files', () => {
+    const files = parseUnifiedDiff(DIFF);
+
+    expect(files.map((file) => [file.path, file.oldPath, file.newPath, file.binary])).toEqual([
+      ['src/app/page.tsx', 'src/app/page.tsx', 'src/app/page.tsx', false],
+      ['src/lib/new.ts', 'src/lib/old.ts', 'src/lib/new.ts', false],
+      ['public/logo.png', null, 'public/logo.png', true],
+      ['src/unused.ts', 'src/unused.ts', null, false],
+    ]);
+
+    const [hunk] = files[0].hunks;
+    expect(hunk).toMatchObject({ header: '@@ -1,4 +1,5 @@', oldStart: 1, newStart: 1 });
+    expect(hunk.lines.map((line) => [line.type, line.oldNumber, line.newNumber])).toEqual([
+      ['context', 1, 1],
+      ['removed', 2, null],
+      ['added', null, 2],
+      ['added', null, 3],
+      ['context', 3, 4],
+      ['removed', 4, null],
+    ]);
+    expect(hunk.lines[5].content).toBe('-- a comment that looks like a header');
+
+    expect(files[3].hunks[0].lines).toEqual([
+      { type: 'removed', content: 'export const unused = true;', oldNumber: 1, newNumber: null },
+    ]);
+  });
+});
+
+describe('toSideBySide', () => {
+  it('should pair removed lines with the added lines that replace them', () => {
+    const [hunk] = parseUnifiedDiff(DIFF)[0].hunks;
+
+    const rows = toSideBySide(hunk).map((row) => [row.left?.content ?? null, row.right?.content ?? null]);
+
+    expect(rows).toEqual([
+      ['export default function Page() {', 'export default function Page() {'],
+      ['  return <h1>Hello</h1>;', '  return <h1>Welcome</h1>;'],
+      [null, '  // Footer below'],
+      ['}', '}'],
+      ['-- a comment that looks like a header', null],
+    ]);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for the LLM provider registry and the scripted provider
+ */
+
+jest.mock('@anthropic-ai/claude-agent-sdk', () => ({ query: jest.fn() }));
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ScriptedProvider, ScriptedFixture } from '@/lib/agents/scripted-provider';
+import { createLLMProvider, registerProvider, listProviders } from '@/lib/agents/provider-registry';
+import { LLMProvider } from '@/lib/agents/llm-provider';
+
+const fixture: ScriptedFixture = {
+  responses: [
+    { match: 'broken', error: 'Model overloaded' },
+    {
+      match: 'footer',
+      result: 'Added a footer',
+      edits: [
+        { filePath: 'src/components/Footer.tsx', content: 'export default function Footer() {}\n' },
+        { filePath: 'src/old.ts', delete: true },
+      ],
+    },
+    { match: 'login', edits: [{ filePath: 'src/lib/auth.ts', content: '// nope\n' }] },
+  ],
+};
+
+describe('ScriptedProvider', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'scripted-provider-test-'));
+    await fs.mkdir(path.join(testDir, 'src'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'src/old.ts'), 'export {};\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should apply the edits of the first matching response', async () => {
+    const provider = new ScriptedProvider(testDir, fixture);
+
+    const response = await provider.modifyCode({ userRequest: 'Add a FOOTER to every page' });
+
+    expect(response.success).toBe(true);
+    expect(response.result).toBe('Added a footer');
+    expect(response.filesModified).toEqual(['src/components/Footer.tsx', 'src/old.ts']);
+    await expect(fs.readFile(path.join(testDir, 'src/components/Footer.tsx'), 'utf-8')).resolves.toContain('Footer');
+    await expect(fs.access(path.join(testDir, 'src/old.ts'))).rejects.toThrow();
+    expect(provider.getCalls()).toHaveLength(1);
+  });
+
+  it('should fail when no response matches or the response is an error', async () => {
+    const provider = new ScriptedProvider(testDir, fixture);
+
+    const unmatched = await provider.modifyCode({ userRequest: 'Something else' });
+    const failed = await provider.modifyCode({ userRequest: 'This is broken' });
+
+    expect(unmatched.success).toBe(false);
+    expect(unmatched.error).toContain('No scripted response matches');
+    expect(failed).toMatchObject({ success: false, error: 'Model overloaded' });
+  });
+
+  it('should refuse scripted edits to protected files', async () => {
+    const provider = new ScriptedProvider(testDir, fixture);
+
+    const response = await provider.modifyCode({ userRequest: 'Change the login flow' });
+
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('src/lib/auth.ts');
+  });
+
+  it('should derive a plan from the scripted edits without touching files', async () => {
+    const provider = new ScriptedProvider(testDir, fixture);
+
+    const response = await provider.planChanges({ userRequest: 'Add a footer' });
+
+    expect(response.success).toBe(true);
+    expect(response.plan?.files.map((file) => file.path)).toEqual(['src/components/Footer.tsx', 'src/old.ts']);
+    expect(response.plan?.files[1].action).toBe('delete');
+    await expect(fs.access(path.join(testDir, 'src/components/Footer.tsx'))).rejects.toThrow();
+  });
+
+  it('should load the fixture from a file', async () => {
+    await fs.writeFile(path.join(testDir, 'fixture.json'), JSON.stringify(fixture));
+
+    const provider = new ScriptedProvider(testDir, 'fixture.json');
+    const response = await provider.planChanges({ userRequest: 'footer' });
+
+    expect(response.success).toBe(true);
+  });
+});
+
+describe('provider registry', () => {
+  const originalProvider = process.env.LLM_PROVIDER;
+
+  afterEach(() => {
+    if (originalProvider === undefined) {
+      delete process.env.LLM_PROVIDER;
+    } else {
+      process.env.LLM_PROVIDER = originalProvider;
+    }
+  });
+
+  it('should default to the Claude CLI provider', () => {
+    delete process.env.LLM_PROVIDER;
+
+    expect(createLLMProvider('/tmp').name).toBe('claude-cli');
+  });
+
+  it('should pick the provider from LLM_PROVIDER', () => {
+    process.env.LLM_PROVIDER = 'agent-sdk';
+
+    expect(createLLMProvider('/tmp').name).toBe('agent-sdk');
+    expect(createLLMProvider('/tmp', 'bedrock').name).toBe('bedrock');
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => createLLMProvider('/tmp', 'gpt-nine')).toThrow('Unknown LLM provider "gpt-nine"');
+  });
+
+  it('should allow registering custom providers', () => {
+    const custom = { name: 'scripted', modifyCode: jest.fn(), planChanges: jest.fn() } as unknown as LLMProvider;
+    registerProvider('custom', () => custom);
+
+    expect(listProviders()).toContain('custom');
+    expect(createLLMProvider('/tmp', 'custom')).toBe(custom);
+  });
+});
@@ -0,0 +1,903 @@
+/**
+ * Tests for JobStore and ModificationRunner (persistent modification jobs)
+ */
+
+jest.mock('@/lib/db', () => ({ prisma: {} }));
+
+const mockModifyCode = jest.fn();
+const mockGetStatus = jest.fn();
+const mockCommit = jest.fn();
+const mockPush = jest.fn();
+const mockRevertCommit = jest.fn();
+const mockGetCurrentBranch = jest.fn();
+const mockCreateBranch = jest.fn();
+const mockCheckoutBranch = jest.fn();
+const mockMergeBranch = jest.fn();
+const mockDeleteBranch = jest.fn();
+const mockRunTests = jest.fn();
+const mockRecordCommit = jest.fn();
+const mockMarkDeployedToStaging = jest.fn();
+const mockSetTestsPassed = jest.fn();
+const mockDeleteCommits = jest.fn();
+const mockDiscardChanges = jest.fn();
+const mockRollbackMigration = jest.fn();
+const mockHandleSchemaChange = jest.fn();
+const mockDiffSchema = jest.fn();
+const mockBroadcastCancelled = jest.fn();
+const mockBroadcastAgentTool = jest.fn();
+const mockBroadcastAgentText = jest.fn();
+const mockCheckFiles = jest.fn();
+const mockSelectImpactedTests = jest.fn();
+const mockGetDiff = jest.fn();
+const mockGetMergeBase = jest.fn();
+
+jest.mock('@/lib/agents/provider-registry', () => ({
+  createLLMProvider: () => ({ name: 'scripted', modifyCode: mockModifyCode, planChanges: jest.fn() }),
+}));
+
+jest.mock('@/lib/code-modification/git-manager', () => ({
+  createGitManager: () => ({
+    getStatus: mockGetStatus,
+    commit: mockCommit,
+    push: mockPush,
+    revertCommit: mockRevertCommit,
+    discardChanges: mockDiscardChanges,
+    getCurrentBranch: mockGetCurrentBranch,
+    createBranch: mockCreateBranch,
+    checkoutBranch: mockCheckoutBranch,
+    mergeBranch: mockMergeBranch,
+    deleteBranch: mockDeleteBranch,
+    abortMerge: jest.fn(),
+    isClean: jest.fn().mockResolvedValue(true),
+    getDiff: mockGetDiff,
+    getMergeBase: mockGetMergeBase,
+    readFileAt: jest.fn(async (ref: string, file: string) => `// ${file} at ${ref}\n`),
+  }),
+}));
+
+jest.mock('@/lib/code-modification/migration-manager', () => ({
+  createMigrationManager: () => ({
+    handleSchemaChange: mockHandleSchemaChange,
+    rollbackMigration: mockRollbackMigration,
+    diffSchema: mockDiffSchema,
+  }),
+}));
+
+jest.mock('@/lib/code-modification/test-runner', () => ({
+  ...jest.requireActual('@/lib/code-modification/test-runner'),
+  runTests: (...args: unknown[]) => mockRunTests(...args),
+}));
+
+jest.mock('@/lib/code-modification/type-checker', () => ({
+  ...jest.requireActual('@/lib/code-modification/type-checker'),
+  getTypeChecker: () => ({ checkFiles: mockCheckFiles }),
+}));
+
+jest.mock('@/lib/code-modification/test-impact', () => ({
+  selectImpactedTests: (...args: unknown[]) => mockSelectImpactedTests(...args),
+}));
+
+jest.mock('@/lib/sse/broadcast', () => ({
+  broadcastProgress: jest.fn(),
+  broadcastStatus: jest.fn(),
+  broadcastFileChange: jest.fn(),
+  broadcastTestResult: jest.fn(),
+  broadcastError: jest.fn(),
+  broadcastComplete: jest.fn(),
+  broadcastCancelled: (...args: unknown[]) => mockBroadcastCancelled(...args),
+  broadcastAgentTool: (...args: unknown[]) => mockBroadcastAgentTool(...args),
+  broadcastAgentText: (...args: unknown[]) => mockBroadcastAgentText(...args),
+}));
+
+import { JobStore, JOB_STEPS, SchemaApproval } from '@/lib/jobs/job-store';
+import {
+  ModificationRunner,
+  isJobCancellable,
+  isAwaitingSchemaApproval,
+  resolveSchemaApproval,
+  processModificationQueue,
+  isJobActive,
+  abandonActiveJob,
+} from '@/lib/jobs/modification-runner';
+import { WorktreeLock } from '@/lib/jobs/worktree-lock';
+import { CodeChangeStore } from '@/lib/code-modification/code-change-store';
+import { TestRunStore } from '@/lib/code-modification/test-run-store';
+import { SchemaChange } from '@/lib/code-modification/schema-diff';
+import { CodeModificationRequest } from '@/lib/agents/llm-provider';
+import { UsageStore } from '@/lib/usage/usage-store';
+import { ConversationStore } from '@/lib/chat/conversation-store';
+import { createFakePrisma, MODIFICATION_JOB } from '../helpers/fake-prisma';
+
+describe('JobStore', () => {
+  let store: JobStore;
+
+  beforeEach(() => {
+    store = new JobStore(createFakePrisma({ modificationJob: MODIFICATION_JOB }).prisma);
+  });
+
+  it('should create a pending job with all steps pending', async () => {
+    const job = await store.createJob({
+      message: 'Add a footer',
+      adminId: 'admin_1',
+      input: { skipTests: true, sessionId: 'session_1' },
+    });
+
+    expect(job.status).toBe('PENDING');
+    expect(job.adminId).toBe('admin_1');
+    expect(job.input).toEqual({ skipTests: true, sessionId: 'session_1' });
+    expect(job.steps.map((step) => step.name)).toEqual(JOB_STEPS);
+    expect(job.steps.every((step) => step.status === 'pending')).toBe(true);
+  });
+
+  it('should merge step updates and track the current step', async () => {
+    const job = await store.createJob({ message: 'Test', input: {} });
+
+    await store.updateStep(job.id, 'agent', { status: 'running', data: { initialFiles: [] } });
+    const updated = await store.updateStep(job.id, 'agent', {
+      status: 'completed',
+      data: { files: ['src/app/page.tsx'] },
+    });
+
+    const agentStep = updated.steps.find((step) => step.name === 'agent');
+    expect(updated.currentStep).toBe('agent');
+    expect(agentStep?.status).toBe('completed');
+    expect(agentStep?.data).toEqual({ initialFiles: [], files: ['src/app/page.tsx'] });
+  });
+
+  it('should store failure details as the job result', async () => {
+    const job = await store.createJob({ message: 'Test', input: {} });
+    const failed = await store.markFailed(job.id, 'Tests failed', {
+      testResults: { passed: 1, failed: 2, total: 3 },
+    });
+
+    expect(failed.status).toBe('FAILED');
+    expect(failed.error).toBe('Tests failed');
+    expect(failed.result).toEqual({ testResults: { passed: 1, failed: 2, total: 3 } });
+    expect(failed.completedAt).toBeInstanceOf(Date);
+  });
+
+  it('should not overwrite a job that already finished', async () => {
+    const job = await store.createJob({ message: 'Test', input: {} });
+    await store.markCancelled(job.id, 'Cancelled by admin@example.com');
+
+    expect((await store.markCompleted(job.id, {})).status).toBe('CANCELLED');
+    expect((await store.markFailed(job.id, 'Tests failed')).status).toBe('CANCELLED');
+    expect((await store.markRunning(job.id)).status).toBe('CANCELLED');
+    expect((await store.getJob(job.id))?.error).toBe('Cancelled by admin@example.com');
+  });
+
+  it('should keep concurrent updates to different steps', async () => {
+    const job = await store.createJob({ message: 'Test', input: {} });
+
+    await Promise.all([
+      store.updateStep(job.id, 'migration', { data: { migrationName: 'add_tags' } }),
+      store.updateStep(job.id, 'migration', { status: 'running' }),
+      store.updateStep(job.id, 'agent', { status: 'completed' }),
+    ]);
+
+    const updated = await store.getJob(job.id);
+    expect(updated?.steps.find((step) => step.name === 'migration')).toMatchObject({
+      status: 'running',
+      data: { migrationName: 'add_tags' },
+    });
+    expect(updated?.steps.find((step) => step.name === 'agent')?.status).toBe('completed');
+  });
+
+  it('should list only incomplete jobs', async () => {
+    const done = await store.createJob({ message: 'Done', input: {} });
+    await store.createJob({ message: 'Pending', input: {} });
+    await store.markCompleted(done.id, {});
+
+    const incomplete = await store.listIncompleteJobs();
+    expect(incomplete.map((job) => job.message)).toEqual(['Pending']);
+  });
+
+  it('should report queue position among unfinished jobs', async () => {
+    const first = await store.createJob({ message: 'First', input: {} });
+    const second = await store.createJob({ message: 'Second', input: {} });
+    const third = await store.createJob({ message: 'Third', input: {} });
+
+    expect(await store.getQueuePosition(first.id)).toBe(0);
+    expect(await store.getQueuePosition(third.id)).toBe(2);
+
+    await store.markCompleted(first.id, {});
+    expect(await store.getQueuePosition(second.id)).toBe(0);
+    expect(await store.getQueuePosition(third.id)).toBe(1);
+    expect(await store.getQueuePosition(first.id)).toBe(0);
+  });
+});
+
+describe('ModificationRunner', () => {
+  let store: JobStore;
+  const changeStore = {
+    recordCommit: mockRecordCommit,
+    markDeployedToStaging: mockMarkDeployedToStaging,
+    setTestsPassed: mockSetTestsPassed,
+    deleteCommits: mockDeleteCommits,
+  } as unknown as CodeChangeStore;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store = new JobStore(createFakePrisma({ modificationJob: MODIFICATION_JOB }).prisma);
+    mockGetStatus.mockResolvedValue({
+      success: true,
+      data: { modified: [], created: [], deleted: [] },
+    });
+    mockPush.mockResolvedValue({ success: true });
+    mockGetCurrentBranch.mockResolvedValue('staging');
+    mockCreateBranch.mockResolvedValue({ success: true });
+    mockCheckoutBranch.mockResolvedValue({ success: true });
+    mockMergeBranch.mockResolvedValue({ success: true });
+    mockDeleteBranch.mockResolvedValue({ success: true });
+    mockDiscardChanges.mockResolvedValue({ success: true });
+    mockRollbackMigration.mockResolvedValue({ success: true });
+    mockHandleSchemaChange.mockResolvedValue({ success: true, steps: [] });
+    mockCheckFiles.mockResolvedValue({ success: true, diagnostics: [], checkedFiles: [], duration: 1 });
+    mockSelectImpactedTests.mockResolvedValue({ all: false, files: [] });
+    mockGetDiff.mockResolvedValue({
+      success: true,
+      data: { diff: 'diff --git a/src/lib/a.ts b/src/lib/a.ts\n--- a/src/lib/a.ts\n+++ b/src/lib/a.ts\n@@ -1,2 +1,3 @@\n one\n+two\n three\n' },
+    });
+    mockGetMergeBase.mockResolvedValue('base123');
+  });
+
+  it('should run all steps and complete the job', async () => {
+    mockModifyCode.mockResolvedValue({ success: true, result: 'Done', filesModified: [] });
+    const job = await store.createJob({ message: 'Nothing to do', input: { skipTests: true } });
+
+    const finished = await new ModificationRunner({ store, changeStore }).run(job.id);
+
+    expect(finished?.status).toBe('COMPLETED');
+    expect(finished?.result?.result).toBe('Done');
+    expect(finished?.result?.tests).toEqual({ skipped: true });
+    expect(mockCommit).not.toHaveBeenCalled();
+    expect(mockCreateBranch).toHaveBeenCalledWith(`ai/${job.id}`, true);
+    expect(mockMergeBranch).not.toHaveBeenCalled();
+    expect(mockPush).not.toHaveBeenCalled();
+  });
+
+  it('should stream agent activity to the job session', async () => {
+    mockModifyCode.mockImplementation(async (request: CodeModificationRequest) => {
+      request.onActivity?.({ type: 'tool', tool: 'Read', summary: 'src/app/page.tsx' });
+      request.onActivity?.({ type: 'text', text: 'Adding the footer now.' });
+      return { success: true, result: 'Done', filesModified: [] };
+    });
+    const job = await store.createJob({ message: 'Add a footer', input: { skipTests: true, sessionId: 'session_1' } });
+
+    await new ModificationRunner({ store, changeStore }).run(job.id);
+
+    expect(mockBroadcastAgentTool).toHaveBeenCalledWith(
+      { tool: 'Read', summary: 'src/app/page.tsx', jobId: job.id },
+      'session_1'
+    );
+    expect(mockBroadcastAgentText).toHaveBeenCalledWith('Adding the footer now.', job.id, 'session_1');
+  });
+
+  it('should record token usage for each agent call', async () => {
+    const usageStore = { record: jest.fn() } as unknown as UsageStore;
+    mockModifyCode.mockResolvedValue({
+      success: true,
+      result: 'Done',
+      filesModified: [],
+      usage: { model: 'claude-sonnet-4', inputTokens: 1200, outputTokens: 300, costUsd: 0.01 },
+    });
+    const job = await store.createJob({ message: 'Add a footer', adminId: 'admin_1', input: { skipTests: true } });
+
+    await new ModificationRunner({ store, changeStore, usageStore }).run(job.id);
+
+    expect(usageStore.record).toHaveBeenCalledWith({
+      jobId: job.id,
+      adminId: 'admin_1',
+      provider: 'scripted',
+      operation: 'modify',
+      usage: { model: 'claude-sonnet-4', inputTokens: 1200, outputTokens: 300, costUsd: 0.01 },
+      durationMs: expect.any(Number),
+    });
+  });
+
+  it('should append the reply and agent session to the conversation', async () => {
+    const conversationStore = {
+      getConversation: jest.fn().mockResolvedValue({ id: 'chat_1', messages: [] }),
+      appendMessages: jest.fn(),
+    } as unknown as ConversationStore;
+    mockModifyCode.mockResolvedValue({ success: true, result: 'Footer added', filesModified: [], sessionId: 'agent_1' });
+    const job = await store.createJob({
+      message: 'Add a footer',
+      input: { skipTests: true, conversationId: 'chat_1' },
+    });
+
+    await new ModificationRunner({ store, changeStore, conversationStore }).run(job.id);
+
+    expect(conversationStore.appendMessages).toHaveBeenCalledWith(
+      'chat_1',
+      [expect.objectContaining({ role: 'assistant', content: 'Footer added', jobId: job.id, status: 'COMPLETED' })],
+      { agentSessionId: 'agent_1' }
+    );
+  });
+
+  it('should resume the conversation\'s agent session when the conversation is reopened', async () => {
+    const conversation = { id: 'chat_1', messages: [] as unknown[], agentSessionId: null as string | null };
+    const conversationStore = {
+      getConversation: jest.fn(async () => ({ ...conversation })),
+      appendMessages: jest.fn(async (_id: string, messages: unknown[], options: { agentSessionId?: string }) => {
+        conversation.messages.push(...messages);
+        conversation.agentSessionId = options.agentSessionId || conversation.agentSessionId;
+      }),
+    } as unknown as ConversationStore;
+    const runner = new ModificationRunner({ store, changeStore, conversationStore });
+    mockModifyCode.mockResolvedValue({ success: true, result: 'Footer added', filesModified: [], sessionId: 'agent_1' });
+    const first = await store.createJob({ message: 'Add a footer', input: { skipTests: true, conversationId: 'chat_1' } });
+    await runner.run(first.id);
+
+    // Reopened later: the follow-up only names the conversation
+    mockModifyCode.mockResolvedValue({ success: true, result: 'Footer is blue', filesModified: [], sessionId: 'agent_1' });
+    const followUp = await store.createJob({ message: 'Make it blue', input: { skipTests: true, conversationId: 'chat_1' } });
+    await runner.run(followUp.id);
+
+    expect(mockModifyCode.mock.calls[0][0].sessionId).toBeUndefined();
+    expect(mockModifyCode.mock.calls[1][0]).toMatchObject({ userRequest: 'Make it blue', sessionId: 'agent_1' });
+  });
+
+  it('should prefer the agent session given with the request over the conversation\'s', async () => {
+    const conversationStore = {
+      getConversation: jest.fn().mockResolvedValue({ id: 'chat_1', messages: [], agentSessionId: 'agent_1' }),
+      appendMessages: jest.fn(),
+    } as unknown as ConversationStore;
+    mockModifyCode.mockResolvedValue({ success: true, result: 'Done', filesModified: [], sessionId: 'agent_2' });
+    const job = await store.createJob({
+      message: 'Add a footer',
+      input: { skipTests: true, conversationId: 'chat_1', agentSessionId: 'agent_2' },
+    });
+
+    await new ModificationRunner({ store, changeStore, conversationStore }).run(job.id);
+
+    expect(mockModifyCode.mock.calls[0][0].sessionId).toBe('agent_2');
+  });
+
+  it('should not append a reply the conversation already has', async () => {
+    const job = await store.createJob({ message: 'Add a footer', input: { skipTests: true, conversationId: 'chat_1' } });
+    const conversationStore = {
+      getConversation: jest.fn().mockResolvedValue({
+        id: 'chat_1',
+        messages: [{ role: 'system', content: 'Error: Agent failed', timestamp: '', jobId: job.id }],
+      }),
+      appendMessages: jest.fn(),
+    } as unknown as ConversationStore;
+    mockModifyCode.mockResolvedValue({ success: false, error: 'Agent failed' });
+
+    await new ModificationRunner({ store, changeStore, conversationStore }).run(job.id);
+
+    expect(conversationStore.appendMessages).not.toHaveBeenCalled();
+  });
+
+  it('should record the commit in the change history', async () => {
+    mockModifyCode.mockResolvedValue({ success: true, result: 'Done', filesModified: ['src/app/page.tsx'] });
+    mockGetStatus.mockResolvedValue({
+      success: true,
+      data: { modified: ['src/app/page.tsx'], created: [], deleted: [] },
+    });
+    mockCommit.mockResolvedValue({ success: true, data: { commit: 'abc1234' } });
+    mockRunTests.mockResolvedValue({
+      success: true,
+      testsPassed: 2,
+      testsFailed: 0,
+      totalTests: 2,
+      duration: 10,
+    });
+    const job = await store.createJob({ message: 'Add a footer', adminId: 'admin_1', input: {} });
+
+    const finished = await new ModificationRunner({ store, changeStore }).run(job.id);
+
+    expect(finished?.status).toBe('COMPLETED');
+    expect(mockRunTests).toHaveBeenCalledWith(expect.objectContaining({ lintFiles: ['src/app/page.tsx'] }));
+    expect(mockMergeBranch).toHaveBeenCalledWith(`ai/${job.id}`);
+    expect(mockDeleteBranch).toHaveBeenCalledWith(`ai/${job.id}`);
+    expect(mockPush).toHaveBeenCalledWith({ remote: 'origin', branch: 'staging' });
+    expect(mockRecordCommit).toHaveBeenCalledWith({
+      commitHash: 'abc1234',
+      description: 'Add a footer',
+      filesChanged: ['src/app/page.tsx'],
+      adminId: 'admin_1',
+    });
+    expect(mockMarkDeployedToStaging).toHaveBeenCalledWith('abc1234');
+    expect(mockSetTestsPassed).toHaveBeenCalledWith('abc1234', true);
+  });
+
+  it('should fail before committing when the changes do not type-check', async () => {
+    mockModifyCode.mockResolvedValue({ success: true, result: 'Done', filesModified: ['src/lib/total.ts'] });
+    mockGetStatus
+      .mockResolvedValueOnce({ success: true, data: { modified: [], created: [], deleted: [] } })
+      .mockResolvedValue({
+        success: true,
+        data: { modified: ['src/lib/total.ts', 'README.md'], created: [], deleted: ['src/lib/math.ts'] },
+      });
+    const typeError = {
+      file: 'src/app/page.ts',
+      line: 3,
+      column: 14,
+      code: 2322,
+      category: 'error',
+      message: "Type 'string' is not assignable to type 'number'.",
+    };
+    mockCheckFiles.mockResolvedValue({
+      success: false,
+      diagnostics: [typeError],
+      checkedFiles: ['src/app/page.ts', 'src/lib/total.ts'],
+      duration: 5,
+    });
+    const job = await store.createJob({ message: 'Inline the math helpers', adminId: 'admin_1', input: {} });
+
+    const finished = await new ModificationRunner({ store, changeStore }).run(job.id);
+
+    expect(mockCheckFiles).toHaveBeenCalledWith(['src/lib/total.ts', 'src/lib/math.ts'], {
+      baseline: { 'src/lib/total.ts': '// src/lib/total.ts at HEAD\n', 'src/lib/math.ts': '// src/lib/math.ts at HEAD\n' },
+    });
+    expect(finished?.status).toBe('FAILED');
+    expect(finished?.error).toBe('Type check failed with 1 type error - changes were not committed');
+    expect(finished?.result).toEqual({
+      details: "src/app/page.ts(3,14): error TS2322: Type 'string' is not assignable to type 'number'.",
+      typeErrors: [typeError],
+    });
+    expect(finished?.steps.find((step) => step.name === 'typecheck')?.status).toBe('failed');
+    expect(mockCommit).not.toHaveBeenCalled();
+    expect(mockRunTests).not.toHaveBeenCalled();
+    expect(mockMergeBranch).not.toHaveBeenCalled();
+  });
+
+  it('should resume from the first step that did not complete', async () => {
+    const job = await store.createJob({ message: 'Resume me', input: {} });
+    await store.markRunning(job.id);
+    await store.updateStep(job.id, 'branch', { status: 'completed', data: { branch: `ai/${job.id}` } });
+    await store.updateStep(job.id, 'agent', {
+      status: 'completed',
+      data: { result: 'Edited', files: ['src/app/page.tsx'], createdFiles: [] },
+    });
+    await store.updateStep(job.id, 'migration', { status: 'skipped' });
+    await store.updateStep(job.id, 'commit', { status: 'completed', data: { commit: 'abc123' } });
+    await store.updateStep(job.id, 'tests', { status: 'running' });
+    mockGetCurrentBranch.mockResolvedValue(`ai/${job.id}`);
+
+    mockRunTests.mockResolvedValue({
+      success: true,
+      testsPassed: 3,
+      testsFailed: 0,
+      totalTests: 3,
+      duration: 10,
+    });
+
+    const finished = await new ModificationRunner({ store, changeStore }).run(job.id);
+
+    expect(mockModifyCode).not.toHaveBeenCalled();
+    expect(mockCommit).not.toHaveBeenCalled();
+    expect(mockCreateBranch).not.toHaveBeenCalled();
+    expect(mockRunTests).toHaveBeenCalledTimes(1);
+    expect(mockCheckoutBranch).toHaveBeenCalledWith('staging');
+    expect(mockPush).toHaveBeenCalledTimes(1);
+    expect(finished?.status).toBe('COMPLETED');
+    expect(finished?.result?.commit?.hash).toBe('abc123');
+    expect(finished?.result?.tests).toMatchObject({ passed: 3, total: 3 });
+  });
+
+  it('should let the agent repair failing tests before merging', async () => {
+    const job = await store.createJob({
+      message: 'Fix me',
+      adminId: 'admin_1',
+      input: { maxRepairAttempts: 2 },
+    });
+    await store.updateStep(job.id, 'branch', { status: 'completed', data: { branch: `ai/${job.id}` } });
+    await store.updateStep(job.id, 'agent', {
+      status: 'completed',
+      data: { files: ['src/app/page.tsx'], agentSessionId: 'agent_1' },
+    });
+    await store.updateStep(job.id, 'migration', { status: 'skipped' });
+    await store.updateStep(job.id, 'commit', { status: 'completed', data: { commit: 'abc1234' } });
+
+    mockRunTests
+      .mockResolvedValueOnce({
+        success: false,
+        testsPassed: 1,
+        testsFailed: 1,
+        totalTests: 2,
+        errors: 'Expected 1, received 2',
+        failedTests: ['Page renders the title'],
+        tests: [
+          {
+            type: 'unit',
+            file: 'tests/unit/page.test.ts',
+            suite: 'Page',
+            name: 'renders the title',
+            fullName: 'Page renders the title',
+            status: 'failed',
+            duration: 4,
+            failureMessage: 'Expected 1, received 2',
+          },
+        ],
+        duration: 10,
+      })
+      .mockResolvedValueOnce({ success: true, testsPassed: 2, testsFailed: 0, totalTests: 2, duration: 10 });
+    mockModifyCode.mockResolvedValue({ success: true, result: 'Fixed the title' });
+    const testRunStore = {
+      record: jest.fn().mockResolvedValueOnce({ id: 'run_1' }).mockResolvedValueOnce({ id: 'run_2' }),
+      listQuarantined: jest.fn().mockResolvedValue([{ file: 'tests/unit/clock.test.ts', fullName: 'Clock ticks' }]),
+      getCoverageAt: jest.fn().mockResolvedValue(null),
+    } as unknown as TestRunStore;
+    mockGetStatus.mockResolvedValue({
+      success: true,
+      data: { modified: ['src/app/page.tsx'], created: [], deleted: [] },
+    });
+    mockCommit.mockResolvedValue({ success: true, data: { commit: 'fix5678' } });
+
+    const finished = await new ModificationRunner({ store, changeStore, testRunStore }).run(job.id);
+
+    expect(finished?.status).toBe('COMPLETED');
+    expect(mockModifyCode).toHaveBeenCalledTimes(1);
+    expect(mockModifyCode.mock.calls[0][0].sessionId).toBe('agent_1');
+    expect(mockModifyCode.mock.calls[0][0].userRequest).toContain(
+      '- Page renders the title (tests/unit/page.test.ts): Expected 1, received 2'
+    );
+    expect(mockRunTests).toHaveBeenCalledWith(
+      expect.objectContaining({
+        quarantined: ['tests/unit/clock.test.ts › Clock ticks'],
+        collectCoverage: true,
+        changedLines: { 'src/lib/a.ts': [2] },
+      })
+    );
+    expect(testRunStore.record).toHaveBeenNthCalledWith(1, expect.objectContaining({ jobId: job.id, commitHash: 'abc1234', trigger: 'job' }));
+    expect(testRunStore.record).toHaveBeenNthCalledWith(2, expect.objectContaining({ jobId: job.id, commitHash: 'fix5678', trigger: 'repair' }));
+
+    const attempts = finished?.steps.find((step) => step.name === 'tests')?.data?.repairAttempts;
+    expect(attempts).toHaveLength(1);
+    expect(attempts?.[0]).toMatchObject({ attempt: 1, commit: 'fix5678', failingTests: ['Page renders the title'], testRunId: 'run_1' });
+    expect(finished?.result?.tests).toMatchObject({ passed: 2, repairAttempts: 1, testRunId: 'run_2' });
+    expect(mockSetTestsPassed).toHaveBeenCalledWith('abc1234', true);
+    expect(mockSetTestsPassed).toHaveBeenCalledWith('fix5678', true);
+    expect(mockMergeBranch).toHaveBeenCalledWith(`ai/${job.id}`);
+  });
+
+  it('should compare coverage with staging\'s at the commit the branch was created from', async () => {
+    const job = await store.createJob({ message: 'Add two', input: {} });
+    await store.updateStep(job.id, 'branch', { status: 'completed', data: { branch: `ai/${job.id}` } });
+    await store.updateStep(job.id, 'agent', { status: 'completed', data: { files: ['src/lib/a.ts'] } });
+    await store.updateStep(job.id, 'migration', { status: 'skipped' });
+    await store.updateStep(job.id, 'commit', { status: 'completed', data: { commit: 'abc1234' } });
+    mockRunTests.mockResolvedValue({ success: true, testsPassed: 1, testsFailed: 0, totalTests: 1, duration: 10 });
+    const baselineCoverage = { 'src/lib/a.ts': { covered: 2, total: 3 } };
+    const testRunStore = {
+      record: jest.fn().mockResolvedValue({ id: 'run_1' }),
+      listQuarantined: jest.fn().mockResolvedValue([]),
+      getCoverageAt: jest.fn(async (commitHash: string) => (commitHash === 'base123' ? baselineCoverage : null)),
+    } as unknown as TestRunStore;
+
+    await new ModificationRunner({ store, changeStore, testRunStore }).run(job.id);
+
+    expect(mockGetMergeBase).toHaveBeenCalledWith('staging', 'HEAD');
+    expect(mockRunTests).toHaveBeenCalledWith(expect.objectContaining({ changedLines: { 'src/lib/a.ts': [2] }, baselineCoverage }));
+  });
+
+  it('should report coverage without a baseline when staging\'s was not recorded at the branch base', async () => {
+    const job = await store.createJob({ message: 'Add two', input: {} });
+    await store.updateStep(job.id, 'branch', { status: 'completed', data: { branch: `ai/${job.id}` } });
+    await store.updateStep(job.id, 'agent', { status: 'completed', data: { files: ['src/lib/a.ts'] } });
+    await store.updateStep(job.id, 'migration', { status: 'skipped' });
+    await store.updateStep(job.id, 'commit', { status: 'completed', data: { commit: 'abc1234' } });
+    mockRunTests.mockResolvedValue({ success: true, testsPassed: 1, testsFailed: 0, totalTests: 1, duration: 10 });
+    const testRunStore = {
+      record: jest.fn().mockResolvedValue({ id: 'run_1' }),
+      listQuarantined: jest.fn().mockResolvedValue([]),
+      getCoverageAt: jest.fn().mockResolvedValue(null),
+    } as unknown as TestRunStore;
+
+    const finished = await new ModificationRunner({ store, changeStore, testRunStore }).run(job.id);
+
+    expect(finished?.status).toBe('COMPLETED');
+    expect(testRunStore.getCoverageAt).toHaveBeenCalledWith('base123');
+    expect(mockRunTests).toHaveBeenCalledWith(expect.objectContaining({ changedLines: { 'src/lib/a.ts': [2] }, baselineCoverage: undefined }));
+  });
+
+  it('should run the impacted tests first and repair their failures before the full suite', async () => {
+    const job = await store.createJob({ message: 'Fix me', input: { maxRepairAttempts: 1 } });
+    await store.updateStep(job.id, 'branch', { status: 'completed', data: { branch: `ai/${job.id}` } });
+    await store.updateStep(job.id, 'agent', {
+      status: 'completed',
+      data: { files: ['src/lib/utils.ts'], deletedFiles: ['src/lib/old.ts'], agentSessionId: 'agent_1' },
+    });
+    await store.updateStep(job.id, 'migration', { status: 'skipped' });
+    await store.updateStep(job.id, 'commit', { status: 'completed', data: { commit: 'abc1234' } });
+
+    mockSelectImpactedTests.mockResolvedValue({ all: false, files: ['tests/unit/utils.test.ts'] });
+    mockRunTests
+      .mockResolvedValueOnce({ success: false, testsPassed: 0, testsFailed: 1, totalTests: 1, failedTests: ['utils adds'], duration: 5 })
+      .mockResolvedValueOnce({ success: true, testsPassed: 1, testsFailed: 0, totalTests: 1, duration: 5 })
+      .mockResolvedValueOnce({ success: true, testsPassed: 40, testsFailed: 0, totalTests: 40, duration: 50 });
+    mockModifyCode.mockResolvedValue({ success: true, result: 'Fixed add' });
+    mockGetStatus.mockResolvedValue({ success: true, data: { modified: ['src/lib/utils.ts'], created: [], deleted: [] } });
+    mockCommit.mockResolvedValue({ success: true, data: { commit: 'fix5678' } });
+
+    const finished = await new ModificationRunner({ store, changeStore }).run(job.id);
+
+    expect(finished?.status).toBe('COMPLETED');
+    expect(mockSelectImpactedTests).toHaveBeenNthCalledWith(1, ['src/lib/utils.ts', 'src/lib/old.ts'], expect.anything());
+    expect(mockSelectImpactedTests).toHaveBeenNthCalledWith(2, ['src/lib/utils.ts', 'src/lib/old.ts', 'src/lib/utils.ts'], expect.anything());
+
+    // Impacted (fails) -> repair -> impacted again -> full suite with the gates
+    expect(mockRunTests).toHaveBeenCalledTimes(3);
+    expect(mockRunTests.mock.calls[0][0]).toMatchObject({ testFiles: ['tests/unit/utils.test.ts'], lint: 'off', build: 'off' });
+    expect(mockRunTests.mock.calls[1][0]).toMatchObject({ testFiles: ['tests/unit/utils.test.ts'] });
+    expect(mockRunTests.mock.calls[2][0].testFiles).toBeUndefined();
+    expect(mockModifyCode.mock.calls[0][0].userRequest).toContain('utils adds');
+
+    const testsStep = finished?.steps.find((step) => step.name === 'tests');
+    expect(testsStep?.data).toMatchObject({
+      passed: 40,
+      total: 40,
+      impactedTests: { files: ['tests/unit/utils.test.ts'], passed: 1, total: 1 },
+    });
+    expect(testsStep?.data?.repairAttempts?.[0].files).toEqual(['src/lib/utils.ts']);
+  });
+
+  it('should keep the branch and not merge when tests fail', async () => {
+    const job = await store.createJob({ message: 'Break things', input: {} });
+    await store.updateStep(job.id, 'branch', { status: 'completed', data: { branch: `ai/${job.id}` } });
+    await store.updateStep(job.id, 'agent', { status: 'completed', data: { files: [] } });
+    await store.updateStep(job.id, 'migration', { status: 'skipped' });
+    await store.updateStep(job.id, 'commit', { status: 'completed', data: { commit: 'def456' } });
+    mockGetCurrentBranch.mockResolvedValue(`ai/${job.id}`);
+
+    mockRunTests.mockResolvedValue({
+      success: false,
+      testsPassed: 1,
+      testsFailed: 1,
+      totalTests: 2,
+      errors: 'boom',
+      duration: 10,
+    });
+
+    const finished = await new ModificationRunner({ store, changeStore }).run(job.id);
+
+    expect(mockRevertCommit).not.toHaveBeenCalled();
+    expect(mockMergeBranch).not.toHaveBeenCalled();
+    expect(mockPush).not.toHaveBeenCalled();
+    expect(mockDeleteBranch).not.toHaveBeenCalled();
+    expect(mockCheckoutBranch).toHaveBeenCalledWith('staging');
+    expect(mockSetTestsPassed).not.toHaveBeenCalled();
+    expect(finished?.status).toBe('FAILED');
+    expect(finished?.steps.find((step) => step.name === 'tests')?.status).toBe('failed');
+    expect(finished?.result?.testResults).toMatchObject({ failed: 1, total: 2 });
+  });
+
+  it('should fail without merging when the tests cannot be run', async () => {
+    const job = await store.createJob({ message: 'Add a footer', input: {} });
+    await store.updateStep(job.id, 'branch', { status: 'completed', data: { branch: `ai/${job.id}` } });
+    await store.updateStep(job.id, 'agent', { status: 'completed', data: { files: [] } });
+    await store.updateStep(job.id, 'migration', { status: 'skipped' });
+    await store.updateStep(job.id, 'commit', { status: 'completed', data: { commit: 'def456' } });
+    mockGetCurrentBranch.mockResolvedValue(`ai/${job.id}`);
+    mockRunTests.mockRejectedValue(new Error('spawn npx ENOENT'));
+
+    const finished = await new ModificationRunner({ store, changeStore }).run(job.id);
+
+    expect(mockMergeBranch).not.toHaveBeenCalled();
+    expect(mockPush).not.toHaveBeenCalled();
+    expect(finished?.status).toBe('FAILED');
+    expect(finished?.error).toBe(`Tests could not be run - changes were not merged (kept on branch ai/${job.id})`);
+    expect(finished?.result?.details).toBe('spawn npx ENOENT');
+    expect(finished?.steps.find((step) => step.name === 'tests')?.status).toBe('failed');
+  });
+
+  it('should roll back the migration when the job fails after migrating', async () => {
+    const job = await store.createJob({ message: 'Add a Task model', input: {} });
+    await store.updateStep(job.id, 'branch', { status: 'completed', data: { branch: `ai/${job.id}` } });
+    await store.updateStep(job.id, 'agent', { status: 'completed', data: { files: ['prisma/schema.prisma'] } });
+    await store.updateStep(job.id, 'migration', {
+      status: 'completed',
+      data: { migrationName: 'ai_generated_1', snapshotId: '20261019T180000000Z_ai_generated_1' },
+    });
+    await store.updateStep(job.id, 'commit', { status: 'completed', data: { commit: 'abc1234' } });
+    // On the job branch until the failed job returns to staging
+    mockGetCurrentBranch.mockResolvedValueOnce(`ai/${job.id}`).mockResolvedValue('staging');
+    mockRunTests.mockResolvedValue({ success: false, testsPassed: 0, testsFailed: 1, totalTests: 1, duration: 10 });
+    mockRollbackMigration.mockResolvedValue({ success: true, operation: 'rollback' });
+
+    const finished = await new ModificationRunner({ store, changeStore }).run(job.id);
+
+    expect(finished?.status).toBe('FAILED');
+    expect(mockCheckoutBranch).toHaveBeenCalledWith('staging');
+    expect(mockRollbackMigration).toHaveBeenCalledWith('ai_generated_1');
+    expect(mockCheckoutBranch.mock.invocationCallOrder[0]).toBeLessThan(mockRollbackMigration.mock.invocationCallOrder[0]);
+  });
+
+  it('should discard the branch and roll back the migration when cancelled', async () => {
+    const job = await store.createJob({ message: 'Add a Task model', adminId: 'admin_1', input: {} });
+    await store.markRunning(job.id);
+    await store.updateStep(job.id, 'branch', { status: 'completed', data: { branch: `ai/${job.id}` } });
+    await store.updateStep(job.id, 'agent', { status: 'completed', data: { files: ['prisma/schema.prisma'] } });
+    await store.updateStep(job.id, 'migration', { status: 'completed', data: { migrationName: 'ai_generated_1' } });
+    await store.updateStep(job.id, 'commit', { status: 'completed', data: { commit: 'abc1234' } });
+    mockGetCurrentBranch.mockResolvedValue(`ai/${job.id}`);
+
+    const controller = new AbortController();
+    mockRunTests.mockImplementation(async () => {
+      controller.abort('Cancelled by admin@example.com');
+      throw Object.assign(new Error('Command aborted'), { name: 'AbortError' });
+    });
+
+    const finished = await new ModificationRunner({ store, changeStore }).run(job.id, controller.signal);
+
+    expect(finished?.status).toBe('CANCELLED');
+    expect(finished?.error).toBe('Cancelled by admin@example.com');
+    expect(finished?.steps.find((step) => step.name === 'tests')?.status).toBe('cancelled');
+    expect(mockRunTests.mock.calls[0][0].signal).toBe(controller.signal);
+    expect(mockDiscardChanges).toHaveBeenCalled();
+    expect(mockCheckoutBranch).toHaveBeenCalledWith('staging');
+    expect(mockDeleteBranch).toHaveBeenCalledWith(`ai/${job.id}`, true);
+    expect(mockDeleteCommits).toHaveBeenCalledWith(['abc1234']);
+    expect(mockRollbackMigration).toHaveBeenCalledWith('ai_generated_1');
+    expect(mockMergeBranch).not.toHaveBeenCalled();
+    expect(mockBroadcastCancelled).toHaveBeenCalledWith(
+      expect.objectContaining({ jobId: job.id, step: 'tests' }),
+      undefined
+    );
+  });
+
+  describe('destructive schema changes', () => {
+    const dropColumn: SchemaChange = {
+      kind: 'field_removed',
+      severity: 'destructive',
+      model: 'Task',
+      field: 'notes',
+      description: 'Field Task.notes removed - its column and values are dropped',
+    };
+
+    const startSchemaJob = async () => {
+      const job = await store.createJob({ message: 'Remove task notes', adminId: 'admin_1', input: { skipTests: true } });
+      await store.updateStep(job.id, 'branch', { status: 'completed', data: { branch: `ai/${job.id}` } });
+      await store.updateStep(job.id, 'agent', { status: 'completed', data: { files: ['prisma/schema.prisma'] } });
+      await store.updateStep(job.id, 'typecheck', { status: 'skipped' });
+      mockGetCurrentBranch.mockResolvedValue(`ai/${job.id}`);
+      mockDiffSchema.mockResolvedValue({ severity: 'destructive', changes: [dropColumn] });
+
+      const finished = new ModificationRunner({ store, changeStore }).run(job.id);
+      while (!isAwaitingSchemaApproval(job.id)) {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+      }
+
+      return { job, finished };
+    };
+
+    it('should wait for an admin to approve them before generating the migration', async () => {
+      const { job, finished } = await startSchemaJob();
+
+      const waiting = await store.getJob(job.id);
+      const pending = waiting?.steps.find((step) => step.name === 'migration')?.data?.schemaApproval;
+      expect(pending).toMatchObject({ status: 'pending', changes: [dropColumn] });
+      expect(mockHandleSchemaChange).not.toHaveBeenCalled();
+
+      expect(
+        resolveSchemaApproval(job.id, { ...(pending as SchemaApproval), status: 'approved', decidedBy: 'admin@example.com' })
+      ).toBe(true);
+
+      const result = await finished;
+      expect(result?.status).toBe('COMPLETED');
+      expect(mockHandleSchemaChange).toHaveBeenCalled();
+      expect(result?.steps.find((step) => step.name === 'migration')?.data).toMatchObject({
+        schemaChanges: [dropColumn],
+        schemaApproval: { status: 'approved', decidedBy: 'admin@example.com' },
+      });
+      expect(isAwaitingSchemaApproval(job.id)).toBe(false);
+    });
+
+    it('should discard the changes and fail the job when they are rejected', async () => {
+      const { job, finished } = await startSchemaJob();
+
+      resolveSchemaApproval(job.id, {
+        status: 'rejected',
+        changes: [dropColumn],
+        requestedAt: new Date().toISOString(),
+        decidedBy: 'admin@example.com',
+      });
+
+      const result = await finished;
+      expect(result?.status).toBe('FAILED');
+      expect(result?.error).toBe('Destructive schema changes rejected by admin@example.com - changes were not applied');
+      expect(result?.result?.schemaChanges).toEqual([dropColumn]);
+      expect(mockDiscardChanges).toHaveBeenCalled();
+      expect(mockHandleSchemaChange).not.toHaveBeenCalled();
+    });
+
+    it('should migrate additive and risky changes without waiting', async () => {
+      const job = await store.createJob({ message: 'Add task priority', input: { skipTests: true } });
+      await store.updateStep(job.id, 'agent', { status: 'completed', data: { files: ['prisma/schema.prisma'] } });
+      mockDiffSchema.mockResolvedValue({
+        severity: 'risky',
+        changes: [{ kind: 'field_added', severity: 'risky', model: 'Task', field: 'priority', description: 'Required field Task.priority added' }],
+      });
+
+      const finished = await new ModificationRunner({ store, changeStore }).run(job.id);
+
+      expect(finished?.status).toBe('COMPLETED');
+      expect(mockHandleSchemaChange).toHaveBeenCalled();
+      expect(finished?.steps.find((step) => step.name === 'migration')?.data?.schemaApproval).toBeUndefined();
+    });
+  });
+
+  it('should only allow cancelling before the merge starts', async () => {
+    const job = await store.createJob({ message: 'Merge me', input: {} });
+    expect(isJobCancellable(job)).toBe(true);
+
+    await store.markRunning(job.id);
+    const running = await store.updateStep(job.id, 'tests', { status: 'running' });
+    expect(isJobCancellable(running)).toBe(true);
+
+    const merging = await store.updateStep(job.id, 'merge', { status: 'running' });
+    expect(isJobCancellable(merging)).toBe(false);
+
+    const done = await store.markCompleted(job.id, {});
+    expect(isJobCancellable(done)).toBe(false);
+  });
+});
+
+describe('Modification queue', () => {
+  let store: JobStore;
+
+  /**
+   * Lock that is always free; `renew` says whether it is still held
+   */
+  const createLock = (renew: () => Promise<boolean>, leaseMs = 60000) =>
+    ({
+      acquire: jest.fn().mockResolvedValue({ acquired: true, holder: null }),
+      renew: jest.fn(renew),
+      release: jest.fn().mockResolvedValue(true),
+      getLeaseMs: () => leaseMs,
+    }) as unknown as WorktreeLock;
+
+  const waitUntil = async (condition: () => boolean | Promise<boolean>) => {
+    for (let i = 0; i < 200 && !(await condition()); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  };
+
+  beforeEach(() => {
+    store = new JobStore(createFakePrisma({ modificationJob: MODIFICATION_JOB }).prisma);
+  });
+
+  it('should move on to the next job when a hung job is abandoned', async () => {
+    const hung = await store.createJob({ message: 'Hung', input: {} });
+    const next = await store.createJob({ message: 'Next', input: {} });
+    let unblock: () => void = () => undefined;
+    const run = jest.fn((jobId: string, signal: AbortSignal) =>
+      jobId === hung.id && !signal.aborted
+        ? new Promise<null>((resolve) => (unblock = () => resolve(null)))
+        : store.markCompleted(jobId, {})
+    );
+    const options = { store, lock: createLock(async () => true), runner: { run } as unknown as ModificationRunner };
+
+    processModificationQueue(options);
+    await waitUntil(() => isJobActive(hung.id));
+
+    expect(abandonActiveJob(hung.id, 'Worktree lock was broken')).toBe(true);
+    await store.markFailed(hung.id, 'Worktree lock was broken');
+    processModificationQueue(options);
+    await waitUntil(async () => (await store.getJob(next.id))?.status === 'COMPLETED');
+
+    expect((await store.getJob(next.id))?.status).toBe('COMPLETED');
+    expect(run.mock.calls[0][1].aborted).toBe(true);
+
+    // The abandoned run returning late does not start anything else
+    unblock();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('should cancel a job that loses its worktree lock', async () => {
+    const job = await store.createJob({ message: 'Test', input: {} });
+    const run = jest.fn(
+      (jobId: string, signal: AbortSignal) =>
+        new Promise((resolve) => signal.addEventListener('abort', () => resolve(store.markCancelled(jobId, signal.reason))))
+    );
+
+    processModificationQueue({ store, lock: createLock(async () => false, 30), runner: { run } as unknown as ModificationRunner });
+    await waitUntil(async () => (await store.getJob(job.id))?.status === 'CANCELLED');
+
+    expect((await store.getJob(job.id))?.error).toBe('Worktree lock was lost');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for plan mode parsing and warnings
+ */
+
+import {
+  parsePlanOutput,
+  buildPlanWarnings,
+  formatApprovedPlan,
+} from '@/lib/agents/modification-plan';
+
+describe('Modification Plan', () => {
+  describe('parsePlanOutput', () => {
+    it('should parse the last JSON block of the agent output', () => {
+      const output = [
+        'I looked at the homepage.',
+        '```json',
+        '{ "summary": "draft", "files": [] }',
+        '```',
+        'Final plan:',
+        '```json',
+        JSON.stringify({
+          summary: 'Add a footer',
+          files: [
+            { path: './src/components/Footer.tsx', action: 'create', rationale: 'New component' },
+            { path: 'src/app/layout.tsx', action: 'modify', rationale: 'Render the footer' },
+          ],
+          riskFlags: ['Changes the root layout'],
+        }),
+        '```',
+      ].join('\n');
+
+      const plan = parsePlanOutput(output);
+
+      expect(plan.summary).toBe('Add a footer');
+      expect(plan.files).toEqual([
+        { path: 'src/components/Footer.tsx', action: 'create', rationale: 'New component' },
+        { path: 'src/app/layout.tsx', action: 'modify', rationale: 'Render the footer' },
+      ]);
+      expect(plan.riskFlags).toEqual(['Changes the root layout']);
+      expect(plan.warnings).toEqual([
+        expect.objectContaining({ type: 'sensitive', filePath: 'src/app/layout.tsx' }),
+      ]);
+    });
+
+    it('should default unknown actions to modify and drop invalid entries', () => {
+      const plan = parsePlanOutput(
+        '```json\n{"summary":"x","files":[{"path":"a.ts","action":"rename"},{"action":"create"}],"riskFlags":[1,"ok"]}\n```'
+      );
+
+      expect(plan.files).toEqual([{ path: 'a.ts', action: 'modify', rationale: '' }]);
+      expect(plan.riskFlags).toEqual(['ok']);
+    });
+
+    it('should fall back to the raw output when there is no valid JSON block', () => {
+      const plan = parsePlanOutput('I would edit the homepage.\n```json\n{ not json\n```');
+
+      expect(plan.summary).toContain('I would edit the homepage.');
+      expect(plan.files).toEqual([]);
+      expect(plan.riskFlags).toHaveLength(1);
+    });
+  });
+
+  describe('buildPlanWarnings', () => {
+    it('should flag protected files and schema changes', () => {
+      const warnings = buildPlanWarnings(['src/lib/auth.ts', 'prisma/schema.prisma', 'src/components/Button.tsx']);
+
+      expect(warnings).toEqual([
+        expect.objectContaining({ type: 'protected', filePath: 'src/lib/auth.ts' }),
+        expect.objectContaining({ type: 'schema_change', filePath: 'prisma/schema.prisma' }),
+      ]);
+    });
+  });
+
+  describe('formatApprovedPlan', () => {
+    it('should list the planned files for the agent', () => {
+      const text = formatApprovedPlan({
+        summary: 'Add a footer',
+        files: [{ path: 'src/components/Footer.tsx', action: 'create', rationale: 'New component' }],
+        riskFlags: [],
+        warnings: [],
+      });
+
+      expect(text).toContain('## APPROVED PLAN');
+      expect(text).toContain('- create src/components/Footer.tsx: New component');
+    });
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Tests for PlanStore (plans proposed in plan mode)
+ */
+
+jest.mock('@/lib/db', () => ({ prisma: {} }));
+
+import { PlanStore } from '@/lib/jobs/plan-store';
+import { ModificationPlan } from '@/lib/agents/modification-plan';
+import { createFakePrisma } from '../helpers/fake-prisma';
+
+const PLAN: ModificationPlan = {
+  summary: 'Add a footer',
+  files: [{ path: 'src/app/page.tsx', action: 'modify', rationale: 'Render a footer' }],
+  riskFlags: [],
+  warnings: [],
+};
+
+describe('PlanStore', () => {
+  let store: PlanStore;
+
+  beforeEach(() => {
+    const { prisma } = createFakePrisma({
+      modificationPlan: { idPrefix: 'plan', defaults: { adminId: null, agentSessionId: null, jobId: null }, updatedAt: true },
+    });
+    store = new PlanStore(prisma);
+  });
+
+  it('should let only one apply request claim a plan', async () => {
+    const plan = await store.createPlan({ message: 'Add a footer', plan: PLAN });
+
+    const claims = await Promise.all([store.claim(plan.id), store.claim(plan.id)]);
+    await store.markApplied(plan.id, 'job_1');
+
+    expect(claims.sort()).toEqual([false, true]);
+    expect(await store.getPlan(plan.id)).toMatchObject({ status: 'APPLIED', jobId: 'job_1' });
+  });
+
+  it('should give back a claim whose job was not created', async () => {
+    const plan = await store.createPlan({ message: 'Add a footer', plan: PLAN });
+
+    await store.claim(plan.id);
+    await store.release(plan.id);
+
+    expect((await store.getPlan(plan.id))?.status).toBe('PROPOSED');
+    expect(await store.claim(plan.id)).toBe(true);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for execProcessTree (cancellable shell commands)
+ */
+
+import { execProcessTree, isAbortError } from '@/lib/code-modification/process-tree';
+
+describe('execProcessTree', () => {
+  it('should resolve with stdout and stderr', async () => {
+    const result = await execProcessTree('echo out; echo err >&2');
+
+    expect(result.stdout.trim()).toBe('out');
+    expect(result.stderr.trim()).toBe('err');
+  });
+
+  it('should reject with exec-style fields on a non-zero exit', async () => {
+    await expect(execProcessTree('echo partial; exit 3')).rejects.toMatchObject({
+      code: 3,
+      stdout: 'partial\n',
+    });
+  });
+
+  it('should stream stdout before the command exits', async () => {
+    const chunks: string[] = [];
+
+    const pending = execProcessTree('echo first; sleep 0.3; echo second', {
+      onStdout: (chunk) => chunks.push(chunk),
+    });
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    const sawOutputBeforeExit = chunks.join('').includes('first');
+    const result = await pending;
+
+    expect(sawOutputBeforeExit).toBe(true);
+    expect(chunks.join('')).toBe(result.stdout);
+  });
+
+  it('should kill the whole tree when aborted', async () => {
+    const controller = new AbortController();
+    // The shell spawns a child that outlives a plain SIGTERM to the shell only
+    const pending = execProcessTree('sleep 30 & wait', { signal: controller.signal });
+
+    setTimeout(() => controller.abort(), 100);
+
+    const started = Date.now();
+    const error = await pending.catch((e) => e);
+
+    expect(isAbortError(error)).toBe(true);
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  it('should reject immediately when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await execProcessTree('echo never', { signal: controller.signal }).catch((e) => e);
+
+    expect(isAbortError(error)).toBe(true);
+  });
+});
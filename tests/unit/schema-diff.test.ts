@@ -0,0 +1,162 @@
+/**
+ * Tests for the Prisma schema differ (additive, risky and destructive changes)
+ */
+
+import { parsePrismaSchema, diffPrismaSchemas, requiresApproval } from '@/lib/code-modification/schema-diff';
+
+const BASE = `
+datasource db {
+  provider = "sqlite"
+  url      = env("DATABASE_URL") // https://www.prisma.io/docs
+}
+
+model User {
+  id        String   @id @default(cuid())
+  email     String   @unique
+  name      String?
+  website   String?  @default("https://example.com") // Not a comment start
+  role      Role     @default(USER)
+  tasks     Task[]
+  createdAt DateTime @default(now())
+}
+
+model Task {
+  id     String @id @default(cuid())
+  title  String
+  notes  String?
+  userId String
+  user   User   @relation(fields: [userId], references: [id])
+
+  @@index([userId])
+}
+
+enum Role {
+  USER
+  ADMIN
+}
+`;
+
+/**
+ * BASE with `replace` pairs applied
+ */
+function edit(...replacements: Array<[string | RegExp, string]>): string {
+  return replacements.reduce<string>((schema, [from, to]) => schema.replace(from, to), BASE);
+}
+
+/**
+ * Changes as [kind, severity, subject] for compact assertions
+ */
+function summarize(after: string) {
+  return diffPrismaSchemas(BASE, after).changes.map((change) => [
+    change.kind,
+    change.severity,
+    change.field ? `${change.model}.${change.field}` : change.model || change.enum,
+  ]);
+}
+
+describe('parsePrismaSchema', () => {
+  it('should parse models, fields, block attributes and enums', () => {
+    const schema = parsePrismaSchema(BASE);
+
+    expect(schema.models.map((model) => model.name)).toEqual(['User', 'Task']);
+    expect(schema.models[0].fields.find((field) => field.name === 'website')).toEqual({
+      name: 'website',
+      type: 'String',
+      list: false,
+      optional: true,
+      attributes: '@default("https://example.com")',
+    });
+    expect(schema.models[0].fields.find((field) => field.name === 'tasks')).toMatchObject({ type: 'Task', list: true });
+    expect(schema.models[1].attributes).toEqual(['@@index([userId])']);
+    expect(schema.enums).toEqual([{ name: 'Role', values: ['USER', 'ADMIN'] }]);
+  });
+});
+
+describe('diffPrismaSchemas', () => {
+  it('should find no changes in an identical or reformatted schema', () => {
+    expect(diffPrismaSchemas(BASE, BASE)).toEqual({ severity: null, changes: [] });
+    expect(diffPrismaSchemas(BASE, BASE.replace(/ +/g, ' ')).changes).toEqual([]);
+  });
+
+  it('should classify new models, optional or defaulted fields and enum values as additive', () => {
+    const after = edit(
+      ['  createdAt DateTime', '  bio       String?\n  active    Boolean  @default(true)\n  updatedAt DateTime @updatedAt\n  createdAt DateTime'],
+      ['  ADMIN\n', '  ADMIN\n  GUEST\n'],
+      ['  title  String\n', '  title  String?\n']
+    ) + '\nmodel Tag {\n  id String @id\n}\n';
+
+    const diff = diffPrismaSchemas(BASE, after);
+
+    expect(diff.severity).toBe('additive');
+    expect(requiresApproval(diff)).toBe(false);
+    expect(summarize(after)).toEqual([
+      ['field_added', 'additive', 'User.bio'],
+      ['field_added', 'additive', 'User.active'],
+      ['field_added', 'additive', 'User.updatedAt'],
+      ['field_optional', 'additive', 'Task.title'],
+      ['model_added', 'additive', 'Tag'],
+      ['enum_value_added', 'additive', 'Role'],
+    ]);
+  });
+
+  it('should classify changes existing rows can make fail as risky', () => {
+    const after = edit(
+      ['  notes  String?\n', '  notes  String?\n  status String\n'],
+      ['  name      String?', '  name      String'],
+      ['  title  String\n', '  title  String @unique\n'],
+      ['  @@index([userId])', '  @@index([userId])\n  @@unique([userId, notes])']
+    );
+
+    const diff = diffPrismaSchemas(BASE, after);
+
+    expect(diff.severity).toBe('risky');
+    expect(requiresApproval(diff)).toBe(false);
+    expect(summarize(after)).toEqual([
+      ['field_required', 'risky', 'User.name'],
+      ['unique_added', 'risky', 'Task.title'],
+      ['field_added', 'risky', 'Task.status'],
+      ['unique_added', 'risky', 'Task'],
+    ]);
+  });
+
+  it('should classify dropped models and fields, type changes and removed enum values as destructive', () => {
+    const after = edit(
+      ['  notes  String?\n', ''],
+      ['  email     String   @unique', '  email     Int      @unique'],
+      ['  ADMIN\n', ''],
+      [/model Task \{[^}]*\}/, ''],
+      ['  tasks     Task[]\n', '']
+    );
+
+    const diff = diffPrismaSchemas(BASE, after);
+
+    expect(diff.severity).toBe('destructive');
+    expect(requiresApproval(diff)).toBe(true);
+    expect(summarize(after)).toEqual([
+      ['field_type_changed', 'destructive', 'User.email'],
+      ['field_removed', 'risky', 'User.tasks'],
+      ['model_removed', 'destructive', 'Task'],
+      ['enum_value_removed', 'destructive', 'Role'],
+    ]);
+    expect(diff.changes[0].description).toBe('Field User.email changed from String to Int - existing values are converted or lost');
+  });
+
+  it('should treat renamed tables and columns as destructive', () => {
+    const after = edit(
+      ['  title  String\n', '  title  String @map("name")\n'],
+      ['  @@index([userId])', '  @@index([userId])\n  @@map("todos")']
+    );
+
+    expect(summarize(after)).toEqual([
+      ['model_renamed', 'destructive', 'Task'],
+      ['field_renamed', 'destructive', 'Task.title'],
+    ]);
+  });
+
+  it('should treat everything as additive when there was no schema before', () => {
+    const diff = diffPrismaSchemas('', BASE);
+
+    expect(diff.severity).toBe('additive');
+    expect(diff.changes.map((change) => change.kind)).toEqual(['model_added', 'model_added', 'enum_added']);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Tests for SnapshotManager (SQLite database snapshots)
+ */
+
+jest.mock('@/lib/db', () => ({ prisma: {} }));
+
+import { promises as fs, readFileSync } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { SnapshotManager } from '@/lib/code-modification/snapshot-manager';
+import { createFakePrisma } from '../helpers/fake-prisma';
+
+/**
+ * Stand-in for a Prisma client connected to `databasePath`: `VACUUM INTO`
+ * copies the file. Records what the database file held at each (dis)connect.
+ */
+function createDatabasePrisma(databasePath: string) {
+  const events: string[] = [];
+  const contentAt = (event: string) => events.push(`${event}: ${readFileSync(databasePath, 'utf-8')}`);
+
+  const { prisma } = createFakePrisma(
+    {},
+    {
+      $executeRawUnsafe: jest.fn(async (sql: string) => {
+        const target = sql.match(/^VACUUM INTO '(.*)'$/)?.[1];
+        if (!target) {
+          throw new Error(`Unexpected SQL: ${sql}`);
+        }
+        await fs.copyFile(databasePath, target.replace(/''/g, "'"));
+        return 0;
+      }),
+      $disconnect: jest.fn(async () => contentAt('disconnect')),
+      $connect: jest.fn(async () => contentAt('connect')),
+    }
+  );
+
+  return { prisma, events };
+}
+
+describe('SnapshotManager', () => {
+  let tmpDir: string;
+  let databasePath: string;
+  let fake: ReturnType<typeof createDatabasePrisma>;
+
+  const createManager = (options: { databaseUrl?: string; retention?: number } = {}) =>
+    new SnapshotManager({ projectRoot: tmpDir, databaseUrl: 'file:./dev.db', prisma: fake.prisma, ...options });
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapshot-manager-test-'));
+    databasePath = path.join(tmpDir, 'prisma', 'dev.db');
+    await fs.mkdir(path.dirname(databasePath), { recursive: true });
+    await fs.writeFile(databasePath, 'version 1');
+    fake = createDatabasePrisma(databasePath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should resolve relative database paths from the prisma directory, then the project root', async () => {
+    expect(await createManager().getDatabasePath()).toBe(databasePath);
+    expect(await createManager({ databaseUrl: 'file:/var/db/app.db?connection_limit=1' }).getDatabasePath()).toBe('/var/db/app.db');
+    expect(await createManager({ databaseUrl: 'postgresql://localhost/app' }).getDatabasePath()).toBeNull();
+
+    await fs.writeFile(path.join(tmpDir, 'root.db'), '');
+    expect(await createManager({ databaseUrl: 'file:./root.db' }).getDatabasePath()).toBe(path.join(tmpDir, 'root.db'));
+  });
+
+  it('should snapshot the database and list snapshots newest first', async () => {
+    const manager = createManager();
+
+    const first = await manager.create('add task model');
+    await fs.writeFile(databasePath, 'version 2');
+    const second = await manager.create('ai_generated_2');
+
+    expect(first).toMatchObject({ label: 'add_task_model', size: 'version 1'.length });
+    expect(fake.prisma.$executeRawUnsafe).toHaveBeenCalledWith(`VACUUM INTO '${tmpDir}/prisma/snapshots/${first?.id}.db'`);
+    expect(first?.id).toMatch(/^\d{8}T\d{9}Z_add_task_model$/);
+    expect(Math.abs((first?.createdAt.getTime() || 0) - Date.now())).toBeLessThan(60000);
+    expect((await manager.list()).map((snapshot) => snapshot.id)).toEqual([second?.id, first?.id]);
+    expect(await manager.get('../dev')).toBeNull();
+  });
+
+  it('should keep only the newest snapshots', async () => {
+    const manager = createManager({ retention: 2 });
+
+    for (const label of ['one', 'two', 'three']) {
+      await manager.create(label);
+      await new Promise((resolve) => setTimeout(resolve, 2)); // Distinct timestamps
+    }
+
+    expect((await manager.list()).map((snapshot) => snapshot.label)).toEqual(['three', 'two']);
+  });
+
+  it('should restore a snapshot after backing up the current database', async () => {
+    const manager = createManager({ retention: 1 });
+    const snapshot = await manager.create('before');
+    await fs.writeFile(databasePath, 'version 2');
+    await fs.writeFile(`${databasePath}-journal`, 'stale');
+
+    const result = await manager.restore(snapshot!.id, { backup: true });
+
+    expect(await fs.readFile(databasePath, 'utf-8')).toBe('version 1');
+    await expect(fs.access(`${databasePath}-journal`)).rejects.toThrow();
+    await expect(fs.access(`${databasePath}.restoring`)).rejects.toThrow();
+    // The connections are closed while the file is swapped, and reopened on the restored one
+    expect(fake.events).toEqual(['disconnect: version 2', 'connect: version 1']);
+    expect(result?.restored.id).toBe(snapshot?.id);
+    expect(result?.backup?.label).toBe('pre_restore');
+    expect((await manager.list()).map((s) => s.label)).toEqual(['pre_restore']);
+    expect(await manager.restore('20261019T180000000Z_missing')).toBeNull();
+  });
+
+  it('should not snapshot databases that are not SQLite files', async () => {
+    expect(await createManager({ databaseUrl: 'postgresql://localhost/app' }).create('x')).toBeNull();
+    expect(await createManager({ databaseUrl: 'file:./missing.db' }).create('x')).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for impacted-test selection (test files importing the changed files)
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { TypeChecker } from '@/lib/code-modification/type-checker';
+import { selectImpactedTests, isTestFile } from '@/lib/code-modification/test-impact';
+
+describe('selectImpactedTests', () => {
+  let tmpDir: string;
+  let typeChecker: TypeChecker;
+
+  const write = async (file: string, content: string) => {
+    await fs.mkdir(path.dirname(path.join(tmpDir, file)), { recursive: true });
+    await fs.writeFile(path.join(tmpDir, file), content);
+  };
+
+  const select = (files: string[]) => selectImpactedTests(files, { projectRoot: tmpDir, typeChecker });
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'test-impact-test-'));
+
+    await write(
+      'tsconfig.json',
+      JSON.stringify({
+        compilerOptions: { strict: true, noEmit: true, lib: ['es2020'], types: [], moduleResolution: 'bundler', module: 'esnext', paths: { '@/*': ['./src/*'] } },
+        include: ['**/*.ts'],
+      })
+    );
+    await write('src/lib/math.ts', 'export const add = (a: number, b: number) => a + b;\n');
+    await write('src/lib/total.ts', "import { add } from './math';\n\nexport const total = add(1, 2);\n");
+    await write('src/lib/other.ts', 'export const other = 1;\n');
+    await write('tests/unit/total.test.ts', "import { total } from '@/lib/total';\n\nexport const check = total;\n");
+    await write('tests/unit/math.test.ts', "import { add } from '../../src/lib/math';\n\nexport const check = add;\n");
+    await write('tests/integration/other.test.ts', "import { other } from '@/lib/other';\n\nexport const check = other;\n");
+    await write('tests/fixtures/sample.ts', "import { other } from '@/lib/other';\n\nexport const sample = other;\n");
+
+    typeChecker = new TypeChecker(tmpDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should select the tests importing a changed file directly or through other files', async () => {
+    expect(await select(['src/lib/math.ts'])).toEqual({
+      all: false,
+      files: ['tests/unit/math.test.ts', 'tests/unit/total.test.ts'],
+    });
+    expect((await select(['src/lib/other.ts'])).files).toEqual(['tests/integration/other.test.ts']);
+  });
+
+  it('should select changed test files themselves and nothing for non-code files', async () => {
+    expect((await select(['tests/unit/math.test.ts', 'README.md'])).files).toEqual(['tests/unit/math.test.ts']);
+    expect(await select(['src/app/globals.css'])).toEqual({ all: false, files: [] });
+  });
+
+  it('should select the tests still importing a deleted file', async () => {
+    await fs.unlink(path.join(tmpDir, 'src/lib/other.ts'));
+
+    expect((await select(['src/lib/other.ts'])).files).toEqual(['tests/integration/other.test.ts']);
+  });
+
+  it('should select the full suite for config, fixture and out-of-project changes', async () => {
+    await write('scripts/seed.js', 'module.exports = {};\n');
+
+    expect(await select(['src/lib/math.ts', 'package.json'])).toMatchObject({ all: true, reason: 'package.json affects every test' });
+    expect((await select(['prisma/schema.prisma'])).all).toBe(true);
+    expect((await select(['tests/fixtures/data.txt'])).all).toBe(true);
+    expect(await select(['scripts/seed.js'])).toMatchObject({ all: true, files: [] });
+  });
+
+  it('should recognise the test files the test runner runs', () => {
+    expect(isTestFile('tests/unit/math.test.ts')).toBe(true);
+    expect(isTestFile('tests/integration/api.test.tsx')).toBe(true);
+    expect(isTestFile('tests/fixtures/sample.ts')).toBe(false);
+    expect(isTestFile('tests/e2e/home.spec.ts')).toBe(false);
+  });
+});
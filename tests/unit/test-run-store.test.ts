@@ -0,0 +1,151 @@
+/**
+ * Tests for TestRunStore (TestRun, TestOutcome and TestQuarantine tables)
+ */
+
+jest.mock('@/lib/db', () => ({ prisma: {} }));
+
+import { PrismaClient } from '@prisma/client';
+import { TestRunStore } from '@/lib/code-modification/test-run-store';
+import { TestResult, TestCaseResult } from '@/lib/code-modification/test-runner';
+import { createFakePrisma, Row } from '../helpers/fake-prisma';
+
+/**
+ * Fake client with the TestRun, TestOutcome and TestQuarantine tables
+ */
+function createTestRunPrisma(): { prisma: PrismaClient; outcomes: Row[] } {
+  const { prisma, tables } = createFakePrisma({
+    testRun: { idPrefix: 'run' },
+    testOutcome: { idPrefix: 'outcome' },
+    testQuarantine: { idPrefix: 'q', defaults: { reason: null, quarantinedBy: null } },
+  });
+  return { prisma, outcomes: tables.testOutcome };
+}
+
+const result: TestResult = {
+  success: false,
+  testsPassed: 1,
+  testsFailed: 1,
+  totalTests: 2,
+  output: '',
+  duration: 1234.5,
+  tests: [
+    { type: 'unit', file: 'tests/unit/a.test.ts', suite: 'A', name: 'works', fullName: 'A works', status: 'passed', duration: 3 },
+    {
+      type: 'unit',
+      file: 'tests/unit/a.test.ts',
+      suite: 'A',
+      name: 'breaks',
+      fullName: 'A breaks',
+      status: 'failed',
+      duration: 5,
+      failureMessage: 'Expected 1, received 2',
+    },
+    { type: 'unit', file: 'tests/unit/a.test.ts', suite: 'A', name: 'later', fullName: 'A later', status: 'skipped', duration: null },
+  ],
+  stages: [{ name: 'lint', policy: 'block', status: 'passed', summary: '0 errors, 0 warnings in 1 file', duration: 10 }],
+};
+
+describe('TestRunStore', () => {
+  it('should store a run with its tests and stages', async () => {
+    const { prisma } = createTestRunPrisma();
+    const store = new TestRunStore(prisma);
+
+    const run = await store.record({ jobId: 'job_1', commitHash: 'abc1234', trigger: 'job', result });
+
+    expect(run).toMatchObject({
+      jobId: 'job_1',
+      commitHash: 'abc1234',
+      trigger: 'job',
+      success: false,
+      passed: 1,
+      failed: 1,
+      skipped: 1,
+      total: 2,
+      duration: 1235,
+    });
+    expect(run.tests[1]).toMatchObject({ fullName: 'A breaks', failureMessage: 'Expected 1, received 2' });
+    expect(run.stages[0].name).toBe('lint');
+    expect(await store.getRun(run.id)).toEqual(run);
+    expect(await store.getRun('missing')).toBeNull();
+  });
+
+  it('should list runs newest first without their tests', async () => {
+    const { prisma } = createTestRunPrisma();
+    const store = new TestRunStore(prisma);
+    await store.record({ jobId: 'job_1', trigger: 'job', result });
+    await store.record({ jobId: 'job_1', trigger: 'repair', result: { ...result, success: true, tests: undefined, stages: undefined } });
+    await store.record({ trigger: 'revert', result });
+
+    const runs = await store.listRuns({ jobId: 'job_1' });
+
+    expect(runs.map((run) => run.trigger)).toEqual(['repair', 'job']);
+    expect(runs[0]).not.toHaveProperty('tests');
+    expect(runs[0]).toMatchObject({ success: true, skipped: 0, commitHash: null });
+    expect(await store.listRuns({ limit: 1 })).toHaveLength(1);
+  });
+
+  it('should return the line coverage of the latest passing run at a commit that collected it', async () => {
+    const { prisma } = createTestRunPrisma();
+    const store = new TestRunStore(prisma);
+    const coverage = { lines: 50, statements: 50, functions: 50, branches: 50, meetsThreshold: false };
+
+    expect(await store.getCoverageAt('abc1234')).toBeNull();
+
+    await store.record({ commitHash: 'abc1234', trigger: 'job', result: { ...result, success: true, coverage: { ...coverage, files: { 'src/lib/a.ts': { covered: 1, total: 2 } } } } });
+    await store.record({ commitHash: 'abc1234', trigger: 'job', result: { ...result, success: true } });
+    await store.record({ commitHash: 'abc1234', trigger: 'job', result: { ...result, coverage: { ...coverage, files: { 'src/lib/a.ts': { covered: 0, total: 2 } } } } });
+    await store.record({ commitHash: 'def5678', trigger: 'job', result: { ...result, success: true, coverage: { ...coverage, files: { 'src/lib/a.ts': { covered: 2, total: 2 } } } } });
+
+    expect(await store.getCoverageAt('abc1234')).toEqual({ 'src/lib/a.ts': { covered: 1, total: 2 } });
+    expect(await store.getCoverageAt('0000000')).toBeNull();
+  });
+
+  it('should score tests by how often they were flaky in recent runs', async () => {
+    const { prisma, outcomes } = createTestRunPrisma();
+    const store = new TestRunStore(prisma);
+    const test = (name: string, status: TestCaseResult['status']) => ({
+      type: 'unit' as const,
+      file: 'tests/unit/a.test.ts',
+      suite: 'A',
+      name,
+      fullName: `A ${name}`,
+      status,
+      duration: 1,
+      ...(status !== 'passed' && { attempts: 3 }),
+    });
+    const run = (...tests: TestCaseResult[]) => store.record({ trigger: 'job', result: { ...result, tests } });
+    await run(test('works', 'passed'), test('sometimes', 'flaky'), test('breaks', 'failed'));
+    await run(test('works', 'passed'), test('sometimes', 'passed'), test('breaks', 'failed'));
+    await run(test('works', 'passed'), test('sometimes', 'flaky'), test('breaks', 'passed'));
+    await run(test('works', 'passed'), test('sometimes', 'passed'), test('later', 'skipped'));
+    outcomes.push({ type: 'unit', file: 'tests/unit/a.test.ts', fullName: 'A works', status: 'failed', createdAt: new Date(0) });
+    await store.quarantine({ file: 'tests/unit/a.test.ts', fullName: 'A breaks', reason: 'Depends on the network' });
+
+    const tests = await store.getFlakiness({ days: 30 });
+
+    expect(tests.map((t) => [t.fullName, t.runs, t.passed, t.failed, t.flaky, t.score])).toEqual([
+      ['A sometimes', 4, 2, 0, 2, 0.5],
+      ['A breaks', 3, 1, 2, 0, 0],
+    ]);
+    expect(tests[1].quarantine).toMatchObject({ reason: 'Depends on the network' });
+    expect(outcomes.find((outcome) => outcome.fullName === 'A sometimes')).toMatchObject({ status: 'flaky', attempts: 3 });
+  });
+
+  it('should quarantine tests and lift their quarantine', async () => {
+    const { prisma } = createTestRunPrisma();
+    const store = new TestRunStore(prisma);
+
+    await store.quarantine({ file: 'tests/unit/a.test.ts', fullName: 'A breaks', quarantinedBy: 'admin_1' });
+    const updated = await store.quarantine({ file: 'tests/unit/a.test.ts', fullName: 'A breaks', reason: 'Times out' });
+    await store.quarantine({ file: null, fullName: 'e2e › Login works' });
+
+    expect(updated).toMatchObject({ file: 'tests/unit/a.test.ts', reason: 'Times out', quarantinedBy: null });
+    expect((await store.listQuarantined()).map((test) => [test.file, test.fullName])).toEqual([
+      [null, 'e2e › Login works'],
+      ['tests/unit/a.test.ts', 'A breaks'],
+    ]);
+    expect(await store.unquarantine('tests/unit/a.test.ts', 'A breaks')).toBe(true);
+    expect(await store.unquarantine('tests/unit/a.test.ts', 'A breaks')).toBe(false);
+    expect(await store.listQuarantined()).toHaveLength(1);
+  });
+});
@@ -2,7 +2,31 @@
  * Tests for the Test Runner service
  */
 
-import { TestRunner } from '@/lib/code-modification/test-runner';
+const mockLintFiles = jest.fn();
+const mockExecProcessTree = jest.fn();
+
+jest.mock('eslint', () => ({
+  ESLint: jest.fn().mockImplementation(() => ({ lintFiles: mockLintFiles })),
+}));
+
+jest.mock('@/lib/code-modification/process-tree', () => ({
+  ...jest.requireActual('@/lib/code-modification/process-tree'),
+  execProcessTree: (...args: unknown[]) => mockExecProcessTree(...args),
+}));
+
+import { promises as fs, existsSync } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  TestRunner,
+  TestResult,
+  collectJestFailures,
+  collectJestTests,
+  collectPlaywrightTests,
+  formatStage,
+  testKey,
+  toJUnitXml,
+} from '@/lib/code-modification/test-runner';
 
 describe('TestRunner', () => {
   describe('constructor', () => {
@@ -59,4 +83,548 @@ describe('TestRunner', () => {
     //   expect(result).toHaveProperty('totalTests');
     // }, 120000);
   });
+
+  describe('collectJestFailures', () => {
+    it('should list failing tests by full name', () => {
+      const failures = collectJestFailures({
+        testResults: [
+          {
+            name: '/repo/tests/unit/page.test.ts',
+            assertionResults: [
+              { fullName: 'Page renders the title', status: 'failed' },
+              { fullName: 'Page renders the footer', status: 'passed' },
+            ],
+          },
+          { name: '/repo/tests/unit/empty.test.ts' },
+        ],
+      });
+
+      expect(failures).toEqual(['Page renders the title']);
+    });
+  });
+
+  describe('collectJestTests', () => {
+    it('should list every test with its suite, duration and failure split from the stack', () => {
+      const tests = collectJestTests(
+        {
+          testResults: [
+            {
+              name: '/repo/tests/unit/page.test.ts',
+              status: 'failed',
+              assertionResults: [
+                {
+                  ancestorTitles: ['Page', 'header'],
+                  title: 'renders the title',
+                  fullName: 'Page header renders the title',
+                  status: 'failed',
+                  duration: 12,
+                  failureMessages: [
+                    'Error: \u001b[2mexpect(\u001b[22mreceived\u001b[2m).toBe(\u001b[22mexpected\u001b[2m)\u001b[22m\n\nExpected: 1\nReceived: 2\n    at Object.<anonymous> (/repo/tests/unit/page.test.ts:10:5)\n    at processTicksAndRejections (node:internal)',
+                  ],
+                },
+                { ancestorTitles: ['Page'], title: 'renders the footer', fullName: 'Page renders the footer', status: 'passed', duration: 3 },
+                { ancestorTitles: [], title: 'later', fullName: 'later', status: 'pending', duration: null },
+              ],
+            },
+            { name: '/repo/tests/unit/broken.test.ts', status: 'failed', message: 'SyntaxError: Unexpected token (3:4)' },
+          ],
+        },
+        'unit',
+        '/repo'
+      );
+
+      expect(tests.map((test) => [test.file, test.suite, test.name, test.status, test.duration])).toEqual([
+        ['tests/unit/page.test.ts', 'Page › header', 'renders the title', 'failed', 12],
+        ['tests/unit/page.test.ts', 'Page', 'renders the footer', 'passed', 3],
+        ['tests/unit/page.test.ts', '', 'later', 'skipped', null],
+        ['tests/unit/broken.test.ts', '', 'Test suite failed to run', 'failed', null],
+      ]);
+      expect(tests[0].failureMessage).toBe('Error: expect(received).toBe(expected)\n\nExpected: 1\nReceived: 2');
+      expect(tests[0].stack).toBe('at Object.<anonymous> (/repo/tests/unit/page.test.ts:10:5)\nat processTicksAndRejections (node:internal)');
+      expect(tests[1].failureMessage).toBeUndefined();
+      expect(tests[3].failureMessage).toBe('SyntaxError: Unexpected token (3:4)');
+    });
+  });
+
+  describe('collectPlaywrightTests', () => {
+    it('should walk nested describe suites and report each project run', () => {
+      const tests = collectPlaywrightTests({
+        suites: [
+          {
+            title: 'login.spec.ts',
+            file: 'login.spec.ts',
+            specs: [
+              {
+                title: 'shows the form',
+                file: 'login.spec.ts',
+                tests: [{ projectName: 'chromium', status: 'expected', results: [{ duration: 100 }] }],
+              },
+            ],
+            suites: [
+              {
+                title: 'Login',
+                file: 'login.spec.ts',
+                suites: [
+                  {
+                    title: 'with a wrong password',
+                    file: 'login.spec.ts',
+                    specs: [
+                      {
+                        title: 'shows an error',
+                        file: 'login.spec.ts',
+                        tests: [
+                          {
+                            projectName: 'chromium',
+                            status: 'unexpected',
+                            results: [
+                              { duration: 50, error: { message: 'first try', stack: 'Error: first try\n    at a.ts:1:1' } },
+                              {
+                                duration: 70,
+                                error: {
+                                  message: '\u001b[31mTimed out\u001b[39m waiting for locator',
+                                  stack: 'Error: Timed out waiting for locator\n    at login.spec.ts:12:3',
+                                },
+                              },
+                            ],
+                          },
+                          { projectName: 'firefox', status: 'flaky', results: [{ duration: 10 }, { duration: 20 }] },
+                          { projectName: 'webkit', status: 'skipped', results: [] },
+                        ],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(tests.map((test) => [test.fullName, test.status, test.duration])).toEqual([
+        ['chromium › shows the form', 'passed', 100],
+        ['chromium › Login › with a wrong password › shows an error', 'failed', 120],
+        ['firefox › Login › with a wrong password › shows an error', 'flaky', 30],
+        ['webkit › Login › with a wrong password › shows an error', 'skipped', null],
+      ]);
+      expect(tests[1]).toMatchObject({
+        type: 'e2e',
+        file: 'login.spec.ts',
+        suite: 'chromium › Login › with a wrong password',
+        failureMessage: 'Timed out waiting for locator',
+        stack: 'at login.spec.ts:12:3',
+      });
+    });
+  });
+
+  describe('toJUnitXml', () => {
+    it('should group tests by file and escape messages', () => {
+      const result: TestResult = {
+        success: false,
+        testsPassed: 1,
+        testsFailed: 1,
+        totalTests: 2,
+        output: '',
+        duration: 1500,
+        tests: [
+          { type: 'unit', file: 'tests/unit/a.test.ts', suite: 'A', name: 'works', fullName: 'A works', status: 'passed', duration: 12 },
+          {
+            type: 'unit',
+            file: 'tests/unit/a.test.ts',
+            suite: 'A',
+            name: 'compares <tags> & "quotes"',
+            fullName: 'A compares',
+            status: 'failed',
+            duration: 250,
+            failureMessage: 'Expected <div>\nReceived <span>',
+            stack: 'at a.test.ts:3:1',
+          },
+          { type: 'e2e', file: null, suite: '', name: 'later', fullName: 'later', status: 'skipped', duration: null },
+        ],
+      };
+
+      expect(toJUnitXml(result)).toBe(
+        [
+          '<?xml version="1.0" encoding="UTF-8"?>',
+          '<testsuites name="DeboraAI" tests="3" failures="1" skipped="1" time="1.500">',
+          '  <testsuite name="tests/unit/a.test.ts" tests="2" failures="1" skipped="0" time="0.262">',
+          '    <testcase classname="A" name="works" file="tests/unit/a.test.ts" time="0.012"/>',
+          '    <testcase classname="A" name="compares &lt;tags&gt; &amp; &quot;quotes&quot;" file="tests/unit/a.test.ts" time="0.250">',
+          '      <failure message="Expected &lt;div&gt;">Expected &lt;div&gt;\nReceived &lt;span&gt;\nat a.test.ts:3:1</failure>',
+          '    </testcase>',
+          '  </testsuite>',
+          '  <testsuite name="e2e" tests="1" failures="0" skipped="1" time="0.000">',
+          '    <testcase classname="e2e" name="later" time="0.000">',
+          '      <skipped/>',
+          '    </testcase>',
+          '  </testsuite>',
+          '</testsuites>',
+          '',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('lint and build gates', () => {
+    let projectRoot: string;
+
+    const passingUnitTests = {
+      success: true,
+      testsPassed: 3,
+      testsFailed: 0,
+      totalTests: 3,
+      output: '',
+      duration: 10,
+    };
+
+    /**
+     * Stub `npm test`: write the report named by --outputFile (when given),
+     * then exit like Jest - with `failure` when tests failed
+     */
+    const stubJest = (reports: Record<string, string>, failure?: Error) =>
+      mockExecProcessTree.mockImplementation(async (command: string) => {
+        const outputName = command.match(/--outputFile=(\S+)/)?.[1];
+        if (outputName && reports[outputName]) {
+          await fs.writeFile(path.join(projectRoot, outputName), reports[outputName]);
+        }
+        if (failure) {
+          throw failure;
+        }
+        return { stdout: '', stderr: '' };
+      });
+
+    beforeEach(async () => {
+      jest.clearAllMocks();
+      projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'test-runner-test-'));
+      await fs.mkdir(path.join(projectRoot, 'src'));
+      await fs.mkdir(path.join(projectRoot, 'node_modules'));
+      await fs.mkdir(path.join(projectRoot, '.git'));
+      await fs.writeFile(path.join(projectRoot, 'package.json'), '{}');
+      await fs.writeFile(path.join(projectRoot, 'src/page.tsx'), 'export default function Page() {}');
+    });
+
+    afterEach(async () => {
+      await fs.rm(projectRoot, { recursive: true, force: true });
+    });
+
+    it('should lint only the changed code files that still exist', async () => {
+      mockLintFiles.mockResolvedValue([
+        {
+          filePath: path.join(projectRoot, 'src/page.tsx'),
+          messages: [
+            { line: 1, column: 10, ruleId: '@typescript-eslint/no-explicit-any', severity: 2, message: 'Unexpected any.' },
+            { line: 2, column: 1, ruleId: 'no-console', severity: 1, message: 'Unexpected console statement.' },
+          ],
+        },
+      ]);
+      const runner = new TestRunner({
+        projectRoot,
+        lint: 'block',
+        lintFiles: ['src/page.tsx', 'README.md', 'src/deleted.ts'],
+      });
+
+      const stage = await runner.runLint();
+
+      expect(mockLintFiles).toHaveBeenCalledWith(['src/page.tsx']);
+      expect(stage).toMatchObject({
+        name: 'lint',
+        policy: 'block',
+        status: 'failed',
+        summary: '1 error, 1 warning in 1 file',
+      });
+      expect(stage.messages?.[0]).toEqual({
+        file: 'src/page.tsx',
+        line: 1,
+        column: 10,
+        ruleId: '@typescript-eslint/no-explicit-any',
+        severity: 'error',
+        message: 'Unexpected any.',
+      });
+      expect(formatStage(stage)).toBe(
+        'lint: 1 error, 1 warning in 1 file\nsrc/page.tsx(1,10): Unexpected any. [@typescript-eslint/no-explicit-any]'
+      );
+    });
+
+    it('should skip lint when no code files changed', async () => {
+      const stage = await new TestRunner({ projectRoot, lint: 'block', lintFiles: ['README.md'] }).runLint();
+
+      expect(stage.status).toBe('skipped');
+      expect(mockLintFiles).not.toHaveBeenCalled();
+    });
+
+    it('should build in a temporary copy with node_modules linked and remove it afterwards', async () => {
+      let buildDir = '';
+      mockExecProcessTree.mockImplementation(async (command: string, options: { cwd: string }) => {
+        buildDir = options.cwd;
+        expect(command).toBe('npx next build --webpack');
+        expect(buildDir).not.toBe(projectRoot);
+        expect(existsSync(path.join(buildDir, 'src/page.tsx'))).toBe(true);
+        expect(existsSync(path.join(buildDir, '.git'))).toBe(false);
+        expect(await fs.realpath(path.join(buildDir, 'node_modules'))).toBe(
+          await fs.realpath(path.join(projectRoot, 'node_modules'))
+        );
+        return { stdout: 'Compiled successfully', stderr: '' };
+      });
+
+      const stage = await new TestRunner({ projectRoot, build: 'block' }).runBuild();
+
+      expect(stage).toMatchObject({ name: 'build', status: 'passed' });
+      expect(existsSync(buildDir)).toBe(false);
+      expect(existsSync(path.join(projectRoot, '.next'))).toBe(false);
+    });
+
+    it('should keep the output of a failed build', async () => {
+      mockExecProcessTree.mockRejectedValue(
+        Object.assign(new Error('Command failed: npx next build --webpack'), {
+          stdout: 'Creating an optimized production build ...',
+          stderr: 'Type error: Page "src/app/page.tsx" has an invalid "default" export',
+        })
+      );
+
+      const stage = await new TestRunner({ projectRoot, build: 'warn' }).runBuild();
+
+      expect(stage).toMatchObject({
+        status: 'failed',
+        policy: 'warn',
+        summary: 'Build failed: Command failed: npx next build --webpack',
+      });
+      expect(stage.output).toContain('invalid "default" export');
+    });
+
+    it('should fail the run on a blocking lint failure and skip the build', async () => {
+      mockLintFiles.mockResolvedValue([
+        { filePath: path.join(projectRoot, 'src/page.tsx'), messages: [{ line: 1, column: 1, ruleId: 'no-undef', severity: 2, message: "'x' is not defined." }] },
+      ]);
+      const runner = new TestRunner({
+        projectRoot,
+        runIntegration: false,
+        collectCoverage: false,
+        lint: 'block',
+        lintFiles: ['src/page.tsx'],
+        build: 'block',
+      });
+      jest.spyOn(runner, 'runUnitTests').mockResolvedValue(passingUnitTests);
+
+      const result = await runner.runAll();
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toContain("src/page.tsx(1,1): 'x' is not defined. [no-undef]");
+      expect(result.stages?.map((stage) => [stage.name, stage.status])).toEqual([
+        ['lint', 'failed'],
+        ['build', 'skipped'],
+      ]);
+      expect(mockExecProcessTree).not.toHaveBeenCalled();
+    });
+
+    it('should only report failing gates whose policy is warn', async () => {
+      mockLintFiles.mockResolvedValue([
+        { filePath: path.join(projectRoot, 'src/page.tsx'), messages: [{ line: 1, column: 1, ruleId: 'no-undef', severity: 2, message: "'x' is not defined." }] },
+      ]);
+      mockExecProcessTree.mockRejectedValue(Object.assign(new Error('Command failed'), { stdout: '', stderr: 'Build error' }));
+      const runner = new TestRunner({
+        projectRoot,
+        runIntegration: false,
+        collectCoverage: false,
+        lint: 'warn',
+        lintFiles: ['src/page.tsx'],
+        build: 'warn',
+      });
+      jest.spyOn(runner, 'runUnitTests').mockResolvedValue(passingUnitTests);
+
+      const result = await runner.runAll();
+
+      expect(result.success).toBe(true);
+      expect(result.errors).toBeUndefined();
+      expect(result.stages?.map((stage) => [stage.name, stage.status])).toEqual([
+        ['lint', 'failed'],
+        ['build', 'failed'],
+      ]);
+    });
+
+    it('should run only the selected test files and skip suites without any', async () => {
+      stubJest({
+        'test-results-unit.json': JSON.stringify({ success: true, numPassedTests: 2, numFailedTests: 0, numTotalTests: 2, testResults: [] }),
+      });
+      const runner = new TestRunner({
+        projectRoot,
+        collectCoverage: false,
+        lint: 'off',
+        build: 'off',
+        testFiles: ['tests/unit/math.test.ts', "tests/unit/it's.test.ts"],
+      });
+
+      const result = await runner.runAll();
+
+      expect(result).toMatchObject({ success: true, testsPassed: 2, totalTests: 2 });
+      expect(mockExecProcessTree).toHaveBeenCalledTimes(1);
+      expect(mockExecProcessTree.mock.calls[0][0]).toBe(
+        "npm test -- --runTestsByPath 'tests/unit/math.test.ts' 'tests/unit/it'\\''s.test.ts' --json --outputFile=test-results-unit.json"
+      );
+    });
+
+    it('should re-run failed tests and classify them as flaky or failed', async () => {
+      const report = (statuses: Record<string, string>) =>
+        JSON.stringify({
+          success: !Object.values(statuses).includes('failed'),
+          numPassedTests: Object.values(statuses).filter((status) => status === 'passed').length,
+          numFailedTests: Object.values(statuses).filter((status) => status === 'failed').length,
+          numTotalTests: Object.keys(statuses).length,
+          testResults: [
+            {
+              name: path.join(projectRoot, 'tests/unit/page.test.ts'),
+              assertionResults: Object.entries(statuses).map(([title, status]) => ({
+                ancestorTitles: ['Page'],
+                title,
+                fullName: `Page ${title}`,
+                status,
+                failureMessages: status === 'failed' ? ['Error: Timed out'] : [],
+              })),
+            },
+          ],
+        });
+      stubJest(
+        {
+          'test-results-unit.json': report({ renders: 'passed', loads: 'failed', 'saves (draft)': 'failed' }),
+          'test-results-unit-retry.json': report({ loads: 'passed', 'saves (draft)': 'failed' }),
+        },
+        Object.assign(new Error('Command failed'), { stdout: '', stderr: 'Tests failed' })
+      );
+      const runner = new TestRunner({ projectRoot, runIntegration: false, collectCoverage: false, lint: 'off', build: 'off', retries: 2 });
+
+      const result = await runner.runAll();
+
+      expect(result).toMatchObject({
+        success: false,
+        testsPassed: 2,
+        testsFailed: 1,
+        failedTests: ['Page saves (draft)'],
+        flakyTests: ['Page loads'],
+      });
+      expect(result.tests?.map((test) => [test.name, test.status, test.attempts])).toEqual([
+        ['renders', 'passed', undefined],
+        ['loads', 'flaky', 2],
+        ['saves (draft)', 'failed', 3],
+      ]);
+      expect(mockExecProcessTree).toHaveBeenCalledTimes(3);
+      expect(mockExecProcessTree.mock.calls[1][0]).toBe(
+        "npm test -- --runTestsByPath 'tests/unit/page.test.ts' --testNamePattern '^(Page loads|Page saves \\(draft\\))$' --json --outputFile=test-results-unit-retry.json"
+      );
+      expect(mockExecProcessTree.mock.calls[2][0]).toContain("--testNamePattern '^(Page saves \\(draft\\))$'");
+    });
+
+    it('should not fail the run on failures of quarantined tests', async () => {
+      stubJest(
+        {
+          'test-results-unit.json': JSON.stringify({
+            success: false,
+            numPassedTests: 1,
+            numFailedTests: 1,
+            numTotalTests: 2,
+            testResults: [
+              {
+                name: path.join(projectRoot, 'tests/unit/page.test.ts'),
+                assertionResults: [
+                  { title: 'renders', fullName: 'renders', status: 'passed' },
+                  { title: 'loads', fullName: 'loads', status: 'failed', failureMessages: ['Error: Timed out'] },
+                ],
+              },
+            ],
+          }),
+        },
+        Object.assign(new Error('Command failed'), { stdout: '', stderr: 'Tests failed' })
+      );
+      const runner = new TestRunner({
+        projectRoot,
+        runIntegration: false,
+        collectCoverage: false,
+        lint: 'off',
+        build: 'off',
+        retries: 2,
+        quarantined: [testKey({ file: 'tests/unit/page.test.ts', fullName: 'loads' })],
+      });
+
+      const result = await runner.runAll();
+
+      expect(result).toMatchObject({ success: true, testsFailed: 1, errors: undefined, failedTests: undefined });
+      expect(result.tests?.[1]).toMatchObject({ status: 'failed', quarantined: true });
+      expect(mockExecProcessTree).toHaveBeenCalledTimes(1);
+    });
+
+    it('should gate on the coverage of the changed lines in src/lib and report the uncovered ones', async () => {
+      const statements = (lines: Array<[number, number]>) => ({
+        statementMap: Object.fromEntries(lines.map(([line], i) => [String(i), { start: { line } }])),
+        s: Object.fromEntries(lines.map(([, count], i) => [String(i), count])),
+        f: { '0': 1 },
+        b: { '0': [1, 0] },
+      });
+      await fs.mkdir(path.join(projectRoot, 'coverage/unit'), { recursive: true });
+      await fs.writeFile(
+        path.join(projectRoot, 'coverage/unit/coverage-final.json'),
+        JSON.stringify({
+          [path.join(projectRoot, 'src/lib/a.ts')]: statements([[1, 2], [2, 1], [2, 0], [3, 0], [5, 0], [6, 0], [8, 4]]),
+          [path.join(projectRoot, 'src/app/page.tsx')]: statements([[1, 0], [2, 0]]),
+        })
+      );
+      stubJest({
+        'test-results-unit.json': JSON.stringify({ success: true, numPassedTests: 1, numFailedTests: 0, numTotalTests: 1, testResults: [] }),
+      });
+      const runner = new TestRunner({
+        projectRoot,
+        runIntegration: false,
+        coverageThreshold: 0,
+        lint: 'off',
+        build: 'off',
+        coverageGate: 'block',
+        coverageGateMinimum: 50,
+        changedLines: { 'src/lib/a.ts': [2, 3, 4, 5, 6, 8], 'src/app/page.tsx': [1], 'README.md': [1] },
+        baselineCoverage: { 'src/lib/a.ts': { covered: 3, total: 4 } },
+      });
+
+      const result = await runner.runAll();
+
+      expect(mockExecProcessTree.mock.calls[0][0]).toContain("--coverageDirectory=coverage/unit --coverageReporters=json --coverageThreshold='{}'");
+      expect(result.coverage).toMatchObject({ lines: 37.5, statements: 33.33, functions: 100, branches: 50 });
+      expect(result.coverage?.files?.['src/lib/a.ts']).toEqual({ covered: 3, total: 6 });
+      expect(result.success).toBe(false);
+      expect(result.stages?.[0]).toMatchObject({
+        name: 'coverage',
+        status: 'failed',
+        summary: '40% of 5 changed lines covered (minimum 50%)',
+      });
+      expect(result.stages?.[0].coverage?.baseline).toBe(true);
+      expect(result.stages?.[0].coverage?.files).toEqual([
+        { file: 'src/lib/a.ts', changed: 5, covered: 2, uncoveredLines: [3, 5, 6], before: 75, after: 50, gated: true },
+        { file: 'src/app/page.tsx', changed: 1, covered: 0, uncoveredLines: [1], before: null, after: 0, gated: false },
+      ]);
+      expect(result.errors).toContain('src/lib/a.ts: lines 3, 5-6 are not covered by any test');
+      expect(result.errors).not.toContain('src/app/page.tsx');
+    });
+
+    it('should fail the run when Jest writes no report instead of reading a stale one', async () => {
+      await fs.writeFile(
+        path.join(projectRoot, 'test-results-unit.json'),
+        JSON.stringify({ success: true, numPassedTests: 5, numFailedTests: 0, numTotalTests: 5, testResults: [] })
+      );
+      stubJest({}, Object.assign(new Error('Command failed'), { stdout: '', stderr: 'Cannot find module jest' }));
+      const runner = new TestRunner({ projectRoot, runIntegration: false, collectCoverage: false, lint: 'off', build: 'off' });
+
+      const result = await runner.runAll();
+
+      expect(result).toMatchObject({ success: false, testsPassed: 0, totalTests: 0 });
+      expect(result.errors).toContain('Jest did not write a test report (test-results-unit.json)');
+      expect(result.errors).toContain('Cannot find module jest');
+      expect(existsSync(path.join(projectRoot, 'test-results-unit.json'))).toBe(false);
+    });
+
+    it('should not run gates whose policy is off', async () => {
+      const runner = new TestRunner({ projectRoot, runIntegration: false, collectCoverage: false, lint: 'off', build: 'off' });
+      jest.spyOn(runner, 'runUnitTests').mockResolvedValue(passingUnitTests);
+
+      const result = await runner.runAll();
+
+      expect(result.success).toBe(true);
+      expect(result.stages).toBeUndefined();
+      expect(mockLintFiles).not.toHaveBeenCalled();
+      expect(mockExecProcessTree).not.toHaveBeenCalled();
+    });
+  });
 });
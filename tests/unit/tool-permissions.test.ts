@@ -0,0 +1,30 @@
+/**
+ * Tests for the Agent SDK protected-file permission callback
+ */
+
+import { createProtectedFileGuard } from '@/lib/agents/tool-permissions';
+
+describe('createProtectedFileGuard', () => {
+  const guard = createProtectedFileGuard('/srv/staging');
+  const options = { signal: new AbortController().signal, toolUseID: 'tool_1' };
+
+  it('should deny edits to protected files', async () => {
+    const relative = await guard('Edit', { file_path: 'src/lib/auth.ts' }, options);
+    const absolute = await guard('Write', { file_path: '/srv/staging/.env.local' }, options);
+
+    expect(relative).toMatchObject({ behavior: 'deny' });
+    expect(absolute).toMatchObject({ behavior: 'deny', message: expect.stringContaining('.env.local') });
+  });
+
+  it('should deny writes outside the project root', async () => {
+    const result = await guard('Write', { file_path: '/etc/hosts' }, options);
+
+    expect(result).toMatchObject({ behavior: 'deny', message: expect.stringContaining('outside the project') });
+  });
+
+  it('should allow other edits and non-writing tools', async () => {
+    await expect(guard('Edit', { file_path: 'src/app/page.tsx' }, options)).resolves.toMatchObject({ behavior: 'allow' });
+    await expect(guard('Read', { file_path: 'src/lib/auth.ts' }, options)).resolves.toMatchObject({ behavior: 'allow' });
+    await expect(guard('Bash', { command: 'npm test' }, options)).resolves.toMatchObject({ behavior: 'allow' });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Tests for TypeChecker (in-memory type checking of changed files and their dependents)
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { TypeChecker, formatDiagnostic } from '@/lib/code-modification/type-checker';
+
+describe('TypeChecker', () => {
+  let tmpDir: string;
+  let checker: TypeChecker;
+
+  const write = async (file: string, content: string) => {
+    await fs.mkdir(path.dirname(path.join(tmpDir, file)), { recursive: true });
+    await fs.writeFile(path.join(tmpDir, file), content);
+  };
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'type-checker-test-'));
+
+    await write(
+      'tsconfig.json',
+      JSON.stringify({
+        compilerOptions: {
+          strict: true,
+          noEmit: true,
+          lib: ['es2020'],
+          types: [],
+          moduleResolution: 'bundler',
+          module: 'esnext',
+          paths: { '@/*': ['./src/*'] },
+        },
+        include: ['**/*.ts'],
+      })
+    );
+    await write('src/lib/math.ts', 'export function add(a: number, b: number): number {\n  return a + b;\n}\n');
+    await write('src/lib/total.ts', "import { add } from './math';\n\nexport const total = add(1, 2);\n");
+    await write('src/app/page.ts', "import { total } from '@/lib/total';\n\nexport const label: number = total;\n");
+    // Broken but unrelated to math.ts, so never checked below
+    await write('src/other.ts', "export const broken: number = 'not a number';\n");
+
+    checker = new TypeChecker(tmpDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should check the changed file and its direct and indirect dependents', async () => {
+    const result = await checker.checkFiles(['src/lib/math.ts']);
+
+    expect(result.success).toBe(true);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.checkedFiles).toEqual(['src/app/page.ts', 'src/lib/math.ts', 'src/lib/total.ts']);
+  });
+
+  it('should report errors in dependents with their location', async () => {
+    await checker.checkFiles(['src/lib/math.ts']); // Warm up, then change the file on disk
+    await write('src/lib/math.ts', 'export function add(a: string, b: string): string {\n  return a + b;\n}\n');
+
+    const result = await checker.checkFiles(['src/lib/math.ts']);
+
+    expect(result.success).toBe(false);
+    expect(result.diagnostics.map((diagnostic) => [diagnostic.file, diagnostic.code])).toEqual([
+      ['src/app/page.ts', 2322],
+      ['src/lib/total.ts', 2345],
+    ]);
+    expect(result.diagnostics[1]).toMatchObject({ line: 3, column: 26, category: 'error' });
+    expect(formatDiagnostic(result.diagnostics[1])).toMatch(/^src\/lib\/total\.ts\(3,26\): error TS2345: /);
+  });
+
+  it('should check overridden content without touching the file on disk', async () => {
+    const result = await checker.checkFiles(['src/lib/total.ts'], {
+      overrides: { 'src/lib/total.ts': "import { add } from './math';\n\nexport const total = add('1', 2);\n" },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.diagnostics[0]).toMatchObject({ file: 'src/lib/total.ts', code: 2345 });
+    expect((await checker.checkFiles(['src/lib/total.ts'])).success).toBe(true);
+  });
+
+  it('should check new files picked up through tsconfig include', async () => {
+    await write('src/lib/extra.ts', "import { add } from '@/lib/math';\n\nexport const extra: string = add(1, 1);\n");
+
+    const result = await checker.checkFiles(['src/lib/extra.ts']);
+
+    expect(result.checkedFiles).toEqual(['src/lib/extra.ts']);
+    expect(result.diagnostics.map((diagnostic) => diagnostic.code)).toEqual([2322]);
+  });
+
+  it('should check the files still importing a deleted file', async () => {
+    await checker.checkFiles(['src/lib/math.ts']);
+    await fs.unlink(path.join(tmpDir, 'src/lib/math.ts'));
+
+    const result = await checker.checkFiles(['src/lib/math.ts']);
+
+    expect(result.checkedFiles).toEqual(['src/app/page.ts', 'src/lib/total.ts']);
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ file: 'src/lib/total.ts', code: 2307, line: 1 }),
+    ]);
+  });
+
+  it('should only report the errors a change introduces compared to the baseline', async () => {
+    const before = await fs.readFile(path.join(tmpDir, 'src/lib/math.ts'), 'utf-8');
+    await write('src/app/page.ts', "import { total } from '@/lib/total';\n\nexport const label: string = total;\n");
+    await write('src/lib/math.ts', `// Adds numbers\n${before}`);
+
+    const unrelated = await checker.checkFiles(['src/lib/math.ts'], { baseline: { 'src/lib/math.ts': before } });
+
+    expect(unrelated).toMatchObject({ success: true, diagnostics: [], preexistingErrors: 1 });
+
+    await write('src/lib/math.ts', 'export function add(a: string, b: number): string {\n  return a + b;\n}\n');
+    await write('src/lib/created.ts', 'export const created: number = "one";\n');
+
+    const result = await checker.checkFiles(['src/lib/math.ts', 'src/lib/created.ts'], {
+      baseline: { 'src/lib/math.ts': before, 'src/lib/created.ts': null },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.diagnostics.map((diagnostic) => [diagnostic.file, diagnostic.code])).toEqual([
+      ['src/lib/created.ts', 2322],
+      ['src/lib/total.ts', 2345],
+    ]);
+    expect(result.preexistingErrors).toBe(0);
+  });
+
+  it('should run checks in a worker process', async () => {
+    const worker = new TypeChecker(tmpDir, { worker: true });
+    await write('src/lib/math.ts', 'export function add(a: string, b: string): string {\n  return a + b;\n}\n');
+
+    const result = await worker.checkFiles(['src/lib/math.ts']);
+
+    expect(result.diagnostics.map((diagnostic) => diagnostic.file)).toEqual(['src/app/page.ts', 'src/lib/total.ts']);
+    expect(await worker.findDependents(['src/lib/total.ts'])).toEqual(['src/app/page.ts', 'src/lib/total.ts']);
+  }, 30000);
+});
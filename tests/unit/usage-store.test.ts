@@ -0,0 +1,122 @@
+/**
+ * Tests for UsageStore (AgentUsage table), budgets and cost estimates
+ */
+
+jest.mock('@/lib/db', () => ({ prisma: {} }));
+
+import { PrismaClient } from '@prisma/client';
+import { UsageStore } from '@/lib/usage/usage-store';
+import { estimateCost, usageFromResultMessage } from '@/lib/usage/pricing';
+import { parseStreamJsonUsage } from '@/lib/agents/agent-activity';
+import { createFakePrisma, Row } from '../helpers/fake-prisma';
+
+/**
+ * Fake client with the AgentUsage table and the given users
+ */
+function createUsagePrisma(users: Row[] = []): { prisma: PrismaClient; rows: Row[] } {
+  const { prisma, tables } = createFakePrisma({ agentUsage: { idPrefix: 'usage' }, user: { rows: users } });
+  return { prisma, rows: tables.agentUsage };
+}
+
+describe('UsageStore', () => {
+  const originalBudget = process.env.USAGE_MONTHLY_BUDGET_USD;
+  const originalAdminBudget = process.env.USAGE_ADMIN_MONTHLY_BUDGET_USD;
+
+  afterEach(() => {
+    process.env.USAGE_MONTHLY_BUDGET_USD = originalBudget;
+    process.env.USAGE_ADMIN_MONTHLY_BUDGET_USD = originalAdminBudget;
+    if (originalBudget === undefined) delete process.env.USAGE_MONTHLY_BUDGET_USD;
+    if (originalAdminBudget === undefined) delete process.env.USAGE_ADMIN_MONTHLY_BUDGET_USD;
+  });
+
+  it('should use the reported cost, or estimate it from the model price', async () => {
+    const { prisma, rows } = createUsagePrisma();
+    const store = new UsageStore(prisma);
+
+    await store.record({
+      jobId: 'job_1',
+      adminId: 'admin_1',
+      provider: 'claude-cli',
+      operation: 'modify',
+      usage: { model: 'claude-sonnet-4', inputTokens: 1000, outputTokens: 100, costUsd: 0.42 },
+      durationMs: 1234.5,
+    });
+    await store.record({
+      provider: 'bedrock',
+      operation: 'plan',
+      usage: { model: 'claude-3-opus', inputTokens: 1_000_000, outputTokens: 0 },
+      durationMs: 10,
+    });
+
+    expect(rows[0]).toMatchObject({ jobId: 'job_1', adminId: 'admin_1', costUsd: 0.42, durationMs: 1235 });
+    expect(rows[1]).toMatchObject({ jobId: null, model: 'claude-3-opus', costUsd: 15 });
+  });
+
+  it('should summarise a month by day, month and admin', async () => {
+    const { prisma, rows } = createUsagePrisma([{ id: 'admin_1', name: 'Ada', email: 'ada@example.com' }]);
+    const store = new UsageStore(prisma);
+    const row = (createdAt: string, adminId: string | null, costUsd: number) =>
+      rows.push({ createdAt: new Date(createdAt), adminId, costUsd, inputTokens: 100, outputTokens: 10 });
+
+    row('2026-10-01T08:00:00Z', 'admin_1', 1);
+    row('2026-10-01T20:00:00Z', null, 0.5);
+    row('2026-10-19T12:00:00Z', 'admin_1', 2);
+    row('2026-09-30T23:59:59Z', 'admin_1', 4);
+
+    const summary = await store.getSummary({ month: '2026-10' });
+
+    expect(summary.totals).toEqual({ calls: 3, inputTokens: 300, outputTokens: 30, costUsd: 3.5 });
+    expect(summary.daily.map((day) => [day.date, day.costUsd])).toEqual([['2026-10-01', 1.5], ['2026-10-19', 2]]);
+    expect(summary.monthly).toHaveLength(12);
+    expect(summary.monthly.slice(-2).map((month) => [month.month, month.costUsd])).toEqual([['2026-09', 4], ['2026-10', 3.5]]);
+    expect(summary.byAdmin[0]).toMatchObject({ adminId: 'admin_1', name: 'Ada', calls: 2, costUsd: 3 });
+    expect(summary.byAdmin[1]).toMatchObject({ adminId: null, name: null, costUsd: 0.5 });
+  });
+
+  it('should block requests once a monthly budget is spent', async () => {
+    const { prisma, rows } = createUsagePrisma();
+    const store = new UsageStore(prisma);
+    const now = new Date('2026-10-19T12:00:00Z');
+    rows.push({ createdAt: new Date('2026-10-02T00:00:00Z'), adminId: 'admin_1', costUsd: 30 });
+    rows.push({ createdAt: new Date('2026-10-03T00:00:00Z'), adminId: 'admin_2', costUsd: 15 });
+    rows.push({ createdAt: new Date('2026-09-03T00:00:00Z'), adminId: 'admin_2', costUsd: 100 });
+
+    await expect(store.checkBudget('admin_1', now)).resolves.toMatchObject({ allowed: true });
+
+    process.env.USAGE_ADMIN_MONTHLY_BUDGET_USD = '20';
+    await expect(store.checkBudget('admin_1', now)).resolves.toMatchObject({ allowed: false, adminSpentUsd: 30 });
+    await expect(store.checkBudget('admin_2', now)).resolves.toMatchObject({ allowed: true, adminSpentUsd: 15 });
+
+    process.env.USAGE_MONTHLY_BUDGET_USD = '40';
+    const check = await store.checkBudget('admin_2', now);
+    expect(check.allowed).toBe(false);
+    expect(check.error).toContain('$45.00 of $40.00');
+  });
+});
+
+describe('usage parsing', () => {
+  it('should read tokens and cost from an agent result message', () => {
+    const usage = usageFromResultMessage({
+      type: 'result',
+      usage: { input_tokens: 10, cache_read_input_tokens: 500, cache_creation_input_tokens: 90, output_tokens: 42 },
+      total_cost_usd: 0.0123,
+    }, 'claude-sonnet-4');
+
+    expect(usage).toEqual({ model: 'claude-sonnet-4', inputTokens: 600, outputTokens: 42, costUsd: 0.0123 });
+    expect(usageFromResultMessage({ type: 'result' })).toBeUndefined();
+  });
+
+  it('should read the model and usage from CLI stream-json output', () => {
+    const stdout = [
+      JSON.stringify({ type: 'system', subtype: 'init', model: 'claude-opus-4' }),
+      JSON.stringify({ type: 'result', result: 'Done', usage: { input_tokens: 5, output_tokens: 7 }, total_cost_usd: 0.5 }),
+    ].join('\n');
+
+    expect(parseStreamJsonUsage(stdout)).toEqual({ model: 'claude-opus-4', inputTokens: 5, outputTokens: 7, costUsd: 0.5 });
+  });
+
+  it('should estimate cost by model family', () => {
+    expect(estimateCost('us.anthropic.claude-3-5-haiku', 1_000_000, 1_000_000)).toBeCloseTo(4.8);
+    expect(estimateCost(undefined, 1_000_000, 0)).toBe(3);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Tests for WorktreeLock (database-backed staging worktree lock)
+ */
+
+jest.mock('@/lib/db', () => ({ prisma: {} }));
+
+import { PrismaClient } from '@prisma/client';
+import { WorktreeLock } from '@/lib/jobs/worktree-lock';
+import { createFakePrisma } from '../helpers/fake-prisma';
+
+describe('WorktreeLock', () => {
+  let prisma: PrismaClient;
+  let lock: WorktreeLock;
+
+  beforeEach(() => {
+    prisma = createFakePrisma({ worktreeLock: { defaults: { adminId: null }, createdAt: 'acquiredAt' } }).prisma;
+    lock = new WorktreeLock({}, prisma);
+  });
+
+  it('should acquire a free lock', async () => {
+    const result = await lock.acquire('job_1', 'admin_1');
+
+    expect(result.acquired).toBe(true);
+    expect(result.holder?.jobId).toBe('job_1');
+    expect(result.holder?.adminId).toBe('admin_1');
+  });
+
+  it('should refuse a lock held by another job', async () => {
+    await lock.acquire('job_1');
+    const result = await lock.acquire('job_2');
+
+    expect(result.acquired).toBe(false);
+    expect(result.holder?.jobId).toBe('job_1');
+  });
+
+  it('should be re-entrant for the holding job', async () => {
+    await lock.acquire('job_1');
+    const result = await lock.acquire('job_1');
+
+    expect(result.acquired).toBe(true);
+  });
+
+  it('should take over an expired lease', async () => {
+    const shortLock = new WorktreeLock({ leaseMs: -1000 }, prisma);
+    await shortLock.acquire('job_1');
+
+    const result = await lock.acquire('job_2');
+    expect(result.acquired).toBe(true);
+    expect(result.holder?.jobId).toBe('job_2');
+  });
+
+  it('should only release when held by the given job', async () => {
+    await lock.acquire('job_1');
+
+    expect(await lock.release('job_2')).toBe(false);
+    expect(await lock.renew('job_2')).toBe(false);
+    expect(await lock.release('job_1')).toBe(true);
+    expect(await lock.getHolder()).toBeNull();
+  });
+
+  it('should force release and return the previous holder', async () => {
+    await lock.acquire('job_1');
+
+    const released = await lock.forceRelease();
+    expect(released?.jobId).toBe('job_1');
+    expect(await lock.getHolder()).toBeNull();
+    expect(await lock.forceRelease()).toBeNull();
+  });
+});